@@ -1,28 +1,37 @@
 import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
-import { BarChart2, ChevronLeft, ChevronRight, List, LogOut, Zap, GitCompare, Star } from 'lucide-react';
+import { BarChart2, ChevronLeft, ChevronRight, HardDrive, List, LogOut, Zap, GitCompare, Star } from 'lucide-react';
 import { useUser, useAuth as useClerkAuth } from "@clerk/clerk-react"; 
 import { AppState, ViewState, ContestInput, ContestDerived, Entitlement, GameInfo } from './types';
 import { parseProjections, parsePipelineJson, parseOptimizerLineups, parseUserLineupsRows, canonicalizeId, normalizeName } from './utils/csvParser';
 import { buildInjuryLookup, getPlayerInjuryInfo, InjuryLookup, shouldExcludePlayerForInjury } from './utils/injuries';
 import { buildStartingLineupLookup, StartingLineupLookup } from './utils/startingLineups';
+import { applyOwnershipEstimates } from './utils/ownership';
+import { redistributeInjuredMinutes } from './utils/injuryRedistribution';
+import { applyMinutesDistributions } from './utils/minutesDistribution';
+import { getSiteRules } from './utils/siteRules';
+import { buildSitePlayerPool } from './utils/showdown';
 import { DashboardView } from './components/DashboardView';
 import { OptimizerView } from './components/OptimizerView';
 import { deriveContest, DEFAULT_CONTEST, deriveGamesFromPlayers, recomputeLineupDisplay } from './utils/contest';
-import { saveContestInput, loadContestInput, saveBeliefs, loadBeliefs } from './utils/storage';
 import { loadSlateEcosystem } from './utils/assetLoader';
+import { clearEntrySession, loadSlateSnapshot, readContestInput, saveSlateSnapshot, writeBeliefs, writeContestInput } from './utils/persistence';
+import { useProjectionSources } from './src/hooks/useProjectionSources';
+import { useSlateNewsRefresh } from './src/hooks/useSlateNewsRefresh';
 import { AuthProvider, useAuth } from './context/AuthContext';
-import { LineupProvider } from './context/LineupContext';
+import { LineupProvider, useLineup } from './context/LineupContext';
 import { SplashLogin } from './components/SplashLogin';
 import { PricingPage } from './components/PricingPage';
 import { TermsPage } from './components/TermsPage';
 import { PrivacyPage } from './components/PrivacyPage';
 import { LineupDrawer } from './components/LineupDrawer';
-import DKEntryManager from './components/DKEntryManager';
+import DKEntryManager, { EntrySwapRequest } from './components/DKEntryManager';
+import { NewsAlertsPanel } from './components/NewsAlertsPanel';
 import ReportView from './components/ReportView';
 import { CompareView } from './components/CompareView';
 import { SlateSimLogo } from './components/SlateSimLogo';
 import { SlateRecommendations } from './components/SlateRecommendations';
 import { SlateReviewView } from './components/SlateReviewView';
+import { StorageManager } from './components/StorageManager';
 
 // Simple error boundary to prevent report page from blanking the UI
 class ErrorBoundary extends React.Component<{ fallback: React.ReactNode }, { hasError: boolean }> {
@@ -71,8 +80,6 @@ const INITIAL_STATE: AppState = {
   lastUpdated: 0,
 };
 
-const ENTRY_MANAGER_SESSION_KEY = 'slatesim.entryManager.session.v1';
-
 const IntegrityFooter: React.FC<{ withBottomNav?: boolean }> = ({ withBottomNav = false }) => {
   return (
     <footer className={`w-full bg-black/40 border-t border-ink-border py-4 px-6 mt-12 backdrop-blur-md ${withBottomNav ? 'mb-24 sm:mb-20' : ''}`}>
@@ -710,6 +717,7 @@ const AppContent: React.FC<{ previewMode?: boolean }> = ({ previewMode = false }
   const previousSelectedDateRef = useRef(selectedDate);
   const latestInitRequestRef = useRef(0);
   const [showActuals, setShowActuals] = useState(true);
+  const [showStorageManager, setShowStorageManager] = useState(false);
   const [injuryLookup, setInjuryLookup] = useState<InjuryLookup>(new Map());
   const [injuriesAsOf, setInjuriesAsOf] = useState<string | null>(null);
   const [dataLastModified, setDataLastModified] = useState<string | null>(null);
@@ -827,7 +835,7 @@ const AppContent: React.FC<{ previewMode?: boolean }> = ({ previewMode = false }
   useEffect(() => {
     const previousDate = previousSelectedDateRef.current;
     if (previousDate && previousDate !== selectedDate) {
-      localStorage.removeItem(ENTRY_MANAGER_SESSION_KEY);
+      clearEntrySession();
     }
     previousSelectedDateRef.current = selectedDate;
   }, [selectedDate]);
@@ -951,9 +959,9 @@ const AppContent: React.FC<{ previewMode?: boolean }> = ({ previewMode = false }
         }
       }
 
-      const savedContest = loadContestInput();
+      const savedContest = readContestInput();
 
-      const loadResult = await loadSlateEcosystem({
+      let loadResult = await loadSlateEcosystem({
         targetDate: selectedDate,
         slateFolder: slateToUse ?? undefined,
         includeHistory: true,
@@ -963,6 +971,17 @@ const AppContent: React.FC<{ previewMode?: boolean }> = ({ previewMode = false }
       if (loadResult.errors) {
         console.warn('Slate ecosystem load warnings:', loadResult.errors, loadResult.loadedFrom);
       }
+      if (loadResult.ok && loadResult.data?.slate) {
+        void saveSlateSnapshot(selectedDate, slateToUse, loadResult);
+      } else {
+        // Offline or the data service is down: fall back to the last copy of this slate.
+        const cached = await loadSlateSnapshot(selectedDate, slateToUse);
+        if (requestId !== latestInitRequestRef.current) return;
+        if (cached) {
+          console.warn(`Using cached slate data for ${selectedDate}`);
+          loadResult = cached;
+        }
+      }
 
       if (!loadResult.ok || !loadResult.data?.slate) {
         if (requestId !== latestInitRequestRef.current) return;
@@ -1009,6 +1028,7 @@ const AppContent: React.FC<{ previewMode?: boolean }> = ({ previewMode = false }
         }
         return p;
       });
+      refPlayers = applyMinutesDistributions(refPlayers, games);
 
       const finalLineups = refData.referenceLineups || [];
       
@@ -1018,10 +1038,29 @@ const AppContent: React.FC<{ previewMode?: boolean }> = ({ previewMode = false }
       }
 
       const nextInjuryLookup = buildInjuryLookup(loadResult.data.injuries);
-      const filteredPlayers = refPlayers.filter((player) => {
+      const nextStartingLineupLookup = buildStartingLineupLookup(loadResult.data.startingLineups);
+      const ruledOutPlayers = refPlayers.filter((player) => {
         const injuryInfo = getPlayerInjuryInfo(player, nextInjuryLookup);
-        return !shouldExcludePlayerForInjury(injuryInfo);
+        return shouldExcludePlayerForInjury(injuryInfo);
       });
+      const activePlayers = redistributeInjuredMinutes(
+        refPlayers.filter((player) => !ruledOutPlayers.includes(player)),
+        {
+          unavailablePlayers: ruledOutPlayers,
+          depthCharts: loadResult.data.depthCharts,
+          startingLineups: nextStartingLineupLookup,
+        },
+      );
+      const filteredPlayers = applyOwnershipEstimates(
+        activePlayers,
+        {
+          gameCount: games.length,
+          rosterSize: getSiteRules((contestState?.input ?? savedContest)?.site).slots.length,
+          startingLineups: nextStartingLineupLookup,
+          injuries: nextInjuryLookup,
+          unavailablePlayers: ruledOutPlayers,
+        },
+      );
       if (requestId !== latestInitRequestRef.current) return;
 
       setState(prev => ({
@@ -1042,7 +1081,7 @@ const AppContent: React.FC<{ previewMode?: boolean }> = ({ previewMode = false }
       setInjuriesAsOf(loadResult.data.injuriesAsOf ?? null);
       setDataLastModified(loadResult.lastModified?.latest ?? null);
       setDepthCharts(loadResult.data.depthCharts ?? null);
-      setStartingLineupLookup(buildStartingLineupLookup(loadResult.data.startingLineups));
+      setStartingLineupLookup(nextStartingLineupLookup);
 
       if (requestId !== latestInitRequestRef.current) return;
       setLoading(false);
@@ -1055,7 +1094,53 @@ const AppContent: React.FC<{ previewMode?: boolean }> = ({ previewMode = false }
     setIsHistorical(isDateBeforeToday(state.slate.date));
   }, [state.slate.date]);
 
-  useEffect(() => { saveContestInput(state.contestState.input); }, [state.contestState.input]);
+  useEffect(() => { writeContestInput(state.contestState.input); }, [state.contestState.input]);
+
+  const contestSite = state.contestState.input.site;
+  const { setSite: setLineupSite } = useLineup();
+  useEffect(() => { setLineupSite(contestSite); }, [contestSite, setLineupSite]);
+
+  const handleSiteChange = useCallback((site: ContestInput['site']) => {
+    setState(prev => {
+      if (prev.contestState.input.site === site) return prev;
+      const input = { ...prev.contestState.input, site };
+      return { ...prev, contestState: { input, derived: deriveContest(input) } };
+    });
+  }, []);
+
+  const projectionSources = useProjectionSources(state.slate.date, state.slate.players);
+
+  // Lineup-building views work on the site's pool, which adds captain rows on Showdown.
+  const contestSiteRules = useMemo(() => getSiteRules(contestSite), [contestSite]);
+  const sitePlayers = useMemo(
+    () => buildSitePlayerPool(state.slate.players, contestSiteRules),
+    [state.slate.players, contestSiteRules],
+  );
+  const optimizerPlayers = useMemo(
+    () => buildSitePlayerPool(projectionSources.blend.players, contestSiteRules),
+    [projectionSources.blend.players, contestSiteRules],
+  );
+
+  const [entrySwapRequest, setEntrySwapRequest] = useState<EntrySwapRequest | null>(null);
+  const handleNewsSnapshot = useCallback((injuries: InjuryLookup, startingLineups: StartingLineupLookup, asOf?: string) => {
+    setInjuryLookup(injuries);
+    setStartingLineupLookup(startingLineups);
+    if (asOf) setInjuriesAsOf(asOf);
+  }, []);
+  const slateNews = useSlateNewsRefresh({
+    slateDate: state.slate.date,
+    slateFolder: selectedSlate,
+    players: state.slate.players,
+    injuryLookup,
+    startingLineupLookup,
+    fetcher: authedFetch,
+    enabled: !previewMode && !isHistorical && !loading && state.slate.players.length > 0,
+    onSnapshot: handleNewsSnapshot,
+  });
+  const handleNewsSwapEntry = useCallback((entryId: string, playerId: string) => {
+    setEntrySwapRequest({ entryId, playerId, requestedAt: Date.now() });
+    setView(ViewState.ENTRY_MANAGER);
+  }, []);
 
   const computedLineups = useMemo(
     () => recomputeLineupDisplay(state.slate.lineups, state.contestState, state.slate.players),
@@ -1067,12 +1152,18 @@ const AppContent: React.FC<{ previewMode?: boolean }> = ({ previewMode = false }
     if (!file) return;
     setLoading(true);
     try {
-      const newBeliefPlayers = await parseProjections(file);
-      saveBeliefs(newBeliefPlayers, file.name);
+      const uploadedPlayers = await parseProjections(file);
+      writeBeliefs(uploadedPlayers, file.name);
+      const newBeliefPlayers = applyOwnershipEstimates(uploadedPlayers, {
+        gameCount: state.slate.games.length || Math.ceil(new Set(uploadedPlayers.map((player) => player.team)).size / 2),
+        rosterSize: getSiteRules(contestSite).slots.length,
+        startingLineups: startingLineupLookup,
+        injuries: injuryLookup,
+      });
       setState(prev => ({ ...prev, slate: { ...prev.slate, players: newBeliefPlayers } }));
     } catch (e) { alert("Import Error: Failed to update projections."); }
     setLoading(false);
-  }, []);
+  }, [state.slate.games.length, contestSite, startingLineupLookup, injuryLookup]);
 
   const onLineupUpload = useCallback(async (acceptedFiles: File[]) => {
     const file = acceptedFiles[0];
@@ -1214,7 +1305,10 @@ const AppContent: React.FC<{ previewMode?: boolean }> = ({ previewMode = false }
                   Back
                 </a>
               ) : (
-                <button onClick={logout} className="p-2 rounded-full hover:bg-red-500/10 text-ink/40 hover:text-red-600 transition-colors"><LogOut className="w-5 h-5" /></button>
+                <>
+                  <button onClick={() => setShowStorageManager(true)} title="Local storage" className="p-2 rounded-full hover:bg-ink/5 text-ink/40 hover:text-ink transition-colors"><HardDrive className="w-5 h-5" /></button>
+                  <button onClick={logout} className="p-2 rounded-full hover:bg-red-500/10 text-ink/40 hover:text-red-600 transition-colors"><LogOut className="w-5 h-5" /></button>
+                </>
               )}
             </div>
           </div>
@@ -1303,6 +1397,18 @@ const AppContent: React.FC<{ previewMode?: boolean }> = ({ previewMode = false }
             />
           )}
           <div className="min-w-0">
+            {!previewMode && (
+              <NewsAlertsPanel
+                alerts={slateNews.alerts}
+                lastCheckedAt={slateNews.lastCheckedAt}
+                checking={slateNews.checking}
+                onRefresh={() => void slateNews.refreshNow()}
+                onDismiss={slateNews.dismissAlert}
+                onClear={slateNews.clearAlerts}
+                onSwapEntry={handleNewsSwapEntry}
+                onOpenOptimizer={() => setView(ViewState.OPTIMIZER)}
+              />
+            )}
             {view === ViewState.RESEARCH && (
               <DashboardView
                 players={state.slate.players}
@@ -1342,7 +1448,7 @@ const AppContent: React.FC<{ previewMode?: boolean }> = ({ previewMode = false }
             {!previewMode && view === ViewState.OPTIMIZER && (
               canAccessOptimizer ? (
                 <OptimizerView
-                  players={state.slate.players}
+                  players={optimizerPlayers}
                   games={state.slate.games}
                   slateDate={state.slate.date}
                   showActuals={effectiveShowActuals}
@@ -1350,6 +1456,10 @@ const AppContent: React.FC<{ previewMode?: boolean }> = ({ previewMode = false }
                   depthCharts={depthCharts}
                   startingLineupLookup={startingLineupLookup}
                   deepDiveAllowedTabs={deepDiveAllowedTabs}
+                  site={contestSite}
+                  onSiteChange={handleSiteChange}
+                  projectionSources={projectionSources}
+                  fieldSize={state.contestState.input.fieldSize}
                 />
               ) : (
                 <MembershipGateCard
@@ -1366,13 +1476,17 @@ const AppContent: React.FC<{ previewMode?: boolean }> = ({ previewMode = false }
                   if (isToday || (isAdmin && isHistorical)) {
                     return (
                       <DKEntryManager
-                        players={state.slate.players}
+                        players={sitePlayers}
                         games={state.slate.games}
                         showActuals={effectiveShowActuals}
                         slateDate={state.slate.date}
                         selectedSlate={selectedSlate}
                         deepDiveAllowedTabs={deepDiveAllowedTabs}
                         isHistoricalMode={isAdmin && isHistorical}
+                        site={contestSite}
+                        onSiteChange={handleSiteChange}
+                        contest={state.contestState.input}
+                        swapRequest={entrySwapRequest}
                       />
                     );
                   }
@@ -1398,6 +1512,7 @@ const AppContent: React.FC<{ previewMode?: boolean }> = ({ previewMode = false }
                     slateDate={state.slate.date}
                     hideBestPossibleLineup={effectiveRole === 'soft-launch'}
                     deepDiveAllowedTabs={deepDiveAllowedTabs}
+                    fetcher={authedFetch}
                   />
                 </ErrorBoundary>
               ) : (
@@ -1416,7 +1531,7 @@ const AppContent: React.FC<{ previewMode?: boolean }> = ({ previewMode = false }
             )}
             {!previewMode && view === ViewState.SLATE_RECOMMENDATIONS && (
               canAccessPicks ? (
-                <SlateRecommendations players={state.slate.players || []} showActuals={effectiveShowActuals} />
+                <SlateRecommendations players={state.slate.players || []} showActuals={effectiveShowActuals} slateDate={state.slate.date} fetcher={authedFetch} />
               ) : (
                 <MembershipGateCard
                   title="Picks Is For Paid Members"
@@ -1429,7 +1544,7 @@ const AppContent: React.FC<{ previewMode?: boolean }> = ({ previewMode = false }
       </main>
 
       <IntegrityFooter withBottomNav={!previewMode} />
-      {!previewMode && <LineupDrawer players={state.slate.players} showActuals={effectiveShowActuals} />}
+      {!previewMode && <LineupDrawer players={sitePlayers} showActuals={effectiveShowActuals} />}
 
       {!previewMode && (
         <nav className="fixed bottom-0 left-0 right-0 bg-white/80 border-t border-ink/10 px-2 sm:px-6 py-2 pb-safe z-40 shadow-2xl backdrop-blur-md">
@@ -1446,6 +1561,8 @@ const AppContent: React.FC<{ previewMode?: boolean }> = ({ previewMode = false }
         </nav>
       )}
 
+      {showStorageManager && <StorageManager onClose={() => setShowStorageManager(false)} />}
+
       {loading && (
         <div className="fixed inset-0 bg-vellum/60 flex items-center justify-center z-[100] backdrop-blur-md">
             <div className="bg-white p-6 rounded-xl shadow-2xl border border-ink/10 w-full max-w-sm">
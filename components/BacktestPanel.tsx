@@ -0,0 +1,296 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { History, Play, Square } from 'lucide-react';
+import { OptimizerJob, startOptimizerJob } from '../src/lib/optimizerClient';
+import {
+  BacktestConfigEntry,
+  BacktestProgress,
+  BacktestSlateResult,
+  BacktestSummary,
+  DEFAULT_CASH_LINE,
+  findRecentSlates,
+  loadBacktestSlate,
+  runBacktest,
+  summarizeBacktest,
+} from '../utils/backtest';
+import { createDefaultOptimizerConfig, sanitizeOptimizerConfig } from '../utils/optimizerConfig';
+import { listOptimizerSettings } from '../utils/persistence';
+
+interface Props {
+  /** Backtests cover the slates before this date. */
+  endDate: string;
+  fetcher?: (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>;
+}
+
+const DEFAULT_CONFIG_VALUE = 'default';
+const NO_CONFIG_VALUE = 'none';
+const DEFAULT_SLATE_COUNT = 10;
+const MAX_SLATE_COUNT = 60;
+
+const pct = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const inputClass =
+  'h-8 bg-white/60 border border-ink/20 rounded-sm px-2 text-xs font-mono focus:border-drafting-orange outline-none text-ink';
+
+const SUMMARY_ROWS: Array<{ label: string; render: (summary: BacktestSummary) => string }> = [
+  { label: 'Slates scored', render: (s) => `${s.slates} (${s.lineups} lineups)` },
+  { label: 'Best lineup (median / mean)', render: (s) => `${s.best.median.toFixed(1)} / ${s.best.mean.toFixed(1)}` },
+  { label: 'Best lineup range', render: (s) => `${s.best.min.toFixed(1)} – ${s.best.max.toFixed(1)}` },
+  { label: 'Avg lineup (median / mean)', render: (s) => `${s.average.median.toFixed(1)} / ${s.average.mean.toFixed(1)}` },
+  { label: 'Lineups over cash line', render: (s) => pct(s.cashRate) },
+  { label: 'Slates with a cash', render: (s) => pct(s.slateCashRate) },
+  { label: 'Top player exposure', render: (s) => `${s.meanTopExposure.toFixed(1)}%` },
+  { label: 'Unique players per slate', render: (s) => s.meanUniquePlayers.toFixed(1) },
+  {
+    label: 'Roster spots chalk / mid / low',
+    render: (s) => `${pct(s.ownershipMix.chalk)} / ${pct(s.ownershipMix.mid)} / ${pct(s.ownershipMix.contrarian)}`,
+  },
+];
+
+export const BacktestPanel: React.FC<Props> = ({ endDate, fetcher }) => {
+  const savedConfigs = useMemo(() => listOptimizerSettings(), []);
+  const [configA, setConfigA] = useState<string>(DEFAULT_CONFIG_VALUE);
+  const [configB, setConfigB] = useState<string>(NO_CONFIG_VALUE);
+  const [slateCount, setSlateCount] = useState(DEFAULT_SLATE_COUNT);
+  const [cashLine, setCashLine] = useState(DEFAULT_CASH_LINE);
+  const [running, setRunning] = useState(false);
+  const [search, setSearch] = useState<{ date: string; found: number; total: number } | null>(null);
+  const [progress, setProgress] = useState<BacktestProgress | null>(null);
+  const [results, setResults] = useState<BacktestSlateResult[]>([]);
+  const [entries, setEntries] = useState<BacktestConfigEntry[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const stopRef = useRef(false);
+  const jobRef = useRef<OptimizerJob | null>(null);
+
+  useEffect(() => () => {
+    stopRef.current = true;
+    jobRef.current?.dispose();
+  }, []);
+
+  const resolveEntry = (value: string, id: string): BacktestConfigEntry | null => {
+    if (value === NO_CONFIG_VALUE) return null;
+    if (value === DEFAULT_CONFIG_VALUE) {
+      return { id, label: 'Default settings', config: createDefaultOptimizerConfig() };
+    }
+    const saved = savedConfigs.find((item) => item.slateDate === value);
+    if (!saved?.settings?.config) return null;
+    return { id, label: `Saved ${value}`, config: sanitizeOptimizerConfig(saved.settings.config) };
+  };
+
+  const start = async () => {
+    const nextEntries = [resolveEntry(configA, 'A'), resolveEntry(configB, 'B')]
+      .filter((entry): entry is BacktestConfigEntry => entry !== null);
+    if (nextEntries.length === 0) {
+      setError('Pick at least one optimizer configuration.');
+      return;
+    }
+    stopRef.current = false;
+    setEntries(nextEntries);
+    setResults([]);
+    setError(null);
+    setRunning(true);
+    try {
+      const slates = await findRecentSlates(endDate, slateCount, {
+        loadSlate: (date) => loadBacktestSlate(date, fetcher),
+        onSearch: (date, found) => setSearch({ date, found, total: slateCount }),
+        shouldStop: () => stopRef.current,
+      });
+      setSearch(null);
+      const playersByDate = new Map(slates.map((slate) => [slate.date, slate.players]));
+      await runBacktest({
+        dates: slates.map((slate) => slate.date),
+        configs: nextEntries,
+        cashLine,
+        loadSlate: async (date) => playersByDate.get(date) ?? null,
+        optimize: (request) => {
+          const job = startOptimizerJob(request);
+          jobRef.current = job;
+          return job.result.finally(() => {
+            if (jobRef.current === job) jobRef.current = null;
+          });
+        },
+        onProgress: setProgress,
+        onSlateResult: (result) => setResults((prev) => [...prev, result]),
+        shouldStop: () => stopRef.current,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Backtest failed.');
+    } finally {
+      setRunning(false);
+      setSearch(null);
+      setProgress(null);
+    }
+  };
+
+  const stop = () => {
+    stopRef.current = true;
+    jobRef.current?.cancel();
+  };
+
+  const summaries = useMemo(
+    () => entries.map((entry) => ({ entry, summary: summarizeBacktest(entry.id, results) })),
+    [entries, results],
+  );
+
+  const dateRows = useMemo(() => {
+    const byDate = new Map<string, Map<string, BacktestSlateResult>>();
+    results.forEach((result) => {
+      if (!byDate.has(result.date)) byDate.set(result.date, new Map());
+      byDate.get(result.date)!.set(result.configId, result);
+    });
+    return Array.from(byDate.entries()).sort((a, b) => b[0].localeCompare(a[0]));
+  }, [results]);
+
+  const configOptions = (
+    <>
+      <option value={DEFAULT_CONFIG_VALUE}>Default settings</option>
+      {savedConfigs.map((item) => (
+        <option key={item.slateDate} value={item.slateDate}>Saved {item.slateDate}</option>
+      ))}
+    </>
+  );
+
+  return (
+    <div className="bg-white rounded-xl border border-ink/10 shadow-sm p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <History className="w-4 h-4 text-drafting-orange" />
+        <p className="text-sm font-bold text-ink">Optimizer Backtest</p>
+      </div>
+      <p className="text-xs text-ink/60 max-w-3xl">
+        Runs saved optimizer settings over the slates before {endDate} and scores every lineup on actual fantasy points.
+        Locks, excludes and player overrides are slate-specific and are not replayed.
+      </p>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="flex flex-col gap-1 text-[10px] font-black uppercase tracking-widest text-ink/50">
+          Config A
+          <select value={configA} disabled={running} onChange={(e) => setConfigA(e.target.value)} className={inputClass}>
+            {configOptions}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-[10px] font-black uppercase tracking-widest text-ink/50">
+          Config B
+          <select value={configB} disabled={running} onChange={(e) => setConfigB(e.target.value)} className={inputClass}>
+            <option value={NO_CONFIG_VALUE}>None</option>
+            {configOptions}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-[10px] font-black uppercase tracking-widest text-ink/50">
+          Last N slates
+          <input
+            type="number"
+            min={1}
+            max={MAX_SLATE_COUNT}
+            value={slateCount}
+            disabled={running}
+            onChange={(e) => setSlateCount(Math.max(1, Math.min(MAX_SLATE_COUNT, Math.floor(Number(e.target.value) || 1))))}
+            className={`${inputClass} w-20`}
+          />
+        </label>
+        <label className="flex flex-col gap-1 text-[10px] font-black uppercase tracking-widest text-ink/50">
+          Cash line
+          <input
+            type="number"
+            min={0}
+            step={5}
+            value={cashLine}
+            disabled={running}
+            onChange={(e) => setCashLine(Math.max(0, Number(e.target.value) || 0))}
+            className={`${inputClass} w-24`}
+          />
+        </label>
+        {running ? (
+          <button
+            type="button"
+            onClick={stop}
+            className="h-8 px-3 rounded border border-red-500/30 text-[10px] font-black uppercase tracking-widest text-red-600 hover:bg-red-500/10 flex items-center gap-1"
+          >
+            <Square className="w-3 h-3" /> Stop
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={() => void start()}
+            className="h-8 px-3 rounded bg-drafting-orange text-white text-[10px] font-black uppercase tracking-widest hover:brightness-110 flex items-center gap-1"
+          >
+            <Play className="w-3 h-3" /> Run Backtest
+          </button>
+        )}
+      </div>
+
+      {search && (
+        <p className="text-xs font-mono text-ink/60">
+          Finding slates • {search.date} • {search.found}/{search.total} found
+        </p>
+      )}
+      {progress && (
+        <p className="text-xs font-mono text-ink/60">
+          {progress.date} • config {progress.configId} • {progress.completed}/{progress.total} runs done
+        </p>
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {summaries.length > 0 && results.length > 0 && (
+        <div className="overflow-x-auto border border-ink/10 rounded-sm">
+          <table className="w-full border-collapse text-xs">
+            <thead>
+              <tr className="text-[9px] font-black text-ink/40 uppercase tracking-widest border-b border-ink/10 bg-white/40">
+                <th className="px-3 py-2 text-left">Metric</th>
+                {summaries.map(({ entry }) => (
+                  <th key={entry.id} className="px-3 py-2 text-right">{entry.id}: {entry.label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {SUMMARY_ROWS.map((row) => (
+                <tr key={row.label} className="border-b border-ink/5">
+                  <td className="px-3 py-1.5 text-ink/70">{row.label}</td>
+                  {summaries.map(({ entry, summary }) => (
+                    <td key={entry.id} className="px-3 py-1.5 text-right font-mono font-bold text-ink">{row.render(summary)}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {dateRows.length > 0 && (
+        <div className="overflow-x-auto border border-ink/10 rounded-sm">
+          <table className="w-full border-collapse text-xs">
+            <thead>
+              <tr className="text-[9px] font-black text-ink/40 uppercase tracking-widest border-b border-ink/10 bg-white/40">
+                <th className="px-3 py-2 text-left">Date</th>
+                {entries.map((entry) => (
+                  <th key={entry.id} className="px-3 py-2 text-left">{entry.id}: best / avg / cash • top exposure</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {dateRows.map(([date, byConfig]) => (
+                <tr key={date} className="border-b border-ink/5 align-top">
+                  <td className="px-3 py-1.5 font-mono text-ink/70">{date}</td>
+                  {entries.map((entry) => {
+                    const result = byConfig.get(entry.id);
+                    if (!result) return <td key={entry.id} className="px-3 py-1.5 text-ink/30">—</td>;
+                    if (result.status !== 'ok') {
+                      return <td key={entry.id} className="px-3 py-1.5 text-ink/40">{result.message}</td>;
+                    }
+                    const top = result.topExposures[0];
+                    return (
+                      <td key={entry.id} className="px-3 py-1.5 font-mono text-ink">
+                        {result.best.toFixed(1)} / {result.average.toFixed(1)} / {result.cashHits}/{result.scores.length}
+                        {top && (
+                          <span className="text-ink/50"> • {top.name} {top.exposure.toFixed(0)}% ({top.actual.toFixed(1)})</span>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,250 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Play, Square, Target } from 'lucide-react';
+import {
+  CartesianGrid, Line, LineChart, ReferenceLine, ResponsiveContainer,
+  Tooltip as RechartsTooltip, XAxis, YAxis,
+} from 'recharts';
+import { Player } from '../types';
+import { findRecentSlates, loadBacktestSlate } from '../utils/backtest';
+import {
+  CALIBRATION_SEGMENT_LABELS,
+  CalibrationSample,
+  CalibrationSegmentKey,
+  PROBABILITY_FIELDS,
+  PROBABILITY_FIELD_LABELS,
+  ProbabilityField,
+  buildCalibrationSamples,
+  buildReliabilityCurve,
+  summarizeSegmentErrors,
+} from '../utils/calibration';
+
+interface Props {
+  /** Calibration pools the slates before this date, plus `players` when they already have actuals. */
+  endDate: string;
+  players: Player[];
+  fetcher?: (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>;
+}
+
+const DEFAULT_SLATE_COUNT = 14;
+const MAX_SLATE_COUNT = 90;
+
+const inputClass =
+  'h-8 bg-white/60 border border-ink/20 rounded-sm px-2 text-xs font-mono focus:border-drafting-orange outline-none text-ink';
+
+const tabClass = (active: boolean) => (
+  `px-2.5 py-1 rounded text-[10px] font-black uppercase tracking-widest border ${
+    active ? 'bg-ink text-vellum border-ink' : 'bg-white text-ink/60 border-ink/15 hover:border-ink/40'
+  }`
+);
+
+const pct = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const signed = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}`;
+
+export const CalibrationPanel: React.FC<Props> = ({ endDate, players, fetcher }) => {
+  const [slateCount, setSlateCount] = useState(DEFAULT_SLATE_COUNT);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState<{ date: string; done: number; total: number } | null>(null);
+  const [pastSamples, setPastSamples] = useState<CalibrationSample[]>([]);
+  const [slatesScored, setSlatesScored] = useState(0);
+  const [segmentKey, setSegmentKey] = useState<CalibrationSegmentKey>('tier');
+  const [field, setField] = useState<ProbabilityField>('overperform');
+  const [error, setError] = useState<string | null>(null);
+  const stopRef = useRef(false);
+
+  useEffect(() => () => {
+    stopRef.current = true;
+  }, []);
+
+  const currentSamples = useMemo(() => buildCalibrationSamples(players, endDate), [players, endDate]);
+  const samples = useMemo(() => [...pastSamples, ...currentSamples], [pastSamples, currentSamples]);
+
+  const start = async () => {
+    stopRef.current = false;
+    setPastSamples([]);
+    setSlatesScored(0);
+    setError(null);
+    setRunning(true);
+    try {
+      await findRecentSlates(endDate, slateCount, {
+        loadSlate: (date) => loadBacktestSlate(date, fetcher),
+        onSearch: (date, found) => setProgress({ date, done: found, total: slateCount }),
+        onSlate: (slate) => {
+          if (stopRef.current) return;
+          const next = buildCalibrationSamples(slate.players, slate.date);
+          if (next.length === 0) return;
+          setPastSamples((prev) => [...prev, ...next]);
+          setSlatesScored((prev) => prev + 1);
+        },
+        shouldStop: () => stopRef.current,
+      });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Calibration failed.');
+    } finally {
+      setRunning(false);
+      setProgress(null);
+    }
+  };
+
+  const segments = useMemo(() => summarizeSegmentErrors(samples, segmentKey), [samples, segmentKey]);
+  const curves = useMemo(
+    () => PROBABILITY_FIELDS.map((item) => buildReliabilityCurve(samples, item)),
+    [samples],
+  );
+  const curve = curves.find((item) => item.field === field) ?? curves[0];
+  const slateTotal = slatesScored + (currentSamples.length > 0 ? 1 : 0);
+
+  return (
+    <div className="bg-white rounded-xl border border-ink/10 shadow-sm p-4 space-y-3">
+      <div className="flex items-center gap-2">
+        <Target className="w-4 h-4 text-drafting-orange" />
+        <p className="text-sm font-bold text-ink">Projection Calibration</p>
+      </div>
+      <p className="text-xs text-ink/60 max-w-3xl">
+        Pools every player with an actual score over the slates before {endDate} and breaks projection error down by segment.
+        Reliability curves bin each probability field by its prediction; bins below the diagonal were over-confident, bins above it under-confident.
+      </p>
+
+      <div className="flex flex-wrap items-end gap-3">
+        <label className="flex flex-col gap-1 text-[10px] font-black uppercase tracking-widest text-ink/50">
+          Last N slates
+          <input
+            type="number"
+            min={1}
+            max={MAX_SLATE_COUNT}
+            value={slateCount}
+            disabled={running}
+            onChange={(e) => setSlateCount(Math.max(1, Math.min(MAX_SLATE_COUNT, Math.floor(Number(e.target.value) || 1))))}
+            className={`${inputClass} w-20`}
+          />
+        </label>
+        {running ? (
+          <button
+            type="button"
+            onClick={() => { stopRef.current = true; }}
+            className="h-8 px-3 rounded border border-red-500/30 text-[10px] font-black uppercase tracking-widest text-red-600 hover:bg-red-500/10 flex items-center gap-1"
+          >
+            <Square className="w-3 h-3" /> Stop
+          </button>
+        ) : (
+          <button
+            type="button"
+            onClick={() => void start()}
+            className="h-8 px-3 rounded bg-drafting-orange text-white text-[10px] font-black uppercase tracking-widest hover:brightness-110 flex items-center gap-1"
+          >
+            <Play className="w-3 h-3" /> Load Slates
+          </button>
+        )}
+        <p className="text-xs font-mono text-ink/60">
+          {samples.length} players • {slateTotal} slate{slateTotal === 1 ? '' : 's'}
+        </p>
+      </div>
+
+      {progress && (
+        <p className="text-xs font-mono text-ink/60">
+          Loading {progress.date} • {progress.done}/{progress.total} slates found
+        </p>
+      )}
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      {samples.length > 0 && (
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <div className="flex flex-wrap gap-1.5">
+              {(Object.keys(CALIBRATION_SEGMENT_LABELS) as CalibrationSegmentKey[]).map((key) => (
+                <button key={key} type="button" onClick={() => setSegmentKey(key)} className={tabClass(segmentKey === key)}>
+                  {CALIBRATION_SEGMENT_LABELS[key]}
+                </button>
+              ))}
+            </div>
+            <div className="overflow-x-auto border border-ink/10 rounded-sm">
+              <table className="w-full border-collapse text-xs">
+                <thead>
+                  <tr className="text-[9px] font-black text-ink/40 uppercase tracking-widest border-b border-ink/10 bg-white/40">
+                    <th className="px-3 py-2 text-left">{CALIBRATION_SEGMENT_LABELS[segmentKey]}</th>
+                    <th className="px-3 py-2 text-right">Players</th>
+                    <th className="px-3 py-2 text-right">MAE</th>
+                    <th className="px-3 py-2 text-right">RMSE</th>
+                    <th className="px-3 py-2 text-right">Bias</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {segments.map((row) => (
+                    <tr key={row.segment} className="border-b border-ink/5">
+                      <td className="px-3 py-1.5 text-ink/70">{row.label}</td>
+                      <td className="px-3 py-1.5 text-right font-mono text-ink/60">{row.count}</td>
+                      <td className="px-3 py-1.5 text-right font-mono font-bold text-ink">{row.mae.toFixed(2)}</td>
+                      <td className="px-3 py-1.5 text-right font-mono font-bold text-ink">{row.rmse.toFixed(2)}</td>
+                      <td className={`px-3 py-1.5 text-right font-mono font-bold ${row.bias > 0 ? 'text-red-600' : 'text-emerald-700'}`}>
+                        {signed(row.bias)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-[11px] text-ink/50">Bias is projected minus actual; positive segments were projected too high.</p>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex flex-wrap gap-1.5">
+              {curves.map((item) => (
+                <button key={item.field} type="button" onClick={() => setField(item.field)} className={tabClass(field === item.field)}>
+                  {PROBABILITY_FIELD_LABELS[item.field]} ({item.count})
+                </button>
+              ))}
+            </div>
+            {curve.count === 0 ? (
+              <p className="text-xs text-ink/50 py-6 text-center">
+                None of these slates carry {PROBABILITY_FIELD_LABELS[curve.field]} with a scoreable outcome.
+              </p>
+            ) : (
+              <>
+                <div className="h-56">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <LineChart data={curve.bins} margin={{ top: 8, right: 12, bottom: 4, left: -12 }}>
+                      <CartesianGrid strokeDasharray="3 3" stroke="rgba(0,0,0,0.08)" />
+                      <XAxis type="number" dataKey="predicted" domain={[0, 1]} tickFormatter={(v) => `${Math.round(v * 100)}%`} tick={{ fontSize: 10 }} />
+                      <YAxis type="number" domain={[0, 1]} tickFormatter={(v) => `${Math.round(v * 100)}%`} tick={{ fontSize: 10 }} />
+                      <ReferenceLine segment={[{ x: 0, y: 0 }, { x: 1, y: 1 }]} stroke="rgba(0,0,0,0.25)" strokeDasharray="4 4" />
+                      <RechartsTooltip
+                        formatter={(value: number) => pct(value)}
+                        labelFormatter={(value: number) => `Predicted ${pct(value)}`}
+                      />
+                      <Line type="monotone" dataKey="observed" name="Observed" stroke="#f97316" strokeWidth={2} dot={{ r: 3 }} isAnimationActive={false} />
+                    </LineChart>
+                  </ResponsiveContainer>
+                </div>
+                <p className="text-[11px] font-mono text-ink/60">
+                  Brier {curve.brier.toFixed(4)} • calibration error {pct(curve.calibrationError)}
+                </p>
+                <div className="overflow-x-auto border border-ink/10 rounded-sm">
+                  <table className="w-full border-collapse text-xs">
+                    <thead>
+                      <tr className="text-[9px] font-black text-ink/40 uppercase tracking-widest border-b border-ink/10 bg-white/40">
+                        <th className="px-3 py-2 text-left">Bin</th>
+                        <th className="px-3 py-2 text-right">Players</th>
+                        <th className="px-3 py-2 text-right">Predicted</th>
+                        <th className="px-3 py-2 text-right">Observed</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {curve.bins.map((bin) => (
+                        <tr key={bin.lower} className="border-b border-ink/5">
+                          <td className="px-3 py-1.5 font-mono text-ink/70">{Math.round(bin.lower * 100)}-{Math.round(bin.upper * 100)}%</td>
+                          <td className="px-3 py-1.5 text-right font-mono text-ink/60">{bin.count}</td>
+                          <td className="px-3 py-1.5 text-right font-mono text-ink">{pct(bin.predicted)}</td>
+                          <td className="px-3 py-1.5 text-right font-mono font-bold text-ink">{pct(bin.observed)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,7 +1,7 @@
 
 import React, { useState, useMemo } from 'react';
 import { ContestInput } from '../types';
-import { Settings, X, AlertCircle } from 'lucide-react';
+import { Settings, X } from 'lucide-react';
 import { CONTEST_PRESETS } from '../utils/contest';
 
 interface Props {
@@ -45,8 +45,6 @@ export const ContestForm: React.FC<Props> = ({ input, onChange, onClose }) => {
     }
   };
 
-  const isFanDuel = input.site === 'FanDuel';
-
   // Map entryFee to closest index in FEE_STEPS for the slider
   const feeIndex = useMemo(() => {
     const currentFee = input.entryFee;
@@ -108,16 +106,10 @@ export const ContestForm: React.FC<Props> = ({ input, onChange, onClose }) => {
               FanDuel
             </button>
           </div>
-          {isFanDuel && (
-            <div className="p-3 bg-blue-50 dark:bg-blue-900/20 text-blue-700 dark:text-blue-300 rounded-lg text-xs flex items-start gap-2 border border-blue-100 dark:border-blue-900/40">
-              <AlertCircle className="w-4 h-4 shrink-0 mt-0.5" />
-              <span>FanDuel support is coming soon. For now, please use DraftKings for analysis.</span>
-            </div>
-          )}
         </div>
 
         {/* Presets Dropdown */}
-        <div className={`space-y-2 transition-opacity ${isFanDuel ? 'opacity-50 pointer-events-none' : ''}`}>
+        <div className="space-y-2">
           <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider">Load a Preset</label>
           <select 
             onChange={(e) => loadPreset(e.target.value)}
@@ -132,7 +124,7 @@ export const ContestForm: React.FC<Props> = ({ input, onChange, onClose }) => {
         </div>
 
         {/* Entry Fee Slider */}
-        <div className={`space-y-2 transition-opacity ${isFanDuel ? 'opacity-50 pointer-events-none' : ''}`}>
+        <div className="space-y-2">
           <div className="flex justify-between items-end">
             <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider">Entry Fee</label>
             <span className="text-sm font-bold text-brand">${input.entryFee.toFixed(2)}</span>
@@ -149,7 +141,7 @@ export const ContestForm: React.FC<Props> = ({ input, onChange, onClose }) => {
         </div>
 
         {/* Field Size */}
-        <div className={`space-y-2 transition-opacity ${isFanDuel ? 'opacity-50 pointer-events-none' : ''}`}>
+        <div className="space-y-2">
           <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider">Field Size</label>
           <input 
             type="number" 
@@ -161,7 +153,7 @@ export const ContestForm: React.FC<Props> = ({ input, onChange, onClose }) => {
         </div>
 
         {/* Max Entries */}
-        <div className={`space-y-2 transition-opacity ${isFanDuel ? 'opacity-50 pointer-events-none' : ''}`}>
+        <div className="space-y-2">
           <label className="block text-xs font-bold text-gray-500 uppercase tracking-wider">Max Entries</label>
           <input 
             type="number" 
@@ -173,7 +165,7 @@ export const ContestForm: React.FC<Props> = ({ input, onChange, onClose }) => {
         </div>
 
         {/* Advanced Economics Toggle */}
-        <div className={`pt-2 border-t border-cloud-darker dark:border-charcoal space-y-4 transition-opacity ${isFanDuel ? 'opacity-50 pointer-events-none' : ''}`}>
+        <div className="pt-2 border-t border-cloud-darker dark:border-charcoal space-y-4">
           <div className="flex items-center justify-between">
             <span className="text-xs font-bold text-gray-700 dark:text-gray-300">
               Advanced Economics
@@ -0,0 +1,143 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Trophy, Upload } from 'lucide-react';
+import { ContestInput, Player } from '../types';
+import { formatMoney } from '../utils/contest';
+import {
+  ContestResult,
+  OwnEntryRef,
+  buildContestResult,
+  parseContestStandingsText,
+} from '../utils/contestStandings';
+import { readContestResults, readPreference, writeContestResult, writePreference } from '../utils/persistence';
+
+interface Props {
+  slateDate: string;
+  entries: OwnEntryRef[];
+  players: Player[];
+  contest: ContestInput;
+}
+
+const USERNAME_PREFERENCE = 'contestStandings.username';
+
+export const ContestStandingsPanel: React.FC<Props> = ({ slateDate, entries, players, contest }) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [username, setUsername] = useState(() => readPreference<string>(USERNAME_PREFERENCE) ?? '');
+  const [results, setResults] = useState<ContestResult[]>(() => readContestResults<ContestResult>(slateDate));
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setResults(readContestResults<ContestResult>(slateDate));
+  }, [slateDate]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    try {
+      const standings = parseContestStandingsText(await file.text());
+      const result = buildContestResult({
+        standings,
+        ownEntries: entries,
+        username,
+        contest,
+        players,
+        slateDate,
+        fileName: file.name,
+      });
+      if (result.entries.length === 0) {
+        setError(`None of the ${standings.fieldSize} entries matched your entry IDs${username ? ` or "${username}"` : ''}. Field ownership was still saved.`);
+      }
+      writeContestResult(slateDate, result.contestId, result);
+      setResults(readContestResults<ContestResult>(slateDate));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to read the standings CSV.');
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  const totals = useMemo(() => results.map((result) => {
+    const fees = result.entries.length * result.entryFee;
+    const winnings = result.entries.reduce((sum, entry) => sum + entry.payout, 0);
+    return { fees, winnings, roi: fees > 0 ? (winnings - fees) / fees : 0 };
+  }), [results]);
+
+  return (
+    <div className="bg-white border border-ink/10 rounded-lg px-4 py-3 shadow-sm space-y-3">
+      <div className="flex flex-wrap items-center gap-3">
+        <h2 className="text-[11px] font-black uppercase tracking-widest text-black/70 flex items-center gap-1.5">
+          <Trophy className="w-3.5 h-3.5 text-drafting-orange" /> Contest Results
+        </h2>
+        <input
+          type="text"
+          value={username}
+          placeholder="DK username (optional)"
+          onChange={(e) => {
+            setUsername(e.target.value);
+            writePreference(USERNAME_PREFERENCE, e.target.value.trim());
+          }}
+          className="h-7 w-48 bg-white/60 border border-ink/20 rounded-sm px-2 text-[11px] font-mono focus:border-drafting-orange outline-none text-black"
+        />
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,text/csv"
+          className="hidden"
+          onChange={(e) => void handleFile(e.target.files?.[0])}
+        />
+        <button
+          type="button"
+          onClick={() => fileInputRef.current?.click()}
+          className="px-3 py-1.5 rounded-sm border border-ink/20 text-[10px] font-black uppercase tracking-widest text-black hover:border-drafting-orange transition-all"
+        >
+          <Upload className="inline-block w-3 h-3 mr-1.5" />
+          Import Standings CSV
+        </button>
+      </div>
+      {error && <p className="text-[11px] font-mono text-red-600">{error}</p>}
+
+      {results.map((result, idx) => (
+        <div key={result.contestId} className="space-y-1.5">
+          <div className="flex flex-wrap items-baseline gap-x-4 gap-y-1 text-[11px] font-mono text-black/60">
+            <span className="text-sm font-bold text-black">{result.contestName}</span>
+            <span>{result.fieldSize.toLocaleString()} entries</span>
+            <span>{formatMoney(result.entryFee)} entry</span>
+            <span>~{formatMoney(result.prizePool)} pool, {result.paidPlaces.toLocaleString()} paid (est.)</span>
+            {result.entries.length > 0 && (
+              <span className={totals[idx].winnings >= totals[idx].fees ? 'font-bold text-emerald-600' : 'font-bold text-red-600'}>
+                {formatMoney(totals[idx].winnings)} on {formatMoney(totals[idx].fees)} ({(totals[idx].roi * 100).toFixed(1)}% ROI)
+              </span>
+            )}
+          </div>
+          {result.entries.length > 0 && (
+            <div className="overflow-x-auto border border-ink/10 rounded-sm">
+              <table className="w-full border-collapse text-[11px]">
+                <thead>
+                  <tr className="text-[9px] font-black text-black/40 uppercase tracking-widest border-b border-ink/10">
+                    <th className="px-3 py-1.5 text-left">Entry</th>
+                    <th className="px-3 py-1.5 text-right">Rank</th>
+                    <th className="px-3 py-1.5 text-right">Percentile</th>
+                    <th className="px-3 py-1.5 text-right">Points</th>
+                    <th className="px-3 py-1.5 text-right">Est. Payout</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {result.entries.map((entry) => (
+                    <tr key={entry.entryId} className="border-b border-ink/5 font-mono">
+                      <td className="px-3 py-1 text-black/70">{entry.entryName || entry.entryId}</td>
+                      <td className="px-3 py-1 text-right">{entry.rank.toLocaleString()} / {result.fieldSize.toLocaleString()}</td>
+                      <td className="px-3 py-1 text-right">{entry.percentile.toFixed(1)}</td>
+                      <td className="px-3 py-1 text-right">{entry.points.toFixed(2)}</td>
+                      <td className={`px-3 py-1 text-right font-bold ${entry.payout > 0 ? 'text-emerald-600' : 'text-black/40'}`}>
+                        {formatMoney(entry.payout)}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -1,18 +1,42 @@
 import React, { useState, useMemo, useRef, useEffect } from 'react';
 import Papa from 'papaparse';
 import { Upload, Lock, Unlock, Download, Save, Zap, ShieldCheck, ShieldAlert, X } from 'lucide-react';
-import { Player, GameInfo, Lineup } from '../types';
+import { ContestInput, Player, GameInfo, Lineup, Slot } from '../types';
 import { PlayerDeepDive } from './PlayerDeepDive';
+import { ContestStandingsPanel } from './ContestStandingsPanel';
 import { SavedLineupSet, loadSavedLineupSets, saveSavedLineupSets } from '../utils/savedLineups';
 import { parseOptimizerLineups } from '../utils/csvParser';
-import OptimizerWorker from '../src/workers/optimizer.worker.ts?worker&v=20260327-qiea-fix9';
-
-type Slot = 'PG' | 'SG' | 'SF' | 'PF' | 'C' | 'G' | 'F' | 'UTIL';
-
-const SLOT_ORDER: Slot[] = ['PG', 'SG', 'SF', 'PF', 'C', 'G', 'F', 'UTIL'];
-const REQUIRED_COLS = ['Entry ID', 'Contest Name', 'Contest ID', 'Entry Fee', ...SLOT_ORDER];
-const SALARY_CAP = 50000;
-const ENTRY_MANAGER_SESSION_KEY = 'slatesim.entryManager.session.v1';
+import { DEFAULT_CONTEST } from '../utils/contest';
+import { SitePoolRow, buildShowdownSiteIds, getBasePlayerId } from '../utils/showdown';
+import {
+  SITE_RULES,
+  SiteRules,
+  SiteSlotRule,
+  assignSiteSlots,
+  buildEntryCsvRows,
+  canFillSiteSlot,
+  detectEntryCsvSite,
+  getSiteRules,
+  parseSitePositions,
+} from '../utils/siteRules';
+import { startOptimizerJob } from '../src/lib/optimizerClient';
+import { OPTIMIZER_ENGINES, OptimizerEngine, OptimizerRequestRules } from '../src/workers/optimizer-service/types';
+import { sanitizePlayerGroupRules } from '../utils/playerGroups';
+import {
+  LateSwapEntryPlan,
+  LateSwapEntryStatus,
+  LateSwapExposureChange,
+  buildLateSwapExposureDiff,
+  planPortfolioLateSwap,
+} from '../utils/lateSwap';
+import {
+  CONTEST_OBJECTIVE_LABELS,
+  ContestGroup,
+  ContestObjective,
+  groupEntriesByContest,
+  planContestAssignments,
+} from '../utils/entryPlanner';
+import { clearEntrySession, getOptimizerSettingsKey, readEntrySession, readOptimizerSettings, writeEntrySession } from '../utils/persistence';
 
 const getLocalDateStr = (date: Date): string => {
   const y = date.getFullYear();
@@ -110,6 +134,19 @@ interface Props {
   selectedSlate?: string | null;
   deepDiveAllowedTabs?: Array<'dfs' | 'stats' | 'matchup' | 'synergy' | 'depth'>;
   isHistoricalMode?: boolean;
+  site?: ContestInput['site'];
+  onSiteChange?: (site: ContestInput['site']) => void;
+  /** Contest settings used to estimate payouts for imported standings. */
+  contest?: ContestInput;
+  /** Opens the swap modal on an entry's slot, e.g. from a news alert. */
+  swapRequest?: EntrySwapRequest | null;
+}
+
+export interface EntrySwapRequest {
+  entryId: string;
+  playerId: string;
+  /** Distinguishes repeat requests for the same slot. */
+  requestedAt: number;
 }
 
 export type Entry = {
@@ -124,12 +161,15 @@ export type Entry = {
 };
 
 interface EntryManagerSession {
+  site: ContestInput['site'];
   entries: Entry[];
   playerScores: Record<string, number>;
   manualLocks: string[];
   fileName: string;
   slateDate: string;
   updatedAt: number;
+  /** App player id -> the entries file's id, when the site numbers players differently (Showdown). */
+  siteIds?: Record<string, string>;
 }
 
 const parseGameTime = (timeStr: string): Date | null => {
@@ -175,7 +215,8 @@ const formatPlayerName = (name: string) => {
     return `${parts[0][0]}. ${parts.slice(1).join(' ')}`;
 };
 
-const playerLabel = (player: Player): string => `${player.name} (${player.id})`;
+const playerLabel = (player: Player, rules: SiteRules, siteIds: Record<string, string> = {}): string =>
+  rules.entryCsv.formatPlayer(siteIds[player.id] ? { ...player, id: siteIds[player.id] } : player);
 
 const stripLockedTag = (value: string): string => {
   return String(value || '').replace(/\s*\(LOCKED\)\s*$/i, '').trim();
@@ -193,19 +234,28 @@ const extractSlotDisplayName = (value: string): string => {
   const normalized = stripSlotTags(value);
   if (!normalized) return '';
   return normalized
+    .replace(/^[\w-]+:/, '')
     .replace(/\s*\(\d+\)\s*/g, ' ')
     .replace(/\s+/g, ' ')
     .trim();
 };
 
+// Slot cells may come from either site's CSV ("Name (id)" on DK, "id:Name" on FD).
 const extractSlotPlayerId = (value: string): string => {
   const normalized = stripSlotTags(value);
-  const idMatch = normalized.match(/\((\d+)\)/);
-  return idMatch?.[1] || '';
+  if (!normalized) return '';
+  for (const rules of Object.values(SITE_RULES)) {
+    const id = rules.entryCsv.parsePlayerId(normalized);
+    if (id) return id;
+  }
+  return '';
 };
 
 const normalizePlayerId = (value: unknown): string => String(value ?? '').trim();
 
+// A player's FLEX and captain rows share one roster spot.
+const rosterKey = (value: unknown): string => getBasePlayerId(normalizePlayerId(value));
+
 const statusTokensFromValue = (value: unknown): string[] => {
   return String(value ?? '')
     .toLowerCase()
@@ -249,86 +299,58 @@ const isPlayerOut = (playerStr: string): boolean => {
 };
 
 const isEntryUnassigned = (entry: Entry): boolean => {
-  return SLOT_ORDER.every((slot) => stripSlotTags(entry.slots[slot] || '') === '');
+  return Object.values(entry.slots).every((value) => stripSlotTags(value || '') === '');
 };
 
-const getPlayerPositions = (player: Player): string[] => {
-  return String(player.position || '')
-    .split('/')
-    .map((pos) => pos.trim().toUpperCase())
-    .filter(Boolean);
+const canPlayerFitSlot = (player: Player, slot: SiteSlotRule): boolean => {
+  return canFillSiteSlot(parseSitePositions(player.position), slot);
 };
 
-const canPlayerFitSlot = (player: Player, slot: Slot): boolean => {
-  const positions = getPlayerPositions(player);
-  switch (slot) {
-    case 'PG': return positions.includes('PG');
-    case 'SG': return positions.includes('SG');
-    case 'SF': return positions.includes('SF');
-    case 'PF': return positions.includes('PF');
-    case 'C': return positions.includes('C');
-    case 'G': return positions.includes('PG') || positions.includes('SG');
-    case 'F': return positions.includes('SF') || positions.includes('PF');
-    case 'UTIL': return true;
-    default: return false;
-  }
-};
-
-const takeFirstEligible = (pool: Player[], predicate: (player: Player) => boolean): Player | null => {
-  const idx = pool.findIndex(predicate);
-  if (idx === -1) return null;
-  return pool.splice(idx, 1)[0];
-};
-
-const lineupToSlots = (lineup: Lineup, playerById: Map<string, Player>): Record<Slot, string> => {
+const lineupToSlots = (
+  lineup: Lineup,
+  playerById: Map<string, Player>,
+  rules: SiteRules,
+  siteIds: Record<string, string> = {},
+): Record<Slot, string> => {
   const lineupPlayers =
     Array.isArray(lineup.players) && lineup.players.length > 0
       ? lineup.players
       : (lineup.playerIds || []).map((id) => playerById.get(id)).filter((player): player is Player => Boolean(player));
-  const pool = [...lineupPlayers];
-  const pick = (predicate: (player: Player) => boolean) => takeFirstEligible(pool, predicate);
-
-  const pg = pick((player) => getPlayerPositions(player).includes('PG'));
-  const sg = pick((player) => getPlayerPositions(player).includes('SG'));
-  const sf = pick((player) => getPlayerPositions(player).includes('SF'));
-  const pf = pick((player) => getPlayerPositions(player).includes('PF'));
-  const c = pick((player) => getPlayerPositions(player).includes('C'));
-  const g = pick((player) => {
-    const positions = getPlayerPositions(player);
-    return positions.includes('PG') || positions.includes('SG');
-  });
-  const f = pick((player) => {
-    const positions = getPlayerPositions(player);
-    return positions.includes('SF') || positions.includes('PF');
-  });
-  const util = pick(() => true);
-
-  return {
-    PG: pg ? playerLabel(pg) : '',
-    SG: sg ? playerLabel(sg) : '',
-    SF: sf ? playerLabel(sf) : '',
-    PF: pf ? playerLabel(pf) : '',
-    C: c ? playerLabel(c) : '',
-    G: g ? playerLabel(g) : '',
-    F: f ? playerLabel(f) : '',
-    UTIL: util ? playerLabel(util) : '',
-  };
+  const { slotMap } = assignSiteSlots(lineupPlayers, rules);
+
+  return rules.slots.reduce<Record<Slot, string>>((acc, slot) => {
+    const player = slotMap[slot.key];
+    acc[slot.key] = player ? playerLabel(player, rules, siteIds) : '';
+    return acc;
+  }, {});
+};
+
+// Entry CSV metadata headers differ by site ("Entry ID" vs "entry_id"), so match on letters only.
+const normalizeEntryColumn = (value: unknown): string => String(value ?? '').toLowerCase().replace(/[^a-z]/g, '');
+
+const entryMetadataValue = (entry: Entry, column: string): string => {
+  switch (normalizeEntryColumn(column)) {
+    case 'entryid': return entry.entryId;
+    case 'contestname': return entry.contestName;
+    case 'contestid': return entry.contestId;
+    case 'entryfee': return entry.entryFee;
+    default: return '';
+  }
 };
 
 const loadEntryManagerSession = (): EntryManagerSession | null => {
-  if (typeof window === 'undefined') return null;
   try {
-    const raw = localStorage.getItem(ENTRY_MANAGER_SESSION_KEY);
-    if (!raw) return null;
-    const parsed = JSON.parse(raw);
+    const parsed = readEntrySession();
     if (!parsed || typeof parsed !== 'object') return null;
     return {
+      site: getSiteRules(parsed.site).site,
       entries: Array.isArray(parsed.entries) ? parsed.entries : [],
       playerScores: parsed.playerScores && typeof parsed.playerScores === 'object' ? parsed.playerScores : {},
       manualLocks: Array.isArray(parsed.manualLocks) ? parsed.manualLocks : [],
       fileName: String(parsed.fileName || ''),
       slateDate: String(parsed.slateDate || ''),
       updatedAt: Number.isFinite(Number(parsed.updatedAt)) ? Number(parsed.updatedAt) : Date.now(),
+      siteIds: parsed.siteIds && typeof parsed.siteIds === 'object' ? parsed.siteIds : {},
     };
   } catch {
     return null;
@@ -336,20 +358,92 @@ const loadEntryManagerSession = (): EntryManagerSession | null => {
 };
 
 const saveEntryManagerSession = (session: EntryManagerSession) => {
-  if (typeof window === 'undefined') return;
   try {
-    localStorage.setItem(ENTRY_MANAGER_SESSION_KEY, JSON.stringify(session));
+    writeEntrySession(session);
   } catch (error) {
     console.warn('Failed to persist entry manager session', error);
   }
 };
 
 const clearEntryManagerSession = () => {
-  if (typeof window === 'undefined') return;
-  localStorage.removeItem(ENTRY_MANAGER_SESSION_KEY);
+  clearEntrySession();
+};
+
+interface SavedOptimizerRules {
+  engine: OptimizerEngine;
+  rules: OptimizerRequestRules;
+}
+
+// Late swap honours the Optimizer page's saved settings for this slate
+// (engine, excludes, stack, player groups, weights). Exposure caps are skipped: they are
+// portfolio-level and meaningless for a single re-optimized lineup.
+const loadSavedOptimizerRules = (slateDate?: string): SavedOptimizerRules => {
+  const fallback: SavedOptimizerRules = { engine: 'ilp', rules: {} };
+  try {
+    const parsed = readOptimizerSettings(getOptimizerSettingsKey(slateDate));
+    if (!parsed) return fallback;
+    const config = parsed?.config && typeof parsed.config === 'object' ? parsed.config : {};
+    const overrides = parsed?.playerOverrides && typeof parsed.playerOverrides === 'object' ? parsed.playerOverrides : {};
+    return {
+      engine: OPTIMIZER_ENGINES.includes(config.engine) ? config.engine : 'ilp',
+      rules: {
+        excludes: Object.entries(overrides)
+          .filter(([, override]: [string, any]) => override?.exclude === true)
+          .map(([id]) => id),
+        stack: {
+          enforceTeamStack: config.enforceTeamStack === true,
+          minTeamStackSize: Number(config.minTeamStackSize) || 2,
+          games: Array.isArray(config.gameStacks) ? config.gameStacks : [],
+          maxPlayersPerTeam: Number(config.maxPlayersPerTeam) > 0 ? Number(config.maxPlayersPerTeam) : null,
+        },
+        groups: sanitizePlayerGroupRules(parsed?.playerGroups),
+        ...(config.objectiveWeights && typeof config.objectiveWeights === 'object' ? { weights: config.objectiveWeights } : {}),
+      },
+    };
+  } catch {
+    return fallback;
+  }
 };
 
-export const DKEntryManager: React.FC<Props> = ({ players, games, showActuals = false, slateDate = '', selectedSlate = null, deepDiveAllowedTabs, isHistoricalMode = false }) => {
+interface PortfolioSwapLimits {
+  maxExposurePct: number;
+  minUniquePlayers: number;
+}
+
+// Portfolio late swap starts from the Optimizer page's exposure cap and min-unique for this slate.
+const loadSavedPortfolioLimits = (slateDate?: string): PortfolioSwapLimits => {
+  const fallback: PortfolioSwapLimits = { maxExposurePct: 100, minUniquePlayers: 1 };
+  try {
+    const config = readOptimizerSettings(getOptimizerSettingsKey(slateDate))?.config;
+    if (!config || typeof config !== 'object') return fallback;
+    const maxExposure = Number(config.maxExposure);
+    const minUnique = Number(config.minUniquePlayers);
+    return {
+      maxExposurePct: Number.isFinite(maxExposure) ? Math.max(0, Math.min(100, maxExposure)) : fallback.maxExposurePct,
+      minUniquePlayers: Number.isFinite(minUnique) && minUnique >= 1 ? Math.floor(minUnique) : fallback.minUniquePlayers,
+    };
+  } catch {
+    return fallback;
+  }
+};
+
+/** A saved set being distributed across contests, waiting for review before slots are written. */
+interface PendingContestPlan {
+  savedSet: SavedLineupSet;
+  groups: ContestGroup[];
+}
+
+/** A portfolio late swap waiting for the user to review its exposure changes. */
+interface PendingPortfolioSwap {
+  entries: Entry[];
+  status: LateSwapEntryStatus[];
+  exposureDiff: LateSwapExposureChange[];
+}
+
+export const DKEntryManager: React.FC<Props> = ({ players, games, showActuals = false, slateDate = '', selectedSlate = null, deepDiveAllowedTabs, isHistoricalMode = false, site = 'DraftKings', onSiteChange, contest = DEFAULT_CONTEST, swapRequest = null }) => {
+  const rules = useMemo(() => getSiteRules(site), [site]);
+  const slotOrder = useMemo(() => rules.slots.map((slot) => slot.key), [rules]);
+  const slotRuleByKey = useMemo(() => new Map(rules.slots.map((slot) => [slot.key, slot])), [rules]);
   const [entries, setEntries] = useState<Entry[]>([]);
   const fileInputRef = useRef<HTMLInputElement | null>(null);
   const lineupFileInputRef = useRef<HTMLInputElement | null>(null);
@@ -358,12 +452,17 @@ export const DKEntryManager: React.FC<Props> = ({ players, games, showActuals =
   const [deepDivePlayer, setDeepDivePlayer] = useState<Player | null>(null);
   const [manualLocks, setManualLocks] = useState<Set<string>>(new Set());
   const [playerScores, setPlayerScores] = useState<Record<string, number>>({});
+  const [siteIds, setSiteIds] = useState<Record<string, string>>({});
   const [loadedFileName, setLoadedFileName] = useState('');
   const [sessionSavedAt, setSessionSavedAt] = useState<number | null>(null);
   const [showImportLineupsModal, setShowImportLineupsModal] = useState(false);
   const [savedLineupSets, setSavedLineupSets] = useState<SavedLineupSet[]>([]);
   const [isLateSwapRunning, setIsLateSwapRunning] = useState(false);
   const [lateSwapProgress, setLateSwapProgress] = useState<{ current: number; total: number } | null>(null);
+  const [portfolioSwapEnabled, setPortfolioSwapEnabled] = useState(false);
+  const [portfolioLimits, setPortfolioLimits] = useState<PortfolioSwapLimits>(() => loadSavedPortfolioLimits(slateDate));
+  const [pendingPortfolioSwap, setPendingPortfolioSwap] = useState<PendingPortfolioSwap | null>(null);
+  const [pendingContestPlan, setPendingContestPlan] = useState<PendingContestPlan | null>(null);
   const scrollContainerRef = useRef<HTMLDivElement>(null);
   const playerRefs = useRef<Record<string, HTMLDivElement>>({});
 
@@ -393,26 +492,38 @@ export const DKEntryManager: React.FC<Props> = ({ players, games, showActuals =
       map.set(p.id, p);
       map.set(`${p.name} (${p.id})`, p);
       map.set(`${p.name} (${p.id})`.toLowerCase(), p);
-      map.set(p.name.toLowerCase(), p);
+      // Bare names resolve to the FLEX row, never its captain row.
+      if (!p.captainOf) map.set(p.name.toLowerCase(), p);
     });
     return map;
   }, [players]);
 
+  const appIdBySiteId = useMemo(
+    () => new Map(Object.entries(siteIds).map(([appId, siteId]) => [siteId, appId])),
+    [siteIds],
+  );
+
+  // Slot cells carry the entries file's ids; map them back to the app's.
+  const slotPlayerId = (value: string): string => {
+    const id = extractSlotPlayerId(value);
+    return id ? appIdBySiteId.get(id) ?? id : '';
+  };
+
   const getPlayerFromString = (playerStr: string): Player | undefined => {
     const raw = String(playerStr || '').trim();
     if (!raw) return undefined;
 
     const normalized = stripSlotTags(raw);
-    const idMatch = normalized.match(/\((\d+)\)/);
-    if (idMatch?.[1]) {
-      const byId = playerMap.get(idMatch[1]);
+    const parsedId = slotPlayerId(normalized);
+    if (parsedId) {
+      const byId = playerMap.get(parsedId);
       if (byId) return byId;
     }
 
     const direct = playerMap.get(normalized) || playerMap.get(normalized.toLowerCase());
     if (direct) return direct;
 
-    const nameOnly = normalized.replace(/\(\d+\)/g, '').trim().toLowerCase();
+    const nameOnly = extractSlotDisplayName(normalized).toLowerCase();
     if (!nameOnly) return undefined;
     return playerMap.get(nameOnly);
   };
@@ -437,7 +548,7 @@ export const DKEntryManager: React.FC<Props> = ({ players, games, showActuals =
     let projectedPoints = 0;
     let salary = 0;
 
-    SLOT_ORDER.forEach((slot) => {
+    Object.keys(slots).forEach((slot) => {
       const player = getPlayerFromString(slots[slot]);
       if (!player) return;
       salary += player.salary || 0;
@@ -451,7 +562,7 @@ export const DKEntryManager: React.FC<Props> = ({ players, games, showActuals =
     return {
       currentPoints,
       projectedPoints,
-      remainingSalary: SALARY_CAP - salary,
+      remainingSalary: rules.salaryCap - salary,
     };
   };
 
@@ -471,7 +582,9 @@ export const DKEntryManager: React.FC<Props> = ({ players, games, showActuals =
     const session = loadEntryManagerSession();
     if (!session) return;
     if (session.slateDate && slateDate && session.slateDate !== slateDate) return;
+    if (session.site !== rules.site) onSiteChange?.(session.site);
     setPlayerScores(session.playerScores || {});
+    setSiteIds(session.siteIds || {});
     setManualLocks(new Set(session.manualLocks || []));
     setLoadedFileName(session.fileName || '');
     setSessionSavedAt(session.updatedAt || null);
@@ -481,21 +594,23 @@ export const DKEntryManager: React.FC<Props> = ({ players, games, showActuals =
   useEffect(() => {
     if (!loadedFileName || entries.length === 0) return;
     saveEntryManagerSession({
+      site: rules.site,
       entries,
       playerScores,
       manualLocks: Array.from(manualLocks),
       fileName: loadedFileName,
       slateDate,
       updatedAt: Date.now(),
+      siteIds,
     });
-  }, [entries, loadedFileName, manualLocks, playerScores, slateDate]);
+  }, [entries, loadedFileName, manualLocks, playerScores, slateDate, rules, siteIds]);
 
   useEffect(() => {
     setEntries((prev) => {
       if (prev.length === 0) return prev;
       return prev.map((entry) => hydrateEntry(entry));
     });
-  }, [games, manualLocks, playerScores, players]);
+  }, [games, manualLocks, playerScores, players, rules, siteIds]);
   
   const handleCsv = (file: File) => {
     Papa.parse(file, {
@@ -506,26 +621,57 @@ export const DKEntryManager: React.FC<Props> = ({ players, games, showActuals =
         const newEntries: Entry[] = [];
         const newPlayerScores: Record<string, number> = {};
 
-        // Build the slate player set from the DK CSV's own player pool columns
-        // (col 16 = numeric ID, col 18 = salary). This is the authoritative source
-        // for who is actually on the slate — not the projections file.
-        const dkSlatePlayerIds = new Set<string>();
+        // The header row tells us which site exported the file; switch the app over if it differs.
+        const csvRules = getSiteRules(detectEntryCsvSite(rows[0] || []) ?? rules.site);
+        if (csvRules.site !== rules.site) onSiteChange?.(csvRules.site);
+        const metadataColumns = csvRules.entryCsv.metadataColumns.map(normalizeEntryColumn);
+        const entryIdCol = metadataColumns.indexOf('entryid');
+        const contestNameCol = metadataColumns.indexOf('contestname');
+        const contestIdCol = metadataColumns.indexOf('contestid');
+        const entryFeeCol = metadataColumns.indexOf('entryfee');
+        const firstSlotCol = metadataColumns.length;
+
+        // Build the slate player set from the CSV's own player pool columns. This is
+        // the authoritative source for who is actually on the slate — not the
+        // projections file. Pool columns are located by their "ID"/"Salary" headers,
+        // falling back to DK's fixed layout (col 16 = numeric ID, col 18 = salary).
+        const slatePlayerIds = new Set<string>();
+        const poolRows: SitePoolRow[] = [];
+        let poolIdCol = -1;
+        let poolSalaryCol = -1;
+        let poolNameCol = -1;
+        let poolRosterPositionCol = -1;
         rows.forEach((row) => {
-          const id = String(row[16] || '').trim();
-          const salary = Number(String(row[18] || '0').replace(/[^0-9]/g, ''));
-          if (/^\d+$/.test(id) && salary > 0) dkSlatePlayerIds.add(id);
+          const idHeader = row.findIndex((cell) => normalizeEntryColumn(cell) === 'id');
+          const salaryHeader = row.findIndex((cell) => normalizeEntryColumn(cell) === 'salary');
+          if (idHeader >= 0 && salaryHeader >= 0) {
+            poolIdCol = idHeader;
+            poolSalaryCol = salaryHeader;
+            poolNameCol = row.findIndex((cell) => normalizeEntryColumn(cell) === 'name');
+            poolRosterPositionCol = row.findIndex((cell) => normalizeEntryColumn(cell) === 'rosterposition');
+            return;
+          }
+          const id = String(row[poolIdCol >= 0 ? poolIdCol : 16] || '').trim();
+          const salary = Number(String(row[poolSalaryCol >= 0 ? poolSalaryCol : 18] || '0').replace(/[^0-9]/g, ''));
+          if (/^[\w-]+$/.test(id) && salary > 0) {
+            slatePlayerIds.add(id);
+            if (poolNameCol >= 0 && poolRosterPositionCol >= 0) {
+              poolRows.push({ id, name: String(row[poolNameCol] || ''), rosterPosition: String(row[poolRosterPositionCol] || '') });
+            }
+          }
         });
+        // Showdown files number players per draft group, captains separately.
+        const newSiteIds = csvRules.captain ? buildShowdownSiteIds(poolRows, players) : {};
 
         const markOutIfNeeded = (rawSlot: string): string => {
           const raw = rawSlot.trim();
           if (!raw) return '';
-          const idMatch = raw.match(/\((\d+)\)/);
-          const playerId = idMatch?.[1];
+          const playerId = csvRules.entryCsv.parsePlayerId(raw);
           const addOutTag = (value: string): string => (/\(OUT\)/i.test(value) ? value : `${value} (OUT)`);
-          // If the DK CSV has a player pool, use it as the authority.
-          // If the player is in the DK slate with salary, keep as active.
-          if (dkSlatePlayerIds.size > 0) {
-            if (playerId && dkSlatePlayerIds.has(playerId)) return raw;
+          // If the CSV has a player pool, use it as the authority.
+          // If the player is in the slate with salary, keep as active.
+          if (slatePlayerIds.size > 0) {
+            if (playerId && slatePlayerIds.has(playerId)) return raw;
             return addOutTag(raw);
           }
           // Fallback: check the projections playerMap (original behaviour)
@@ -537,28 +683,21 @@ export const DKEntryManager: React.FC<Props> = ({ players, games, showActuals =
         };
 
         rows.forEach((row) => {
-          const firstCell = String(row[0] || '').trim().toLowerCase();
-          if (firstCell === 'entry id') return;
-          if (row[0] && row[2]) { // Entry row
-            const rawSlots = [row[4], row[5], row[6], row[7], row[8], row[9], row[10], row[11]];
-            const slots: Record<Slot, string> = {
-              PG: markOutIfNeeded(rawSlots[0] || ''),
-              SG: markOutIfNeeded(rawSlots[1] || ''),
-              SF: markOutIfNeeded(rawSlots[2] || ''),
-              PF: markOutIfNeeded(rawSlots[3] || ''),
-              C:  markOutIfNeeded(rawSlots[4] || ''),
-              G:  markOutIfNeeded(rawSlots[5] || ''),
-              F:  markOutIfNeeded(rawSlots[6] || ''),
-              UTIL: markOutIfNeeded(rawSlots[7] || ''),
-            };
+          const firstCell = normalizeEntryColumn(row[entryIdCol]);
+          if (firstCell === 'entryid') return;
+          if (row[entryIdCol] && row[contestIdCol]) { // Entry row
+            const slots = csvRules.slots.reduce<Record<Slot, string>>((acc, slot, idx) => {
+              acc[slot.key] = markOutIfNeeded(row[firstSlotCol + idx] || '');
+              return acc;
+            }, {});
             newEntries.push({
-              entryId: row[0],
-              contestName: row[1],
-              contestId: row[2],
-              entryFee: row[3],
+              entryId: row[entryIdCol],
+              contestName: row[contestNameCol],
+              contestId: row[contestIdCol],
+              entryFee: row[entryFeeCol],
               slots,
             });
-          } else if (!row[0] && !row[2] && row[14]) { // Player score row
+          } else if (csvRules.site === 'DraftKings' && !row[0] && !row[2] && row[14]) { // DK live player score row
             const playerId = row[15];
             const score = parseFloat(row[21]);
             if (playerId && !isNaN(score)) {
@@ -569,22 +708,25 @@ export const DKEntryManager: React.FC<Props> = ({ players, games, showActuals =
 
         const updatedEntries = newEntries.map((entry) => hydrateEntry(entry, newPlayerScores));
         setPlayerScores(newPlayerScores);
+        setSiteIds(newSiteIds);
         setEntries(updatedEntries);
         setLoadedFileName(file.name);
         const savedAt = Date.now();
         setSessionSavedAt(savedAt);
         saveEntryManagerSession({
+          site: csvRules.site,
           entries: updatedEntries,
           playerScores: newPlayerScores,
           manualLocks: Array.from(manualLocks),
           fileName: file.name,
           slateDate,
           updatedAt: savedAt,
+          siteIds: newSiteIds,
         });
       },
       error: (err) => {
         console.error('CSV parse error', err);
-        alert('Failed to parse DKEntries.csv');
+        alert('Failed to parse the entries CSV');
       },
     });
   };
@@ -596,12 +738,17 @@ export const DKEntryManager: React.FC<Props> = ({ players, games, showActuals =
 
   const downloadCsv = () => {
     if (!entries.length) return;
-    const rows = entries.map((en) => {
-      const row: Record<string, string> = { 'Entry ID': en.entryId, 'Contest Name': en.contestName, 'Contest ID': en.contestId, 'Entry Fee': en.entryFee };
-      SLOT_ORDER.forEach((s) => { row[s] = stripSlotTags(en.slots[s] || ''); });
-      return row;
-    });
-    const csv = Papa.unparse(rows, { columns: REQUIRED_COLS });
+    if (rules.unavailableReason) {
+      alert(rules.unavailableReason);
+      return;
+    }
+    // Slot cells are written back verbatim (minus our tags) so unresolved players survive the round trip.
+    const [header] = buildEntryCsvRows([], rules);
+    const rows = entries.map((en) => [
+      ...rules.entryCsv.metadataColumns.map((column) => entryMetadataValue(en, column)),
+      ...slotOrder.map((slot) => stripSlotTags(en.slots[slot] || '')),
+    ]);
+    const csv = Papa.unparse([header, ...rows]);
     const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
     const url = URL.createObjectURL(blob);
     const a = document.createElement('a');
@@ -617,12 +764,14 @@ export const DKEntryManager: React.FC<Props> = ({ players, games, showActuals =
     if (!loadedFileName || entries.length === 0) return;
     const savedAt = Date.now();
     saveEntryManagerSession({
+      site: rules.site,
       entries,
       playerScores,
       manualLocks: Array.from(manualLocks),
       fileName: loadedFileName,
       slateDate,
       updatedAt: savedAt,
+      siteIds,
     });
     setSessionSavedAt(savedAt);
   };
@@ -630,6 +779,7 @@ export const DKEntryManager: React.FC<Props> = ({ players, games, showActuals =
   const clearLoadedEntries = () => {
     setEntries([]);
     setPlayerScores({});
+    setSiteIds({});
     setManualLocks(new Set());
     setLoadedFileName('');
     setSessionSavedAt(null);
@@ -666,7 +816,7 @@ export const DKEntryManager: React.FC<Props> = ({ players, games, showActuals =
     for (let lineupIdx = 0; lineupIdx < applyCount; lineupIdx += 1) {
       const entryIdx = targetIndexes[lineupIdx];
       const sourceLineup = savedSet.lineups[lineupIdx];
-      const slots = lineupToSlots(sourceLineup, playerMap);
+      const slots = lineupToSlots(sourceLineup, playerMap, rules, siteIds);
       nextEntries[entryIdx] = hydrateEntry({
         ...nextEntries[entryIdx],
         slots,
@@ -676,6 +826,36 @@ export const DKEntryManager: React.FC<Props> = ({ players, games, showActuals =
     setShowImportLineupsModal(false);
   };
 
+  const openContestPlanner = (savedSet: SavedLineupSet) => {
+    if (!entries.length || savedSet.lineups.length === 0) return;
+    setPendingContestPlan({ savedSet, groups: groupEntriesByContest(entries) });
+    setShowImportLineupsModal(false);
+  };
+
+  const contestPlan = useMemo(() => (
+    pendingContestPlan
+      ? planContestAssignments(pendingContestPlan.groups, pendingContestPlan.savedSet.lineups, playerMap)
+      : null
+  ), [pendingContestPlan, playerMap]);
+
+  const setContestObjective = (contestId: string, objective: ContestObjective) => {
+    setPendingContestPlan((prev) => prev && {
+      ...prev,
+      groups: prev.groups.map((group) => (group.contestId === contestId ? { ...group, objective } : group)),
+    });
+  };
+
+  const applyContestPlan = () => {
+    if (!pendingContestPlan || !contestPlan) return;
+    const { lineups } = pendingContestPlan.savedSet;
+    setEntries((prev) => prev.map((entry, idx) => {
+      const lineupIdx = contestPlan.assignments.get(idx);
+      if (lineupIdx === undefined) return entry;
+      return hydrateEntry({ ...entry, slots: lineupToSlots(lineups[lineupIdx], playerMap, rules, siteIds) });
+    }));
+    setPendingContestPlan(null);
+  };
+
   const handleLineupImport = async (file: File) => {
     try {
       const parsedLineups = await parseOptimizerLineups(file, players);
@@ -698,7 +878,7 @@ export const DKEntryManager: React.FC<Props> = ({ players, games, showActuals =
         id: `saved_${now}_${Math.random().toString(36).slice(2, 8)}`,
         name: baseName || 'Imported Lineups',
         slateDate: slateDate || '',
-        salaryCap: SALARY_CAP,
+        salaryCap: rules.salaryCap,
         createdAt: now,
         lineups: normalizedLineups,
       };
@@ -714,7 +894,7 @@ export const DKEntryManager: React.FC<Props> = ({ players, games, showActuals =
       }
     } catch (error) {
       console.error('Failed to import lineups file', error);
-      alert('Failed to import lineups CSV. Please confirm it includes lineup slot columns (PG, SG, SF, PF, C, G, F, UTIL).');
+      alert(`Failed to import lineups CSV. Please confirm it includes lineup slot columns (${rules.entryCsv.slotHeaders.join(', ')}).`);
     } finally {
       if (lineupFileInputRef.current) lineupFileInputRef.current.value = '';
     }
@@ -727,60 +907,47 @@ export const DKEntryManager: React.FC<Props> = ({ players, games, showActuals =
     }
   };
 
-  const runSingleLineupOptimization = (pool: Player[]): Promise<Lineup | null> => {
-    return new Promise((resolve) => {
-      const worker = new OptimizerWorker();
-      let finished = false;
-
-      const finish = (lineup: Lineup | null) => {
-        if (finished) return;
-        finished = true;
-        worker.terminate();
-        resolve(lineup);
-      };
-
-      worker.onmessage = (event: MessageEvent) => {
-        const msg = event.data;
-        if (msg?.type === 'result') {
-          const lineup = Array.isArray(msg.lineups) && msg.lineups.length > 0 ? msg.lineups[0] : null;
-          finish(lineup);
-          return;
-        }
-        if (msg?.type === 'error') {
-          finish(null);
-        }
-      };
-
-      worker.onerror = () => finish(null);
-      worker.postMessage({
-        players: pool,
-        config: {
-          numLineups: 1,
-          salaryCap: SALARY_CAP,
-          salaryFloor: 0,
-          maxExposure: 100,
-          stackMinGameTotal: 0,
-          enableStackScoring: false,
-        },
-      });
+  const runSingleLineupOptimization = async (pool: Player[]): Promise<Lineup | null> => {
+    const saved = loadSavedOptimizerRules(slateDate);
+    const job = startOptimizerJob({
+      engine: saved.engine,
+      players: pool,
+      rules: {
+        ...saved.rules,
+        site: rules.site,
+        numLineups: 1,
+        salaryFloor: 0,
+        locks: pool.filter((player) => Boolean((player as any).optimizerLocked)).map((player) => player.id),
+        excludes: [
+          ...(saved.rules.excludes || []),
+          ...pool.filter((player) => Boolean((player as any).optimizerExcluded)).map((player) => player.id),
+        ],
+      },
     });
+    try {
+      const result = await job.result;
+      return result.lineups.length > 0 ? result.lineups[0] : null;
+    } catch (error) {
+      console.warn('Late swap optimization failed for entry', error);
+      return null;
+    }
   };
 
   const buildLateSwapPool = (entry: Entry): Player[] => {
     const lockedPlayerIds = new Set<string>();
     const outPlayerIds = new Set<string>();
-    SLOT_ORDER.forEach((slot) => {
+    slotOrder.forEach((slot) => {
       const playerStr = entry.slots[slot];
       if (!playerStr) return;
       // OUT players should never be selected by the late-swap optimizer,
       // regardless of whether their game has started.
       if (isPlayerOut(playerStr)) {
-        const outId = extractSlotPlayerId(playerStr);
-        if (outId) outPlayerIds.add(outId);
+        const outId = slotPlayerId(playerStr);
+        if (outId) outPlayerIds.add(rosterKey(outId));
         return;
       }
       if (!isPlayerLocked(playerStr)) return;
-      const parsedId = extractSlotPlayerId(playerStr);
+      const parsedId = slotPlayerId(playerStr);
       if (parsedId) {
         lockedPlayerIds.add(parsedId);
         return;
@@ -807,7 +974,7 @@ export const DKEntryManager: React.FC<Props> = ({ players, games, showActuals =
         const playerId = normalizePlayerId(player.id);
         const playerTeam = String(player.team || '').toUpperCase();
         const isLockedPlayer = !!playerId && lockedPlayerIds.has(playerId);
-        const isOutPlayer = !!playerId && outPlayerIds.has(playerId);
+        const isOutPlayer = !!playerId && outPlayerIds.has(rosterKey(playerId));
         const isStatusOut = isPlayerMarkedOutByStatus(player);
         const isExcluded = isOutPlayer || isStatusOut || (!isLockedPlayer && lockedTeams.has(playerTeam));
         return {
@@ -828,19 +995,19 @@ export const DKEntryManager: React.FC<Props> = ({ players, games, showActuals =
     const lockedSlots = new Set<Slot>();
     const usedPlayerIds = new Set<string>();
 
-    SLOT_ORDER.forEach((slot) => {
+    slotOrder.forEach((slot) => {
       const existing = entry.slots[slot];
       if (existing && isPlayerLocked(existing)) {
         // Keep locked slots regardless of whether the player is in the pool.
         // A locked+OUT player (game started, player didn't play) can't be swapped.
         nextSlots[slot] = existing;
         lockedSlots.add(slot);
-        const parsedId = extractSlotPlayerId(existing);
+        const parsedId = slotPlayerId(existing);
         if (parsedId) {
-          usedPlayerIds.add(parsedId);
+          usedPlayerIds.add(rosterKey(parsedId));
         } else {
           const existingPlayer = getPlayerFromString(existing);
-          const existingPlayerId = normalizePlayerId(existingPlayer?.id);
+          const existingPlayerId = rosterKey(existingPlayer?.id);
           if (existingPlayerId) usedPlayerIds.add(existingPlayerId);
         }
       } else {
@@ -848,13 +1015,13 @@ export const DKEntryManager: React.FC<Props> = ({ players, games, showActuals =
       }
     });
 
-    const unlockedSlots = SLOT_ORDER.filter((slot) => !lockedSlots.has(slot));
+    const unlockedSlots = slotOrder.filter((slot) => !lockedSlots.has(slot));
     if (unlockedSlots.length === 0) return nextSlots;
 
     const optimizedById = new Map<string, Player>();
     optimizedPlayers.forEach((player) => {
       const normalizedId = normalizePlayerId(player.id);
-      if (normalizedId && !usedPlayerIds.has(normalizedId)) {
+      if (normalizedId && !usedPlayerIds.has(rosterKey(normalizedId))) {
         optimizedById.set(normalizedId, player);
       }
     });
@@ -865,7 +1032,7 @@ export const DKEntryManager: React.FC<Props> = ({ players, games, showActuals =
       .filter((player): player is Player => Boolean(player))
       .filter((player) => {
         const normalizedId = normalizePlayerId(player.id);
-        return normalizedId ? !usedPlayerIds.has(normalizedId) : false;
+        return normalizedId ? !usedPlayerIds.has(rosterKey(normalizedId)) : false;
       });
 
     const poolCandidates = pool
@@ -873,7 +1040,7 @@ export const DKEntryManager: React.FC<Props> = ({ players, games, showActuals =
       .filter((player) => !Boolean((player as any).optimizerLocked))
       .filter((player) => {
         const normalizedId = normalizePlayerId(player.id);
-        return normalizedId ? !usedPlayerIds.has(normalizedId) : false;
+        return normalizedId ? !usedPlayerIds.has(rosterKey(normalizedId)) : false;
       })
       .sort((a, b) => Number(b.projection || 0) - Number(a.projection || 0));
 
@@ -899,9 +1066,9 @@ export const DKEntryManager: React.FC<Props> = ({ players, games, showActuals =
         const eligibleCandidates = candidateOrder
           .filter((player) => {
             const normalizedId = normalizePlayerId(player.id);
-            return normalizedId ? !assignmentUsedIds.has(normalizedId) : false;
+            return normalizedId ? !assignmentUsedIds.has(rosterKey(normalizedId)) : false;
           })
-          .filter((player) => canPlayerFitSlot(player, slot))
+          .filter((player) => canPlayerFitSlot(player, slotRuleByKey.get(slot) as SiteSlotRule))
           .sort((a, b) => {
             const aFromOptimized = optimizedById.has(normalizePlayerId(a.id)) ? 1 : 0;
             const bFromOptimized = optimizedById.has(normalizePlayerId(b.id)) ? 1 : 0;
@@ -913,9 +1080,9 @@ export const DKEntryManager: React.FC<Props> = ({ players, games, showActuals =
           const normalizedId = normalizePlayerId(player.id);
           if (!normalizedId) continue;
           assignment.set(slot, player);
-          assignmentUsedIds.add(normalizedId);
+          assignmentUsedIds.add(rosterKey(normalizedId));
           if (backtrack(slotIndex + 1)) return true;
-          assignmentUsedIds.delete(normalizedId);
+          assignmentUsedIds.delete(rosterKey(normalizedId));
           assignment.delete(slot);
         }
         return false;
@@ -928,7 +1095,7 @@ export const DKEntryManager: React.FC<Props> = ({ players, games, showActuals =
     if (fullAssignment) {
       unlockedSlots.forEach((slot) => {
         const player = fullAssignment.get(slot);
-        nextSlots[slot] = player ? playerLabel(player) : '';
+        nextSlots[slot] = player ? playerLabel(player, rules, siteIds) : '';
       });
     } else {
       // Fallback: if full reassignment is infeasible, still force replacements
@@ -941,13 +1108,13 @@ export const DKEntryManager: React.FC<Props> = ({ players, games, showActuals =
         .filter((slot) => !isPlayerOut(entry.slots[slot]))
         .forEach((slot) => {
           nextSlots[slot] = entry.slots[slot] || '';
-          const parsedId = extractSlotPlayerId(entry.slots[slot] || '');
+          const parsedId = slotPlayerId(entry.slots[slot] || '');
           if (parsedId) {
-            usedForOutOnly.add(parsedId);
+            usedForOutOnly.add(rosterKey(parsedId));
             return;
           }
           const existing = getPlayerFromString(entry.slots[slot] || '');
-          const existingId = normalizePlayerId(existing?.id);
+          const existingId = rosterKey(existing?.id);
           if (existingId) usedForOutOnly.add(existingId);
         });
 
@@ -955,17 +1122,17 @@ export const DKEntryManager: React.FC<Props> = ({ players, games, showActuals =
       if (!outOnlyAssignment) return null;
       outUnlockedSlots.forEach((slot) => {
         const player = outOnlyAssignment.get(slot);
-        nextSlots[slot] = player ? playerLabel(player) : '';
+        nextSlots[slot] = player ? playerLabel(player, rules, siteIds) : '';
       });
     }
 
     // Final salary cap check — optimizer players are always within budget, but
     // any fallback (original entry) players that slipped in might push over.
-    const totalSalary = SLOT_ORDER.reduce((sum, slot) => {
+    const totalSalary = slotOrder.reduce((sum, slot) => {
       const player = getPlayerFromString(nextSlots[slot]);
       return sum + Number(player?.salary || 0);
     }, 0);
-    if (totalSalary > SALARY_CAP) return null;
+    if (totalSalary > rules.salaryCap) return null;
 
     return nextSlots;
   };
@@ -991,18 +1158,12 @@ export const DKEntryManager: React.FC<Props> = ({ players, games, showActuals =
   
   const candidatePlayers = useMemo(() => {
     if (!selectedSlot) return [];
-    const positions: string[] = (() => {
-      switch (selectedSlot.slot) {
-        case 'G': return ['PG', 'SG'];
-        case 'F': return ['SF', 'PF'];
-        case 'UTIL': return ['PG', 'SG', 'SF', 'PF', 'C'];
-        default: return [selectedSlot.slot];
-      }
-    })();
+    const slotRule = slotRuleByKey.get(selectedSlot.slot);
+    if (!slotRule) return [];
     return players
-      .filter(p => p.position && positions.some(pos => p.position.includes(pos)))
+      .filter(p => canPlayerFitSlot(p, slotRule))
       .sort((a,b) => b.salary - a.salary);
-  }, [selectedSlot, players]);
+  }, [selectedSlot, players, slotRuleByKey]);
 
   useEffect(() => {
     if (showCandidates && selectedSlot && scrollContainerRef.current) {
@@ -1022,7 +1183,7 @@ export const DKEntryManager: React.FC<Props> = ({ players, games, showActuals =
   const currentLineupSalary = useMemo(() => {
     if (!selectedSlot) return 0;
     const entry = entries[selectedSlot.entryIdx];
-    return SLOT_ORDER.reduce((sum, s) => sum + (getPlayerFromString(entry.slots[s])?.salary || 0), 0);
+    return slotOrder.reduce((sum, s) => sum + (getPlayerFromString(entry.slots[s])?.salary || 0), 0);
   }, [selectedSlot, entries, playerMap]);
 
   const toggleManualLock = (game: GameInfo) => {
@@ -1039,6 +1200,10 @@ export const DKEntryManager: React.FC<Props> = ({ players, games, showActuals =
 
   const runLateSwap = async () => {
     if (isLateSwapRunning || entries.length === 0) return;
+    if (rules.unavailableReason) {
+      alert(rules.unavailableReason);
+      return;
+    }
     setIsLateSwapRunning(true);
     setLateSwapProgress({ current: 0, total: entries.length });
 
@@ -1063,7 +1228,7 @@ export const DKEntryManager: React.FC<Props> = ({ players, games, showActuals =
           continue;
         }
 
-        const changed = SLOT_ORDER.some((slot) => (entry.slots[slot] || '') !== (reassignedSlots[slot] || ''));
+        const changed = slotOrder.some((slot) => (entry.slots[slot] || '') !== (reassignedSlots[slot] || ''));
         nextEntries.push(hydrateEntry({ ...entry, slots: reassignedSlots }));
         if (changed) optimizedCount += 1;
       }
@@ -1081,6 +1246,98 @@ export const DKEntryManager: React.FC<Props> = ({ players, games, showActuals =
     }
   };
 
+  const resolveSlotPlayerId = (playerStr: string): string =>
+    slotPlayerId(playerStr) || normalizePlayerId(getPlayerFromString(playerStr)?.id);
+
+  const getSlotPlayerIds = (slots: Record<Slot, string>): string[] =>
+    slotOrder.map((slot) => (slots[slot] ? resolveSlotPlayerId(slots[slot]) : '')).filter(Boolean);
+
+  // Entries hydrate from the saved session after mount, so a request waits until they are loaded.
+  const handledSwapRequestRef = useRef<number | null>(null);
+  useEffect(() => {
+    if (!swapRequest || handledSwapRequestRef.current === swapRequest.requestedAt || entries.length === 0) return;
+    handledSwapRequestRef.current = swapRequest.requestedAt;
+    const entryIdx = entries.findIndex((entry) => entry.entryId === swapRequest.entryId);
+    if (entryIdx < 0) return;
+    const slot = slotOrder.find((key) => {
+      const playerStr = entries[entryIdx].slots[key];
+      return Boolean(playerStr) && resolveSlotPlayerId(playerStr) === swapRequest.playerId;
+    });
+    if (slot) openSwapModal(entryIdx, slot);
+  }, [swapRequest, entries]);
+
+  const runPortfolioLateSwap = async () => {
+    if (isLateSwapRunning || entries.length === 0) return;
+    if (rules.unavailableReason) {
+      alert(rules.unavailableReason);
+      return;
+    }
+    setIsLateSwapRunning(true);
+    setLateSwapProgress({ current: 0, total: entries.length });
+
+    try {
+      // Locked slots stay put even when the player is OUT; unlocked OUT players are always swapped out.
+      const plans: LateSwapEntryPlan[] = entries.map((entry) => {
+        const lockedIds: string[] = [];
+        const currentIds: string[] = [];
+        slotOrder.forEach((slot) => {
+          const playerStr = entry.slots[slot];
+          if (!playerStr) return;
+          const id = resolveSlotPlayerId(playerStr);
+          if (!id) return;
+          if (isPlayerLocked(playerStr)) lockedIds.push(id);
+          else if (!isPlayerOut(playerStr)) currentIds.push(id);
+        });
+        return { lockedIds, currentIds };
+      });
+
+      const slotsByEntry = new Map<number, Record<Slot, string>>();
+      const plan = await planPortfolioLateSwap({
+        entries: plans,
+        rosterSize: slotOrder.length,
+        maxExposurePct: portfolioLimits.maxExposurePct,
+        minUniquePlayers: portfolioLimits.minUniquePlayers,
+        optimize: async (entryIdx, excludeIds) => {
+          const entry = entries[entryIdx];
+          const pool = buildLateSwapPool(entry).map((player) => (
+            excludeIds.has(player.id) && !(player as any).optimizerLocked ? { ...player, optimizerExcluded: true } : player
+          ));
+          const optimized = await runSingleLineupOptimization(pool);
+          const slots = optimized ? assignOptimizedLineupToEntry(entry, optimized, pool) : null;
+          if (!slots) return null;
+          slotsByEntry.set(entryIdx, slots);
+          return getSlotPlayerIds(slots);
+        },
+        onProgress: (current, total) => setLateSwapProgress({ current, total }),
+      });
+
+      const nextEntries = entries.map((entry, idx) => {
+        const slots = slotsByEntry.get(idx);
+        return plan.status[idx] === 'swapped' && slots ? hydrateEntry({ ...entry, slots }) : entry;
+      });
+      setPendingPortfolioSwap({
+        entries: nextEntries,
+        status: plan.status,
+        exposureDiff: buildLateSwapExposureDiff(
+          entries.map((entry) => getSlotPlayerIds(entry.slots)),
+          nextEntries.map((entry) => getSlotPlayerIds(entry.slots)),
+        ),
+      });
+    } catch (error) {
+      console.error('Portfolio late swap failed', error);
+      alert('Portfolio late swap failed. Please try again.');
+    } finally {
+      setIsLateSwapRunning(false);
+      setLateSwapProgress(null);
+    }
+  };
+
+  const pendingSwapCounts = useMemo(() => {
+    const counts: Record<LateSwapEntryStatus, number> = { swapped: 0, unchanged: 0, kept: 0, locked: 0 };
+    pendingPortfolioSwap?.status.forEach((status) => { counts[status] += 1; });
+    return counts;
+  }, [pendingPortfolioSwap]);
+
   return (
     <div className="flex flex-col h-full space-y-6 pb-24 bg-vellum text-black">
       {/* Top Header */}
@@ -1110,13 +1367,62 @@ export const DKEntryManager: React.FC<Props> = ({ players, games, showActuals =
         </button>
         <div className="ml-auto flex flex-col items-end gap-1.5">
           <button
-            onClick={runLateSwap}
+            onClick={portfolioSwapEnabled ? runPortfolioLateSwap : runLateSwap}
             disabled={isLateSwapRunning || entries.length === 0}
             className="px-4 py-2 rounded-lg bg-drafting-orange text-white font-bold text-sm uppercase tracking-widest shadow hover:brightness-110 transition-all disabled:opacity-40 disabled:cursor-not-allowed"
           >
             <Zap className="inline-block w-4 h-4 mr-2"/>
             {isLateSwapRunning ? 'Optimizing...' : 'Run Late Swap'}
           </button>
+          <div className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-black/60">
+            <label className="flex items-center gap-1.5">
+              <input
+                type="checkbox"
+                checked={portfolioSwapEnabled}
+                disabled={isLateSwapRunning}
+                onChange={(e) => {
+                  setPortfolioSwapEnabled(e.target.checked);
+                  if (e.target.checked) setPortfolioLimits(loadSavedPortfolioLimits(slateDate));
+                }}
+                className="accent-drafting-orange"
+              />
+              Portfolio
+            </label>
+            {portfolioSwapEnabled && (
+              <>
+                <label className="flex items-center gap-1">
+                  Max Exp %
+                  <input
+                    type="number"
+                    min={0}
+                    max={100}
+                    value={portfolioLimits.maxExposurePct}
+                    disabled={isLateSwapRunning}
+                    onChange={(e) => {
+                      const parsed = Number(e.target.value);
+                      setPortfolioLimits((prev) => ({ ...prev, maxExposurePct: Number.isFinite(parsed) ? Math.max(0, Math.min(100, parsed)) : 100 }));
+                    }}
+                    className="h-6 w-14 bg-white border border-ink/20 rounded-sm px-1 text-[10px] font-mono text-black"
+                  />
+                </label>
+                <label className="flex items-center gap-1">
+                  Min Unique
+                  <input
+                    type="number"
+                    min={1}
+                    max={slotOrder.length}
+                    value={portfolioLimits.minUniquePlayers}
+                    disabled={isLateSwapRunning}
+                    onChange={(e) => {
+                      const parsed = Math.floor(Number(e.target.value));
+                      setPortfolioLimits((prev) => ({ ...prev, minUniquePlayers: Number.isFinite(parsed) ? Math.max(1, Math.min(slotOrder.length, parsed)) : 1 }));
+                    }}
+                    className="h-6 w-12 bg-white border border-ink/20 rounded-sm px-1 text-[10px] font-mono text-black"
+                  />
+                </label>
+              </>
+            )}
+          </div>
           {lateSwapProgress && (
             <div className="w-full min-w-[160px]">
               <div className="flex justify-between text-[10px] font-mono text-black/50 mb-0.5">
@@ -1173,6 +1479,8 @@ export const DKEntryManager: React.FC<Props> = ({ players, games, showActuals =
         </div>
       )}
 
+      <ContestStandingsPanel slateDate={slateDate} entries={entries} players={players} contest={contest} />
+
       <div className="flex flex-col md:flex-row flex-1 overflow-hidden">
         {/* Left Panel: Slate Controls */}
         <div className="w-full md:w-[18%] md:flex-shrink-0 bg-white border-b md:border-b-0 md:border-r border-ink/10 p-4 md:overflow-y-auto rounded-lg shadow-sm">
@@ -1237,7 +1545,7 @@ export const DKEntryManager: React.FC<Props> = ({ players, games, showActuals =
                                 <div className="text-[11px] text-black/60 font-mono"></div>
                             </div>
                             <div className="p-3 space-y-2">
-                                {SLOT_ORDER.map(slot => {
+                                {rules.slots.map(({ key: slot, label }) => {
                                     const playerStr = entry.slots[slot];
                                     const isOut = isPlayerOut(playerStr);
                                     const player = getPlayerFromString(playerStr);
@@ -1252,7 +1560,7 @@ export const DKEntryManager: React.FC<Props> = ({ players, games, showActuals =
                                           className={`relative flex items-center justify-between rounded border px-2 py-1.5 ${locked ? 'bg-ink/5 border-ink/10' : isOut ? 'bg-red-50 border-red-200 hover:border-red-400 cursor-pointer' : 'bg-vellum border-ink/10 hover:border-drafting-orange cursor-pointer'}`}
                                         >
                                           <div className="flex items-center gap-3 w-full">
-                                            <span className="text-[10px] font-black uppercase text-black/60 min-w-[28px]">{slot}</span>
+                                            <span className="text-[10px] font-black uppercase text-black/60 min-w-[28px]">{label}</span>
                                             {player && isOut ? (
                                               <div className="flex items-center w-full min-w-0 gap-2">
                                                 <span className="text-[11px] font-bold text-black/40 line-through truncate flex-1 min-w-0">{formatPlayerName(player.name)}</span>
@@ -1295,17 +1603,17 @@ export const DKEntryManager: React.FC<Props> = ({ players, games, showActuals =
           <div ref={scrollContainerRef} className="bg-vellum rounded-xl border border-ink/10 w-full max-w-3xl max-h-[80vh] overflow-hidden shadow-2xl flex flex-col">
             <div className="p-4 border-b border-ink/10 flex items-center justify-between flex-shrink-0">
                 <div>
-                    <h3 className="text-lg font-black uppercase tracking-wider text-drafting-orange">Swap {selectedSlot.slot}</h3>
-                    <p className="text-sm text-black/70 font-mono">Remaining Salary: ${(SALARY_CAP - currentLineupSalary).toLocaleString()}</p>
+                    <h3 className="text-lg font-black uppercase tracking-wider text-drafting-orange">Swap {slotRuleByKey.get(selectedSlot.slot)?.label ?? selectedSlot.slot}</h3>
+                    <p className="text-sm text-black/70 font-mono">Remaining Salary: ${(rules.salaryCap - currentLineupSalary).toLocaleString()}</p>
                 </div>
               <button onClick={() => setShowCandidates(false)} className="p-2 text-black/50 hover:text-black transition-colors rounded-full"><X className="w-5 h-5"/></button>
             </div>
             <div className="overflow-y-auto flex-1 divide-y divide-ink/10">
               {candidatePlayers.map((p) => {
-                const locked = isPlayerLocked(`${p.name} (${p.id})`);
+                const locked = isPlayerLocked(playerLabel(p, rules, siteIds));
                 const playerOut = getPlayerFromString(entries[selectedSlot.entryIdx].slots[selectedSlot.slot]);
                 const salaryAfterSwap = currentLineupSalary - (playerOut?.salary || 0) + p.salary;
-                const canAfford = salaryAfterSwap <= SALARY_CAP;
+                const canAfford = salaryAfterSwap <= rules.salaryCap;
                 
                 return (
                   <div key={p.id} ref={el => playerRefs.current[p.id] = el!} className="flex items-center justify-between px-4 py-3 hover:bg-white">
@@ -1322,7 +1630,7 @@ export const DKEntryManager: React.FC<Props> = ({ players, games, showActuals =
                       <button
                         className="px-4 py-2 rounded bg-drafting-orange text-white text-xs font-bold uppercase tracking-widest disabled:opacity-40 disabled:cursor-not-allowed hover:brightness-110 transition-colors"
                         disabled={locked || !canAfford}
-                        onClick={() => applySwap(`${p.name} (${p.id})`)}
+                        onClick={() => applySwap(playerLabel(p, rules, siteIds))}
                       >
                         Swap In
                       </button>
@@ -1365,14 +1673,25 @@ export const DKEntryManager: React.FC<Props> = ({ players, games, showActuals =
                         {savedSet.lineups.length} lineups • {new Date(savedSet.createdAt).toLocaleString()}
                       </p>
                     </div>
-                    <button
-                      type="button"
-                      onClick={() => applySavedLineupSetToEntries(savedSet)}
-                      disabled={entries.length === 0}
-                      className="px-4 py-2 rounded bg-drafting-orange text-white text-xs font-bold uppercase tracking-widest disabled:opacity-40 disabled:cursor-not-allowed hover:brightness-110 transition-colors"
-                    >
-                      Apply
-                    </button>
+                    <div className="flex items-center gap-2 shrink-0">
+                      <button
+                        type="button"
+                        onClick={() => openContestPlanner(savedSet)}
+                        disabled={entries.length === 0}
+                        title="Group entries by contest and pick lineups per contest"
+                        className="px-3 py-2 rounded border border-ink/20 text-black text-xs font-bold uppercase tracking-widest disabled:opacity-40 disabled:cursor-not-allowed hover:border-drafting-orange transition-colors"
+                      >
+                        By Contest
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => applySavedLineupSetToEntries(savedSet)}
+                        disabled={entries.length === 0}
+                        className="px-4 py-2 rounded bg-drafting-orange text-white text-xs font-bold uppercase tracking-widest disabled:opacity-40 disabled:cursor-not-allowed hover:brightness-110 transition-colors"
+                      >
+                        Apply
+                      </button>
+                    </div>
                   </div>
                 ))
               )}
@@ -1381,6 +1700,161 @@ export const DKEntryManager: React.FC<Props> = ({ players, games, showActuals =
         </div>
       )}
 
+      {pendingContestPlan && contestPlan && (
+        <div className="fixed inset-0 z-[125] bg-vellum/80 backdrop-blur-sm flex items-center justify-center p-4">
+          <div className="bg-vellum rounded-xl border border-ink/10 w-full max-w-4xl max-h-[80vh] overflow-hidden shadow-2xl flex flex-col">
+            <div className="p-4 border-b border-ink/10 flex items-center justify-between">
+              <div>
+                <h3 className="text-lg font-black uppercase tracking-wider text-drafting-orange">Plan Entries By Contest</h3>
+                <p className="text-xs text-black/70 font-mono mt-1">
+                  {pendingContestPlan.savedSet.name} • {pendingContestPlan.savedSet.lineups.length} lineups • {contestPlan.assignments.size} of {entries.length} entries assigned
+                </p>
+              </div>
+              <button onClick={() => setPendingContestPlan(null)} className="p-2 text-black/50 hover:text-black transition-colors rounded-full">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="overflow-y-auto flex-1">
+              <table className="w-full border-collapse text-xs">
+                <thead className="sticky top-0 bg-vellum">
+                  <tr className="text-[9px] font-black text-black/40 uppercase tracking-widest border-b border-ink/10">
+                    <th className="px-4 py-2 text-left">Contest</th>
+                    <th className="px-4 py-2 text-left">Objective</th>
+                    <th className="px-4 py-2 text-right">Assigned</th>
+                    <th className="px-4 py-2 text-right">Avg Proj</th>
+                    <th className="px-4 py-2 text-right">Avg Own</th>
+                    <th className="px-4 py-2 text-left">Top Exposures</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {contestPlan.contests.map((contestSummary) => (
+                    <tr key={contestSummary.contestId} className="border-b border-ink/5 font-mono align-top">
+                      <td className="px-4 py-2 text-black">
+                        <div className="font-bold truncate max-w-[220px]" title={contestSummary.contestName}>{contestSummary.contestName}</div>
+                        <div className="text-[10px] text-black/50">{contestSummary.entries} {contestSummary.entries === 1 ? 'entry' : 'entries'}</div>
+                      </td>
+                      <td className="px-4 py-2">
+                        <select
+                          value={contestSummary.objective}
+                          onChange={(e) => setContestObjective(contestSummary.contestId, e.target.value as ContestObjective)}
+                          className="bg-white/60 border border-ink/20 rounded-sm px-1.5 py-1 text-[11px] font-mono text-black focus:border-drafting-orange outline-none"
+                        >
+                          {(Object.keys(CONTEST_OBJECTIVE_LABELS) as ContestObjective[]).map((objective) => (
+                            <option key={objective} value={objective}>{CONTEST_OBJECTIVE_LABELS[objective]}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className={`px-4 py-2 text-right ${contestSummary.assigned < contestSummary.entries ? 'text-red-600 font-bold' : 'text-black'}`}>
+                        {contestSummary.assigned}/{contestSummary.entries}
+                      </td>
+                      <td className="px-4 py-2 text-right text-black">{contestSummary.avgProjection.toFixed(1)}</td>
+                      <td className="px-4 py-2 text-right text-black/70">{contestSummary.avgOwnership.toFixed(1)}%</td>
+                      <td className="px-4 py-2 text-black/70">
+                        {contestSummary.exposures.slice(0, 4).map((row) => (
+                          <span key={row.playerId} className="inline-block mr-2 whitespace-nowrap">
+                            {playerMap.get(row.playerId)?.name ?? row.playerId} {row.exposure.toFixed(0)}%
+                          </span>
+                        ))}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div className="p-4 border-t border-ink/10 flex items-center justify-between gap-2">
+              <p className="text-[10px] font-mono text-black/50">
+                Lineups never repeat within a contest; entries beyond the set&apos;s distinct lineups stay as they are.
+              </p>
+              <div className="flex gap-2">
+                <button
+                  type="button"
+                  onClick={() => setPendingContestPlan(null)}
+                  className="px-4 py-2 rounded border border-ink/20 text-xs font-bold uppercase tracking-widest text-black hover:border-drafting-orange transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="button"
+                  onClick={applyContestPlan}
+                  disabled={contestPlan.assignments.size === 0}
+                  className="px-4 py-2 rounded bg-drafting-orange text-white text-xs font-bold uppercase tracking-widest disabled:opacity-40 disabled:cursor-not-allowed hover:brightness-110 transition-colors"
+                >
+                  Write {contestPlan.assignments.size} Entries
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {pendingPortfolioSwap && (
+        <div className="fixed inset-0 z-[125] bg-vellum/80 backdrop-blur-sm flex items-center justify-center p-4">
+          <div className="bg-vellum rounded-xl border border-ink/10 w-full max-w-2xl max-h-[80vh] overflow-hidden shadow-2xl flex flex-col">
+            <div className="p-4 border-b border-ink/10 flex items-center justify-between">
+              <div>
+                <h3 className="text-lg font-black uppercase tracking-wider text-drafting-orange">Review Portfolio Late Swap</h3>
+                <p className="text-xs text-black/70 font-mono mt-1">
+                  {pendingSwapCounts.swapped} swapped • {pendingSwapCounts.unchanged} unchanged • {pendingSwapCounts.kept} kept (no feasible swap) • {pendingSwapCounts.locked} fully locked
+                </p>
+              </div>
+              <button onClick={() => setPendingPortfolioSwap(null)} className="p-2 text-black/50 hover:text-black transition-colors rounded-full">
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+            <div className="overflow-y-auto flex-1">
+              {pendingPortfolioSwap.exposureDiff.length === 0 ? (
+                <div className="p-8 text-center text-black/50 font-bold uppercase tracking-widest text-sm">
+                  No exposure changes.
+                </div>
+              ) : (
+                <table className="w-full border-collapse text-xs">
+                  <thead className="sticky top-0 bg-vellum">
+                    <tr className="text-[9px] font-black text-black/40 uppercase tracking-widest border-b border-ink/10">
+                      <th className="px-4 py-2 text-left">Player</th>
+                      <th className="px-4 py-2 text-right">Before</th>
+                      <th className="px-4 py-2 text-right">After</th>
+                      <th className="px-4 py-2 text-right">Change</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {pendingPortfolioSwap.exposureDiff.map((row) => (
+                      <tr key={row.playerId} className="border-b border-ink/5 font-mono">
+                        <td className="px-4 py-1.5 text-black">{playerMap.get(row.playerId)?.name ?? row.playerId}</td>
+                        <td className="px-4 py-1.5 text-right text-black/60">{row.before.toFixed(1)}%</td>
+                        <td className="px-4 py-1.5 text-right text-black">{row.after.toFixed(1)}%</td>
+                        <td className={`px-4 py-1.5 text-right font-bold ${row.delta > 0 ? 'text-emerald-600' : 'text-red-600'}`}>
+                          {row.delta > 0 ? '+' : ''}{row.delta.toFixed(1)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+            <div className="p-4 border-t border-ink/10 flex justify-end gap-2">
+              <button
+                type="button"
+                onClick={() => setPendingPortfolioSwap(null)}
+                className="px-4 py-2 rounded border border-ink/20 text-xs font-bold uppercase tracking-widest text-black hover:border-drafting-orange transition-colors"
+              >
+                Discard
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  setEntries(pendingPortfolioSwap.entries);
+                  setPendingPortfolioSwap(null);
+                }}
+                disabled={pendingSwapCounts.swapped === 0}
+                className="px-4 py-2 rounded bg-drafting-orange text-white text-xs font-bold uppercase tracking-widest disabled:opacity-40 disabled:cursor-not-allowed hover:brightness-110 transition-colors"
+              >
+                Apply {pendingSwapCounts.swapped} Swaps
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {deepDivePlayer && (
         <PlayerDeepDive
           player={deepDivePlayer}
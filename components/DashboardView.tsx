@@ -6,6 +6,7 @@ import { MatchupEngine } from './MatchupEngine';
 import { PlayerDeepDive } from './PlayerDeepDive';
 import { Search, Activity, BarChart3, Database, Filter, X, Trash2, PlusCircle, Download, ChevronDown } from 'lucide-react';
 import { calculateValueScores } from '../utils/valueScore';
+import { getOptimizerSettingsKey } from '../utils/persistence';
 
 interface Props {
   players: Player[];
@@ -1620,7 +1621,7 @@ export const DashboardView: React.FC<Props> = ({
           startingLineupLookup={startingLineupLookup}
           previewMode={previewMode}
           slateDate={slateDate}
-          optimizerSettingsKey={`optimizerAdvancedSettings:${slateDate || 'unspecified'}`}
+          optimizerSettingsKey={getOptimizerSettingsKey(slateDate)}
           allowedTabs={deepDiveAllowedTabs}
         />
       )}
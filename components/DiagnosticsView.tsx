@@ -3,13 +3,14 @@ import React from 'react';
 import { AppState } from '../types';
 import { Activity, ShieldCheck, Target, TrendingUp, Info, AlertTriangle, BarChart2, Cpu } from 'lucide-react';
 import { getContestViability, getFieldAlignment, getUpsideQuality, formatPct } from '../utils/contest';
+import { useContestSimulation } from '../src/hooks/useContestSimulation';
 
 interface Props {
   state: AppState;
 }
 
-const BellCurveChart: React.FC<{ userPercentile: number }> = ({ userPercentile }) => {
-  const userX = 50 + (userPercentile - 50) * 4; 
+const BellCurveChart: React.FC<{ userPercentile: number | null }> = ({ userPercentile }) => {
+  const userX = Math.max(0, Math.min(400, 50 + ((userPercentile ?? 50) - 50) * 4));
   
   return (
     <div className="relative h-48 w-full bg-black/20 rounded-xl border border-gray-800 overflow-hidden p-4">
@@ -35,7 +36,7 @@ const BellCurveChart: React.FC<{ userPercentile: number }> = ({ userPercentile }
         <text x="350" y="118" fill="#475569" fontSize="6" fontWeight="900" textAnchor="middle" className="uppercase">Ceiling</text>
 
         {/* User Lineup Indicator */}
-        <line 
+        {userPercentile !== null && <line 
           x1={userX} 
           y1="0" 
           x2={userX} 
@@ -43,26 +44,30 @@ const BellCurveChart: React.FC<{ userPercentile: number }> = ({ userPercentile }
           stroke="#00E5FF" 
           strokeWidth="2" 
           className="animate-pulse"
-        />
-        <circle cx={userX} cy="55" r="4" fill="#00E5FF" />
+        />}
+        {userPercentile !== null && <circle cx={userX} cy="55" r="4" fill="#00E5FF" />}
       </svg>
       <div className="absolute bottom-4 right-6 text-right">
         <div className="text-[10px] font-black text-brand uppercase tracking-tighter italic">Your Lineup Rank</div>
-        <div className="text-3xl font-black text-white italic font-mono">{userPercentile.toFixed(0)}th <span className="text-sm">Percentile</span></div>
+        <div className="text-3xl font-black text-white italic font-mono">{userPercentile !== null ? <>{userPercentile.toFixed(0)}th <span className="text-sm">Percentile</span></> : '--'}</div>
       </div>
     </div>
   );
 };
 
 export const DiagnosticsView: React.FC<Props> = ({ state }) => {
-  const { lineups, contestState } = state;
+  const { contestState } = state;
+  const { lineups } = useContestSimulation(state.lineups ?? [], state.slate?.players ?? [], contestState);
   const completeLineups = lineups.filter(l => !l.missingCount || l.missingCount === 0);
   
   const avgMeanProj = completeLineups.length > 0 
-    ? completeLineups.reduce((acc, l) => acc + (l.simEV || l.totalProjection), 0) / completeLineups.length 
+    ? completeLineups.reduce((acc, l) => acc + (l.simMeanScore ?? l.totalProjection), 0) / completeLineups.length 
     : 0;
 
-  const STRONG_PROTOCOL_PERCENTILE = 94; 
+  const simulatedLineups = completeLineups.filter(l => Number.isFinite(Number(l.simFieldPercentile)));
+  const avgFieldPercentile = simulatedLineups.length > 0
+    ? simulatedLineups.reduce((acc, l) => acc + Number(l.simFieldPercentile), 0) / simulatedLineups.length
+    : null;
 
   const getNarrative = () => {
     if (completeLineups.length === 0) return "Standby: No simulation data found. Upload rosters to begin leverage analysis.";
@@ -87,7 +92,7 @@ export const DiagnosticsView: React.FC<Props> = ({ state }) => {
          </div>
       </header>
 
-      <BellCurveChart userPercentile={STRONG_PROTOCOL_PERCENTILE} />
+      <BellCurveChart userPercentile={avgFieldPercentile} />
 
       <section className="bg-brand/5 p-6 rounded-xl border border-brand/20 shadow-sm relative overflow-hidden">
         <div className="absolute top-0 right-0 p-4 opacity-5 rotate-12">
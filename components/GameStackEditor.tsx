@@ -0,0 +1,158 @@
+import React from 'react';
+import { PlusCircle, Trash2 } from 'lucide-react';
+import type { GameStackRule } from '../src/workers/sa-optimizer/types';
+
+interface GameOption {
+  gameId: string;
+  label: string;
+}
+
+interface Props {
+  rules: GameStackRule[];
+  games: GameOption[];
+  maxPlayersPerTeam: number | null;
+  /** Site roster limit per team, if any; the user cap can only go below it. */
+  siteTeamCap: number | null;
+  rosterSize: number;
+  onChange: (rules: GameStackRule[]) => void;
+  onMaxPlayersPerTeamChange: (cap: number | null) => void;
+}
+
+const numberCell =
+  'h-7 w-14 bg-white/60 border border-ink/20 rounded-sm px-2 text-[10px] font-bold font-mono focus:border-drafting-orange outline-none text-ink';
+
+export const GameStackEditor: React.FC<Props> = ({
+  rules,
+  games,
+  maxPlayersPerTeam,
+  siteTeamCap,
+  rosterSize,
+  onChange,
+  onMaxPlayersPerTeamChange,
+}) => {
+  const teamCapLimit = siteTeamCap ?? rosterSize;
+
+  const updateRule = (id: string, patch: Partial<GameStackRule>) => {
+    onChange(rules.map((rule) => (rule.id === id ? { ...rule, ...patch } : rule)));
+  };
+
+  const parseCount = (value: string, max: number): number | null => {
+    const parsed = Number.parseInt(value, 10);
+    return Number.isNaN(parsed) ? null : Math.max(0, Math.min(max, parsed));
+  };
+
+  return (
+    <div className="border border-ink/10 rounded-sm p-2 bg-white/70 space-y-2">
+      <div className="flex items-center justify-between">
+        <h5 className="text-[10px] font-black uppercase tracking-widest text-ink/60">Game Stacks</h5>
+        <button
+          type="button"
+          onClick={() => onChange([
+            ...rules,
+            { id: `stack_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`, minPlayers: 3, minBringBack: 1, minGames: 1 },
+          ])}
+          className="flex items-center gap-1 px-2 py-1 border border-ink/20 rounded-sm text-[10px] font-black uppercase tracking-widest text-ink/60 hover:border-drafting-orange/40 hover:text-ink"
+        >
+          <PlusCircle className="w-3 h-3" /> Add Rule
+        </button>
+      </div>
+
+      <div className="grid grid-cols-[160px_80px] items-center gap-2">
+        <label className="text-[10px] font-black text-ink/50 uppercase tracking-widest">Max Per Team</label>
+        <input
+          type="number"
+          min={1}
+          max={teamCapLimit}
+          value={maxPlayersPerTeam ?? ''}
+          placeholder={siteTeamCap !== null ? String(siteTeamCap) : 'Any'}
+          onChange={(e) => {
+            const parsed = parseCount(e.target.value, teamCapLimit);
+            onMaxPlayersPerTeamChange(parsed && parsed > 0 ? parsed : null);
+          }}
+          className="h-7 bg-white/60 border border-ink/20 rounded-sm px-2 text-[10px] font-bold font-mono focus:border-drafting-orange outline-none transition-all text-ink"
+        />
+      </div>
+
+      {rules.length > 0 && (
+        <div className="grid grid-cols-[1fr_56px_56px_56px_56px_20px] gap-1 text-[9px] font-black uppercase tracking-widest text-ink/40">
+          <span>Game</span>
+          <span>Min</span>
+          <span>Max</span>
+          <span title="Minimum players from each side of the game">Bring</span>
+          <span title="How many games must meet the rule">Games</span>
+          <span />
+        </div>
+      )}
+      {rules.map((rule) => (
+        <div key={rule.id} className="grid grid-cols-[1fr_56px_56px_56px_56px_20px] gap-1 items-center">
+          <select
+            value={rule.gameId ?? ''}
+            onChange={(e) => updateRule(rule.id, { gameId: e.target.value || undefined, ...(e.target.value ? { minGames: 1 } : {}) })}
+            className="h-7 bg-white/60 border border-ink/20 rounded-sm px-1 text-[10px] font-bold uppercase focus:border-drafting-orange outline-none text-ink"
+          >
+            <option value="">Any game</option>
+            {games.map((game) => (
+              <option key={game.gameId} value={game.gameId}>{game.label}</option>
+            ))}
+          </select>
+          <input
+            type="number"
+            min={0}
+            max={rosterSize}
+            value={rule.minPlayers}
+            onChange={(e) => {
+              const parsed = parseCount(e.target.value, rosterSize);
+              if (parsed !== null) updateRule(rule.id, { minPlayers: parsed });
+            }}
+            className={numberCell}
+          />
+          <input
+            type="number"
+            min={0}
+            max={rosterSize}
+            value={rule.maxPlayers ?? ''}
+            placeholder="-"
+            onChange={(e) => updateRule(rule.id, { maxPlayers: parseCount(e.target.value, rosterSize) ?? undefined })}
+            className={numberCell}
+          />
+          <input
+            type="number"
+            min={0}
+            max={Math.floor(rosterSize / 2)}
+            value={rule.minBringBack}
+            onChange={(e) => {
+              const parsed = parseCount(e.target.value, Math.floor(rosterSize / 2));
+              if (parsed !== null) updateRule(rule.id, { minBringBack: parsed });
+            }}
+            className={numberCell}
+          />
+          <input
+            type="number"
+            min={1}
+            max={Math.max(1, games.length)}
+            value={rule.minGames}
+            disabled={Boolean(rule.gameId)}
+            onChange={(e) => {
+              const parsed = parseCount(e.target.value, Math.max(1, games.length));
+              if (parsed !== null) updateRule(rule.id, { minGames: Math.max(1, parsed) });
+            }}
+            className={`${numberCell} disabled:opacity-40`}
+          />
+          <button
+            type="button"
+            onClick={() => onChange(rules.filter((row) => row.id !== rule.id))}
+            className="text-ink/40 hover:text-red-600"
+            title="Remove rule"
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      ))}
+      {rules.length === 0 && (
+        <p className="text-[10px] font-mono text-ink/40">
+          e.g. 3+ from one game with a bring-back, or 2 games with 2+ players each.
+        </p>
+      )}
+    </div>
+  );
+};
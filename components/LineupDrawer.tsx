@@ -1,10 +1,21 @@
 import React, { useEffect, useRef, useState } from 'react';
 import { motion, AnimatePresence, useDragControls } from 'framer-motion';
-import { ChevronUp, ChevronDown, X, Trash2, UserPlus } from 'lucide-react';
+import { ChevronUp, ChevronDown, X, Trash2, UserPlus, Sparkles } from 'lucide-react';
 import { useLineup } from '../context/LineupContext';
 import { Player, Slot } from '../types';
+import { getSiteRules } from '../utils/siteRules';
+import {
+  DEFAULT_COMPLETION_COUNT,
+  LineupCompletion,
+  buildCompletionRequest,
+  toLineupCompletions,
+} from '../utils/lineupCompletion';
+import { OptimizerJob, startOptimizerJob } from '../src/lib/optimizerClient';
+import { diagnoseOptimizerRequest, formatOptimizerDiagnostics } from '../src/workers/optimizer-service/diagnostics';
 import { PlayerSelectionModal } from './PlayerSelectionModal';
 
+const COMPLETION_COUNT_OPTIONS = [1, 3, 5, 10];
+
 
 interface LineupDrawerProps {
   players: Player[];
@@ -12,7 +23,7 @@ interface LineupDrawerProps {
 }
 
 export const LineupDrawer: React.FC<LineupDrawerProps> = ({ players, showActuals }) => {
-  const { slots, totalProjectedFpts, remainingSalary, removePlayer, resetLineup, addPlayerToSlot } = useLineup();
+  const { site, slotRules, slots, totalProjectedFpts, remainingSalary, removePlayer, resetLineup, addPlayerToSlot, setLineup } = useLineup();
   const [isExpanded, setIsExpanded] = useState(false);
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [selectedSlot, setSelectedSlot] = useState<Slot | null>(null);
@@ -20,6 +31,54 @@ export const LineupDrawer: React.FC<LineupDrawerProps> = ({ players, showActuals
   const dragControls = useDragControls();
   const dragContainerRef = useRef<HTMLDivElement | null>(null);
   const suppressNextToggleRef = useRef(false);
+  const [completionCount, setCompletionCount] = useState(DEFAULT_COMPLETION_COUNT);
+  const [completions, setCompletions] = useState<LineupCompletion[]>([]);
+  const [isCompleting, setIsCompleting] = useState(false);
+  const [completionError, setCompletionError] = useState<string | null>(null);
+  const completionJobRef = useRef<OptimizerJob | null>(null);
+
+  useEffect(() => () => completionJobRef.current?.dispose(), []);
+
+  // Completions are solved for one set of placed players; any edit makes them stale.
+  useEffect(() => {
+    completionJobRef.current?.dispose();
+    completionJobRef.current = null;
+    setIsCompleting(false);
+    setCompletions([]);
+    setCompletionError(null);
+  }, [slots, site, players]);
+
+  const openSlotCount = slotRules.filter((slot) => !slots[slot.key]).length;
+
+  const fillTheRest = () => {
+    if (isCompleting || openSlotCount === 0) return;
+    const request = buildCompletionRequest(players, slots, site, completionCount);
+    const conflicts = diagnoseOptimizerRequest(request);
+    if (conflicts.length > 0) {
+      setCompletionError(formatOptimizerDiagnostics(conflicts));
+      return;
+    }
+    setCompletionError(null);
+    setIsCompleting(true);
+    const job = startOptimizerJob(request);
+    completionJobRef.current = job;
+    job.result
+      .then((result) => {
+        if (completionJobRef.current !== job) return;
+        const next = toLineupCompletions(result.lineups, players, slots, site);
+        setCompletions(next);
+        if (next.length === 0) setCompletionError('No completion fits the open slots under the remaining salary.');
+      })
+      .catch((err) => {
+        if (completionJobRef.current !== job) return;
+        setCompletionError(err instanceof Error ? err.message : 'Lineup completion failed.');
+      })
+      .finally(() => {
+        if (completionJobRef.current !== job) return;
+        completionJobRef.current = null;
+        setIsCompleting(false);
+      });
+  };
 
   const handleSlotClick = (slot: Slot) => {
     if (!slots[slot]) {
@@ -37,7 +96,7 @@ export const LineupDrawer: React.FC<LineupDrawerProps> = ({ players, showActuals
   };
 
 
-  const slotOrder: Slot[] = ['PG', 'SG', 'SF', 'PF', 'C', 'G', 'F', 'UTIL'];
+  const selectedSlotRule = slotRules.find((slot) => slot.key === selectedSlot) || null;
 
   const isSalaryOver = remainingSalary < 0;
 
@@ -96,7 +155,7 @@ export const LineupDrawer: React.FC<LineupDrawerProps> = ({ players, showActuals
                 onPointerDown={beginDrag}
                 title="Drag to move"
               >
-                <h3 className="text-[10px] font-black uppercase tracking-widest text-drafting-orange">DraftKings Lineup</h3>
+                <h3 className="text-[10px] font-black uppercase tracking-widest text-drafting-orange">{getSiteRules(site).label} Lineup</h3>
                 <div className="flex items-center gap-2">
                   <button 
                     onClick={resetLineup}
@@ -116,12 +175,12 @@ export const LineupDrawer: React.FC<LineupDrawerProps> = ({ players, showActuals
 
               {/* Slots List */}
               <div className="max-h-[60vh] overflow-y-auto no-scrollbar py-1">
-                {slotOrder.map((slot) => {
+                {slotRules.map(({ key: slot, label }) => {
                   const player = slots[slot];
                   return (
-                    <div key={slot} onClick={() => handleSlotClick(slot as Slot)} className="flex items-center justify-between px-4 py-2 border-b border-ink/5 last:border-0 hover:bg-ink/5 transition-colors cursor-pointer">
+                    <div key={slot} onClick={() => handleSlotClick(slot)} className="flex items-center justify-between px-4 py-2 border-b border-ink/5 last:border-0 hover:bg-ink/5 transition-colors cursor-pointer">
                       <div className="flex items-center gap-3 overflow-hidden">
-                        <div className="w-8 text-[10px] font-black text-ink/40 font-mono">{slot}</div>
+                        <div className="w-8 text-[10px] font-black text-ink/40 font-mono">{label}</div>
                         <div className="flex flex-col truncate">
                           {player ? (
                             <>
@@ -159,14 +218,76 @@ export const LineupDrawer: React.FC<LineupDrawerProps> = ({ players, showActuals
                   );
                 })}
               </div>
+
+              {/* Fill the rest */}
+              <div className="p-3 border-t border-ink/10 bg-vellum/20 space-y-2">
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={fillTheRest}
+                    disabled={isCompleting || openSlotCount === 0}
+                    className="flex items-center gap-1.5 px-3 py-1.5 rounded bg-drafting-orange text-white text-[10px] font-black uppercase tracking-widest hover:brightness-110 disabled:opacity-40 disabled:cursor-not-allowed transition-all"
+                    title="Keep the placed players and solve the open slots for the highest projection"
+                  >
+                    <Sparkles className="w-3.5 h-3.5" />
+                    {isCompleting ? 'Solving...' : 'Fill the Rest'}
+                  </button>
+                  <select
+                    value={completionCount}
+                    onChange={(e) => setCompletionCount(Number(e.target.value))}
+                    disabled={isCompleting}
+                    className="h-7 bg-white/60 border border-ink/20 rounded-sm px-1.5 text-[10px] font-mono text-ink outline-none focus:border-drafting-orange"
+                    aria-label="Completions to show"
+                  >
+                    {COMPLETION_COUNT_OPTIONS.map((count) => (
+                      <option key={count} value={count}>Top {count}</option>
+                    ))}
+                  </select>
+                  <span className="text-[9px] font-mono text-ink/40 uppercase">{openSlotCount} open</span>
+                </div>
+                {completionError && <p className="text-[10px] text-red-600">{completionError}</p>}
+                {completions.length > 0 && (
+                  <div className="max-h-48 overflow-y-auto no-scrollbar divide-y divide-ink/5 border border-ink/10 rounded-sm bg-white/60">
+                    {completions.map((completion, idx) => (
+                      <div key={completion.id} className="flex items-center justify-between gap-3 px-3 py-2">
+                        <div className="min-w-0">
+                          <div className="text-[10px] font-black text-ink/40 font-mono">
+                            #{idx + 1} · {completion.totalProjection.toFixed(2)} proj · ${completion.totalSalary.toLocaleString()}
+                          </div>
+                          <div className="text-[11px] font-bold text-ink truncate">
+                            + {completion.added.map((player) => `${player.name} (${player.position})`).join(', ')}
+                          </div>
+                          {completion.movedIds.length > 0 && (
+                            <div className="text-[9px] text-ink/50 truncate">
+                              Re-slots {completion.movedIds
+                                .map((id) => {
+                                  const slot = Object.keys(completion.slotMap).find((key) => completion.slotMap[key].id === id);
+                                  const label = slotRules.find((rule) => rule.key === slot)?.label ?? slot;
+                                  return `${completion.slotMap[slot as Slot].name} to ${label}`;
+                                })
+                                .join(', ')}
+                            </div>
+                          )}
+                        </div>
+                        <button
+                          onClick={() => setLineup(completion.slotMap)}
+                          className="shrink-0 px-2.5 py-1 rounded border border-drafting-orange/40 text-drafting-orange text-[10px] font-black uppercase tracking-widest hover:bg-drafting-orange/10 transition-colors"
+                        >
+                          Use
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
             </motion.div>
           )}
         </AnimatePresence>
 
-        {isModalOpen && selectedSlot && (
+        {isModalOpen && selectedSlotRule && (
           <PlayerSelectionModal 
             players={players}
-            position={selectedSlot}
+            position={selectedSlotRule.label}
+            eligiblePositions={selectedSlotRule.eligible}
             remainingSalary={remainingSalary}
             onSelect={handlePlayerSelect}
             onClose={() => setIsModalOpen(false)}
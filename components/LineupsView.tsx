@@ -14,6 +14,9 @@ import {
   Target
 } from 'lucide-react';
 import { formatMoney, formatPct, getContestViability } from '../utils/contest';
+import { estimateLineupDuplication, formatDuplicates, getDuplicationRisk } from '../utils/duplication';
+import { getSiteRules } from '../utils/siteRules';
+import { useContestSimulation } from '../src/hooks/useContestSimulation';
 
 interface Props {
   lineups: Lineup[];
@@ -29,7 +32,8 @@ interface Props {
 }
 
 export const LineupsView: React.FC<Props> = ({ 
-  lineups, 
+  lineups: inputLineups, 
+  playerPool,
   contestState, 
   onLineupUpload,
   slateStats,
@@ -37,6 +41,8 @@ export const LineupsView: React.FC<Props> = ({
 }) => {
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedId, setSelectedId] = useState<string | null>(null);
+  const simulation = useContestSimulation(inputLineups, playerPool, contestState);
+  const lineups = simulation.lineups;
 
   const filteredLineups = useMemo(() => {
     return lineups.filter(l => {
@@ -46,11 +52,23 @@ export const LineupsView: React.FC<Props> = ({
     });
   }, [lineups, searchTerm]);
 
+  const duplicatesById = useMemo(() => {
+    const salaryCap = getSiteRules(contestState.input.site).salaryCap;
+    return new Map(lineups.map((l) => [
+      l.id,
+      estimateLineupDuplication(
+        (l.players ?? []).map((p) => Number(p.ownership) || 0),
+        salaryCap - l.totalSalary,
+        contestState.input.fieldSize,
+      ).expectedDuplicates,
+    ]));
+  }, [lineups, contestState.input.site, contestState.input.fieldSize]);
+
   const stats = useMemo(() => {
     if (lineups.length === 0) return null;
-    const avgEV = lineups.reduce((acc, l) => acc + (l.simEV || 0), 0) / lineups.length;
+    const avgProj = lineups.reduce((acc, l) => acc + (l.simMeanScore ?? l.totalProjection ?? 0), 0) / lineups.length;
     const avgROI = lineups.reduce((acc, l) => acc + (l.simROI || 0), 0) / lineups.length;
-    return { avgEV, avgROI };
+    return { avgProj, avgROI };
   }, [lineups]);
 
   return (
@@ -62,7 +80,7 @@ export const LineupsView: React.FC<Props> = ({
           <div>
             <div className="text-[10px] font-black text-gray-500 uppercase tracking-widest leading-none mb-1">Portfolio Proj</div>
             <div className="text-xl font-black text-white italic font-mono">
-              {stats ? stats.avgEV.toFixed(1) : '--'}
+              {stats ? stats.avgProj.toFixed(1) : '--'}
             </div>
           </div>
         </div>
@@ -124,6 +142,8 @@ export const LineupsView: React.FC<Props> = ({
               filteredLineups.map((l, idx) => {
                 const viability = getContestViability(l);
                 const isSelected = selectedId === l.id;
+                const duplicates = duplicatesById.get(l.id) ?? 0;
+                const duplicationRisk = getDuplicationRisk(duplicates);
                 
                 return (
                   <div 
@@ -165,10 +185,26 @@ export const LineupsView: React.FC<Props> = ({
                            <div className="text-[9px] font-black text-gray-600 uppercase">ROI</div>
                            <div className="text-sm font-black text-emerald-400 italic">{formatPct((l.simROI || 0) / 100)}</div>
                          </div>
+                         <div>
+                           <div className="text-[9px] font-black text-gray-600 uppercase">WIN</div>
+                           <div className="text-sm font-black text-gray-400">{l.winProbPct !== undefined ? `${l.winProbPct.toFixed(2)}%` : '--'}</div>
+                         </div>
+                         <div>
+                           <div className="text-[9px] font-black text-gray-600 uppercase">CASH</div>
+                           <div className="text-sm font-black text-gray-400">{l.cashPct !== undefined ? `${l.cashPct.toFixed(1)}%` : '--'}</div>
+                         </div>
                          <div>
                            <div className="text-[9px] font-black text-gray-600 uppercase">OWN</div>
                            <div className="text-sm font-black text-gray-400">{l.totalOwnership?.toFixed(0)}%</div>
                          </div>
+                         <div title={`Expected copies in a ${contestState.input.fieldSize.toLocaleString()}-entry field`}>
+                           <div className="text-[9px] font-black text-gray-600 uppercase">DUPES</div>
+                           <div className={`text-sm font-black ${
+                             duplicationRisk === 'high' ? 'text-red-400' : duplicationRisk === 'medium' ? 'text-amber-400' : 'text-gray-400'
+                           }`}>
+                             {l.players?.length ? formatDuplicates(duplicates) : '--'}
+                           </div>
+                         </div>
                       </div>
                     </div>
 
@@ -209,7 +245,9 @@ export const LineupsView: React.FC<Props> = ({
                 </div>
                 <div className="pt-2">
                    <p className="text-[10px] text-gray-500 font-medium leading-relaxed italic uppercase">
-                     * ROI and EV are computed by Monte Carlo simulation (N=50k) against the detected field of {contestState.input.fieldSize.toLocaleString()} entries.
+                     {simulation.status === 'running'
+                       ? `* Simulating contest... ${simulation.progress}%`
+                       : `* ROI and EV are computed by Monte Carlo simulation (N=${simulation.iterations.toLocaleString()}) against a synthetic field of ${contestState.input.fieldSize.toLocaleString()} entries.`}
                    </p>
                 </div>
              </div>
@@ -220,7 +258,7 @@ export const LineupsView: React.FC<Props> = ({
                <ShieldCheck className="w-4 h-4 text-emerald-400" /> Integrity Log
              </h3>
              <div className="space-y-3 font-mono text-[10px]">
-                {slateStats?.warnings.map((w, i) => (
+                {[...(slateStats?.warnings ?? []), ...simulation.warnings, ...(simulation.error ? [simulation.error] : [])].map((w, i) => (
                   <div key={i} className="flex gap-2 text-amber-500/80 leading-tight">
                     <AlertCircle className="w-3 h-3 shrink-0 mt-0.5" />
                     <span className="uppercase font-bold tracking-tighter">{w}</span>
@@ -0,0 +1,122 @@
+import React from 'react';
+import { BellRing, RefreshCw, X } from 'lucide-react';
+import { NEWS_CHANGE_LABELS, NewsAlert, NewsChangeKind, isNewsImpactEmpty } from '../utils/newsChanges';
+
+interface Props {
+  alerts: NewsAlert[];
+  lastCheckedAt: number | null;
+  checking: boolean;
+  onRefresh: () => void;
+  onDismiss: (id: string) => void;
+  onClear: () => void;
+  /** Opens the Entry Manager swap modal on the slot holding `playerId`. */
+  onSwapEntry: (entryId: string, playerId: string) => void;
+  onOpenOptimizer: () => void;
+}
+
+const KIND_STYLES: Record<NewsChangeKind, string> = {
+  new_out: 'bg-red-100 text-red-700',
+  upgraded: 'bg-emerald-100 text-emerald-700',
+  new_confirmed_starter: 'bg-blue-100 text-blue-700',
+};
+
+const formatTime = (ms: number) => new Date(ms).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+
+export const NewsAlertsPanel: React.FC<Props> = ({
+  alerts,
+  lastCheckedAt,
+  checking,
+  onRefresh,
+  onDismiss,
+  onClear,
+  onSwapEntry,
+  onOpenOptimizer,
+}) => {
+  if (alerts.length === 0) return null;
+
+  return (
+    <div className="mb-4 bg-white border border-drafting-orange/40 rounded-lg px-4 py-3 shadow-sm space-y-2">
+      <div className="flex flex-wrap items-center gap-3">
+        <h2 className="text-[11px] font-black uppercase tracking-widest text-black/70 flex items-center gap-1.5">
+          <BellRing className="w-3.5 h-3.5 text-drafting-orange" /> News Changes
+        </h2>
+        {lastCheckedAt && (
+          <span className="text-[10px] font-mono text-black/40">Checked {formatTime(lastCheckedAt)}</span>
+        )}
+        <div className="ml-auto flex items-center gap-2">
+          <button
+            type="button"
+            onClick={onRefresh}
+            disabled={checking}
+            className="px-2 py-1 rounded-sm border border-ink/20 text-[9px] font-black uppercase tracking-widest text-black hover:border-drafting-orange transition-all disabled:opacity-40"
+          >
+            <RefreshCw className={`inline-block w-3 h-3 mr-1 ${checking ? 'animate-spin' : ''}`} />
+            Check Now
+          </button>
+          <button
+            type="button"
+            onClick={onClear}
+            className="px-2 py-1 rounded-sm border border-ink/20 text-[9px] font-black uppercase tracking-widest text-black/60 hover:text-black transition-all"
+          >
+            Clear
+          </button>
+        </div>
+      </div>
+
+      <ul className="divide-y divide-ink/5">
+        {alerts.map((alert) => (
+          <li key={alert.id} className="py-1.5 flex flex-wrap items-center gap-x-3 gap-y-1 text-[11px]">
+            <span className={`px-1.5 py-0.5 rounded-sm text-[9px] font-black uppercase tracking-widest ${KIND_STYLES[alert.kind]}`}>
+              {NEWS_CHANGE_LABELS[alert.kind]}
+            </span>
+            <span className="font-bold text-black">{alert.playerName}</span>
+            <span className="font-mono text-black/50">
+              {alert.team}
+              {alert.kind !== 'new_confirmed_starter' && ` · ${alert.previousStatus || 'Active'} → ${alert.status || 'Active'}`}
+            </span>
+            <span className="font-mono text-black/40">{formatTime(alert.detectedAt)}</span>
+            {isNewsImpactEmpty(alert.impact) ? (
+              <span className="text-black/40">Not in your entries, saved sets or locks</span>
+            ) : (
+              <span className="flex flex-wrap items-center gap-1.5">
+                {alert.impact.entries.map((entry) => (
+                  <button
+                    key={entry.entryId}
+                    type="button"
+                    onClick={() => onSwapEntry(entry.entryId, alert.playerId)}
+                    title={entry.contestName}
+                    className="px-1.5 py-0.5 rounded-sm border border-ink/20 font-mono text-[10px] hover:border-drafting-orange hover:text-drafting-orange transition-all"
+                  >
+                    Entry {entry.entryId} · {entry.slot}
+                  </button>
+                ))}
+                {alert.impact.lineupSets.map((set) => (
+                  <span key={set.id} className="px-1.5 py-0.5 rounded-sm bg-ink/5 font-mono text-[10px] text-black/60">
+                    {set.name}: {set.lineupCount} lineup{set.lineupCount === 1 ? '' : 's'}
+                  </span>
+                ))}
+                {alert.impact.optimizerLock && (
+                  <button
+                    type="button"
+                    onClick={onOpenOptimizer}
+                    className="px-1.5 py-0.5 rounded-sm border border-amber-300 bg-amber-50 font-mono text-[10px] text-amber-700 hover:border-drafting-orange transition-all"
+                  >
+                    Optimizer lock
+                  </button>
+                )}
+              </span>
+            )}
+            <button
+              type="button"
+              onClick={() => onDismiss(alert.id)}
+              className="ml-auto p-0.5 text-black/30 hover:text-black transition-colors"
+              aria-label="Dismiss"
+            >
+              <X className="w-3 h-3" />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
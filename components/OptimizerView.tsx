@@ -14,17 +14,45 @@ import {
   X,
   Trash2,
   PlusCircle,
-  Lock
+  Lock,
+  Pause,
+  Upload
 } from 'lucide-react';
-import { Player, Lineup, GameInfo } from '../types';
+import { Player, Lineup, GameInfo, ContestInput } from '../types';
 import { calculateValueScores } from '../utils/valueScore';
 import { getPlayerInjuryInfo, InjuryLookup } from '../utils/injuries';
 import { getPlayerStartingLineupInfo, StartingLineupLookup } from '../utils/startingLineups';
 import { PlayerDeepDive } from './PlayerDeepDive';
-import { SavedLineupSet, loadSavedLineupSets, saveSavedLineupSets } from '../utils/savedLineups';
-import OptimizerWorker from '../src/workers/sa-optimizer/worker.ts?worker&v=20260401-highs-stable6';
+import { PlayerGroupEditor } from './PlayerGroupEditor';
+import { GameStackEditor } from './GameStackEditor';
+import { ProjectionSourcesPanel } from './ProjectionSourcesPanel';
+import { SavedLineupSet, loadSavedLineupSets, pickLineupMetrics, saveSavedLineupSets } from '../utils/savedLineups';
+import { buildLineupSetFile, parseLineupSetFile, reconcileLineupSetFile } from '../utils/lineupSetExport';
+import { deleteOptimizerSettings, getOptimizerSettingsKey, readOptimizerSettings, writeOptimizerSettings } from '../utils/persistence';
+import {
+  OptimizerConfigState,
+  createDefaultOptimizerConfig,
+  getOptimizerEv,
+  sanitizeOptimizerConfig,
+} from '../utils/optimizerConfig';
+import { PlayerGroupRule, sanitizePlayerGroupRules } from '../utils/playerGroups';
+import { SITE_RULES, assignSiteSlots, getSiteRules } from '../utils/siteRules';
+import { OptimizerJob, startOptimizerJob } from '../src/lib/optimizerClient';
+import { diagnoseOptimizerRequest } from '../src/workers/optimizer-service/diagnostics';
+import {
+  OPTIMIZER_ENGINES,
+  OptimizerDiagnostic,
+  OptimizerEngine,
+  OptimizerExposure,
+  OptimizerRequest,
+} from '../src/workers/optimizer-service/types';
+import { gameIdFor } from '../src/workers/sa-optimizer/stacks';
 import { usePlayerEnrichment } from '../src/hooks/usePlayerEnrichment';
 import { useLineupScoring } from '../src/hooks/useLineupScoring';
+import type { ProjectionSourcesController } from '../src/hooks/useProjectionSources';
+import { isFlaggedDisagreement } from '../utils/projectionSources';
+import { DEFAULT_CONTEST } from '../utils/contest';
+import { estimateLineupDuplication, formatDuplicates, getDuplicationRisk } from '../utils/duplication';
 
 interface Props {
   players: Player[];
@@ -35,6 +63,12 @@ interface Props {
   depthCharts?: any | null;
   startingLineupLookup?: StartingLineupLookup | null;
   deepDiveAllowedTabs?: Array<'dfs' | 'stats' | 'matchup' | 'synergy' | 'depth'>;
+  site?: ContestInput['site'];
+  onSiteChange?: (site: ContestInput['site']) => void;
+  /** Uploaded projection sources; `players` should already be their blend. */
+  projectionSources?: ProjectionSourcesController;
+  /** Contest field size the duplication estimate and limit are scaled to. */
+  fieldSize?: number;
 }
 
 type SortDir = 'asc' | 'desc';
@@ -54,8 +88,6 @@ interface PoolFilterRule {
 
 type PoolFilterOperator = 'equals' | 'contains' | 'gt' | 'lt' | 'in';
 
-type OptimizerMode = 'max_projection' | 'upside_max';
-
 interface AdvancedMinimumSettings {
   minUsage: number;
   minMinutes: number;
@@ -63,43 +95,6 @@ interface AdvancedMinimumSettings {
   minSignal: number;
 }
 
-interface OptimizerConfigState {
-  numLineups: number;
-  salaryCap: number;
-  salaryFloor: number;
-  minUniquePlayers: number;
-  minSalary: number;
-  minMinutes: number;
-  minProjectedFpts: number;
-  minSlateSimValue: number;
-  randomnessPct: number;
-  enforceTeamStack: boolean;
-  minTeamStackSize: number;
-  objectiveWeights: {
-    ev: number;
-    projection: number;
-    ceiling: number;
-    leverage: number;
-  };
-  minExposure: number;
-  maxExposure: number;
-  site: 'DraftKings';
-  optimizerMode: OptimizerMode;
-  upsideDelta: number;
-  enableStatConstraints: boolean;
-  statConstraintMode: 'cash' | 'gpp';
-  deltaFromBestProjection: number;
-  upsideWeights: {
-    wLev: number;
-    wOwn: number;
-    wMin: number;
-    wUsage: number;
-    wMatch: number;
-    wForm: number;
-  };
-  enforceUpsideStructureConstraints: boolean;
-}
-
 const DEFAULT_ADVANCED_MINIMUMS: AdvancedMinimumSettings = {
   minUsage: 0,
   minMinutes: 0,
@@ -108,111 +103,10 @@ const DEFAULT_ADVANCED_MINIMUMS: AdvancedMinimumSettings = {
 };
 const HISTORY_WINDOW_GAMES = 20;
 
-const createDefaultOptimizerConfig = (): OptimizerConfigState => ({
-  numLineups: 20,
-  salaryCap: 50000,
-  salaryFloor: 49500,
-  minUniquePlayers: 2,
-  minSalary: 3000,
-  minMinutes: 0,
-  minProjectedFpts: 15,
-  minSlateSimValue: 30,
-  randomnessPct: 0,
-  enforceTeamStack: false,
-  minTeamStackSize: 3,
-  objectiveWeights: {
-    ev: 1,
-    projection: 0,
-    ceiling: 0,
-    leverage: 0,
-  },
-  minExposure: 0,
-  maxExposure: 100,
-  site: 'DraftKings',
-  optimizerMode: 'max_projection',
-  upsideDelta: 8,
-  enableStatConstraints: false,
-  statConstraintMode: 'gpp',
-  deltaFromBestProjection: 0,
-  upsideWeights: {
-    wLev: 1.0,
-    wOwn: 0.6,
-    wMin: 0.05,
-    wUsage: 0.08,
-    wMatch: 0.4,
-    wForm: 0.3,
-  },
-  enforceUpsideStructureConstraints: true,
-});
-
-const getAdvancedSettingsStorageKey = (slateDate?: string): string =>
-  `optimizerAdvancedSettings:${slateDate || 'unspecified'}`;
-
-const sanitizeOptimizerConfig = (raw: any): OptimizerConfigState => {
-  const defaults = createDefaultOptimizerConfig();
-  const objectiveWeights = raw?.objectiveWeights && typeof raw.objectiveWeights === 'object' && !Array.isArray(raw.objectiveWeights)
-    ? raw.objectiveWeights
-    : {};
-  const upsideWeights = raw?.upsideWeights && typeof raw.upsideWeights === 'object' && !Array.isArray(raw.upsideWeights)
-    ? raw.upsideWeights
-    : {};
-  const numLineups = Number(raw?.numLineups);
-  const salaryFloor = Number(raw?.salaryFloor);
-  const minUniquePlayers = Number(raw?.minUniquePlayers);
-  const minSalary = Number(raw?.minSalary);
-  const minMinutes = Number(raw?.minMinutes);
-  const minProjectedFpts = Number(raw?.minProjectedFpts);
-  const minSlateSimValue = Number(raw?.minSlateSimValue);
-  const randomnessPct = Number(raw?.randomnessPct);
-  const minTeamStackSize = Number(raw?.minTeamStackSize);
-  const minExposure = Number(raw?.minExposure);
-  const maxExposure = Number(raw?.maxExposure);
-  const upsideDelta = Number(raw?.upsideDelta);
-  const deltaFromBestProjection = Number(raw?.deltaFromBestProjection);
-
-  const nextSalaryCap = defaults.salaryCap;
-  const nextSalaryFloor = Number.isFinite(salaryFloor)
-    ? Math.max(0, Math.min(Math.floor(salaryFloor), nextSalaryCap))
-    : defaults.salaryFloor;
-
-  return {
-    numLineups: Number.isFinite(numLineups) ? Math.min(150, Math.max(1, Math.floor(numLineups))) : defaults.numLineups,
-    salaryCap: nextSalaryCap,
-    salaryFloor: nextSalaryFloor,
-    minUniquePlayers: Number.isFinite(minUniquePlayers) ? Math.max(1, Math.min(8, Math.floor(minUniquePlayers))) : defaults.minUniquePlayers,
-    minSalary: Number.isFinite(minSalary) ? Math.max(0, Math.min(nextSalaryCap, Math.floor(minSalary / 100) * 100)) : defaults.minSalary,
-    minMinutes: Number.isFinite(minMinutes) ? Math.max(0, Math.min(48, Math.round(minMinutes))) : defaults.minMinutes,
-    minProjectedFpts: Number.isFinite(minProjectedFpts) ? Math.max(0, Math.min(100, Math.round(minProjectedFpts * 2) / 2)) : defaults.minProjectedFpts,
-    minSlateSimValue: Number.isFinite(minSlateSimValue) ? Math.max(0, Math.min(100, Math.round(minSlateSimValue))) : defaults.minSlateSimValue,
-    randomnessPct: Number.isFinite(randomnessPct) ? Math.max(0, Math.min(100, Math.round(randomnessPct / 5) * 5)) : defaults.randomnessPct,
-    enforceTeamStack: raw?.enforceTeamStack === true,
-    minTeamStackSize: Number.isFinite(minTeamStackSize) ? Math.max(2, Math.min(8, Math.round(minTeamStackSize))) : defaults.minTeamStackSize,
-    objectiveWeights: {
-      ev: Number.isFinite(Number(objectiveWeights.ev)) ? Number(objectiveWeights.ev) : defaults.objectiveWeights.ev,
-      projection: Number.isFinite(Number(objectiveWeights.projection)) ? Number(objectiveWeights.projection) : defaults.objectiveWeights.projection,
-      ceiling: Number.isFinite(Number(objectiveWeights.ceiling)) ? Number(objectiveWeights.ceiling) : defaults.objectiveWeights.ceiling,
-      leverage: Number.isFinite(Number(objectiveWeights.leverage)) ? Number(objectiveWeights.leverage) : defaults.objectiveWeights.leverage,
-    },
-    minExposure: Number.isFinite(minExposure) ? Math.max(0, Math.min(100, minExposure)) : defaults.minExposure,
-    maxExposure: Number.isFinite(maxExposure) ? Math.max(0, Math.min(100, maxExposure)) : defaults.maxExposure,
-    site: 'DraftKings',
-    optimizerMode: raw?.optimizerMode === 'upside_max' ? 'upside_max' : 'max_projection',
-    upsideDelta: Number.isFinite(upsideDelta) ? Math.max(0, upsideDelta) : defaults.upsideDelta,
-    enableStatConstraints: Boolean(raw?.enableStatConstraints),
-    statConstraintMode: raw?.statConstraintMode === 'cash' ? 'cash' : 'gpp',
-    deltaFromBestProjection: Number.isFinite(deltaFromBestProjection) ? Math.max(0, deltaFromBestProjection) : defaults.deltaFromBestProjection,
-    upsideWeights: {
-      wLev: Number.isFinite(Number(upsideWeights.wLev)) ? Number(upsideWeights.wLev) : defaults.upsideWeights.wLev,
-      wOwn: Number.isFinite(Number(upsideWeights.wOwn)) ? Number(upsideWeights.wOwn) : defaults.upsideWeights.wOwn,
-      wMin: Number.isFinite(Number(upsideWeights.wMin)) ? Number(upsideWeights.wMin) : defaults.upsideWeights.wMin,
-      wUsage: Number.isFinite(Number(upsideWeights.wUsage)) ? Number(upsideWeights.wUsage) : defaults.upsideWeights.wUsage,
-      wMatch: Number.isFinite(Number(upsideWeights.wMatch)) ? Number(upsideWeights.wMatch) : defaults.upsideWeights.wMatch,
-      wForm: Number.isFinite(Number(upsideWeights.wForm)) ? Number(upsideWeights.wForm) : defaults.upsideWeights.wForm,
-    },
-    enforceUpsideStructureConstraints: raw?.enforceUpsideStructureConstraints !== undefined
-      ? Boolean(raw.enforceUpsideStructureConstraints)
-      : defaults.enforceUpsideStructureConstraints,
-  };
+const OPTIMIZER_ENGINE_LABELS: Record<OptimizerEngine, string> = {
+  ilp: 'ILP (HiGHS)',
+  qiea: 'QIEA',
+  greedy: 'Greedy + SA',
 };
 
 const parseExposurePercentMaybe = (value: unknown): number | undefined => {
@@ -314,21 +208,20 @@ const parseMatchup = (text: any): { away: string; home: string } | null => {
   };
 };
 
-const DK_SLOTS = ['PG', 'SG', 'SF', 'PF', 'C', 'G', 'F', 'UTIL'] as const;
-
-const canFitDK = (player: Player, slot: string): boolean => {
-  const pos = player.position;
-  switch (slot) {
-    case 'PG': return pos.includes('PG');
-    case 'SG': return pos.includes('SG');
-    case 'SF': return pos.includes('SF');
-    case 'PF': return pos.includes('PF');
-    case 'C': return pos.includes('C');
-    case 'G': return pos.includes('PG') || pos.includes('SG');
-    case 'F': return pos.includes('SF') || pos.includes('PF');
-    case 'UTIL': return true;
-    default: return false;
-  }
+/** Re-targets a config at another site: cap follows the site, and a floor set for the old cap is rescaled. */
+const retargetConfigSite = (config: OptimizerConfigState, site: ContestInput['site']): OptimizerConfigState => {
+  const prevRules = getSiteRules(config.site);
+  const nextRules = getSiteRules(site);
+  if (prevRules.site === nextRules.site) return config;
+  const floorGap = Math.max(0, prevRules.salaryCap - config.salaryFloor);
+  return {
+    ...config,
+    site: nextRules.site,
+    salaryCap: nextRules.salaryCap,
+    salaryFloor: Math.max(0, nextRules.salaryCap - floorGap),
+    minUniquePlayers: Math.min(config.minUniquePlayers, nextRules.slots.length),
+    minTeamStackSize: Math.min(config.minTeamStackSize, nextRules.maxPlayersPerTeam ?? nextRules.slots.length),
+  };
 };
 
 const normalizeKeyToken = (key: string): string => String(key || '').toLowerCase().replace(/[^a-z0-9]/g, '');
@@ -686,27 +579,6 @@ const getEffectiveMinutes = (player: Player): number | undefined => {
   return Number.isFinite(Number(avg)) ? Number(avg) : undefined;
 };
 
-const getOptimizerEv = (player: Player): number => {
-  const ev = readStatNumber(player, [
-    'simEV',
-    'sim_ev',
-    'simEv',
-    'ev',
-    'EV',
-    'expectedValue',
-    'expected_value',
-    'simExpectedValue',
-    'sim_expected_value',
-    'medianEV',
-    'median_ev',
-  ]);
-
-  if (Number.isFinite(Number(ev))) return Number(ev);
-
-  const projection = Number(player.projection);
-  return Number.isFinite(projection) ? projection : 0;
-};
-
 const sanitizeAdvancedMinimums = (raw: any): AdvancedMinimumSettings => {
   const minUsage = Number(raw?.minUsage);
   const minMinutes = Number(raw?.minMinutes);
@@ -1077,7 +949,7 @@ const computeOptimizerPriority = (player: Player, games: GameInfo[]): number =>
   return 0;
 };
 
-export const OptimizerView: React.FC<Props> = ({ players, games, slateDate, showActuals: showActualsProp, injuryLookup, depthCharts, startingLineupLookup, deepDiveAllowedTabs }) => {
+export const OptimizerView: React.FC<Props> = ({ players, games, slateDate, showActuals: showActualsProp, injuryLookup, depthCharts, startingLineupLookup, deepDiveAllowedTabs, site, onSiteChange, projectionSources, fieldSize = DEFAULT_CONTEST.fieldSize }) => {
   const isDateBeforeToday = (dateStr: string): boolean => {
     if (!dateStr) return false;
     const input = new Date(dateStr);
@@ -1088,13 +960,27 @@ export const OptimizerView: React.FC<Props> = ({ players, games, slateDate, show
     return input < today;
   };
 
-  const [config, setConfig] = useState<OptimizerConfigState>(() => createDefaultOptimizerConfig());
+  const [config, setConfig] = useState<OptimizerConfigState>(() => retargetConfigSite(createDefaultOptimizerConfig(), site ?? 'DraftKings'));
+  const siteRules = useMemo(() => getSiteRules(config.site), [config.site]);
+
+  // The contest's site is the source of truth; stored settings from another site are re-targeted.
+  useEffect(() => {
+    if (!site) return;
+    setConfig((prev) => retargetConfigSite(prev, site));
+  }, [site, config.site]);
+
+  const handleSiteChange = (nextSite: ContestInput['site']) => {
+    if (onSiteChange) onSiteChange(nextSite);
+    else setConfig((prev) => retargetConfigSite(prev, nextSite));
+  };
 
   const [generatedLineups, setGeneratedLineups] = useState<Lineup[]>([]);
   const [selectedPlayer, setSelectedPlayer] = useState<Player | null>(null);
   const [isOptimizing, setIsOptimizing] = useState(false);
+  const [runPhase, setRunPhase] = useState<'running' | 'pausing' | 'paused' | 'stopping'>('running');
   const [progress, setProgress] = useState(0);
   const [error, setError] = useState<string | null>(null);
+  const [constraintConflicts, setConstraintConflicts] = useState<OptimizerDiagnostic[]>([]);
   const [optimizerNotices, setOptimizerNotices] = useState<string[]>([]);
   const [lineupSort, setLineupSort] = useState<SortConfig>({ key: 'projection', dir: 'desc' });
   const [exposureSort, setExposureSort] = useState<SortConfig>({ key: 'exposure', dir: 'desc' });
@@ -1103,6 +989,8 @@ export const OptimizerView: React.FC<Props> = ({ players, games, slateDate, show
   const [showSaveLineupsModal, setShowSaveLineupsModal] = useState(false);
   const [saveLineupName, setSaveLineupName] = useState('');
   const [showSavedLineupsModal, setShowSavedLineupsModal] = useState(false);
+  const [lineupSetImportNotice, setLineupSetImportNotice] = useState<{ tone: 'ok' | 'warn' | 'error'; message: string } | null>(null);
+  const lineupSetFileInputRef = useRef<HTMLInputElement>(null);
 
   const isHistorical = useMemo(() => {
     if (!slateDate) return false;
@@ -1122,6 +1010,7 @@ export const OptimizerView: React.FC<Props> = ({ players, games, slateDate, show
   const [expandedLineupId, setExpandedLineupId] = useState<string | null>(null);
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [lockedIds, setLockedIds] = useState<string[]>([]);
+  const [playerGroups, setPlayerGroups] = useState<PlayerGroupRule[]>([]);
   const [settingsRevision, setSettingsRevision] = useState(0);
   const [selectedMatchups, setSelectedMatchups] = useState<string[]>([]);
   const [poolSort, setPoolSort] = useState<SortConfig | null>(null);
@@ -1133,26 +1022,25 @@ export const OptimizerView: React.FC<Props> = ({ players, games, slateDate, show
   const { scoreLineups } = useLineupScoring();
   const enrichedPoolRef = useRef<Player[]>([]);
 
-  const workerRef = useRef<Worker | null>(null);
+  const jobRef = useRef<OptimizerJob | null>(null);
 
-  // Clean up worker on unmount
+  // Kill any running job on unmount
   useEffect(() => {
     return () => {
-      if (workerRef.current) {
-        workerRef.current.terminate();
-      }
+      jobRef.current?.dispose();
     };
   }, []);
 
   useEffect(() => {
-    if (workerRef.current) {
-      workerRef.current.terminate();
-      workerRef.current = null;
+    if (jobRef.current) {
+      jobRef.current.dispose();
+      jobRef.current = null;
     }
     setGeneratedLineups([]);
     setProgress(0);
     setIsOptimizing(false);
     setError(null);
+    setConstraintConflicts([]);
     setExpandedLineupId(null);
   }, [slateDate, players]);
 
@@ -1163,16 +1051,30 @@ export const OptimizerView: React.FC<Props> = ({ players, games, slateDate, show
     setSelectedMatchups((prev) => prev.filter((key) => validMatchupKeys.has(key)));
   }, [games]);
 
+  // Single-game sites build from one matchup: the first selected one, else the slate's first game.
+  const showdownGame = useMemo(() => {
+    if (siteRules.maxGames === null || games.length === 0) return null;
+    return games.find((g) => g.matchupKey === selectedMatchups[0]) ?? games[0];
+  }, [siteRules.maxGames, games, selectedMatchups]);
+
   useEffect(() => {
-    const raw = localStorage.getItem(getAdvancedSettingsStorageKey(slateDate));
-    if (!raw) return;
+    const parsed = readOptimizerSettings(getOptimizerSettingsKey(slateDate));
+    if (!parsed) return;
     try {
-      const parsed = JSON.parse(raw);
       const playerIdSet = new Set(players.map((p) => p.id));
       if (Array.isArray(parsed.lockedIds)) {
         setLockedIds(parsed.lockedIds.filter((id: string) => playerIdSet.has(id)));
       }
       if (Array.isArray(parsed.selectedMatchups)) setSelectedMatchups(parsed.selectedMatchups);
+      if (Array.isArray(parsed.playerGroups)) {
+        setPlayerGroups(
+          sanitizePlayerGroupRules(parsed.playerGroups).map((group) => ({
+            ...group,
+            playerIds: group.playerIds.filter((id) => playerIdSet.has(id)),
+            thenIds: group.thenIds.filter((id) => playerIdSet.has(id)),
+          })),
+        );
+      }
       if (parsed.config && typeof parsed.config === 'object' && !Array.isArray(parsed.config)) {
         setConfig(sanitizeOptimizerConfig(parsed.config));
       }
@@ -1211,10 +1113,12 @@ export const OptimizerView: React.FC<Props> = ({ players, games, slateDate, show
   const lockedIdsRef = useRef(lockedIds);
   const selectedMatchupsRef = useRef(selectedMatchups);
   const playerOverridesRef = useRef(playerOverrides);
+  const playerGroupsRef = useRef(playerGroups);
   const configRef = useRef(config);
   useEffect(() => { lockedIdsRef.current = lockedIds; }, [lockedIds]);
   useEffect(() => { selectedMatchupsRef.current = selectedMatchups; }, [selectedMatchups]);
   useEffect(() => { playerOverridesRef.current = playerOverrides; }, [playerOverrides]);
+  useEffect(() => { playerGroupsRef.current = playerGroups; }, [playerGroups]);
   useEffect(() => { configRef.current = config; }, [config]);
 
   const persistAdvancedSettings = useCallback(() => {
@@ -1223,15 +1127,16 @@ export const OptimizerView: React.FC<Props> = ({ players, games, slateDate, show
         lockedIds: lockedIdsRef.current,
         selectedMatchups: selectedMatchupsRef.current,
         playerOverrides: playerOverridesRef.current,
+        playerGroups: playerGroupsRef.current,
         config: configRef.current,
       };
-      localStorage.setItem(getAdvancedSettingsStorageKey(slateDateForSaveRef.current), JSON.stringify(payload));
+      writeOptimizerSettings(getOptimizerSettingsKey(slateDateForSaveRef.current), payload);
     } catch (e) {
       console.warn('Failed to save optimizer settings', e);
     }
   }, []);
 
-  // Skip the very first run so we never overwrite localStorage with the empty
+  // Skip the very first run so we never overwrite saved settings with the empty
   // initial state before the settings-loading effect has populated state.
   const isFirstAutoSaveRunRef = useRef(true);
   useEffect(() => {
@@ -1240,7 +1145,7 @@ export const OptimizerView: React.FC<Props> = ({ players, games, slateDate, show
       return;
     }
     persistAdvancedSettings();
-  }, [lockedIds, selectedMatchups, playerOverrides, config, persistAdvancedSettings]);
+  }, [lockedIds, selectedMatchups, playerOverrides, playerGroups, config, persistAdvancedSettings]);
 
   useEffect(() => {
     return () => {
@@ -1250,8 +1155,13 @@ export const OptimizerView: React.FC<Props> = ({ players, games, slateDate, show
 
   const startOptimization = () => {
     if (isOptimizing) return;
+    if (siteRules.unavailableReason) {
+      setError(siteRules.unavailableReason);
+      return;
+    }
     
     setError(null);
+    setConstraintConflicts([]);
     setProgress(0);
     setGeneratedLineups([]);
     setOptimizerNotices([]);
@@ -1278,9 +1188,11 @@ export const OptimizerView: React.FC<Props> = ({ players, games, slateDate, show
         const val = parseExposurePercentMaybe(overrides?.maxExposure);
         return val !== undefined && val < 100;
       }).length;
-      // Scope pool to teams in the current slate's games (if games are known)
-      const slateTeamIds = games.length > 0
-        ? new Set(games.flatMap((g) => [g.teamA.teamId, g.teamB.teamId]))
+      // Scope pool to teams in the current slate's games (if games are known),
+      // or to the chosen game on single-game sites
+      const scopedGames = showdownGame ? [showdownGame] : games;
+      const slateTeamIds = scopedGames.length > 0
+        ? new Set(scopedGames.flatMap((g) => [g.teamA.teamId, g.teamB.teamId]))
         : null;
 
       // Prepare player pool (only active players with salary and projection)
@@ -1288,27 +1200,25 @@ export const OptimizerView: React.FC<Props> = ({ players, games, slateDate, show
         .filter((p) => p.salary > 0 && p.projection > 0 && (!slateTeamIds || slateTeamIds.has(p.team)))
         .map((player) => {
           const overrides = playerOverrides[player.id] || {};
-          const minExposureVal = parseExposurePercentMaybe(overrides.minExposure);
-          const maxExposureVal = parseExposurePercentMaybe(overrides.maxExposure);
+          // A captain row without its own projection follows its FLEX row's override.
+          const baseOverrides = player.captainOf ? playerOverrides[player.captainOf] || {} : {};
+          const multiplier = player.captainMultiplier ?? 1;
+          const projection = Number.isFinite(Number(overrides.projection))
+            ? Number(overrides.projection)
+            : Number.isFinite(Number(baseOverrides.projection)) ? Number(baseOverrides.projection) * multiplier : player.projection;
+          const minutes = Number.isFinite(Number(overrides.minutes))
+            ? Number(overrides.minutes)
+            : Number.isFinite(Number(baseOverrides.minutes)) ? Number(baseOverrides.minutes) : player.minutesProjection;
           const merged: Player = {
             ...player,
-            projection: Number.isFinite(Number(overrides.projection)) ? Number(overrides.projection) : player.projection,
-            minutesProjection: Number.isFinite(Number(overrides.minutes)) ? Number(overrides.minutes) : player.minutesProjection,
-          };
-
-          const locked = lockedIds.includes(player.id);
-          return {
-            ...merged,
-            optimizerLocked: locked,
-            optimizerExcluded: Boolean(overrides.exclude),
-            optimizerMinExposure: locked ? 100 : minExposureVal,
-            optimizerMaxExposure: locked ? 100 : maxExposureVal,
+            projection,
+            minutesProjection: minutes,
           };
+          return merged;
         });
 
+      // Excluded players stay in the request so the engines and diagnostics see the excludes.
       const passesPoolThresholds = (player: Player): boolean => {
-          if (Boolean((player as any).optimizerExcluded)) return false;
-
           const salary = Number(player.salary);
           if (config.minSalary > 0 && (!Number.isFinite(salary) || salary < config.minSalary)) return false;
 
@@ -1319,7 +1229,7 @@ export const OptimizerView: React.FC<Props> = ({ players, games, slateDate, show
           if (config.minProjectedFpts > 0 && (!Number.isFinite(projection) || projection < config.minProjectedFpts)) return false;
 
           if (config.minSlateSimValue > 0) {
-            const slateSimValue = valueScoreMap.get(player.id)?.composite;
+            const slateSimValue = valueScoreMap.get(player.captainOf ?? player.id)?.composite;
             if (!Number.isFinite(Number(slateSimValue)) || Number(slateSimValue) < config.minSlateSimValue) return false;
           }
 
@@ -1328,7 +1238,7 @@ export const OptimizerView: React.FC<Props> = ({ players, games, slateDate, show
 
       const pool = prefilteredPool.filter((player) => passesPoolThresholds(player));
       const filteredLocked = prefilteredPool.filter(
-        (player) => Boolean((player as any).optimizerLocked) && !pool.some((p) => p.id === player.id),
+        (player) => lockedIds.includes(player.id) && !pool.some((p) => p.id === player.id),
       );
       if (filteredLocked.length > 0) {
         const preview = filteredLocked.slice(0, 3).map((p) => p.name).join(', ');
@@ -1340,211 +1250,165 @@ export const OptimizerView: React.FC<Props> = ({ players, games, slateDate, show
         return;
       }
 
-      if (pool.length < DK_SLOTS.length) {
-        setError(`Optimizer pool too small (${pool.length} players) after filters/exclusions/thresholds.`);
-        setIsOptimizing(false);
-        return;
-      }
+      const enrichedPool = mergePlayers(pool);
+      const modelCount = enrichedPool.filter((p) => (p as any).modelProjection != null).length;
+      console.log(`[Enrichment] ${modelCount}/${enrichedPool.length} players have modelProjection`);
 
-      const missingSlot = DK_SLOTS.find((slot) => !pool.some((player) => canFitDK(player, slot)));
-      if (missingSlot) {
-        setError(`No eligible players for ${missingSlot} after filters/thresholds.`);
+      const exposures: Record<string, OptimizerExposure> = {};
+      activeOverrideEntries.forEach(([id, overrides]) => {
+        const min = parseExposurePercentMaybe(overrides?.minExposure);
+        const max = parseExposurePercentMaybe(overrides?.maxExposure);
+        if (min === undefined && max === undefined) return;
+        exposures[id] = {
+          ...(min !== undefined ? { min } : {}),
+          ...(max !== undefined ? { max } : {}),
+        };
+      });
+
+      const request: OptimizerRequest = {
+        engine: config.engine,
+        players: enrichedPool.map((p) => ({ ...p, ev: getOptimizerEv(p) })),
+        rules: {
+          site: siteRules.site,
+          numLineups: config.numLineups,
+          salaryFloor: config.salaryFloor,
+          minSalary: config.minSalary,
+          minUniquePlayers: config.minUniquePlayers,
+          randomnessPct: config.randomnessPct,
+          locks: lockedIds,
+          excludes: activeOverrideEntries.filter(([, overrides]) => overrides?.exclude === true).map(([id]) => id),
+          exposures,
+          stack: {
+            enforceTeamStack: config.enforceTeamStack,
+            minTeamStackSize: config.minTeamStackSize,
+            games: config.gameStacks,
+            maxPlayersPerTeam: config.maxPlayersPerTeam,
+          },
+          groups: playerGroups,
+          weights: config.objectiveWeights,
+          fieldSize,
+          maxDuplicates: config.maxDuplicates,
+        },
+      };
+
+      const conflicts = diagnoseOptimizerRequest(request);
+      if (conflicts.length > 0) {
+        setConstraintConflicts(conflicts);
         setIsOptimizing(false);
         return;
       }
 
       setIsOptimizing(true);
+      enrichedPoolRef.current = enrichedPool;
 
-      // Initialize Worker
-      const worker = new OptimizerWorker();
-      workerRef.current = worker;
-
-      const toAppLineup = (
-        slotRows: Array<{ slot: string; player: any }>,
-        index: number,
-      ): Lineup => {
-        const playerIds = slotRows.map((row) => String(row?.player?.id || '')).filter(Boolean);
-        const totalSalary = slotRows.reduce((sum, row) => sum + Number(row?.player?.salary || 0), 0);
-        const totalProjection = slotRows.reduce((sum, row) => sum + Number(row?.player?.projection || 0), 0);
-        const totalCeiling = slotRows.reduce((sum, row) => sum + Number(row?.player?.ceiling || row?.player?.projection || 0), 0);
-        const totalOwnership = slotRows.reduce((sum, row) => sum + Number(row?.player?.ownership || 0), 0);
-        return {
-          id: `sa_${Date.now()}_${index}_${Math.random().toString(36).slice(2, 7)}`,
-          playerIds,
-          totalSalary,
-          totalProjection,
-          totalCeiling,
-          totalOwnership,
-          lineupSource: 'optimizer',
-        };
-      };
-
-      worker.onmessage = (e: MessageEvent) => {
-        const msg = e.data || {};
-        switch (msg.type) {
-          case 'progress': {
-            const payload = msg.payload || {};
-            const current = Number(payload.current) || 0;
-            const total = Number(payload.total) || Math.max(1, config.numLineups);
-            const lineupRows = Array.isArray(payload.lineup) ? payload.lineup : [];
-            setProgress(Math.max(0, Math.min(99, Math.round((current / Math.max(1, total)) * 100))));
-            if (lineupRows.length > 0) {
-              const nextLineup = toAppLineup(lineupRows, current);
-              if (nextLineup.totalSalary >= config.salaryFloor) {
-                setGeneratedLineups((prev) => [nextLineup, ...prev].slice(0, Math.max(1, config.numLineups)));
-              }
+      const job = startOptimizerJob(
+        request,
+        {
+          onProgress: (update) => {
+            if (jobRef.current !== job) return;
+            const total = Math.max(1, update.total || config.numLineups);
+            setProgress(Math.max(0, Math.min(99, Math.round((update.current / total) * 100))));
+            const nextLineup = update.lineup;
+            if (nextLineup && nextLineup.totalSalary >= config.salaryFloor) {
+              setGeneratedLineups((prev) => [nextLineup, ...prev].slice(0, Math.max(1, config.numLineups)));
             }
-            break;
+          },
+          onPaused: (partial) => {
+            if (jobRef.current !== job) return;
+            const kept = partial.lineups.filter((lineup) => lineup.totalSalary >= config.salaryFloor);
+            setGeneratedLineups(scoreLineups(kept, enrichedPoolRef.current));
+            setOptimizerNotices([
+              `Paused after ${partial.lineups.length}/${config.numLineups} lineups. Resume keeps exposure and uniqueness limits from the lineups so far.`,
+              ...partial.warnings,
+            ]);
+            setRunPhase('paused');
+          },
+        },
+      );
+      jobRef.current = job;
+      setRunPhase('running');
+      setIsOptimizing(true);
+
+      job.result
+        .then((result) => {
+          if (jobRef.current !== job) return;
+          jobRef.current = null;
+          const converted = result.lineups.filter((lineup) => lineup.totalSalary >= config.salaryFloor);
+          const scored = scoreLineups(converted, enrichedPoolRef.current);
+          setGeneratedLineups(scored);
+          setIsOptimizing(false);
+          setRunPhase('running');
+          setProgress(100);
+          const workerWarnings = result.warnings;
+          if (result.status === 'cancelled') {
+            setOptimizerNotices([`Stopped after ${result.lineups.length}/${config.numLineups} lineups.`, ...workerWarnings]);
+            return;
           }
-          case 'result': {
-            const payload = msg.payload || {};
-            const rawLineups = Array.isArray(payload.lineups) ? payload.lineups : [];
-            const converted = rawLineups
-              .map((rows: any, idx: number) => toAppLineup(Array.isArray(rows) ? rows : [], idx + 1))
-              .filter((lineup) => lineup.totalSalary >= config.salaryFloor);
-            const scored = scoreLineups(converted, enrichedPoolRef.current);
-            setGeneratedLineups(scored);
-            setIsOptimizing(false);
-            setProgress(100);
-            const workerWarnings: string[] = [];
-            setOptimizerNotices(workerWarnings);
-            const diagnostics: string[] = [];
-            if (lockedIds.length > 0) diagnostics.push(`${lockedIds.length} locked`);
-            if (excludedOverrideCount > 0) diagnostics.push(`${excludedOverrideCount} excluded`);
-            if (minExposureOverrideCount > 0) diagnostics.push(`${minExposureOverrideCount} min-exp caps`);
-            if (maxExposureOverrideCount > 0) diagnostics.push(`${maxExposureOverrideCount} max-exp caps`);
-            if (config.salaryFloor > 0) diagnostics.push(`salary floor $${config.salaryFloor}`);
-            if (config.minUniquePlayers > 1) diagnostics.push(`minimum unique players ${config.minUniquePlayers}`);
-            if (config.minSalary > 0) diagnostics.push(`min salary $${config.minSalary}`);
-            if (config.enableStatConstraints) diagnostics.push(`stat constraints ${config.statConstraintMode}`);
-            if (config.deltaFromBestProjection > 0) diagnostics.push(`projection floor -${config.deltaFromBestProjection}`);
-            if (config.minMinutes > 0) diagnostics.push(`min minutes ${config.minMinutes}`);
-            if (config.minProjectedFpts > 0) diagnostics.push(`min fpts ${config.minProjectedFpts}`);
-            if (config.minSlateSimValue > 0) diagnostics.push(`min slatesim value ${config.minSlateSimValue}`);
-            if (config.enforceTeamStack) diagnostics.push(`team stack ${config.minTeamStackSize}+`);
-            if (config.objectiveWeights.ev !== 1 || config.objectiveWeights.projection !== 0 || config.objectiveWeights.ceiling !== 0 || config.objectiveWeights.leverage !== 0) {
-              diagnostics.push(
-                `weights ev:${config.objectiveWeights.ev.toFixed(1)} proj:${config.objectiveWeights.projection.toFixed(1)} ceil:${config.objectiveWeights.ceiling.toFixed(1)} lev:${config.objectiveWeights.leverage.toFixed(1)}`,
+          setOptimizerNotices(workerWarnings);
+          const diagnostics: string[] = [];
+          if (lockedIds.length > 0) diagnostics.push(`${lockedIds.length} locked`);
+          if (excludedOverrideCount > 0) diagnostics.push(`${excludedOverrideCount} excluded`);
+          if (minExposureOverrideCount > 0) diagnostics.push(`${minExposureOverrideCount} min-exp caps`);
+          if (maxExposureOverrideCount > 0) diagnostics.push(`${maxExposureOverrideCount} max-exp caps`);
+          if (config.salaryFloor > 0) diagnostics.push(`salary floor $${config.salaryFloor}`);
+          if (config.minUniquePlayers > 1) diagnostics.push(`minimum unique players ${config.minUniquePlayers}`);
+          if (config.minSalary > 0) diagnostics.push(`min salary $${config.minSalary}`);
+          if (config.enableStatConstraints) diagnostics.push(`stat constraints ${config.statConstraintMode}`);
+          if (config.deltaFromBestProjection > 0) diagnostics.push(`projection floor -${config.deltaFromBestProjection}`);
+          if (config.minMinutes > 0) diagnostics.push(`min minutes ${config.minMinutes}`);
+          if (config.minProjectedFpts > 0) diagnostics.push(`min fpts ${config.minProjectedFpts}`);
+          if (config.minSlateSimValue > 0) diagnostics.push(`min slatesim value ${config.minSlateSimValue}`);
+          if (config.enforceTeamStack) diagnostics.push(`team stack ${config.minTeamStackSize}+`);
+          if (config.gameStacks.length > 0) diagnostics.push(`${config.gameStacks.length} game stack rules`);
+          if (config.maxPlayersPerTeam !== null) diagnostics.push(`max ${config.maxPlayersPerTeam} per team`);
+          if (playerGroups.length > 0) diagnostics.push(`${playerGroups.length} player groups`);
+          if (config.maxDuplicates !== null) diagnostics.push(`max ${config.maxDuplicates} est. duplicates`);
+          if (config.objectiveWeights.ev !== 1 || config.objectiveWeights.projection !== 0 || config.objectiveWeights.ceiling !== 0 || config.objectiveWeights.leverage !== 0) {
+            diagnostics.push(
+              `weights ev:${config.objectiveWeights.ev.toFixed(1)} proj:${config.objectiveWeights.projection.toFixed(1)} ceil:${config.objectiveWeights.ceiling.toFixed(1)} lev:${config.objectiveWeights.leverage.toFixed(1)}`,
+            );
+          }
+          if (poolFilters.length > 0) diagnostics.push(`${poolFilters.length} pool filters`);
+          if (poolSearch.trim()) diagnostics.push('pool search active');
+
+          const hasUserConstraints = diagnostics.length > 0;
+          const warningSuffix = workerWarnings.length > 0 ? ` ${workerWarnings.join(' ')}` : '';
+          if (converted.length === 0) {
+            if (hasUserConstraints) {
+              setError(
+                `No valid lineups could be generated with the active constraints.` +
+                ` Active constraints detected: ${diagnostics.join(', ')}.` +
+                ` Try clearing advanced settings or relaxing pool, exposure, or salary constraints.${warningSuffix}`,
               );
-            }
-            if (poolFilters.length > 0) diagnostics.push(`${poolFilters.length} pool filters`);
-            if (poolSearch.trim()) diagnostics.push('pool search active');
-
-            const hasUserConstraints = diagnostics.length > 0;
-            const warningSuffix = workerWarnings.length > 0 ? ` ${workerWarnings.join(' ')}` : '';
-            if (converted.length === 0) {
-              if (hasUserConstraints) {
-                setError(
-                  `No valid lineups could be generated with the active constraints.` +
-                  ` Active constraints detected: ${diagnostics.join(', ')}.` +
-                  ` Try clearing advanced settings or relaxing pool, exposure, or salary constraints.${warningSuffix}`,
-                );
-              } else {
-                setError(
-                  `No valid lineups could be generated from the current player pool.` +
-                  ` No explicit filters or advanced constraints were detected; this usually means the slate is infeasible under salary/position requirements.` +
-                  ` Try lowering the salary floor or expanding the player pool.${warningSuffix}`,
-                );
-              }
-            } else if (converted.length < config.numLineups) {
-              const detail = hasUserConstraints
-                ? ` Active constraints detected: ${diagnostics.join(', ')}.`
-                : ' No explicit advanced constraints detected; feasible unique lineups were exhausted by salary/position/uniqueness limits in the current pool.';
-              const suggestion = hasUserConstraints
-                ? ' Try clearing advanced settings or relaxing pool filters, exposure caps, or salary constraints for more combinations.'
-                : ' Try expanding the player pool to increase valid unique combinations.';
+            } else {
               setError(
-                `Generated ${converted.length}/${config.numLineups} feasible unique lineups before exhaustion.` +
-                `${detail}${suggestion}${warningSuffix}`,
+                `No valid lineups could be generated from the current player pool.` +
+                ` No explicit filters or advanced constraints were detected; this usually means the slate is infeasible under salary/position requirements.` +
+                ` Try lowering the salary floor or expanding the player pool.${warningSuffix}`,
               );
             }
-            worker.terminate();
-            break;
-          }
-          case 'error': {
-            const payload = msg.payload || {};
-            setError(String(payload.message || 'Optimizer worker failed.'));
-            setOptimizerNotices([]);
-            setIsOptimizing(false);
-            worker.terminate();
-            break;
+          } else if (converted.length < config.numLineups) {
+            const detail = hasUserConstraints
+              ? ` Active constraints detected: ${diagnostics.join(', ')}.`
+              : ' No explicit advanced constraints detected; feasible unique lineups were exhausted by salary/position/uniqueness limits in the current pool.';
+            const suggestion = hasUserConstraints
+              ? ' Try clearing advanced settings or relaxing pool filters, exposure caps, or salary constraints for more combinations.'
+              : ' Try expanding the player pool to increase valid unique combinations.';
+            setError(
+              `Generated ${converted.length}/${config.numLineups} feasible unique lineups before exhaustion.` +
+              `${detail}${suggestion}${warningSuffix}`,
+            );
           }
-        }
-      };
-
-      worker.onerror = (err) => {
-        const detail = err?.message ? ` ${err.message}` : '';
-        setError(`Worker Error: Optimization failed to start.${detail}`);
-        console.error('[optimizer] worker onerror', err);
-        setOptimizerNotices([]);
-        setIsOptimizing(false);
-        worker.terminate();
-      };
-
-      worker.onmessageerror = (err) => {
-        setError('Worker Error: Message serialization failed between UI and optimizer worker.');
-        console.error('[optimizer] worker onmessageerror', err);
-        setOptimizerNotices([]);
-        setIsOptimizing(false);
-        worker.terminate();
-      };
-      
-      const enrichedPool = mergePlayers(pool);
-      enrichedPoolRef.current = enrichedPool;
-      const modelCount = enrichedPool.filter((p) => (p as any).modelProjection != null).length;
-      console.log(`[Enrichment] ${modelCount}/${enrichedPool.length} players have modelProjection`);
-
-      const toSaPositions = (rawPos: string): string[] => {
-        const parsed = parsePositions(rawPos);
-        if (parsed.length > 0) return parsed;
-        const raw = String(rawPos || '').toUpperCase();
-        if (raw.includes('G')) return ['PG', 'SG'];
-        if (raw.includes('F')) return ['SF', 'PF'];
-        return ['PG', 'SG', 'SF', 'PF', 'C'];
-      };
-
-      const saPlayers = enrichedPool.map((p) => {
-        const team = String(p.team || 'UNK').toUpperCase();
-        const opp = String(p.opponent || 'UNK').toUpperCase();
-        const minExposure = parseExposurePercentMaybe((p as any).optimizerMinExposure);
-        const maxExposure = parseExposurePercentMaybe((p as any).optimizerMaxExposure);
-        return {
-          id: String(p.id),
-          name: String(p.name || p.id),
-          positions: toSaPositions(String(p.position || '')),
-          salary: Number(p.salary || 0),
-          projection: Number(p.projection || 0),
-          ev: getOptimizerEv(p),
-          ceiling: Number((p as any).ceiling ?? p.projection ?? 0),
-          ownership: Number((p as any).ownership ?? 0),
-          teamId: team,
-          gameId: [team, opp].sort().join('_vs_'),
-          locked: Boolean((p as any).optimizerLocked),
-          excluded: Boolean((p as any).optimizerExcluded),
-          ...(minExposure !== undefined ? { minExposure } : {}),
-          ...(maxExposure !== undefined ? { maxExposure } : {}),
-        };
-      });
-
-      const request = {
-        players: saPlayers,
-        config: {
-          targetLineups: config.numLineups,
-          salaryCap: 50000,
-          salaryFloor: Math.max(0, Math.min(50000, Math.floor(config.salaryFloor))),
-          minSalary: Math.max(0, Number(config.minSalary) || 0),
-          minUniquePlayers: Math.max(1, Math.min(8, Math.floor(config.minUniquePlayers))),
-          randomnessPct: Math.max(0, Math.min(100, Number(config.randomnessPct) || 0)),
-          weightEv: Number(config.objectiveWeights.ev) || 0,
-          weightProjection: Number(config.objectiveWeights.projection) || 0,
-          weightCeiling: Number(config.objectiveWeights.ceiling) || 0,
-          weightLeverage: Number(config.objectiveWeights.leverage) || 0,
-          enforceTeamStack: Boolean(config.enforceTeamStack),
-          minTeamStackSize: Math.max(2, Math.min(8, Math.round(Number(config.minTeamStackSize) || 2))),
-        },
-      };
-
-      worker.postMessage(request);
+        })
+        .catch((err) => {
+          if (jobRef.current !== job) return;
+          jobRef.current = null;
+          console.error('[optimizer] job failed', err);
+          setError(err instanceof Error ? err.message : 'Optimizer worker failed.');
+          setOptimizerNotices([]);
+          setIsOptimizing(false);
+          setRunPhase('running');
+        });
 
     } catch (err) {
       setError("Initialization Error: Failed to create optimizer worker.");
@@ -1552,48 +1416,38 @@ export const OptimizerView: React.FC<Props> = ({ players, games, slateDate, show
     }
   };
 
+  // Pause/stop land at the next lineup boundary; the job's callbacks finish the UI update.
+  const pauseOptimization = () => {
+    if (!jobRef.current || runPhase !== 'running') return;
+    jobRef.current.pause();
+    setRunPhase('pausing');
+  };
+
+  const resumeOptimization = () => {
+    if (!jobRef.current || runPhase !== 'paused') return;
+    jobRef.current.resume();
+    setOptimizerNotices([]);
+    setRunPhase('running');
+  };
+
   const stopOptimization = () => {
-    if (workerRef.current) {
-      workerRef.current.terminate();
-      workerRef.current = null;
+    if (!jobRef.current) {
+      setIsOptimizing(false);
+      return;
     }
-    setIsOptimizing(false);
+    jobRef.current.cancel();
+    setRunPhase('stopping');
   };
 
   const exportToCSV = () => {
     if (generatedLineups.length === 0) return;
 
-    // DraftKings CSV Format: PG,SG,SF,PF,C,G,F,UTIL
-    const headers = ['PG', 'SG', 'SF', 'PF', 'C', 'G', 'F', 'UTIL'] as const;
-
-    const takeFirst = (players: Player[], predicate: (p: Player) => boolean) => {
-      const idx = players.findIndex(predicate);
-      if (idx === -1) return null;
-      return players.splice(idx, 1)[0];
-    };
+    // Upload format per site (DK: PG,SG,SF,PF,C,G,F,UTIL; FD: PG,PG,SG,SG,SF,SF,PF,PF,C).
+    const headers = siteRules.entryCsv.slotHeaders;
 
     const rows = generatedLineups.map((lineup) => {
-      const remaining = [...getLineupPlayers(lineup)];
-      const positions = (p: Player) => p.position.split('/');
-
-      const slotMap: Record<typeof headers[number], string> = {
-        PG: takeFirst(remaining, (p) => positions(p).includes('PG'))?.id || '',
-        SG: takeFirst(remaining, (p) => positions(p).includes('SG'))?.id || '',
-        SF: takeFirst(remaining, (p) => positions(p).includes('SF'))?.id || '',
-        PF: takeFirst(remaining, (p) => positions(p).includes('PF'))?.id || '',
-        C: takeFirst(remaining, (p) => positions(p).includes('C'))?.id || '',
-        G: takeFirst(remaining, (p) => {
-          const pos = positions(p);
-          return pos.includes('G') || pos.includes('PG') || pos.includes('SG');
-        })?.id || '',
-        F: takeFirst(remaining, (p) => {
-          const pos = positions(p);
-          return pos.includes('F') || pos.includes('SF') || pos.includes('PF');
-        })?.id || '',
-        UTIL: takeFirst(remaining, () => true)?.id || '',
-      };
-
-      return headers.map((slot) => slotMap[slot]).join(',');
+      const { slotMap } = assignSiteSlots(getLineupPlayers(lineup), siteRules);
+      return siteRules.slots.map((slot) => slotMap[slot.key]?.id || '').join(',');
     });
 
     const csvContent = [headers.join(','), ...rows].join('\n');
@@ -1650,6 +1504,7 @@ export const OptimizerView: React.FC<Props> = ({ players, games, slateDate, show
       playerIds: [...lineup.playerIds],
       totalSalary: Number.isFinite(Number(lineup.totalSalary)) ? Number(lineup.totalSalary) : 0,
       totalProjection: Number.isFinite(Number(lineup.totalProjection)) ? Number(lineup.totalProjection) : 0,
+      ...pickLineupMetrics(lineup),
       lineupSource: 'optimizer',
     }));
     const savedSet: SavedLineupSet = {
@@ -1659,13 +1514,14 @@ export const OptimizerView: React.FC<Props> = ({ players, games, slateDate, show
       salaryCap: config.salaryCap,
       createdAt: now,
       lineups: normalizedLineups,
+      config,
     };
     const nextSets = [savedSet, ...savedLineupSets];
     persistSavedLineupSets(nextSets);
     setShowSaveLineupsModal(false);
     setSaveLineupName('');
     setError(null);
-  }, [config.salaryCap, generatedLineups, persistSavedLineupSets, saveLineupName, savedLineupSets, slateDate]);
+  }, [config, generatedLineups, persistSavedLineupSets, saveLineupName, savedLineupSets, slateDate]);
 
   const loadSavedLineupSet = useCallback((savedSet: SavedLineupSet) => {
     setGeneratedLineups(savedSet.lineups.map((lineup, idx) => ({
@@ -1682,6 +1538,40 @@ export const OptimizerView: React.FC<Props> = ({ players, games, slateDate, show
     persistSavedLineupSets(nextSets);
   }, [persistSavedLineupSets, savedLineupSets]);
 
+  const exportSavedLineupSet = (savedSet: SavedLineupSet) => {
+    const file = buildLineupSetFile(savedSet, players);
+    const blob = new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    const safeName = savedSet.name.replace(/[^a-z0-9]+/gi, '_').replace(/^_+|_+$/g, '') || 'lineups';
+    link.setAttribute('href', url);
+    link.setAttribute('download', `slatesim_${safeName}_${savedSet.slateDate || 'set'}.json`);
+    link.style.visibility = 'hidden';
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const importLineupSetFile = async (file: File) => {
+    try {
+      const parsed = parseLineupSetFile(await file.text());
+      const imported = reconcileLineupSetFile(parsed, players, slateDate || '');
+      persistSavedLineupSets([imported.set, ...savedLineupSets]);
+      const notes = [`Imported ${imported.set.lineups.length} of ${parsed.lineups.length} lineups from "${imported.set.name}".`];
+      if (parsed.set.slateDate && slateDate && parsed.set.slateDate !== slateDate) {
+        notes.push(`The file was exported for ${parsed.set.slateDate}.`);
+      }
+      if (imported.missingPlayers.length > 0) {
+        const names = imported.missingPlayers.map((player) => player.name || player.id);
+        notes.push(`No longer on this slate: ${names.join(', ')}. ${imported.droppedLineupIds.length} lineups using them were left out.`);
+      }
+      setLineupSetImportNotice({ tone: imported.missingPlayers.length > 0 ? 'warn' : 'ok', message: notes.join(' ') });
+    } catch (err) {
+      setLineupSetImportNotice({ tone: 'error', message: err instanceof Error ? err.message : 'Lineup set import failed.' });
+    }
+  };
+
   const playerById = useMemo(() => {
     return new Map(players.map((p) => [p.id, p]));
   }, [players]);
@@ -1713,6 +1603,19 @@ export const OptimizerView: React.FC<Props> = ({ players, games, slateDate, show
     return hasActual ? Number(total.toFixed(2)) : null;
   };
 
+  const duplicatesByLineupId = useMemo(() => {
+    const out = new Map<string, number>();
+    generatedLineups.forEach((lineup) => {
+      const estimate = estimateLineupDuplication(
+        getLineupPlayers(lineup).map((player) => Number(player.ownership) || 0),
+        config.salaryCap - lineup.totalSalary,
+        fieldSize,
+      );
+      out.set(lineup.id, estimate.expectedDuplicates);
+    });
+    return out;
+  }, [generatedLineups, config.salaryCap, fieldSize, playerById]);
+
   const sortedLineups = useMemo(() => {
     const indexMap = new Map<string, number>();
     const actualMap = new Map<string, number | null>();
@@ -1728,6 +1631,7 @@ export const OptimizerView: React.FC<Props> = ({ players, games, slateDate, show
           case 'projection': return lineup.totalProjection;
           case 'actual': return actualMap.get(lineup.id) ?? -Infinity;
           case 'salary': return config.salaryCap - lineup.totalSalary;
+          case 'duplicates': return duplicatesByLineupId.get(lineup.id) ?? 0;
           default: return lineup.totalProjection;
         }
       };
@@ -1735,7 +1639,7 @@ export const OptimizerView: React.FC<Props> = ({ players, games, slateDate, show
       return lineupSort.dir === 'asc' ? cmp : -cmp;
     });
     return rows;
-  }, [generatedLineups, lineupSort, config.salaryCap]);
+  }, [generatedLineups, lineupSort, config.salaryCap, duplicatesByLineupId]);
 
   const sortedExposureStats = useMemo(() => {
     const rows = [...exposureStats];
@@ -1769,14 +1673,18 @@ export const OptimizerView: React.FC<Props> = ({ players, games, slateDate, show
     setPoolFilters((prev) => prev.map((f) => (f.id === id ? { ...f, ...updates } : f)));
   };
 
+  // Captain rows share their FLEX row's value score.
   const valueScoreMap = useMemo(
-    () => calculateValueScores(players, games),
+    () => calculateValueScores(players.filter((p) => !p.captainOf), games),
     [players, games]
   );
 
   const filteredPoolPlayers = useMemo(() => {
     const term = poolSearch.trim().toLowerCase();
-    let pool = players.filter((p) => (!term ? true : p.name.toLowerCase().includes(term)));
+    const showdownTeams = showdownGame ? new Set([showdownGame.teamA.teamId, showdownGame.teamB.teamId]) : null;
+    let pool = players.filter((p) => (
+      (!term || p.name.toLowerCase().includes(term)) && (!showdownTeams || showdownTeams.has(p.team))
+    ));
 
     const getFilterValue = (player: Player, key: string): any => {
       const overrides = playerOverrides[player.id] || {};
@@ -1792,7 +1700,7 @@ export const OptimizerView: React.FC<Props> = ({ players, games, slateDate, show
         case 'team': return player.team;
         case 'opponent': return player.opponent;
         case 'salary': return player.salary;
-        case 'value': return valueScoreMap.get(player.id)?.composite;
+        case 'value': return valueScoreMap.get(player.captainOf ?? player.id)?.composite;
         case 'usage': return getUsagePercent(player);
         case 'ownership': return getOwnershipPercent(player);
         case 'minutes': return displayMinutes;
@@ -1847,13 +1755,14 @@ export const OptimizerView: React.FC<Props> = ({ players, games, slateDate, show
     }
 
     return pool;
-  }, [players, poolSearch, poolFilters, playerOverrides, lockedIds, poolSort, valueScoreMap]);
+  }, [players, poolSearch, poolFilters, playerOverrides, lockedIds, poolSort, valueScoreMap, showdownGame]);
 
   const clearAdvancedSettings = () => {
-    localStorage.removeItem(getAdvancedSettingsStorageKey(slateDate));
+    deleteOptimizerSettings(getOptimizerSettingsKey(slateDate));
     setLockedIds([]);
     setSelectedMatchups([]);
     setPlayerOverrides({});
+    setPlayerGroups([]);
     setConfig(createDefaultOptimizerConfig());
     setSettingsRevision((r) => r + 1);
   };
@@ -1980,7 +1889,7 @@ export const OptimizerView: React.FC<Props> = ({ players, games, slateDate, show
           depthCharts={depthCharts}
           injuryLookup={injuryLookup}
           startingLineupLookup={startingLineupLookup}
-          optimizerSettingsKey={getAdvancedSettingsStorageKey(slateDate)}
+          optimizerSettingsKey={getOptimizerSettingsKey(slateDate)}
           settingsRevision={settingsRevision}
           onOptimizerExposureChange={handleDeepDiveExposureChange}
           onOptimizerLockChange={handleDeepDiveLockChange}
@@ -2002,6 +1911,9 @@ export const OptimizerView: React.FC<Props> = ({ players, games, slateDate, show
               <span className="px-2 py-1 rounded-sm border border-ink/15 bg-white/70 text-[9px] font-black uppercase tracking-widest text-ink/60">
                 {config.numLineups} lineups
               </span>
+              <span className="px-2 py-1 rounded-sm border border-ink/15 bg-white/70 text-[9px] font-black uppercase tracking-widest text-ink/60">
+                {OPTIMIZER_ENGINE_LABELS[config.engine]}
+              </span>
               <span className="px-2 py-1 rounded-sm border border-ink/15 bg-white/70 text-[9px] font-black uppercase tracking-widest text-ink/60">
                 EV weight {config.objectiveWeights.ev.toFixed(1)}
               </span>
@@ -2028,6 +1940,37 @@ export const OptimizerView: React.FC<Props> = ({ players, games, slateDate, show
           </div>
 
           <div className="w-full md:w-[280px] flex flex-col gap-2">
+            <div className="grid grid-cols-3 border border-ink/20 rounded-sm overflow-hidden" role="group" aria-label="DFS site">
+              {Object.values(SITE_RULES).map((rules) => (
+                <button
+                  key={rules.site}
+                  type="button"
+                  onClick={() => handleSiteChange(rules.site)}
+                  disabled={isOptimizing}
+                  className={`py-1.5 text-[10px] font-black uppercase tracking-widest transition-all ${
+                    config.site === rules.site ? 'bg-ink text-white' : 'text-ink/50 hover:text-ink'
+                  }`}
+                  title={rules.unavailableReason ?? `${rules.slots.map((slot) => slot.label).join('/')} · $${rules.salaryCap.toLocaleString()} cap`}
+                >
+                  {rules.label}
+                </button>
+              ))}
+            </div>
+            {showdownGame && (
+              <select
+                value={showdownGame.matchupKey}
+                onChange={(e) => setSelectedMatchups([e.target.value])}
+                disabled={isOptimizing}
+                aria-label="Showdown game"
+                className="w-full h-8 bg-white/60 border border-ink/20 rounded-sm px-2 text-[10px] font-black uppercase tracking-widest text-ink outline-none focus:border-drafting-orange"
+              >
+                {games.map((g) => (
+                  <option key={g.matchupKey} value={g.matchupKey}>
+                    {g.teamA.abbreviation} vs {g.teamB.abbreviation}{g.gameTime ? ` · ${g.gameTime}` : ''}
+                  </option>
+                ))}
+              </select>
+            )}
             <button
               type="button"
               onClick={() => setShowAdvanced(true)}
@@ -2043,12 +1986,23 @@ export const OptimizerView: React.FC<Props> = ({ players, games, slateDate, show
                 <Play className="w-3.5 h-3.5 fill-current" /> Run Optimizer
               </button>
             ) : (
-              <button
-                onClick={stopOptimization}
-                className="w-full bg-red-600 hover:opacity-90 text-white font-black py-2.5 rounded-sm shadow-lg shadow-red-600/20 transition-all active:scale-95 flex items-center justify-center gap-2 uppercase tracking-widest text-[11px]"
-              >
-                <Square className="w-3.5 h-3.5 fill-current" /> Stop Process
-              </button>
+              <div className="flex gap-2">
+                {runPhase === 'paused' && (
+                  <button
+                    onClick={resumeOptimization}
+                    className="flex-1 bg-drafting-orange hover:opacity-90 text-white font-black py-2.5 rounded-sm shadow-lg shadow-drafting-orange/20 transition-all active:scale-95 flex items-center justify-center gap-2 uppercase tracking-widest text-[11px]"
+                  >
+                    <Play className="w-3.5 h-3.5 fill-current" /> Resume
+                  </button>
+                )}
+                <button
+                  onClick={stopOptimization}
+                  disabled={runPhase === 'stopping'}
+                  className="flex-1 bg-red-600 hover:opacity-90 disabled:opacity-50 text-white font-black py-2.5 rounded-sm shadow-lg shadow-red-600/20 transition-all active:scale-95 flex items-center justify-center gap-2 uppercase tracking-widest text-[11px]"
+                >
+                  <Square className="w-3.5 h-3.5 fill-current" /> {runPhase === 'paused' ? 'Finish' : 'Stop Process'}
+                </button>
+              </div>
             )}
           </div>
         </div>
@@ -2066,6 +2020,25 @@ export const OptimizerView: React.FC<Props> = ({ players, games, slateDate, show
           </div>
         )}
 
+        {constraintConflicts.length > 0 && (
+          <div className="mt-2 p-3 bg-red-600/10 border border-red-600/20 rounded-sm flex items-start gap-2 animate-in slide-in-from-top-2">
+            <AlertCircle className="w-3.5 h-3.5 text-red-600 shrink-0 mt-0.5" />
+            <div className="space-y-2">
+              <p className="text-[9px] font-black text-red-600 uppercase tracking-widest leading-tight">
+                No lineup can satisfy these constraints
+              </p>
+              <ul className="space-y-1.5">
+                {constraintConflicts.map((conflict, idx) => (
+                  <li key={`${conflict.code}_${idx}`} className="text-[9px] leading-tight">
+                    <p className="font-bold text-red-600 uppercase">{conflict.message}</p>
+                    <p className="font-mono text-red-700/80">{conflict.fix}</p>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          </div>
+        )}
+
         {optimizerNotices.length > 0 && (
           <div className="mt-2 p-3 bg-amber-500/10 border border-amber-500/30 rounded-sm flex items-start gap-2 animate-in slide-in-from-top-2">
             <AlertCircle className="w-3.5 h-3.5 text-amber-700 shrink-0 mt-0.5" />
@@ -2082,15 +2055,16 @@ export const OptimizerView: React.FC<Props> = ({ players, games, slateDate, show
             <div className="flex items-center gap-2">
               <Activity className="w-4 h-4 text-drafting-orange" />
               <h3 className="text-[12px] font-black uppercase tracking-widest text-ink/60">Generated Lineups</h3>
-              {slateSavedLineupSets.length > 0 && (
-                <button
-                  type="button"
-                  onClick={() => setShowSavedLineupsModal(true)}
-                  className="px-2 py-1 rounded-sm border border-ink/20 text-[10px] font-black uppercase tracking-widest text-ink/60 hover:border-drafting-orange/40 hover:text-ink transition-all"
-                >
-                  Saved Lineups
-                </button>
-              )}
+              <button
+                type="button"
+                onClick={() => {
+                  setLineupSetImportNotice(null);
+                  setShowSavedLineupsModal(true);
+                }}
+                className="px-2 py-1 rounded-sm border border-ink/20 text-[10px] font-black uppercase tracking-widest text-ink/60 hover:border-drafting-orange/40 hover:text-ink transition-all"
+              >
+                Saved Lineups{slateSavedLineupSets.length > 0 ? ` (${slateSavedLineupSets.length})` : ''}
+              </button>
             </div>
             <div className="flex items-center gap-3">
               <span className="text-[12px] font-mono font-bold text-ink/40">{generatedLineups.length} Found</span>
@@ -2146,6 +2120,13 @@ export const OptimizerView: React.FC<Props> = ({ players, games, slateDate, show
               >
                 Rem. Salary{lineupSort.key === 'salary' ? (lineupSort.dir === 'asc' ? ' ▲' : ' ▼') : ''}
                   </th>
+              <th
+                onClick={() => setLineupSort(nextSort(lineupSort, 'duplicates', 'desc'))}
+                title={`Expected copies of this lineup in a ${fieldSize.toLocaleString()}-entry field`}
+                className="px-4 py-3 text-right cursor-pointer select-none"
+              >
+                Est. Dupes{lineupSort.key === 'duplicates' ? (lineupSort.dir === 'asc' ? ' ▲' : ' ▼') : ''}
+                  </th>
                 </tr>
               </thead>
               <tbody className="text-[12px] font-mono">
@@ -2154,6 +2135,8 @@ export const OptimizerView: React.FC<Props> = ({ players, games, slateDate, show
                   const names = lineupPlayers.map((p) => p.name).join(', ');
                   const actualTotal = getLineupActualTotal(lineup);
                   const remainingSalary = config.salaryCap - lineup.totalSalary;
+                  const duplicates = duplicatesByLineupId.get(lineup.id) ?? 0;
+                  const duplicationRisk = getDuplicationRisk(duplicates);
                   const isExpanded = expandedLineupId === lineup.id;
                   return (
                     <React.Fragment key={lineup.id}>
@@ -2190,10 +2173,17 @@ export const OptimizerView: React.FC<Props> = ({ players, games, slateDate, show
                         <td className="px-4 py-3 text-right font-bold text-ink/60">
                           ${Math.max(0, remainingSalary).toLocaleString()}
                         </td>
+                        <td
+                          className={`px-4 py-3 text-right font-bold ${
+                            duplicationRisk === 'high' ? 'text-red-600' : duplicationRisk === 'medium' ? 'text-amber-600' : 'text-ink/60'
+                          }`}
+                        >
+                          {formatDuplicates(duplicates)}
+                        </td>
                       </tr>
                       {isExpanded && (
                         <tr className="border-b border-ink/10 bg-ink/5">
-                          <td colSpan={6} className="px-4 py-3">
+                          <td colSpan={7} className="px-4 py-3">
                             <div className="grid grid-cols-1 gap-2">
                             <div className={`grid ${showActuals ? 'grid-cols-8' : 'grid-cols-7'} text-[11px] font-black uppercase tracking-widest text-ink/40`}>
                               <span className="col-span-2">Player</span>
@@ -2542,12 +2532,12 @@ export const OptimizerView: React.FC<Props> = ({ players, games, slateDate, show
                       <input
                         type="number"
                         min={1}
-                        max={8}
+                        max={siteRules.slots.length}
                         step={1}
                         value={config.minUniquePlayers}
                         onChange={(e) => {
                           const parsed = Number(e.target.value);
-                          const nextVal = Number.isFinite(parsed) ? Math.max(1, Math.min(8, Math.round(parsed))) : 1;
+                          const nextVal = Number.isFinite(parsed) ? Math.max(1, Math.min(siteRules.slots.length, Math.round(parsed))) : 1;
                           setConfig((prev) => ({ ...prev, minUniquePlayers: nextVal }));
                         }}
                         className="h-7 bg-white/60 border border-ink/20 rounded-sm px-2 text-[10px] font-bold font-mono focus:border-drafting-orange outline-none transition-all text-ink"
@@ -2555,7 +2545,7 @@ export const OptimizerView: React.FC<Props> = ({ players, games, slateDate, show
                       <input
                         type="range"
                         min={1}
-                        max={8}
+                        max={siteRules.slots.length}
                         step={1}
                         value={config.minUniquePlayers}
                         onChange={(e) => setConfig((prev) => ({ ...prev, minUniquePlayers: Number(e.target.value) }))}
@@ -2568,12 +2558,12 @@ export const OptimizerView: React.FC<Props> = ({ players, games, slateDate, show
                       <input
                         type="number"
                         min={0}
-                        max={50000}
+                        max={siteRules.salaryCap}
                         step={100}
                         value={config.salaryFloor}
                         onChange={(e) => {
                           const parsed = Number(e.target.value);
-                          const nextVal = Number.isFinite(parsed) ? Math.max(0, Math.min(50000, Math.floor(parsed / 100) * 100)) : 0;
+                          const nextVal = Number.isFinite(parsed) ? Math.max(0, Math.min(siteRules.salaryCap, Math.floor(parsed / 100) * 100)) : 0;
                           setConfig((prev) => ({ ...prev, salaryFloor: nextVal }));
                         }}
                         className="h-7 bg-white/60 border border-ink/20 rounded-sm px-2 text-[10px] font-bold font-mono focus:border-drafting-orange outline-none transition-all text-ink"
@@ -2581,7 +2571,7 @@ export const OptimizerView: React.FC<Props> = ({ players, games, slateDate, show
                       <input
                         type="range"
                         min={0}
-                        max={50000}
+                        max={siteRules.salaryCap}
                         step={100}
                         value={config.salaryFloor}
                         onChange={(e) => setConfig((prev) => ({ ...prev, salaryFloor: Number(e.target.value) }))}
@@ -2718,6 +2708,19 @@ export const OptimizerView: React.FC<Props> = ({ players, games, slateDate, show
                         className="w-full accent-drafting-orange"
                       />
                     </div>
+
+                    <div className="grid grid-cols-[160px_1fr] items-center gap-2">
+                      <label className="text-[10px] font-black text-ink/50 uppercase tracking-widest">Engine</label>
+                      <select
+                        value={config.engine}
+                        onChange={(e) => setConfig((prev) => ({ ...prev, engine: e.target.value as OptimizerEngine }))}
+                        className="h-7 bg-white/60 border border-ink/20 rounded-sm px-2 text-[10px] font-bold uppercase focus:border-drafting-orange outline-none transition-all text-ink"
+                      >
+                        {OPTIMIZER_ENGINES.map((engine) => (
+                          <option key={engine} value={engine}>{OPTIMIZER_ENGINE_LABELS[engine]}</option>
+                        ))}
+                      </select>
+                    </div>
                   </div>
 
                   <div className="space-y-3">
@@ -2736,12 +2739,12 @@ export const OptimizerView: React.FC<Props> = ({ players, games, slateDate, show
                         <input
                           type="number"
                           min={2}
-                          max={8}
+                          max={siteRules.maxPlayersPerTeam ?? siteRules.slots.length}
                           step={1}
                           value={config.minTeamStackSize}
                           onChange={(e) => {
                             const parsed = Number(e.target.value);
-                            const nextVal = Number.isFinite(parsed) ? Math.max(2, Math.min(8, Math.round(parsed))) : 2;
+                            const nextVal = Number.isFinite(parsed) ? Math.max(2, Math.min(siteRules.maxPlayersPerTeam ?? siteRules.slots.length, Math.round(parsed))) : 2;
                             setConfig((prev) => ({ ...prev, minTeamStackSize: nextVal }));
                           }}
                           className="h-7 bg-white/60 border border-ink/20 rounded-sm px-2 text-[10px] font-bold font-mono focus:border-drafting-orange outline-none transition-all text-ink"
@@ -2749,7 +2752,7 @@ export const OptimizerView: React.FC<Props> = ({ players, games, slateDate, show
                         <input
                           type="range"
                           min={2}
-                          max={8}
+                          max={siteRules.maxPlayersPerTeam ?? siteRules.slots.length}
                           step={1}
                           value={config.minTeamStackSize}
                           onChange={(e) => setConfig((prev) => ({ ...prev, minTeamStackSize: Number(e.target.value) }))}
@@ -2759,6 +2762,54 @@ export const OptimizerView: React.FC<Props> = ({ players, games, slateDate, show
                       </div>
                     </div>
 
+                    <div className="border border-ink/10 rounded-sm p-2 bg-white/70">
+                      <label className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-ink/60">
+                        <input
+                          type="checkbox"
+                          checked={config.maxDuplicates !== null}
+                          onChange={(e) => setConfig((prev) => ({ ...prev, maxDuplicates: e.target.checked ? 1 : null }))}
+                          className="accent-drafting-orange"
+                        />
+                        Limit Duplication
+                      </label>
+                      <div className="mt-2 grid grid-cols-[160px_80px_1fr] items-center gap-2">
+                        <label className="text-[10px] font-black text-ink/50 uppercase tracking-widest">Max Est. Dupes</label>
+                        <input
+                          type="number"
+                          min={0}
+                          step={0.5}
+                          value={config.maxDuplicates ?? ''}
+                          disabled={config.maxDuplicates === null}
+                          onChange={(e) => {
+                            const parsed = Number(e.target.value);
+                            const nextVal = Number.isFinite(parsed) ? Math.max(0, Math.round(parsed * 2) / 2) : 0;
+                            setConfig((prev) => ({ ...prev, maxDuplicates: nextVal }));
+                          }}
+                          className="h-7 bg-white/60 border border-ink/20 rounded-sm px-2 text-[10px] font-bold font-mono focus:border-drafting-orange outline-none transition-all text-ink"
+                        />
+                        <span className="text-[10px] font-mono text-ink/40">
+                          in a {fieldSize.toLocaleString()}-entry field{config.engine === 'qiea' ? ' (ILP/Greedy only)' : ''}
+                        </span>
+                      </div>
+                    </div>
+
+                    {projectionSources && (
+                      <ProjectionSourcesPanel controller={projectionSources} disabled={isOptimizing} />
+                    )}
+
+                    <GameStackEditor
+                      rules={config.gameStacks}
+                      games={games.map((game) => ({
+                        gameId: gameIdFor(game.teamA.teamId, game.teamB.teamId),
+                        label: `${game.teamA.abbreviation} vs ${game.teamB.abbreviation}`,
+                      }))}
+                      maxPlayersPerTeam={config.maxPlayersPerTeam}
+                      siteTeamCap={siteRules.maxPlayersPerTeam}
+                      rosterSize={siteRules.slots.length}
+                      onChange={(gameStacks) => setConfig((prev) => ({ ...prev, gameStacks }))}
+                      onMaxPlayersPerTeamChange={(maxPlayersPerTeam) => setConfig((prev) => ({ ...prev, maxPlayersPerTeam }))}
+                    />
+
                     <div className="border border-ink/10 rounded-sm p-2 bg-white/70">
                       <h5 className="text-[10px] font-black uppercase tracking-widest text-ink/60 mb-2">Objective Weights</h5>
                       <div className="space-y-2">
@@ -3028,7 +3079,7 @@ export const OptimizerView: React.FC<Props> = ({ players, games, slateDate, show
                         const displayProjection = Number.isFinite(Number(overrides.projection))
                           ? Number(overrides.projection)
                           : (Number.isFinite(Number(player.projection)) ? Number(player.projection) : undefined);
-                        const displayValue = valueScoreMap.get(player.id)?.composite;
+                        const displayValue = valueScoreMap.get(player.captainOf ?? player.id)?.composite;
                         const usagePct = getUsagePercent(player);
                         const ownershipPct = getOwnershipPercent(player);
                         const projectedPoints = getProjectedPoints(player);
@@ -3036,6 +3087,7 @@ export const OptimizerView: React.FC<Props> = ({ players, games, slateDate, show
                         const projectedAssists = getProjectedAssists(player);
                         const ceilingGap = getCeilingGapForProjection(player, displayProjection);
                         const isLocked = lockedIds.includes(player.id);
+                        const projectionBlend = projectionSources?.blend.blends.get(player.id);
                         return (
                           <tr key={player.id} className="border-b border-ink/5">
                             <td className="px-2 py-1.5 text-center">
@@ -3094,6 +3146,14 @@ export const OptimizerView: React.FC<Props> = ({ players, games, slateDate, show
                             </td>
                             <td className="px-2 py-1.5 text-ink/70 truncate max-w-[160px]">
                               {player.name}
+                              {isFlaggedDisagreement(projectionBlend) && (
+                                <span
+                                  title={`Sources disagree: ${(projectionBlend?.stats.projection?.values ?? []).map((entry) => `${entry.sourceName} ${entry.value.toFixed(1)}`).join(', ')}`}
+                                  className="ml-1 inline-block px-1 py-0.5 rounded-sm text-[8px] font-bold uppercase leading-none cursor-default bg-amber-100 text-amber-700"
+                                >
+                                  ±{projectionBlend?.stats.projection?.spread.toFixed(1)}
+                                </span>
+                              )}
                               {player.vlmNote && (
                                 <span
                                   title={player.vlmNote}
@@ -3122,7 +3182,10 @@ export const OptimizerView: React.FC<Props> = ({ players, games, slateDate, show
                             <td className="px-2 py-1.5 text-right text-ink/60">
                               {Number.isFinite(Number(usagePct)) ? `${Number(usagePct).toFixed(1)}%` : '--'}
                             </td>
-                            <td className="px-2 py-1.5 text-right text-ink/60">
+                            <td
+                              className={`px-2 py-1.5 text-right ${player.ownershipEstimated ? 'text-ink/40 italic' : 'text-ink/60'}`}
+                              title={player.ownershipEstimated ? 'Estimated ownership (no OWN_MEAN on this slate)' : undefined}
+                            >
                               {Number.isFinite(Number(ownershipPct)) ? `${Number(ownershipPct).toFixed(1)}%` : '--'}
                             </td>
                             <td className="px-2 py-1.5 text-right text-ink/70 uppercase">
@@ -3244,6 +3307,12 @@ export const OptimizerView: React.FC<Props> = ({ players, games, slateDate, show
                     )}
                   </div>
                 </div>
+                <PlayerGroupEditor
+                  groups={playerGroups}
+                  players={players}
+                  onChange={setPlayerGroups}
+                  disabled={isOptimizing}
+                />
               </div>
             </div>
 
@@ -3311,14 +3380,47 @@ export const OptimizerView: React.FC<Props> = ({ players, games, slateDate, show
           <div className="w-full max-w-2xl bg-white border border-ink/10 rounded-sm shadow-xl overflow-hidden">
             <div className="p-4 border-b border-ink/10 flex items-center justify-between">
               <h3 className="text-[11px] font-black uppercase tracking-widest text-ink/70">Saved Lineups</h3>
-              <button
-                type="button"
-                onClick={() => setShowSavedLineupsModal(false)}
-                className="text-[10px] font-black uppercase tracking-widest text-ink/50 hover:text-ink"
-              >
-                Close
-              </button>
+              <div className="flex items-center gap-3">
+                <input
+                  ref={lineupSetFileInputRef}
+                  type="file"
+                  accept=".json,application/json"
+                  className="hidden"
+                  onChange={(e) => {
+                    const file = e.target.files?.[0];
+                    e.target.value = '';
+                    if (file) void importLineupSetFile(file);
+                  }}
+                />
+                <button
+                  type="button"
+                  onClick={() => lineupSetFileInputRef.current?.click()}
+                  className="flex items-center gap-1 text-[10px] font-black uppercase tracking-widest text-ink/50 hover:text-ink"
+                >
+                  <Upload className="w-3 h-3" /> Import
+                </button>
+                <button
+                  type="button"
+                  onClick={() => setShowSavedLineupsModal(false)}
+                  className="text-[10px] font-black uppercase tracking-widest text-ink/50 hover:text-ink"
+                >
+                  Close
+                </button>
+              </div>
             </div>
+            {lineupSetImportNotice && (
+              <div
+                className={`px-4 py-2 border-b text-[11px] ${
+                  lineupSetImportNotice.tone === 'error'
+                    ? 'border-red-200 bg-red-50 text-red-700'
+                    : lineupSetImportNotice.tone === 'warn'
+                      ? 'border-amber-200 bg-amber-50 text-amber-800'
+                      : 'border-emerald-200 bg-emerald-50 text-emerald-800'
+                }`}
+              >
+                {lineupSetImportNotice.message}
+              </div>
+            )}
             <div className="max-h-[60vh] overflow-y-auto no-scrollbar divide-y divide-ink/10">
               {slateSavedLineupSets.length === 0 ? (
                 <div className="p-6 text-center text-[10px] font-black uppercase tracking-widest text-ink/40">
@@ -3341,6 +3443,14 @@ export const OptimizerView: React.FC<Props> = ({ players, games, slateDate, show
                       >
                         Load
                       </button>
+                      <button
+                        type="button"
+                        onClick={() => exportSavedLineupSet(savedSet)}
+                        className="px-3 py-1.5 border border-ink/20 text-ink/70 rounded-sm text-[10px] font-black uppercase tracking-widest hover:border-drafting-orange/40 hover:text-ink"
+                        title="Download this set with its settings and player snapshot as JSON"
+                      >
+                        Export
+                      </button>
                       <button
                         type="button"
                         onClick={() => deleteSavedLineupSet(savedSet.id)}
@@ -3357,7 +3467,7 @@ export const OptimizerView: React.FC<Props> = ({ players, games, slateDate, show
         </div>
       )}
 
-      {isOptimizing && (
+      {isOptimizing && runPhase !== 'paused' && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-ink/50 backdrop-blur-sm">
           <div className="w-full max-w-md bg-white/90 border border-ink/10 rounded-sm shadow-xl p-6">
             <div className="flex items-center gap-3 mb-4">
@@ -3367,7 +3477,11 @@ export const OptimizerView: React.FC<Props> = ({ players, games, slateDate, show
               <div>
                 <h3 className="text-sm font-black uppercase tracking-tight text-ink">Optimization in Progress</h3>
                 <p className="text-[10px] text-ink/60 font-bold uppercase tracking-widest mt-1 font-mono">
-                  Generating {config.numLineups} lineups...
+                  {runPhase === 'pausing'
+                    ? 'Pausing after the current lineup...'
+                    : runPhase === 'stopping'
+                      ? 'Stopping after the current lineup...'
+                      : `Generating ${config.numLineups} lineups...`}
                 </p>
               </div>
             </div>
@@ -3385,13 +3499,24 @@ export const OptimizerView: React.FC<Props> = ({ players, games, slateDate, show
               <span className="text-[10px] font-bold uppercase tracking-widest text-ink/50">
                 {generatedLineups.length} lineups found
               </span>
-              <button
-                type="button"
-                onClick={stopOptimization}
-                className="px-4 py-2 bg-red-600 text-white rounded-sm text-[10px] font-black uppercase tracking-widest hover:opacity-90 transition-all"
-              >
-                Stop
-              </button>
+              <div className="flex items-center gap-2">
+                <button
+                  type="button"
+                  onClick={pauseOptimization}
+                  disabled={runPhase !== 'running'}
+                  className="px-4 py-2 flex items-center gap-1 border border-ink/20 text-ink/70 rounded-sm text-[10px] font-black uppercase tracking-widest hover:border-drafting-orange/40 hover:text-ink disabled:opacity-50 transition-all"
+                >
+                  <Pause className="w-3 h-3" /> Pause
+                </button>
+                <button
+                  type="button"
+                  onClick={stopOptimization}
+                  disabled={runPhase === 'stopping'}
+                  className="px-4 py-2 bg-red-600 text-white rounded-sm text-[10px] font-black uppercase tracking-widest hover:opacity-90 disabled:opacity-50 transition-all"
+                >
+                  Stop
+                </button>
+              </div>
             </div>
           </div>
         </div>
@@ -7,6 +7,9 @@ import { useLineup } from '../context/LineupContext';
 import { getTeamDepthChartRows, DepthChartRow } from '../utils/depthChart';
 import { getInjuryInfoByName, InjuryLookup, isDoubtfulInjuryStatus, isOutInjuryStatus, isQuestionableInjuryStatus } from '../utils/injuries';
 import { getPlayerStartingLineupInfo, StartingLineupLookup } from '../utils/startingLineups';
+import { LEGACY_STORAGE_KEYS, readOptimizerSettings, writeOptimizerSettings } from '../utils/persistence';
+import { describeInjuryAdjustment, formatInjuryDelta } from '../utils/injuryRedistribution';
+import { getBoomBustValueThresholds } from '../utils/salaryTiers';
 
 interface Props {
   player: Player;
@@ -52,7 +55,7 @@ interface OptimizerAdvancedSettings {
   playerOverrides?: Record<string, OptimizerPlayerOverride>;
 }
 
-const OPTIMIZER_SETTINGS_KEY = 'optimizerAdvancedSettings';
+const OPTIMIZER_SETTINGS_KEY = LEGACY_STORAGE_KEYS.optimizerSettings;
 const HISTORY_WINDOW_GAMES = 20;
 
 const sanitizeOptimizerSettings = (raw: any): OptimizerAdvancedSettings => {
@@ -323,17 +326,11 @@ const nextSort = (current: SortConfig | null, key: string, defaultDir: SortDir =
 };
 
 const readOptimizerAdvancedSettings = (settingsKey?: string): OptimizerAdvancedSettings => {
-  if (typeof window === 'undefined') return {};
   const key = settingsKey || OPTIMIZER_SETTINGS_KEY;
 
   const parseForKey = (targetKey: string): OptimizerAdvancedSettings | null => {
-    try {
-      const raw = window.localStorage.getItem(targetKey);
-      if (!raw) return null;
-      return sanitizeOptimizerSettings(JSON.parse(raw));
-    } catch {
-      return null;
-    }
+    const raw = readOptimizerSettings(targetKey);
+    return raw ? sanitizeOptimizerSettings(raw) : null;
   };
 
   const preferred = parseForKey(key);
@@ -346,9 +343,7 @@ const readOptimizerAdvancedSettings = (settingsKey?: string): OptimizerAdvancedS
 };
 
 const writeOptimizerAdvancedSettings = (settings: OptimizerAdvancedSettings, settingsKey?: string): void => {
-  if (typeof window === 'undefined') return;
-  const key = settingsKey || OPTIMIZER_SETTINGS_KEY;
-  window.localStorage.setItem(key, JSON.stringify(settings));
+  writeOptimizerSettings(settingsKey || OPTIMIZER_SETTINGS_KEY, settings);
 };
 
 const saveOptimizerExposureForPlayer = (
@@ -357,7 +352,6 @@ const saveOptimizerExposureForPlayer = (
   maxExposure?: number,
   settingsKey?: string,
 ): void => {
-  if (typeof window === 'undefined') return;
   const settings = readOptimizerAdvancedSettings(settingsKey);
   const playerOverrides = settings.playerOverrides && typeof settings.playerOverrides === 'object'
     ? { ...settings.playerOverrides }
@@ -399,7 +393,6 @@ const saveOptimizerPlayerPoolState = (
   nextState: { locked?: boolean; excluded?: boolean },
   settingsKey?: string,
 ): void => {
-  if (typeof window === 'undefined') return;
   const settings = readOptimizerAdvancedSettings(settingsKey);
   const lockedSet = new Set(Array.isArray(settings.lockedIds) ? settings.lockedIds : []);
   const playerOverrides = settings.playerOverrides && typeof settings.playerOverrides === 'object'
@@ -486,7 +479,7 @@ export const PlayerDeepDive: React.FC<Props> = ({
   const [exposureStatus, setExposureStatus] = useState<string | null>(null);
   const [isOptimizerLocked, setIsOptimizerLocked] = useState(false);
   const [isOptimizerExcluded, setIsOptimizerExcluded] = useState(false);
-  const { slots, addPlayer, removePlayer, isPlayerInLineup } = useLineup();
+  const { slots, addPlayer, removePlayer, isPlayerInLineup, canAddPlayer } = useLineup();
   const startingInfo = useMemo(
     () => getPlayerStartingLineupInfo(player, startingLineupLookup),
     [player, startingLineupLookup]
@@ -708,22 +701,7 @@ export const PlayerDeepDive: React.FC<Props> = ({
 
   const isInLineup = useMemo(() => isPlayerInLineup(player.id), [isPlayerInLineup, player.id]);
 
-  const canAddToLineup = useMemo(() => {
-    if (isInLineup) return false;
-    const positions = String(player.position || '')
-      .split(/[\/,\s]+/)
-      .map((p) => p.trim().toUpperCase())
-      .filter(Boolean);
-    if (positions.includes('PG') && !slots.PG) return true;
-    if (positions.includes('SG') && !slots.SG) return true;
-    if (positions.includes('SF') && !slots.SF) return true;
-    if (positions.includes('PF') && !slots.PF) return true;
-    if (positions.includes('C') && !slots.C) return true;
-    if ((positions.includes('PG') || positions.includes('SG')) && !slots.G) return true;
-    if ((positions.includes('SF') || positions.includes('PF')) && !slots.F) return true;
-    if (!slots.UTIL) return true;
-    return false;
-  }, [isInLineup, player.position, slots]);
+  const canAddToLineup = useMemo(() => canAddPlayer(player), [canAddPlayer, player]);
 
   const sortByDateDesc = (gamesList: HistoricalGame[]): HistoricalGame[] => {
     return [...gamesList].sort((a, b) => {
@@ -856,24 +834,7 @@ export const PlayerDeepDive: React.FC<Props> = ({
 
     const salary = Number(player.salary) || 0;
     const salaryK = salary > 0 ? salary / 1000 : 0;
-    let boomThreshold = 0;
-    let bustThreshold = 0;
-    if (salary >= 9000) {
-      boomThreshold = 6;
-      bustThreshold = 4.5;
-    } else if (salary >= 6500) {
-      boomThreshold = 6.5;
-      bustThreshold = 4.5;
-    } else if (salary >= 4500) {
-      boomThreshold = 7;
-      bustThreshold = 5;
-    } else if (salary >= 3000) {
-      boomThreshold = 8;
-      bustThreshold = 5;
-    } else {
-      boomThreshold = 8;
-      bustThreshold = 5;
-    }
+    const { boom: boomThreshold, bust: bustThreshold } = getBoomBustValueThresholds(salary);
 
     const valueRates = history.map((game) => (salaryK > 0 ? game.fpts / salaryK : 0));
     const boomCount = valueRates.filter((val) => val >= boomThreshold).length;
@@ -1336,9 +1297,22 @@ export const PlayerDeepDive: React.FC<Props> = ({
                   </span>
                 )}
               </div>
-              <div className="flex items-center gap-4 mt-1">
+              <div className="flex flex-wrap items-center gap-x-4 gap-y-1 mt-1">
                 <span className="text-xs font-mono font-bold text-ink/60">SALARY: <span className="text-ink">${player.salary.toLocaleString()}</span></span>
                 <span className="text-xs font-mono font-bold text-ink/60">PROJ: <span className="text-drafting-orange">{player.projection.toFixed(2)}</span></span>
+                {player.injuryAdjustment && (
+                  <span
+                    className="text-xs font-mono font-bold text-ink/60"
+                    title={`Base projection ${player.injuryAdjustment.baseProjection.toFixed(2)}`}
+                  >
+                    INJURY BUMP:{' '}
+                    <span className="text-emerald-600">
+                      {formatInjuryDelta(player.injuryAdjustment.projectionDelta, 2)} FPTS
+                      {player.injuryAdjustment.ceilingDelta !== 0 && ` · ${formatInjuryDelta(player.injuryAdjustment.ceilingDelta)} CEIL`}
+                    </span>
+                    <span className="ml-1 text-ink/40">({describeInjuryAdjustment(player.injuryAdjustment)})</span>
+                  </span>
+                )}
                 {showActuals && (
                   <span className="text-xs font-mono font-bold text-ink/60">
                     ACTUAL FPTS: <span className="text-emerald-600">{modalActualFpts !== null ? modalActualFpts.toFixed(2) : '--'}</span>
@@ -0,0 +1,155 @@
+import React from 'react';
+import { PlusCircle, Trash2 } from 'lucide-react';
+import { Player } from '../types';
+import { PlayerSearchInput } from './PlayerSearchInput';
+import {
+  PLAYER_GROUP_KINDS,
+  PlayerGroupKind,
+  PlayerGroupRule,
+  createPlayerGroupRule,
+} from '../utils/playerGroups';
+
+interface Props {
+  groups: PlayerGroupRule[];
+  players: Player[];
+  onChange: (groups: PlayerGroupRule[]) => void;
+  disabled?: boolean;
+}
+
+const KIND_LABELS: Record<PlayerGroupKind, string> = {
+  at_most: 'At most',
+  at_least: 'At least',
+  exactly: 'Exactly',
+  if_then: 'If any, then',
+};
+
+const PlayerChips: React.FC<{
+  ids: string[];
+  playerById: Map<string, Player>;
+  onRemove: (id: string) => void;
+}> = ({ ids, playerById, onRemove }) => (
+  <div className="flex flex-wrap gap-1">
+    {ids.map((id) => (
+      <span key={id} className="inline-flex items-center gap-1 bg-ink/5 border border-ink/15 rounded-sm px-2 py-0.5 text-[10px] font-bold text-ink/70">
+        {playerById.get(id)?.name || id}
+        <button type="button" onClick={() => onRemove(id)} className="text-ink/40 hover:text-ink">
+          ×
+        </button>
+      </span>
+    ))}
+    {ids.length === 0 && <span className="text-[10px] font-mono text-ink/40">No players</span>}
+  </div>
+);
+
+export const PlayerGroupEditor: React.FC<Props> = ({ groups, players, onChange, disabled = false }) => {
+  const playerById = React.useMemo(() => new Map(players.map((p) => [p.id, p])), [players]);
+
+  const updateGroup = (id: string, patch: Partial<PlayerGroupRule>) => {
+    onChange(groups.map((group) => (group.id === id ? { ...group, ...patch } : group)));
+  };
+
+  const addId = (ids: string[], id: string): string[] => (ids.includes(id) ? ids : [...ids, id]);
+
+  return (
+    <div className="border border-ink/10 rounded-sm p-3 bg-white/60">
+      <div className="flex items-center justify-between mb-2">
+        <h4 className="text-[10px] font-black uppercase tracking-widest text-ink/50">Player Groups</h4>
+        <button
+          type="button"
+          disabled={disabled}
+          onClick={() => onChange([...groups, createPlayerGroupRule()])}
+          className="flex items-center gap-1 px-2 py-1 border border-ink/20 rounded-sm text-[10px] font-black uppercase tracking-widest text-ink/60 hover:border-drafting-orange/40 hover:text-ink disabled:opacity-50"
+        >
+          <PlusCircle className="w-3 h-3" /> Add Group
+        </button>
+      </div>
+      <div className="space-y-3 max-h-56 overflow-y-auto">
+        {groups.map((group) => (
+          <div key={group.id} className="border border-ink/10 rounded-sm p-2 bg-white/70 space-y-2">
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                type="text"
+                value={group.label}
+                disabled={disabled}
+                onChange={(e) => updateGroup(group.id, { label: e.target.value })}
+                placeholder="Group name"
+                className="h-7 w-40 bg-white/60 border border-ink/20 rounded-sm px-2 text-[10px] font-bold focus:border-drafting-orange outline-none text-ink"
+              />
+              <select
+                value={group.kind}
+                disabled={disabled}
+                onChange={(e) => updateGroup(group.id, { kind: e.target.value as PlayerGroupKind })}
+                className="h-7 bg-white/60 border border-ink/20 rounded-sm px-2 text-[10px] font-bold uppercase focus:border-drafting-orange outline-none text-ink"
+              >
+                {PLAYER_GROUP_KINDS.map((kind) => (
+                  <option key={kind} value={kind}>{KIND_LABELS[kind]}</option>
+                ))}
+              </select>
+              <input
+                type="number"
+                min={0}
+                max={9}
+                value={group.count}
+                disabled={disabled}
+                onChange={(e) => {
+                  const val = Number.parseInt(e.target.value, 10);
+                  if (!Number.isNaN(val)) updateGroup(group.id, { count: Math.max(0, Math.min(9, val)) });
+                }}
+                className="h-7 w-14 bg-white/60 border border-ink/20 rounded-sm px-2 text-[10px] font-bold font-mono focus:border-drafting-orange outline-none text-ink"
+              />
+              <span className="text-[10px] font-bold uppercase tracking-widest text-ink/40">
+                {group.kind === 'if_then' ? 'of the "then" players' : `of ${group.playerIds.length} players`}
+              </span>
+              <button
+                type="button"
+                disabled={disabled}
+                onClick={() => onChange(groups.filter((row) => row.id !== group.id))}
+                className="ml-auto text-ink/40 hover:text-red-600 disabled:opacity-50"
+                title="Remove group"
+              >
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-[1fr_220px] gap-2 items-start">
+              <PlayerChips
+                ids={group.playerIds}
+                playerById={playerById}
+                onRemove={(id) => updateGroup(group.id, { playerIds: group.playerIds.filter((pid) => pid !== id) })}
+              />
+              <PlayerSearchInput
+                players={players}
+                selectedPlayerId=""
+                onSelect={(player) => updateGroup(group.id, {
+                  playerIds: addId(group.playerIds, player.id),
+                  thenIds: group.thenIds.filter((id) => id !== player.id),
+                })}
+              />
+            </div>
+            {group.kind === 'if_then' && (
+              <div className="grid grid-cols-1 md:grid-cols-[1fr_220px] gap-2 items-start border-t border-ink/10 pt-2">
+                <div className="space-y-1">
+                  <span className="text-[9px] font-black uppercase tracking-widest text-ink/40">Then</span>
+                  <PlayerChips
+                    ids={group.thenIds}
+                    playerById={playerById}
+                    onRemove={(id) => updateGroup(group.id, { thenIds: group.thenIds.filter((pid) => pid !== id) })}
+                  />
+                </div>
+                <PlayerSearchInput
+                  players={players.filter((p) => !group.playerIds.includes(p.id))}
+                  selectedPlayerId=""
+                  onSelect={(player) => updateGroup(group.id, { thenIds: addId(group.thenIds, player.id) })}
+                />
+              </div>
+            )}
+          </div>
+        ))}
+        {groups.length === 0 && (
+          <span className="text-[10px] font-mono text-ink/40">
+            No groups. Add rules like "at most 1 of these centers" or "if X then Y".
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -1,23 +1,29 @@
 import React, { useState, useMemo } from 'react';
 import { Player } from '../types';
 import { X, Search } from 'lucide-react';
+import { parseSitePositions } from '../utils/siteRules';
 
 interface Props {
   players: Player[];
   position: string;
+  /** Positions the slot accepts; when omitted, players are matched against `position` directly. */
+  eligiblePositions?: string[];
   remainingSalary: number;
   onSelect: (player: Player) => void;
   onClose: () => void;
 }
 
-export const PlayerSelectionModal: React.FC<Props> = ({ players, position, remainingSalary, onSelect, onClose }) => {
+export const PlayerSelectionModal: React.FC<Props> = ({ players, position, eligiblePositions, remainingSalary, onSelect, onClose }) => {
   const [search, setSearch] = useState('');
   const [sortKey, setSortKey] = useState<'name' | 'salary' | 'projection'>('projection');
   const [sortDir, setSortDir] = useState<'asc' | 'desc'>('desc');
 
   const filteredPlayers = useMemo(() => {
+    const fitsSlot = (p: Player) => eligiblePositions
+      ? parseSitePositions(p.position).some((pos) => eligiblePositions.includes(pos))
+      : p.position.includes(position);
     const result = players.filter(p =>
-      p.position.includes(position) &&
+      fitsSlot(p) &&
       p.salary <= remainingSalary &&
       p.name.toLowerCase().includes(search.toLowerCase())
     );
@@ -33,7 +39,7 @@ export const PlayerSelectionModal: React.FC<Props> = ({ players, position, remai
       const cmp = compareValues(valA, valB);
       return sortDir === 'asc' ? cmp : -cmp;
     });
-  }, [players, position, remainingSalary, search, sortKey, sortDir]);
+  }, [players, position, eligiblePositions, remainingSalary, search, sortKey, sortDir]);
 
   const handleSort = (key: 'name' | 'salary' | 'projection') => {
     if (sortKey === key) {
@@ -0,0 +1,223 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { ChevronDown, Trash2, Upload } from 'lucide-react';
+import type { Player } from '../types';
+import type { ProjectionSourcesController } from '../src/hooks/useProjectionSources';
+import { BASE_SOURCE_ID, BLEND_STATS, BlendStat, StatWeights, isFlaggedDisagreement } from '../utils/projectionSources';
+
+interface Props {
+  controller: ProjectionSourcesController;
+  disabled?: boolean;
+}
+
+const STAT_LABELS: Record<BlendStat, string> = {
+  projection: 'Proj',
+  ceiling: 'Ceil',
+  floor: 'Floor',
+  ownership: 'Own',
+  minutes: 'Min',
+};
+
+const MAX_DISAGREEMENTS = 8;
+
+const numberCell =
+  'h-7 w-14 bg-white/60 border border-ink/20 rounded-sm px-2 text-[10px] font-bold font-mono focus:border-drafting-orange outline-none text-ink';
+
+const parseWeight = (value: string): number => {
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? Math.max(0, Math.min(10, parsed)) : 0;
+};
+
+const StatWeightInputs: React.FC<{
+  stats: BlendStat[];
+  weights: StatWeights;
+  disabled?: boolean;
+  onChange: (weights: StatWeights) => void;
+}> = ({ stats, weights, disabled, onChange }) => (
+  <div className="flex flex-wrap gap-2 pl-6">
+    {stats.map((stat) => (
+      <label key={stat} className="flex items-center gap-1 text-[9px] font-black uppercase tracking-widest text-ink/50">
+        {STAT_LABELS[stat]}
+        <input
+          type="number"
+          min={0}
+          max={10}
+          step={0.25}
+          disabled={disabled}
+          value={weights[stat] ?? 1}
+          onChange={(e) => onChange({ ...weights, [stat]: parseWeight(e.target.value) })}
+          className={numberCell}
+        />
+      </label>
+    ))}
+  </div>
+);
+
+export const ProjectionSourcesPanel: React.FC<Props> = ({ controller, disabled = false }) => {
+  const { sources, baseWeights, blend, addSourceFile, updateSource, removeSource, setBaseWeights } = controller;
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+
+  const disagreements = useMemo(() => {
+    const byId = new Map<string, Player>(blend.players.map((player) => [player.id, player]));
+    return Array.from(blend.blends.entries())
+      .filter(([, playerBlend]) => isFlaggedDisagreement(playerBlend))
+      .sort((a, b) => b[1].disagreement - a[1].disagreement)
+      .slice(0, MAX_DISAGREEMENTS)
+      .map(([id, playerBlend]) => ({ player: byId.get(id), blend: playerBlend }))
+      .filter((row): row is { player: Player; blend: typeof row.blend } => Boolean(row.player));
+  }, [blend]);
+
+  const handleFiles = async (files: FileList | null) => {
+    const file = files?.[0];
+    if (!file) return;
+    setUploadError(null);
+    try {
+      await addSourceFile(file);
+    } catch (error) {
+      setUploadError(error instanceof Error ? error.message : 'Failed to read projection file.');
+    } finally {
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
+  return (
+    <div className="border border-ink/10 rounded-sm p-2 bg-white/70 space-y-2">
+      <div className="flex items-center justify-between">
+        <h5 className="text-[10px] font-black uppercase tracking-widest text-ink/60">Projection Sources</h5>
+        <button
+          type="button"
+          disabled={disabled}
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center gap-1 px-2 py-1 border border-ink/20 rounded-sm text-[10px] font-black uppercase tracking-widest text-ink/60 hover:border-drafting-orange/40 hover:text-ink disabled:opacity-40"
+        >
+          <Upload className="w-3 h-3" /> Add CSV
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,text/csv"
+          className="hidden"
+          onChange={(e) => void handleFiles(e.target.files)}
+        />
+      </div>
+      {uploadError && <p className="text-[10px] font-mono text-red-600">{uploadError}</p>}
+
+      <div className="space-y-1">
+        <div className="flex items-center gap-2">
+          <span className="w-4" />
+          <span className="flex-1 text-[10px] font-bold text-ink/70">Slate projections</span>
+          <input
+            type="number"
+            min={0}
+            max={10}
+            step={0.25}
+            disabled={disabled}
+            value={baseWeights.weight}
+            onChange={(e) => setBaseWeights({ ...baseWeights, weight: parseWeight(e.target.value) })}
+            className={numberCell}
+            title="Blend weight"
+          />
+          <button
+            type="button"
+            onClick={() => setExpandedId((prev) => (prev === BASE_SOURCE_ID ? null : BASE_SOURCE_ID))}
+            className="p-1 text-ink/40 hover:text-ink"
+            title="Per-stat weights"
+          >
+            <ChevronDown className="w-3.5 h-3.5" />
+          </button>
+          <span className="w-6" />
+        </div>
+        {expandedId === BASE_SOURCE_ID && (
+          <StatWeightInputs
+            stats={BLEND_STATS}
+            weights={baseWeights.statWeights}
+            disabled={disabled}
+            onChange={(statWeights) => setBaseWeights({ ...baseWeights, statWeights })}
+          />
+        )}
+
+        {sources.map((source) => {
+          const unmatched = blend.unmatched[source.id]?.length ?? 0;
+          return (
+            <div key={source.id} className="space-y-1">
+              <div className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={source.enabled}
+                  disabled={disabled}
+                  onChange={(e) => updateSource(source.id, { enabled: e.target.checked })}
+                  className="w-4 accent-drafting-orange"
+                />
+                <span className="flex-1 min-w-0 text-[10px] font-bold text-ink/70 truncate" title={source.name}>
+                  {source.name}
+                  <span className="ml-1 font-mono font-normal text-ink/40">
+                    {source.players.length} rows{unmatched > 0 ? ` • ${unmatched} unmatched` : ''}
+                  </span>
+                </span>
+                <input
+                  type="number"
+                  min={0}
+                  max={10}
+                  step={0.25}
+                  disabled={disabled}
+                  value={source.weight}
+                  onChange={(e) => updateSource(source.id, { weight: parseWeight(e.target.value) })}
+                  className={numberCell}
+                  title="Blend weight"
+                />
+                <button
+                  type="button"
+                  onClick={() => setExpandedId((prev) => (prev === source.id ? null : source.id))}
+                  className="p-1 text-ink/40 hover:text-ink"
+                  title="Per-stat weights"
+                >
+                  <ChevronDown className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  type="button"
+                  disabled={disabled}
+                  onClick={() => removeSource(source.id)}
+                  className="p-1 text-ink/40 hover:text-red-600 disabled:opacity-40"
+                  title="Remove source"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+              {expandedId === source.id && (
+                <StatWeightInputs
+                  stats={source.stats}
+                  weights={source.statWeights}
+                  disabled={disabled}
+                  onChange={(statWeights) => updateSource(source.id, { statWeights })}
+                />
+              )}
+            </div>
+          );
+        })}
+        {sources.length === 0 && (
+          <p className="text-[10px] font-mono text-ink/40">
+            Upload projection CSVs to blend them with the slate's projections.
+          </p>
+        )}
+      </div>
+
+      {disagreements.length > 0 && (
+        <div className="pt-2 border-t border-ink/10">
+          <h6 className="text-[9px] font-black uppercase tracking-widest text-ink/50 mb-1">Biggest Disagreements</h6>
+          <div className="space-y-0.5">
+            {disagreements.map(({ player, blend: playerBlend }) => (
+              <div key={player.id} className="flex items-center justify-between gap-2 text-[10px] font-mono">
+                <span className="truncate text-ink/70">{player.name}</span>
+                <span className="flex-shrink-0 text-ink/50">
+                  {(playerBlend.stats.projection?.values ?? []).map((entry) => `${entry.sourceName} ${entry.value.toFixed(1)}`).join(' · ')}
+                  <span className="ml-2 font-bold text-drafting-orange">→ {player.projection.toFixed(1)}</span>
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -24,6 +24,7 @@ import {
   ChevronLeft,
   ChevronRight
 } from 'lucide-react';
+import { describeInjuryAdjustment, formatInjuryDelta } from '../utils/injuryRedistribution';
 
 const PAGE_SIZE = 25;
 
@@ -426,6 +427,18 @@ export const ProjectionsView: React.FC<Props> = ({ players, referencePlayers, be
                               <span className="text-emerald-600 font-bold">{formatValue(p.actual)}</span>
                               <span className="text-ink/40 text-[9px]">({formatValue(p.DK_FPTS_PROJ)})</span>
                             </div>
+                          ) : key === 'OWN_MEAN' ? (
+                            <span title={p.ownershipEstimated ? 'Estimated in-app from salary, value, slate size and lineup news' : undefined}>
+                              {formatValue(val)}
+                              {p.ownershipEstimated && <span className="ml-1 text-[9px] font-black uppercase text-drafting-orange">est</span>}
+                            </span>
+                          ) : p.injuryAdjustment && (key === 'DK_FPTS_PROJ' || key === 'CEILING') ? (
+                            <span title={describeInjuryAdjustment(p.injuryAdjustment)}>
+                              {formatValue(val)}
+                              <span className="ml-1 text-[9px] font-black text-emerald-600">
+                                {formatInjuryDelta(key === 'CEILING' ? p.injuryAdjustment.ceilingDelta : p.injuryAdjustment.projectionDelta)}
+                              </span>
+                            </span>
                           ) : isSalary ? `$${formatValue(p[key])}` : formatValue(p[key])}
                         </td>
                       );
@@ -4,7 +4,11 @@ import { BarChart2, AlertTriangle, CheckCircle2, HelpCircle } from 'lucide-react
 import highsLoader from 'highs';
 import highsWasmUrl from 'highs/runtime?url';
 import { PlayerDeepDive } from './PlayerDeepDive';
+import { BacktestPanel } from './BacktestPanel';
+import { CalibrationPanel } from './CalibrationPanel';
 import { calculateValueScore } from '../utils/valueScore';
+import { ContestResult, compareFieldOwnership } from '../utils/contestStandings';
+import { readContestResults } from '../utils/persistence';
 import {
   Cell, Tooltip as RechartsTooltip,
   BarChart, Bar, XAxis, YAxis, ResponsiveContainer, LabelList,
@@ -16,6 +20,8 @@ interface Props {
   slateDate?: string;
   hideBestPossibleLineup?: boolean;
   deepDiveAllowedTabs?: Array<'dfs' | 'stats' | 'matchup' | 'synergy' | 'depth'>;
+  /** Used by the backtest to load past slates. */
+  fetcher?: (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>;
 }
 
 interface MatchupDescriptor {
@@ -85,6 +91,7 @@ const CHART_COLORS = [
 ];
 
 const SCRIPT_TOP_K = 20;
+const OWNERSHIP_COMPARISON_ROWS = 20;
 const SCRIPT_TOP_PERCENTILE = 0.10;
 const DK_SLOTS = ['PG', 'SG', 'SF', 'PF', 'C', 'G', 'F', 'UTIL'] as const;
 const DK_SALARY_CAP = 50000;
@@ -883,7 +890,7 @@ const MetricLabel: React.FC<{ label: string; tooltip: string }> = ({ label, tool
   );
 };
 
-const ReportView: React.FC<Props> = ({ players, games, slateDate, hideBestPossibleLineup = false, deepDiveAllowedTabs }) => {
+const ReportView: React.FC<Props> = ({ players, games, slateDate, hideBestPossibleLineup = false, deepDiveAllowedTabs, fetcher }) => {
   if (!Array.isArray(players) || !Array.isArray(games)) {
     return (
       <div className="min-h-screen bg-vellum text-ink p-4">
@@ -910,6 +917,20 @@ const ReportView: React.FC<Props> = ({ players, games, slateDate, hideBestPossib
     setTeamTableSort((prev) => ({ key, dir: prev.key === key ? (prev.dir === 'asc' ? 'desc' : 'asc') : 'desc' }));
   };
 
+  const contestResults = useMemo(
+    () => (slateDate ? readContestResults<ContestResult>(slateDate) : []),
+    [slateDate]
+  );
+  const [ownershipContestId, setOwnershipContestId] = useState<string | null>(null);
+  const ownershipContest = contestResults.find((result) => result.contestId === ownershipContestId) ?? contestResults[0] ?? null;
+  const ownershipComparison = useMemo(
+    () => (ownershipContest ? compareFieldOwnership(players, ownershipContest.fieldOwnership) : []),
+    [ownershipContest, players]
+  );
+  const ownershipMae = ownershipComparison.length > 0
+    ? ownershipComparison.reduce((sum, row) => sum + Math.abs(row.delta), 0) / ownershipComparison.length
+    : 0;
+
   const hasAnyActual = useMemo(() => {
     return players.some((player) => getActual(player) !== undefined);
   }, [players]);
@@ -1235,6 +1256,65 @@ const ReportView: React.FC<Props> = ({ players, games, slateDate, hideBestPossib
       </div>
       )}
 
+      {ownershipContest && (
+        <div className="bg-white rounded-xl border border-ink/10 shadow-sm p-4 space-y-3">
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="text-sm font-bold text-ink">Field Ownership vs Projected</p>
+            {contestResults.length > 1 && (
+              <select
+                value={ownershipContest.contestId}
+                onChange={(e) => setOwnershipContestId(e.target.value)}
+                className="h-7 bg-white border border-ink/20 rounded-sm px-2 text-[11px] font-mono text-ink"
+              >
+                {contestResults.map((result) => (
+                  <option key={result.contestId} value={result.contestId}>
+                    {result.contestName} ({result.fieldSize.toLocaleString()})
+                  </option>
+                ))}
+              </select>
+            )}
+          </div>
+          <p className="text-[11px] text-ink/60">
+            Actual %drafted from the {ownershipContest.contestName} standings ({ownershipContest.fieldSize.toLocaleString()} entries).
+            {ownershipComparison.length > 0 && ` Mean absolute miss ${ownershipMae.toFixed(2)} pts across ${ownershipComparison.length} players.`}
+          </p>
+          {ownershipComparison.length > 0 ? (
+            <div className="overflow-x-auto border border-ink/10 rounded-sm">
+              <table className="w-full border-collapse text-xs">
+                <thead>
+                  <tr className="text-[9px] font-black text-ink/40 uppercase tracking-widest border-b border-ink/10 bg-white/40">
+                    <th className="px-3 py-2 text-left">Player</th>
+                    <th className="px-3 py-2 text-left">Team</th>
+                    <th className="px-3 py-2 text-right">Proj Own</th>
+                    <th className="px-3 py-2 text-right">Field Own</th>
+                    <th className="px-3 py-2 text-right">Delta</th>
+                    <th className="px-3 py-2 text-right">Actual</th>
+                  </tr>
+                </thead>
+                <tbody className="font-mono">
+                  {ownershipComparison.slice(0, OWNERSHIP_COMPARISON_ROWS).map((row) => (
+                    <tr key={row.player.id} className="border-b border-ink/5">
+                      <td className="px-3 py-1.5 text-ink cursor-pointer hover:text-drafting-orange" onClick={() => setSelectedPlayer(row.player)}>
+                        {row.player.name}
+                      </td>
+                      <td className="px-3 py-1.5 text-ink/60">{row.player.team}</td>
+                      <td className="px-3 py-1.5 text-right">{row.projected.toFixed(1)}%</td>
+                      <td className="px-3 py-1.5 text-right">{row.actual.toFixed(1)}%</td>
+                      <td className={`px-3 py-1.5 text-right font-bold ${row.delta > 0 ? 'text-red-600' : 'text-emerald-600'}`}>
+                        {row.delta > 0 ? '+' : ''}{row.delta.toFixed(1)}
+                      </td>
+                      <td className="px-3 py-1.5 text-right text-ink/60">{getActual(row.player)?.toFixed(1) ?? '--'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          ) : (
+            <p className="text-sm text-ink/70">No standings players matched this slate&apos;s player pool.</p>
+          )}
+        </div>
+      )}
+
       {hasAnyActual && teamFptsTotals.length > 0 && (
         <div className="bg-white rounded-xl border border-ink/10 shadow-sm p-4 space-y-3">
           <p className="text-sm font-bold text-ink">Total FPTS by Team</p>
@@ -1331,6 +1411,9 @@ const ReportView: React.FC<Props> = ({ players, games, slateDate, hideBestPossib
         </>
       )}
 
+      {slateDate && <BacktestPanel endDate={slateDate} fetcher={fetcher} />}
+      {slateDate && <CalibrationPanel endDate={slateDate} players={isHistoricalSlate ? players : []} fetcher={fetcher} />}
+
       {selectedPlayer && (
         <PlayerDeepDive
           player={selectedPlayer}
@@ -1,6 +1,7 @@
 import React, { useEffect, useState, useCallback } from 'react';
 import { AlertCircle, RefreshCw, ChevronDown, ChevronUp, Newspaper } from 'lucide-react';
 import { useAuth as useClerkAuth } from "@clerk/clerk-react";
+import { NEWS_CHANGE_LABELS, NewsAlert } from '../utils/newsChanges';
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
@@ -571,13 +572,42 @@ const BriefEntryCard: React.FC<{ entry: BlogBriefEntry; latest: boolean }> = ({
   );
 };
 
+/** Injury-report and starting-lineup moves picked up by the background refresh. */
+const FeedChangesCard: React.FC<{ changes: NewsAlert[] }> = ({ changes }) => (
+  <div className="bg-white/80 border border-ink/10 rounded-2xl px-5 py-4 shadow-sm">
+    <p className="text-sm font-semibold text-ink mb-2">Feed Updates</p>
+    <ul className="space-y-1.5">
+      {changes.map((change) => (
+        <li key={change.id} className="flex flex-wrap items-baseline gap-x-2 text-sm text-ink/70">
+          <span
+            className="text-[10px] font-bold px-1.5 py-0.5 rounded"
+            style={{ color: SEVERITY_COLOR[change.kind === 'new_out' ? 'high' : 'medium'] }}
+          >
+            {NEWS_CHANGE_LABELS[change.kind]}
+          </span>
+          <span className="font-semibold text-ink">{change.playerName}</span>
+          <span className="text-ink/45">{change.team}</span>
+          {change.kind !== 'new_confirmed_starter' && (
+            <span className="text-ink/45">{change.previousStatus || 'Active'} → {change.status || 'Active'}</span>
+          )}
+          <span className="text-xs text-ink/40">
+            {new Date(change.detectedAt).toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}
+          </span>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
 // ─── Main ─────────────────────────────────────────────────────────────────────
 
 interface Props {
   slateDate: string;
+  /** News changes detected since the slate loaded, newest first. */
+  feedChanges?: NewsAlert[];
 }
 
-const SlateNewsView: React.FC<Props> = ({ slateDate }) => {
+const SlateNewsView: React.FC<Props> = ({ slateDate, feedChanges = [] }) => {
   const { getToken } = useClerkAuth();
   const [entries, setEntries] = useState<BlogBriefEntry[]>([]);
   const [loading, setLoading] = useState(false);
@@ -720,6 +750,8 @@ const SlateNewsView: React.FC<Props> = ({ slateDate }) => {
         </div>
       </div>
 
+      {feedChanges.length > 0 && <FeedChangesCard changes={feedChanges} />}
+
       <section className="space-y-6">
         {entries.map((entry, index) => (
           <BriefEntryCard key={entry.id} entry={entry} latest={index === 0} />
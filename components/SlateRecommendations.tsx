@@ -1,4 +1,4 @@
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useCallback } from 'react';
 import { Star, AlertTriangle } from 'lucide-react';
 import {
   classifyAllPlayers,
@@ -9,15 +9,23 @@ import { SummaryCards } from './slate/SummaryCards';
 import { FilterBar, PosFilter, TierFilter } from './slate/FilterBar';
 import { PlayerTable } from './slate/PlayerTable';
 import { OveruseWarning } from './slate/OveruseWarning';
+import { TierRulesPanel } from './slate/TierRulesPanel';
 import { Player } from '@/types';
+import { TierRuleTable, classifyWithRuleTable } from '@/utils/tierRuleMining';
+import { readPreference, writePreference } from '@/utils/persistence';
 
 // ─── Types ────────────────────────────────────────────────────────────────────
 
 interface SlateRecommendationsProps {
   players: Player[];
   showActuals?: boolean;
+  /** Tier rules are re-mined from the slates before this date. */
+  slateDate?: string;
+  fetcher?: (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>;
 }
 
+const TIER_RULES_PREFERENCE = 'tierRuleTable';
+
 // ─── Helpers ──────────────────────────────────────────────────────────────────
 
 function fuzzyMatch(haystack: string, needle: string): boolean {
@@ -48,19 +56,27 @@ function playersToRawRows(players: Player[]): RawPlayerRow[] {
 
 // ─── Main component ───────────────────────────────────────────────────────────
 
-export const SlateRecommendations: React.FC<SlateRecommendationsProps> = ({ players, showActuals }) => {
+export const SlateRecommendations: React.FC<SlateRecommendationsProps> = ({ players, showActuals, slateDate = '', fetcher }) => {
   // ── Filter state ──────────────────────────────────────────────────────────
   const [posFilter, setPosFilter] = useState<PosFilter>('ALL');
   const [tierFilter, setTierFilter] = useState<TierFilter>('ALL');
   const [salaryRange, setSalaryRange] = useState<[number, number]>([3000, 15000]);
   const [searchQuery, setSearchQuery] = useState('');
+  const [ruleTable, setRuleTable] = useState<TierRuleTable | null>(() => readPreference<TierRuleTable>(TIER_RULES_PREFERENCE));
+
+  const handleRuleTableChange = useCallback((table: TierRuleTable | null) => {
+    setRuleTable(table);
+    writePreference(TIER_RULES_PREFERENCE, table);
+  }, []);
 
   // ── Classify from slate players ───────────────────────────────────────────
   const classifiedData = useMemo<ClassifiedPlayer[]>(() => {
     if (!players || players.length === 0) return [];
     const rows = playersToRawRows(players);
-    return classifyAllPlayers(rows);
-  }, [players]);
+    return ruleTable
+      ? classifyAllPlayers(rows, (row, pos) => classifyWithRuleTable(row, pos, ruleTable))
+      : classifyAllPlayers(rows);
+  }, [players, ruleTable]);
 
   // ── Salary bounds derived from data ───────────────────────────────────────
   const salaryBounds = useMemo<[number, number]>(() => {
@@ -149,6 +165,8 @@ export const SlateRecommendations: React.FC<SlateRecommendationsProps> = ({ play
         </p>
       </div>
 
+      <TierRulesPanel endDate={slateDate} table={ruleTable} onTableChange={handleRuleTableChange} fetcher={fetcher} />
+
       {/* ── No data state ────────────────────────────────────────────────── */}
       {!hasData && (
         <div className="border border-ink/10 bg-white/40 rounded-sm px-4 py-8 text-center">
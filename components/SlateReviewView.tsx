@@ -7,6 +7,7 @@ import {
   isOutInjuryStatus,
   isQuestionableInjuryStatus,
 } from '../utils/injuries';
+import { getOptimizerSettingsKey, readOptimizerSettings, writeOptimizerSettings } from '../utils/persistence';
 
 type ReviewTab = 'overview' | 'injuries' | 'tier_breakdown';
 
@@ -58,9 +59,6 @@ interface InjuryEntryRow {
   reason?: string;
 }
 
-const getOptimizerSettingsStorageKey = (slateDate?: string): string =>
-  `optimizerAdvancedSettings:${slateDate || 'unspecified'}`;
-
 const norm = (value: unknown): string =>
   String(value || '')
     .toLowerCase()
@@ -988,14 +986,8 @@ export const SlateReviewView: React.FC<Props> = ({ selectedDate, selectedSlate,
       return;
     }
 
-    const storageKey = getOptimizerSettingsStorageKey(selectedDate);
-    let parsed: any = {};
-    try {
-      const raw = localStorage.getItem(storageKey);
-      parsed = raw ? JSON.parse(raw) : {};
-    } catch {
-      parsed = {};
-    }
+    const storageKey = getOptimizerSettingsKey(selectedDate);
+    const parsed: any = readOptimizerSettings(storageKey) ?? {};
 
     const nextOverrides: Record<string, any> = { ...(parsed.playerOverrides || {}) };
     let updatedCount = 0;
@@ -1022,7 +1014,7 @@ export const SlateReviewView: React.FC<Props> = ({ selectedDate, selectedSlate,
       updatedCount += 1;
     });
 
-    localStorage.setItem(storageKey, JSON.stringify({ ...parsed, playerOverrides: nextOverrides }));
+    writeOptimizerSettings(storageKey, { ...parsed, playerOverrides: nextOverrides });
     const unmatchedSuffix = tierBreakdown.unmatchedCount > 0 ? ` (${tierBreakdown.unmatchedCount} unmatched)` : '';
     setApplyMessage(`Applied exposures for ${updatedCount} player(s) to optimizer settings${unmatchedSuffix}.`);
   }, [tierBreakdown.rows, tierBreakdown.unmatchedCount, selectedDate]);
@@ -0,0 +1,163 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { HardDrive, Trash2, X } from 'lucide-react';
+import {
+  PersistedStore,
+  StorageUsage,
+  clearPersistedStore,
+  deletePersistedRecord,
+  getStorageUsage,
+  pruneRecordsOlderThan,
+} from '../utils/persistence';
+
+interface Props {
+  onClose: () => void;
+}
+
+const STORE_LABELS: Record<PersistedStore, string> = {
+  slates: 'Cached slates',
+  history: 'History payloads',
+  lineupSets: 'Saved lineup sets',
+  optimizerSettings: 'Optimizer settings',
+  entrySessions: 'Entry manager session',
+  projectionSources: 'Projection sources',
+  contestResults: 'Contest results',
+  contestInputs: 'Contest settings',
+  beliefs: 'Uploaded projections',
+  meta: 'Preferences',
+};
+
+const PRUNE_DAYS = 14;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const formatBytes = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const formatDate = (timestamp: number): string => new Date(timestamp).toLocaleString();
+
+export const StorageManager: React.FC<Props> = ({ onClose }) => {
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+  const [expanded, setExpanded] = useState<PersistedStore | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setUsage(await getStorageUsage());
+    } catch (error) {
+      console.warn('Failed to read storage usage', error);
+      setMessage('Could not read storage usage.');
+    }
+  }, []);
+
+  useEffect(() => {
+    void refresh();
+  }, [refresh]);
+
+  const runAction = async (action: () => Promise<string | void>) => {
+    setBusy(true);
+    setMessage(null);
+    try {
+      const result = await action();
+      if (result) setMessage(result);
+    } catch (error) {
+      console.warn('Storage cleanup failed', error);
+      setMessage('Cleanup failed. See the console for details.');
+    } finally {
+      await refresh();
+      setBusy(false);
+    }
+  };
+
+  const visibleStores = usage?.stores ?? [];
+
+  return (
+    <div className="fixed inset-0 z-[125] bg-vellum/80 backdrop-blur-sm flex items-center justify-center p-4">
+      <div className="bg-vellum rounded-xl border border-ink/10 w-full max-w-2xl max-h-[80vh] overflow-hidden shadow-2xl flex flex-col">
+        <div className="p-4 border-b border-ink/10 flex items-center justify-between">
+          <div>
+            <h3 className="text-lg font-black uppercase tracking-wider text-drafting-orange flex items-center gap-2">
+              <HardDrive className="w-5 h-5" /> Local Storage
+            </h3>
+            <p className="text-xs text-black/60 font-mono">
+              {usage
+                ? `${formatBytes(usage.totalBytes)} saved${usage.backend === 'memory' ? ' (in memory only: IndexedDB unavailable)' : ''}`
+                : 'Loading...'}
+              {usage?.originQuota ? ` • browser: ${formatBytes(usage.originUsage ?? 0)} of ${formatBytes(usage.originQuota)}` : ''}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-2 text-black/50 hover:text-black transition-colors rounded-full"><X className="w-5 h-5" /></button>
+        </div>
+
+        <div className="overflow-y-auto flex-1 divide-y divide-ink/10">
+          {visibleStores.map((store) => (
+            <div key={store.store} className="px-4 py-3">
+              <div className="flex items-center justify-between gap-3">
+                <button
+                  type="button"
+                  className="text-left"
+                  onClick={() => setExpanded((prev) => (prev === store.store ? null : store.store))}
+                >
+                  <div className="text-sm font-black text-black">{STORE_LABELS[store.store]}</div>
+                  <div className="text-xs text-black/60 font-mono">
+                    {store.count} record{store.count === 1 ? '' : 's'} • {formatBytes(store.bytes)}
+                  </div>
+                </button>
+                <button
+                  type="button"
+                  disabled={busy || store.count === 0}
+                  onClick={() => runAction(async () => {
+                    await clearPersistedStore(store.store);
+                    return `Cleared ${STORE_LABELS[store.store].toLowerCase()}.`;
+                  })}
+                  className="px-3 py-1.5 rounded border border-red-500/30 text-[10px] font-black uppercase tracking-widest text-red-600 hover:bg-red-500/10 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                >
+                  Clear
+                </button>
+              </div>
+              {expanded === store.store && store.records.length > 0 && (
+                <div className="mt-2 space-y-1">
+                  {store.records.map((record) => (
+                    <div key={record.key} className="flex items-center justify-between gap-3 text-xs font-mono text-black/70">
+                      <span className="truncate">{record.key}</span>
+                      <span className="flex items-center gap-3 flex-shrink-0">
+                        <span>{formatBytes(record.sizeBytes)}</span>
+                        <span className="text-black/40">{formatDate(record.updatedAt)}</span>
+                        <button
+                          type="button"
+                          disabled={busy}
+                          onClick={() => runAction(() => deletePersistedRecord(store.store, record.key))}
+                          className="p-1 text-black/40 hover:text-red-600 disabled:opacity-40 transition-colors"
+                          title="Delete"
+                        >
+                          <Trash2 className="w-3.5 h-3.5" />
+                        </button>
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="p-4 border-t border-ink/10 flex items-center justify-between gap-3">
+          <span className="text-xs text-black/60">{message ?? 'Open views pick up cleared settings after a reload.'}</span>
+          <button
+            type="button"
+            disabled={busy}
+            onClick={() => runAction(async () => {
+              const removed = await pruneRecordsOlderThan(['slates', 'history'], PRUNE_DAYS * DAY_MS);
+              return `Removed ${removed} cached slate record${removed === 1 ? '' : 's'} older than ${PRUNE_DAYS} days.`;
+            })}
+            className="px-3 py-2 rounded bg-drafting-orange text-white text-[10px] font-black uppercase tracking-widest disabled:opacity-40 disabled:cursor-not-allowed hover:brightness-110 transition-colors flex-shrink-0"
+          >
+            Remove slates older than {PRUNE_DAYS} days
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -2,6 +2,7 @@ import React, { useState, useMemo, useEffect } from 'react';
 import { Player } from '../types';
 import { Link2, Users, TrendingUp, TrendingDown } from 'lucide-react';
 import { PlayerSearchInput } from './PlayerSearchInput';
+import { computePairCorrelation, DEFAULT_CORRELATION_MIN_MINUTES, DEFAULT_CORRELATION_MIN_SAMPLE } from '../utils/correlation';
 
 interface Props {
   players: Player[];
@@ -10,21 +11,24 @@ interface Props {
 export const SynergyMatrix: React.FC<Props> = ({ players }) => {
   const [p1Id, setP1Id] = useState<string>('');
   const [p2Id, setP2Id] = useState<string>('');
+  const [minMinutes, setMinMinutes] = useState<number>(DEFAULT_CORRELATION_MIN_MINUTES);
 
   const p1 = useMemo(() => players.find(p => p.id === p1Id), [players, p1Id]);
   const p2 = useMemo(() => players.find(p => p.id === p2Id), [players, p2Id]);
+  const isPairable = (a: Player, b: Player) => a.team === b.team || a.opponent === b.team || b.opponent === a.team;
+
   const p2Options = useMemo(() => {
     if (!p1) return players.slice(0, 50);
-    return players.filter(p => p.team === p1.team && p.id !== p1.id);
+    return players.filter(p => p.id !== p1.id && isPairable(p1, p));
   }, [players, p1]);
 
   const p1Options = useMemo(() => {
     if (!p2) return players.slice(0, 50);
-    return players.filter(p => p.team === p2.team && p.id !== p2.id);
+    return players.filter(p => p.id !== p2.id && isPairable(p2, p));
   }, [players, p2]);
 
   useEffect(() => {
-    if (p1 && p2 && p1.team !== p2.team) {
+    if (p1 && p2 && !isPairable(p1, p2)) {
       setP2Id('');
     }
   }, [p1, p2]);
@@ -32,20 +36,23 @@ export const SynergyMatrix: React.FC<Props> = ({ players }) => {
   const synergy = useMemo(() => {
     if (!p1 || !p2) return null;
     
-    // Mock correlation and combined stats
-    const correlation = (Math.random() * 0.8 - 0.2).toFixed(2);
+    const pair = computePairCorrelation(p1, p2, { minMinutes });
+    const correlation = pair.correlation;
     const combinedProj = (p1.projection + p2.projection).toFixed(1);
     const combinedSalary = p1.salary + p2.salary;
     const combinedValue = ((parseFloat(combinedProj) / combinedSalary) * 1000).toFixed(2);
     
     return {
-      correlation: parseFloat(correlation),
+      correlation: correlation !== null ? Number(correlation.toFixed(2)) : null,
+      relationship: pair.relationship,
+      sampleSize: pair.sampleSize,
+      excludedForMinutes: pair.excludedForMinutes,
       combinedProj,
       combinedSalary,
       combinedValue,
-      isPositive: parseFloat(correlation) > 0
+      isPositive: correlation !== null && correlation > 0
     };
-  }, [p1, p2]);
+  }, [p1, p2, minMinutes]);
 
   const canReset = Boolean(p1Id || p2Id);
   const reset = () => {
@@ -99,13 +106,27 @@ export const SynergyMatrix: React.FC<Props> = ({ players }) => {
         <div className="space-y-4 animate-in fade-in slide-in-from-bottom-2 duration-300">
           <div className="flex items-center justify-between p-3 bg-white/40 rounded-sm border border-ink/10">
             <div className="flex flex-col">
-              <span className="text-[10px] font-black text-ink/60 uppercase tracking-widest">Correlation</span>
+              <span className="text-[10px] font-black text-ink/60 uppercase tracking-widest">
+                {synergy.relationship === 'opponents' ? 'Opponent' : 'Teammate'} Correlation
+              </span>
               <div className="flex items-center gap-2">
-                <span className={`text-lg font-black font-mono ${synergy.isPositive ? 'text-emerald-600' : 'text-red-600'}`}>
-                  {synergy.correlation > 0 ? '+' : ''}{synergy.correlation}
-                </span>
-                {synergy.isPositive ? <TrendingUp className="w-4 h-4 text-emerald-600" /> : <TrendingDown className="w-4 h-4 text-red-600" />}
+                {synergy.correlation !== null ? (
+                  <>
+                    <span className={`text-lg font-black font-mono ${synergy.isPositive ? 'text-emerald-600' : 'text-red-600'}`}>
+                      {synergy.correlation > 0 ? '+' : ''}{synergy.correlation.toFixed(2)}
+                    </span>
+                    {synergy.isPositive ? <TrendingUp className="w-4 h-4 text-emerald-600" /> : <TrendingDown className="w-4 h-4 text-red-600" />}
+                  </>
+                ) : (
+                  <span className="text-lg font-black font-mono text-ink/40">--</span>
+                )}
               </div>
+              <span className="text-[9px] font-bold font-mono text-ink/40 uppercase">
+                {synergy.sampleSize < DEFAULT_CORRELATION_MIN_SAMPLE
+                  ? `Need ${DEFAULT_CORRELATION_MIN_SAMPLE}+ shared games (n=${synergy.sampleSize})`
+                  : `Pearson r, DK FPTS, n=${synergy.sampleSize} games`}
+                {synergy.excludedForMinutes > 0 ? ` · ${synergy.excludedForMinutes} under ${minMinutes} min` : ''}
+              </span>
             </div>
             <div className="text-right">
               <span className="text-[10px] font-black text-ink/60 uppercase tracking-widest">Combined Proj</span>
@@ -113,6 +134,21 @@ export const SynergyMatrix: React.FC<Props> = ({ players }) => {
             </div>
           </div>
 
+          <label className="flex items-center justify-between gap-3 text-[9px] font-black text-ink/40 uppercase tracking-widest">
+            <span>Min Minutes (Both Players)</span>
+            <input
+              type="number"
+              min={0}
+              max={48}
+              value={minMinutes}
+              onChange={(e) => {
+                const next = Number(e.target.value);
+                setMinMinutes(Number.isFinite(next) ? Math.max(0, Math.min(48, next)) : DEFAULT_CORRELATION_MIN_MINUTES);
+              }}
+              className="w-16 bg-white/60 border border-ink/20 rounded-sm px-2 py-1 text-xs font-mono text-ink text-right"
+            />
+          </label>
+
           <div className="grid grid-cols-2 gap-3">
             <div className="p-2 bg-ink/5 rounded-sm border border-ink/10">
               <span className="text-[9px] font-black text-ink/40 uppercase block mb-1">Total Salary</span>
@@ -0,0 +1,187 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Play, RotateCcw, Square } from 'lucide-react';
+import { findRecentSlates, loadBacktestSlate } from '@/utils/backtest';
+import {
+  HIT_MARGIN,
+  MIN_RULE_SAMPLES,
+  TierRuleSample,
+  TierRuleTable,
+  buildTierRuleSamples,
+  describeRuleCell,
+  mineTierRules,
+} from '@/utils/tierRuleMining';
+import { TierBadge } from './TierBadge';
+
+interface TierRulesPanelProps {
+  /** Rules are mined from the slates before this date. */
+  endDate: string;
+  table: TierRuleTable | null;
+  onTableChange: (table: TierRuleTable | null) => void;
+  fetcher?: (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>;
+}
+
+const DEFAULT_SLATE_COUNT = 30;
+const MAX_SLATE_COUNT = 120;
+
+const pct = (rate: number) => `${Math.round(rate * 100)}%`;
+
+export const TierRulesPanel: React.FC<TierRulesPanelProps> = ({ endDate, table, onTableChange, fetcher }) => {
+  const [slateCount, setSlateCount] = useState(DEFAULT_SLATE_COUNT);
+  const [running, setRunning] = useState(false);
+  const [progress, setProgress] = useState<{ date: string; done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [showCells, setShowCells] = useState(false);
+  const stopRef = useRef(false);
+
+  useEffect(() => () => {
+    stopRef.current = true;
+  }, []);
+
+  const refresh = async () => {
+    const samples: TierRuleSample[] = [];
+    stopRef.current = false;
+    setError(null);
+    setRunning(true);
+    try {
+      await findRecentSlates(endDate, slateCount, {
+        loadSlate: (date) => loadBacktestSlate(date, fetcher),
+        onSearch: (date, found) => setProgress({ date, done: found, total: slateCount }),
+        onSlate: (slate) => samples.push(...buildTierRuleSamples(slate.players, slate.date)),
+        shouldStop: () => stopRef.current,
+      });
+      if (stopRef.current) return;
+      if (samples.length === 0) {
+        setError('None of these slates have actual scores with ownership and usage.');
+        return;
+      }
+      onTableChange(mineTierRules(samples));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Rule refresh failed.');
+    } finally {
+      setRunning(false);
+      setProgress(null);
+    }
+  };
+
+  const tieredCells = (table?.cells ?? [])
+    .filter((cell) => cell.tier)
+    .sort((a, b) => b.lift - a.lift);
+
+  return (
+    <div className="border border-ink/10 bg-white/40 rounded-sm p-4 space-y-3">
+      <div className="flex flex-col sm:flex-row sm:items-end justify-between gap-3">
+        <div>
+          <p className="text-[11px] font-black uppercase tracking-widest text-ink/70">Tier Rules</p>
+          <p className="text-[11px] text-ink/50 mt-0.5">
+            {table
+              ? `Mined from ${table.sampleCount} players over ${table.slateCount} slates on ${table.generatedAt.slice(0, 10)} · ${pct(table.baseline)} baseline`
+              : 'Built-in rules. Refresh to re-derive hit rates by position, ownership band and usage band.'}
+          </p>
+        </div>
+        <div className="flex items-end gap-2">
+          <label className="flex flex-col gap-1 text-[9px] font-black uppercase tracking-widest text-ink/50">
+            Last N slates
+            <input
+              type="number"
+              min={1}
+              max={MAX_SLATE_COUNT}
+              value={slateCount}
+              disabled={running}
+              onChange={(e) => setSlateCount(Math.max(1, Math.min(MAX_SLATE_COUNT, Math.floor(Number(e.target.value) || 1))))}
+              className="h-7 w-20 bg-white/60 border border-ink/20 rounded-sm px-2 text-xs font-mono text-ink outline-none focus:border-drafting-orange"
+            />
+          </label>
+          {running ? (
+            <button
+              type="button"
+              onClick={() => { stopRef.current = true; }}
+              className="h-7 px-2.5 rounded-sm border border-red-500/30 text-[10px] font-black uppercase tracking-widest text-red-600 hover:bg-red-500/10 flex items-center gap-1"
+            >
+              <Square className="w-3 h-3" /> Stop
+            </button>
+          ) : (
+            <button
+              type="button"
+              onClick={() => void refresh()}
+              disabled={!endDate}
+              className="h-7 px-2.5 rounded-sm bg-drafting-orange text-white text-[10px] font-black uppercase tracking-widest hover:brightness-110 disabled:opacity-40 flex items-center gap-1"
+            >
+              <Play className="w-3 h-3" /> Refresh
+            </button>
+          )}
+          {table && !running && (
+            <button
+              type="button"
+              onClick={() => onTableChange(null)}
+              className="h-7 px-2.5 rounded-sm border border-ink/15 text-[10px] font-black uppercase tracking-widest text-ink/60 hover:border-ink/30 hover:text-ink flex items-center gap-1"
+              title="Go back to the built-in rules"
+            >
+              <RotateCcw className="w-3 h-3" /> Built-in
+            </button>
+          )}
+        </div>
+      </div>
+
+      {progress && (
+        <p className="text-[11px] font-mono text-ink/50">
+          Loading {progress.date} · {progress.done}/{progress.total} slates found
+        </p>
+      )}
+      {error && <p className="text-[11px] text-red-600">{error}</p>}
+
+      {table && table.drifted.length > 0 && (
+        <div className="border border-amber-200 bg-amber-50 rounded-sm px-3 py-2 space-y-1">
+          <p className="text-[10px] font-black uppercase tracking-widest text-amber-800">Drifted built-in rules</p>
+          {table.drifted.map((drift) => (
+            <p key={drift.condition} className="text-[11px] text-amber-800">
+              {drift.condition}: quoted {pct(drift.quotedRate)}, now {pct(drift.observedRate)} over {drift.count} players
+            </p>
+          ))}
+        </div>
+      )}
+
+      {table && (
+        <div className="space-y-2">
+          <button
+            type="button"
+            onClick={() => setShowCells((prev) => !prev)}
+            className="text-[10px] font-black uppercase tracking-widest text-ink/50 hover:text-ink"
+          >
+            {showCells ? 'Hide' : 'Show'} {tieredCells.length} tiered bands
+          </button>
+          {showCells && (
+            <div className="overflow-x-auto border border-ink/10 rounded-sm">
+              <table className="w-full border-collapse text-[11px]">
+                <thead>
+                  <tr className="text-[9px] font-black text-ink/40 uppercase tracking-widest border-b border-ink/10 bg-white/40">
+                    <th className="px-3 py-2 text-left">Pos</th>
+                    <th className="px-3 py-2 text-left">Band</th>
+                    <th className="px-3 py-2 text-left">Tier</th>
+                    <th className="px-3 py-2 text-right">Players</th>
+                    <th className="px-3 py-2 text-right">{HIT_MARGIN}+ Hit Rate</th>
+                    <th className="px-3 py-2 text-right">Lift</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {tieredCells.map((cell) => (
+                    <tr key={`${cell.position}|${cell.ownershipBand}|${cell.usageBand}`} className="border-b border-ink/5">
+                      <td className="px-3 py-1.5 font-black text-ink/70">{cell.position}</td>
+                      <td className="px-3 py-1.5 text-ink/70">{describeRuleCell(cell)}</td>
+                      <td className="px-3 py-1.5"><TierBadge tier={cell.tier!} pos_primary={cell.position} size="sm" /></td>
+                      <td className="px-3 py-1.5 text-right font-mono text-ink/60">{cell.count}</td>
+                      <td className="px-3 py-1.5 text-right font-mono font-bold text-ink">{pct(cell.hitRate)}</td>
+                      <td className="px-3 py-1.5 text-right font-mono text-ink/60">{cell.lift.toFixed(2)}x</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="px-3 py-1.5 text-[10px] text-ink/40">
+                Bands with fewer than {MIN_RULE_SAMPLES} players keep the built-in rule.
+              </p>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
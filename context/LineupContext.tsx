@@ -1,88 +1,71 @@
 import React, { createContext, useContext, useState, useMemo, useCallback } from 'react';
-import { Player, Slot } from '../types';
+import { ContestInput, Player, Slot } from '../types';
+import { SiteSlotRule, assignSiteSlots, canFillSiteSlot, getSiteRules, parseSitePositions } from '../utils/siteRules';
+import { getBasePlayerId } from '../utils/showdown';
 
 export interface LineupState {
+  site: ContestInput['site'];
+  slotRules: SiteSlotRule[];
+  salaryCap: number;
   slots: Record<Slot, Player | null>;
   totalProjectedFpts: number;
   remainingSalary: number;
 }
 
 interface LineupContextType extends LineupState {
+  setSite: (site: ContestInput['site']) => void;
   addPlayer: (player: Player) => boolean;
   addPlayerToSlot: (player: Player, slot: Slot) => boolean;
   removePlayer: (slot: Slot) => void;
+  /** Replaces every slot at once, e.g. with a "fill the rest" completion. */
+  setLineup: (slotMap: Record<Slot, Player>) => void;
   resetLineup: () => void;
   isPlayerInLineup: (playerId: string) => boolean;
+  canAddPlayer: (player: Player) => boolean;
 }
 
 const LineupContext = createContext<LineupContextType | undefined>(undefined);
 
-const SALARY_CAP = 50000;
-const SLOTS: Slot[] = ['PG', 'SG', 'SF', 'PF', 'C', 'G', 'F', 'UTIL'];
+const emptySlots = (slotRules: SiteSlotRule[]): Record<Slot, Player | null> => {
+  return slotRules.reduce<Record<Slot, Player | null>>((acc, slot) => {
+    acc[slot.key] = null;
+    return acc;
+  }, {});
+};
+
+// Most restrictive slots first, so a PG lands in PG before G/UTIL (DK) and PG1 before PG2 (FD).
+const fillOrder = (slotRules: SiteSlotRule[]): SiteSlotRule[] => {
+  return [...slotRules].sort((a, b) => a.eligible.length - b.eligible.length);
+};
 
 export const LineupProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [slots, setSlots] = useState<Record<Slot, Player | null>>({
-    PG: null,
-    SG: null,
-    SF: null,
-    PF: null,
-    C: null,
-    G: null,
-    F: null,
-    UTIL: null,
-  });
+  const [site, setSiteState] = useState<ContestInput['site']>('DraftKings');
+  const rules = useMemo(() => getSiteRules(site), [site]);
+  const [slots, setSlots] = useState<Record<Slot, Player | null>>(() => emptySlots(rules.slots));
 
+  // A player's FLEX and captain rows count as the same player.
   const isPlayerInLineup = useCallback((playerId: string) => {
-    return (Object.values(slots) as (Player | null)[]).some(p => p?.id === playerId);
+    const baseId = getBasePlayerId(playerId);
+    return (Object.values(slots) as (Player | null)[]).some(p => p && getBasePlayerId(p.id) === baseId);
   }, [slots]);
 
-  const addPlayer = useCallback((player: Player) => {
+  const findOpenSlot = useCallback((player: Player): SiteSlotRule | null => {
+    const positions = parseSitePositions(player.position);
+    return fillOrder(rules.slots).find(slot => !slots[slot.key] && canFillSiteSlot(positions, slot)) || null;
+  }, [rules, slots]);
+
+  const canAddPlayer = useCallback((player: Player) => {
     if (isPlayerInLineup(player.id)) return false;
+    return findOpenSlot(player) !== null;
+  }, [isPlayerInLineup, findOpenSlot]);
 
-    const pos = player.position; // e.g., "PG" or "PG/SG"
-    const positions = pos.split('/');
-
-    // Logic to find the best slot
-    // 1. Check primary slots
-    if (positions.includes('PG') && !slots.PG) {
-      setSlots(prev => ({ ...prev, PG: player }));
-      return true;
-    }
-    if (positions.includes('SG') && !slots.SG) {
-      setSlots(prev => ({ ...prev, SG: player }));
-      return true;
-    }
-    if (positions.includes('SF') && !slots.SF) {
-      setSlots(prev => ({ ...prev, SF: player }));
-      return true;
-    }
-    if (positions.includes('PF') && !slots.PF) {
-      setSlots(prev => ({ ...prev, PF: player }));
-      return true;
-    }
-    if (positions.includes('C') && !slots.C) {
-      setSlots(prev => ({ ...prev, C: player }));
-      return true;
-    }
-
-    // 2. Check Guard/Forward slots
-    if ((positions.includes('PG') || positions.includes('SG')) && !slots.G) {
-      setSlots(prev => ({ ...prev, G: player }));
-      return true;
-    }
-    if ((positions.includes('SF') || positions.includes('PF')) && !slots.F) {
-      setSlots(prev => ({ ...prev, F: player }));
-      return true;
-    }
-
-    // 3. Check Utility slot
-    if (!slots.UTIL) {
-      setSlots(prev => ({ ...prev, UTIL: player }));
-      return true;
-    }
-
-    return false;
-  }, [slots, isPlayerInLineup]);
+  const addPlayer = useCallback((player: Player) => {
+    if (isPlayerInLineup(player.id)) return false;
+    const slot = findOpenSlot(player);
+    if (!slot) return false;
+    setSlots(prev => ({ ...prev, [slot.key]: player }));
+    return true;
+  }, [isPlayerInLineup, findOpenSlot]);
 
   const addPlayerToSlot = useCallback((player: Player, slot: Slot) => {
     if (isPlayerInLineup(player.id)) return false;
@@ -94,18 +77,25 @@ export const LineupProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     setSlots(prev => ({ ...prev, [slot]: null }));
   }, []);
 
+  const setLineup = useCallback((slotMap: Record<Slot, Player>) => {
+    setSlots({ ...emptySlots(rules.slots), ...slotMap });
+  }, [rules]);
+
   const resetLineup = useCallback(() => {
-    setSlots({
-      PG: null,
-      SG: null,
-      SF: null,
-      PF: null,
-      C: null,
-      G: null,
-      F: null,
-      UTIL: null,
+    setSlots(emptySlots(rules.slots));
+  }, [rules]);
+
+  // Switching sites re-seats the current players into the new roster; anyone who no longer fits is dropped.
+  const setSite = useCallback((nextSite: ContestInput['site']) => {
+    if (nextSite === site) return;
+    const nextRules = getSiteRules(nextSite);
+    setSiteState(nextRules.site);
+    setSlots(prev => {
+      const current = (Object.values(prev) as (Player | null)[]).filter((p): p is Player => Boolean(p));
+      const { slotMap } = assignSiteSlots(current, nextRules);
+      return { ...emptySlots(nextRules.slots), ...slotMap };
     });
-  }, []);
+  }, [site]);
 
   const totalProjectedFpts = useMemo(() => {
     return (Object.values(slots) as (Player | null)[]).reduce<number>((acc, p) => acc + (p?.projection || 0), 0);
@@ -113,18 +103,24 @@ export const LineupProvider: React.FC<{ children: React.ReactNode }> = ({ childr
 
   const remainingSalary = useMemo(() => {
     const totalSalary = (Object.values(slots) as (Player | null)[]).reduce<number>((acc, p) => acc + (p?.salary || 0), 0);
-    return SALARY_CAP - totalSalary;
-  }, [slots]);
+    return rules.salaryCap - totalSalary;
+  }, [slots, rules]);
 
   const value = {
+    site,
+    slotRules: rules.slots,
+    salaryCap: rules.salaryCap,
     slots,
     totalProjectedFpts,
     remainingSalary,
+    setSite,
     addPlayer,
     addPlayerToSlot,
     removePlayer,
+    setLineup,
     resetLineup,
     isPlayerInLineup,
+    canAddPlayer,
   };
 
   return <LineupContext.Provider value={value}>{children}</LineupContext.Provider>;
@@ -3,6 +3,7 @@ import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
 import { ClerkProvider } from "@clerk/clerk-react";
+import { initPersistence } from './utils/persistence';
 
 declare const __CLERK_PUBLISHABLE_KEY__: string;
 
@@ -229,7 +230,9 @@ if (CONFIG_ERROR) {
     </React.StrictMode>
   );
 } else {
-  root.render(
+  // Saved lineups, optimizer settings and the entry session are read synchronously
+  // by the views, so the persisted cache must be hydrated before the first render.
+  void initPersistence().then(() => root.render(
     <React.StrictMode>
       <ClerkProvider
         publishableKey={PUBLISHABLE_KEY}
@@ -243,5 +246,5 @@ if (CONFIG_ERROR) {
         <App />
       </ClerkProvider>
     </React.StrictMode>
-  );
+  ));
 }
@@ -0,0 +1,69 @@
+#!/usr/bin/env node
+
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { createServer } from 'vite';
+
+const args = process.argv.slice(2);
+
+const getArgValue = (name, fallback = '') => {
+  const flag = `--${name}`;
+  const idx = args.indexOf(flag);
+  if (idx === -1) return fallback;
+  return args[idx + 1] || fallback;
+};
+
+const slatePath = getArgValue('slate');
+const settingsPath = getArgValue('settings');
+const outDir = getArgValue('out', '.');
+const prefix = getArgValue('prefix', `slatesim_lineups_${Date.now()}`);
+
+if (!slatePath || !settingsPath) {
+  console.error('Usage: node scripts/build-lineups.mjs --slate <slate.json|projections.csv> --settings <settings.json> [--out <dir>] [--prefix <name>]');
+  process.exit(1);
+}
+
+const root = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+
+// The optimizer is TypeScript written for the Vite build (extensionless imports,
+// `?url` assets), so it is loaded through Vite's SSR module loader rather than
+// compiled separately. No dev server is started.
+const server = await createServer({
+  root,
+  configFile: false,
+  logLevel: 'error',
+  appType: 'custom',
+  server: { middlewareMode: true, hmr: false, ws: false },
+  optimizeDeps: { noDiscovery: true, include: [] },
+});
+
+let exitCode = 0;
+try {
+  const { parseHeadlessSettings, parseHeadlessSlate, runHeadlessBuild } = await server.ssrLoadModule('/utils/headlessBuild.ts');
+  const players = await parseHeadlessSlate(slatePath, fs.readFileSync(slatePath, 'utf8'));
+  const settings = parseHeadlessSettings(JSON.parse(fs.readFileSync(settingsPath, 'utf8')));
+  console.log(`Building ${settings.config.numLineups} ${settings.config.site} lineups from ${players.length} players (${settings.config.engine})`);
+
+  const { csv, summary } = await runHeadlessBuild(players, settings, ({ current, total }) => {
+    process.stdout.write(`\rLineup ${current}/${total}`);
+  });
+  process.stdout.write('\n');
+
+  fs.mkdirSync(outDir, { recursive: true });
+  const csvPath = path.join(outDir, `${prefix}.csv`);
+  const summaryPath = path.join(outDir, `${prefix}.json`);
+  fs.writeFileSync(csvPath, `${csv}\n`);
+  fs.writeFileSync(summaryPath, `${JSON.stringify(summary, null, 2)}\n`);
+
+  console.log(`Lineups: ${summary.built}/${summary.requested} (${summary.status})`);
+  summary.warnings.forEach((warning) => console.warn(`Warning: ${warning}`));
+  console.log(`Wrote ${csvPath}`);
+  console.log(`Wrote ${summaryPath}`);
+} catch (error) {
+  console.error(error instanceof Error ? error.message : error);
+  exitCode = 1;
+} finally {
+  await server.close();
+}
+process.exit(exitCode);
@@ -0,0 +1,186 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type { ContestState, Lineup, Player } from '../../types';
+import type { SimLineupResult, SimPlayer, WorkerOutMessage } from '../workers/contest-sim/types';
+import ContestSimWorker from '../workers/contest-sim/worker.ts?worker';
+import { seedFromKey } from '../workers/contest-sim/engine';
+import { getSiteRules, parseSitePositions } from '../../utils/siteRules';
+import { buildSitePlayerPool } from '../../utils/showdown';
+
+const DEFAULT_ITERATIONS = 1000;
+const DEFAULT_FIELD_SAMPLE_SIZE = 2000;
+const VALID_POSITIONS = ['PG', 'SG', 'SF', 'PF', 'C'];
+
+type SimulationStatus = 'idle' | 'running' | 'done' | 'error';
+
+interface ContestSimulationState {
+  status: SimulationStatus;
+  progress: number;
+  error: string | null;
+  warnings: string[];
+  iterations: number;
+  results: Map<string, SimLineupResult>;
+}
+
+const DEFAULT_STATE: ContestSimulationState = {
+  status: 'idle',
+  progress: 0,
+  error: null,
+  warnings: [],
+  iterations: 0,
+  results: new Map(),
+};
+
+const toSimPlayer = (player: Player): SimPlayer => {
+  const team = String(player.team || 'UNK').toUpperCase();
+  const opp = String(player.opponent || 'UNK').toUpperCase();
+  const positions = parseSitePositions(player.position);
+  const projection = Number(player.projection);
+  const minutes = player.minutesDistribution;
+  return {
+    id: String(player.id),
+    positions: positions.length > 0 ? positions : VALID_POSITIONS,
+    salary: Number(player.salary) || 0,
+    projection: Number.isFinite(projection) ? projection : 0,
+    floor: Number(player.floor) || 0,
+    ceiling: Number(player.ceiling) || 0,
+    ownership: Number(player.ownership) || 0,
+    teamId: team,
+    gameId: [team, opp].sort().join('_vs_'),
+    ...(minutes
+      ? { minutes: minutes.baseMean, blowoutMinutes: minutes.blowoutMean, blowoutRisk: minutes.blowoutRisk }
+      : {}),
+    ...(player.captainOf ? { captainOf: player.captainOf, captainMultiplier: Number(player.captainMultiplier) || undefined } : {}),
+  };
+};
+
+export function useContestSimulation(
+  lineups: Lineup[],
+  playerPool: Player[],
+  contestState: ContestState | null | undefined,
+): ContestSimulationState & { lineups: Lineup[] } {
+  const [state, setState] = useState<ContestSimulationState>(DEFAULT_STATE);
+  const workerRef = useRef<Worker | null>(null);
+
+  const input = contestState?.input;
+  const derived = contestState?.derived;
+  const siteRules = getSiteRules(input?.site);
+
+  const simPlayers = useMemo(() => {
+    const byId = new Map<string, Player>();
+    // Showdown lineups roster captain rows, so the pool needs them too.
+    buildSitePlayerPool(playerPool.filter((p) => !p.captainOf), siteRules).forEach((p) => byId.set(p.id, p));
+    lineups.forEach((l) => l.players?.forEach((p) => {
+      if (!byId.has(p.id)) byId.set(p.id, p);
+    }));
+    return Array.from(byId.values())
+      .filter((p) => Number(p.salary) > 0)
+      .map(toSimPlayer);
+  }, [lineups, playerPool, siteRules]);
+
+  useEffect(() => {
+    if (workerRef.current) {
+      workerRef.current.terminate();
+      workerRef.current = null;
+    }
+    if (!input || !derived || lineups.length === 0 || simPlayers.length === 0) {
+      setState(DEFAULT_STATE);
+      return;
+    }
+    if (siteRules.unavailableReason) {
+      setState({ ...DEFAULT_STATE, status: 'error', error: siteRules.unavailableReason });
+      return;
+    }
+
+    // Every view simulating the same lineups and contest gets the same numbers.
+    const seed = seedFromKey(JSON.stringify([
+      lineups.map((l) => [l.id, ...l.playerIds]),
+      input.site,
+      input.fieldSize,
+      input.entryFee,
+      derived.prizePool,
+    ]));
+
+    const worker = new ContestSimWorker();
+    workerRef.current = worker;
+    setState((prev) => ({ ...prev, status: 'running', progress: 0, error: null }));
+
+    worker.onmessage = (e: MessageEvent<WorkerOutMessage>) => {
+      const msg = e.data;
+      switch (msg.type) {
+        case 'progress':
+          setState((prev) => ({
+            ...prev,
+            progress: Math.round((msg.payload.current / Math.max(1, msg.payload.total)) * 100),
+          }));
+          break;
+        case 'result':
+          setState({
+            status: 'done',
+            progress: 100,
+            error: null,
+            warnings: msg.payload.warnings,
+            iterations: msg.payload.iterations,
+            results: new Map(msg.payload.lineups.map((r) => [r.id, r])),
+          });
+          worker.terminate();
+          if (workerRef.current === worker) workerRef.current = null;
+          break;
+        case 'error':
+          setState({ ...DEFAULT_STATE, status: 'error', error: msg.payload.message });
+          worker.terminate();
+          if (workerRef.current === worker) workerRef.current = null;
+          break;
+      }
+    };
+
+    worker.onerror = (err) => {
+      setState({ ...DEFAULT_STATE, status: 'error', error: err?.message || 'Contest simulation worker failed.' });
+      worker.terminate();
+      if (workerRef.current === worker) workerRef.current = null;
+    };
+
+    worker.postMessage({
+      players: simPlayers,
+      lineups: lineups.map((l) => ({ id: l.id, playerIds: [...l.playerIds] })),
+      config: {
+        iterations: DEFAULT_ITERATIONS,
+        fieldSampleSize: DEFAULT_FIELD_SAMPLE_SIZE,
+        fieldSize: input.fieldSize,
+        entryFee: input.entryFee,
+        prizePool: derived.prizePool,
+        paidPlaces: derived.estimatedPaidPlaces,
+        minCash: derived.estimatedMinCash,
+        salaryCap: siteRules.salaryCap,
+        slots: siteRules.slots.map((slot) => ({ slot: slot.key, eligible: slot.eligible })),
+        seed,
+      },
+    });
+
+    return () => {
+      worker.terminate();
+      if (workerRef.current === worker) workerRef.current = null;
+    };
+  }, [lineups, simPlayers, input, derived, siteRules]);
+
+  const simulatedLineups = useMemo(() => {
+    if (state.results.size === 0) return lineups;
+    return lineups.map((lineup): Lineup => {
+      const result = state.results.get(lineup.id);
+      if (!result) return lineup;
+      return {
+        ...lineup,
+        simMeanScore: result.meanScore,
+        simEV: result.ev,
+        simROI: result.roiPct,
+        simExpectedRoiPct: result.roiPct,
+        simTop1Pct: result.top1Pct,
+        winProbPct: result.winProbPct,
+        top10Pct: result.top10Pct,
+        cashPct: result.cashPct,
+        simFieldPercentile: result.fieldPercentile,
+      };
+    });
+  }, [lineups, state.results]);
+
+  return { ...state, lineups: simulatedLineups };
+}
@@ -0,0 +1,78 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { Player } from '../../types';
+import {
+  BaseSourceWeights,
+  DEFAULT_BASE_WEIGHTS,
+  ProjectionBlendResult,
+  ProjectionSource,
+  blendProjections,
+  parseProjectionSourceFile,
+} from '../../utils/projectionSources';
+import {
+  deleteProjectionSource,
+  readPreference,
+  readProjectionSources,
+  writePreference,
+  writeProjectionSource,
+} from '../../utils/persistence';
+
+const BASE_WEIGHTS_PREFERENCE = 'projectionBlend.baseWeights';
+
+const loadSources = (slateDate: string): ProjectionSource[] =>
+  readProjectionSources<ProjectionSource>()
+    .filter((source) => source.slateDate === slateDate)
+    .sort((a, b) => a.createdAt - b.createdAt);
+
+export interface ProjectionSourcesController {
+  sources: ProjectionSource[];
+  baseWeights: BaseSourceWeights;
+  blend: ProjectionBlendResult;
+  addSourceFile: (file: File) => Promise<ProjectionSource>;
+  updateSource: (id: string, patch: Partial<Omit<ProjectionSource, 'id' | 'players'>>) => void;
+  removeSource: (id: string) => void;
+  setBaseWeights: (weights: BaseSourceWeights) => void;
+}
+
+/** Projection sources uploaded for `slateDate`, persisted, and blended into `basePlayers`. */
+export function useProjectionSources(slateDate: string, basePlayers: Player[]): ProjectionSourcesController {
+  const [sources, setSources] = useState<ProjectionSource[]>(() => loadSources(slateDate));
+  const [baseWeights, setBaseWeightsState] = useState<BaseSourceWeights>(
+    () => readPreference<BaseSourceWeights>(BASE_WEIGHTS_PREFERENCE) ?? DEFAULT_BASE_WEIGHTS,
+  );
+
+  useEffect(() => {
+    setSources(loadSources(slateDate));
+  }, [slateDate]);
+
+  const blend = useMemo(
+    () => blendProjections(basePlayers, sources, baseWeights),
+    [basePlayers, sources, baseWeights],
+  );
+
+  const addSourceFile = useCallback(async (file: File) => {
+    const source = await parseProjectionSourceFile(file, slateDate);
+    writeProjectionSource(source);
+    setSources((prev) => [...prev, source]);
+    return source;
+  }, [slateDate]);
+
+  const updateSource = useCallback((id: string, patch: Partial<Omit<ProjectionSource, 'id' | 'players'>>) => {
+    const current = sources.find((source) => source.id === id);
+    if (!current) return;
+    const next = { ...current, ...patch };
+    writeProjectionSource(next);
+    setSources((prev) => prev.map((source) => (source.id === id ? next : source)));
+  }, [sources]);
+
+  const removeSource = useCallback((id: string) => {
+    deleteProjectionSource(id);
+    setSources((prev) => prev.filter((source) => source.id !== id));
+  }, []);
+
+  const setBaseWeights = useCallback((weights: BaseSourceWeights) => {
+    writePreference(BASE_WEIGHTS_PREFERENCE, weights);
+    setBaseWeightsState(weights);
+  }, []);
+
+  return { sources, baseWeights, blend, addSourceFile, updateSource, removeSource, setBaseWeights };
+}
@@ -0,0 +1,128 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { Player } from '../../types';
+import { loadSlateNews } from '../../utils/assetLoader';
+import { InjuryLookup, buildInjuryLookup } from '../../utils/injuries';
+import { StartingLineupLookup, buildStartingLineupLookup } from '../../utils/startingLineups';
+import { loadSavedLineupSets } from '../../utils/savedLineups';
+import { NewsAlert, NewsHoldings, diffSlateNews, findNewsImpact } from '../../utils/newsChanges';
+import { getOptimizerSettingsKey, readEntrySession, readOptimizerSettings } from '../../utils/persistence';
+
+const NEWS_REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+
+interface SlateNewsRefreshOptions {
+  slateDate: string;
+  slateFolder?: string | null;
+  players: Player[];
+  /** Current snapshot; the refresh diffs against it and hands the new one to `onSnapshot`. */
+  injuryLookup: InjuryLookup;
+  startingLineupLookup: StartingLineupLookup;
+  fetcher?: (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>;
+  /** Refresh only runs for live slates. */
+  enabled: boolean;
+  onSnapshot: (injuries: InjuryLookup, startingLineups: StartingLineupLookup, injuriesAsOf?: string) => void;
+}
+
+export interface SlateNewsRefreshController {
+  alerts: NewsAlert[];
+  lastCheckedAt: number | null;
+  checking: boolean;
+  refreshNow: () => Promise<void>;
+  dismissAlert: (id: string) => void;
+  clearAlerts: () => void;
+}
+
+// Entries, saved sets and optimizer locks are read at detection time so the
+// alert reflects what the user holds when the news breaks.
+const readNewsHoldings = (slateDate: string): NewsHoldings => {
+  const session = readEntrySession();
+  const sessionEntries = session && (!session.slateDate || session.slateDate === slateDate) && Array.isArray(session.entries)
+    ? session.entries
+    : [];
+  const optimizerSettings = readOptimizerSettings(getOptimizerSettingsKey(slateDate));
+  return {
+    entries: sessionEntries.map((entry: any) => ({
+      entryId: String(entry?.entryId ?? ''),
+      contestName: String(entry?.contestName ?? ''),
+      slots: entry?.slots && typeof entry.slots === 'object' ? entry.slots : {},
+    })),
+    lineupSets: loadSavedLineupSets().filter((set) => !set.slateDate || set.slateDate === slateDate),
+    lockedIds: Array.isArray(optimizerSettings?.lockedIds) ? optimizerSettings.lockedIds.map(String) : [],
+  };
+};
+
+/** Polls the injury report and starting lineups for `slateDate` and records what changed since the last snapshot. */
+export function useSlateNewsRefresh(options: SlateNewsRefreshOptions): SlateNewsRefreshController {
+  const { slateDate, slateFolder, fetcher, enabled } = options;
+  const [alerts, setAlerts] = useState<NewsAlert[]>([]);
+  const [lastCheckedAt, setLastCheckedAt] = useState<number | null>(null);
+  const [checking, setChecking] = useState(false);
+
+  // The interval callback reads the latest snapshot without restarting the timer on every update.
+  const latestRef = useRef(options);
+  latestRef.current = options;
+  const inFlightRef = useRef(false);
+
+  useEffect(() => {
+    setAlerts([]);
+    setLastCheckedAt(null);
+  }, [slateDate, slateFolder]);
+
+  const refreshNow = useCallback(async () => {
+    if (inFlightRef.current || !slateDate) return;
+    inFlightRef.current = true;
+    setChecking(true);
+    try {
+      const result = await loadSlateNews({ targetDate: slateDate, slateFolder: slateFolder ?? undefined, fetcher });
+      const current = latestRef.current;
+      if (current.slateDate !== slateDate) return;
+      if (result.errors) console.warn('Slate news refresh warnings:', result.errors);
+
+      // A feed that failed or is missing keeps its previous snapshot; diffing
+      // against an empty report would read as everyone being upgraded.
+      const nextInjuries = result.injuries ? buildInjuryLookup(result.injuries) : current.injuryLookup;
+      const nextStarting = result.startingLineups ? buildStartingLineupLookup(result.startingLineups) : current.startingLineupLookup;
+      const changes = diffSlateNews(
+        current.players,
+        { injuries: current.injuryLookup, startingLineups: current.startingLineupLookup },
+        { injuries: nextInjuries, startingLineups: nextStarting },
+      );
+      setLastCheckedAt(Date.now());
+      if (result.injuries || result.startingLineups) {
+        current.onSnapshot(nextInjuries, nextStarting, result.injuries ? result.injuriesAsOf : undefined);
+      }
+      if (changes.length === 0) return;
+
+      const holdings = readNewsHoldings(slateDate);
+      const detectedAt = Date.now();
+      const nextAlerts = changes.map((change) => ({ ...change, impact: findNewsImpact(change.playerId, holdings), detectedAt }));
+      setAlerts((prev) => {
+        const replaced = new Set(nextAlerts.map((alert) => alert.id));
+        // An upgrade cancels an earlier OUT alert for the same player, and vice versa.
+        const injuryMoves = new Set(nextAlerts.filter((alert) => alert.kind !== 'new_confirmed_starter').map((alert) => alert.playerId));
+        return [
+          ...nextAlerts,
+          ...prev.filter((alert) => !replaced.has(alert.id) && !(alert.kind !== 'new_confirmed_starter' && injuryMoves.has(alert.playerId))),
+        ];
+      });
+    } catch (error) {
+      console.warn('Slate news refresh failed', error);
+    } finally {
+      inFlightRef.current = false;
+      setChecking(false);
+    }
+  }, [fetcher, slateDate, slateFolder]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const interval = window.setInterval(() => { void refreshNow(); }, NEWS_REFRESH_INTERVAL_MS);
+    return () => window.clearInterval(interval);
+  }, [enabled, refreshNow]);
+
+  const dismissAlert = useCallback((id: string) => {
+    setAlerts((prev) => prev.filter((alert) => alert.id !== id));
+  }, []);
+
+  const clearAlerts = useCallback(() => setAlerts([]), []);
+
+  return { alerts, lastCheckedAt, checking, refreshNow, dismissAlert, clearAlerts };
+}
@@ -0,0 +1,97 @@
+import type {
+  OptimizerProgress,
+  OptimizerRequest,
+  OptimizerResult,
+  WorkerInMessage,
+  WorkerOutMessage,
+} from '../workers/optimizer-service/types';
+import OptimizerServiceWorker from '../workers/optimizer-service/worker.ts?worker';
+
+export interface OptimizerJobHandlers {
+  onProgress?: (progress: OptimizerProgress) => void;
+  /** Called with the lineups accepted so far each time a pause takes effect. */
+  onPaused?: (partial: OptimizerResult) => void;
+}
+
+export interface OptimizerJob {
+  /**
+   * Resolves once the run completes or is cancelled. A cancelled run still
+   * carries the lineups accepted before the stop (status 'cancelled').
+   */
+  result: Promise<OptimizerResult>;
+  /** Stops at the next lineup boundary, keeping exposure/uniqueness state for resume(). */
+  pause: () => void;
+  resume: () => void;
+  /** Stops at the next lineup boundary and resolves `result` with the partial portfolio. */
+  cancel: () => void;
+  /** Kills the worker immediately; `result` never settles. For unmount/slate changes. */
+  dispose: () => void;
+}
+
+/**
+ * Starts one optimizer run in its own worker. Every caller (Optimizer page,
+ * Entry Manager late swap) goes through here so progress, errors and
+ * cancellation behave the same regardless of engine.
+ */
+export function startOptimizerJob(
+  request: OptimizerRequest,
+  handlers: OptimizerJobHandlers = {},
+): OptimizerJob {
+  const worker = new OptimizerServiceWorker();
+  let settled = false;
+  let settle: (value: OptimizerResult) => void = () => {};
+  let fail: (error: Error) => void = () => {};
+
+  const result = new Promise<OptimizerResult>((resolve, reject) => {
+    settle = resolve;
+    fail = reject;
+  });
+
+  const finish = (outcome: () => void) => {
+    if (settled) return;
+    settled = true;
+    worker.terminate();
+    outcome();
+  };
+
+  const send = (message: WorkerInMessage) => {
+    if (!settled) worker.postMessage(message);
+  };
+
+  worker.onmessage = (e: MessageEvent<WorkerOutMessage>) => {
+    const msg = e.data;
+    switch (msg.type) {
+      case 'progress':
+        if (!settled) handlers.onProgress?.(msg.payload);
+        break;
+      case 'paused':
+        if (!settled) handlers.onPaused?.(msg.payload);
+        break;
+      case 'result':
+        finish(() => settle(msg.payload));
+        break;
+      case 'error':
+        finish(() => fail(new Error(msg.payload.message || 'Optimizer worker failed.')));
+        break;
+    }
+  };
+
+  worker.onerror = (err) => {
+    const detail = err?.message ? ` ${err.message}` : '';
+    finish(() => fail(new Error(`Worker Error: Optimization failed to start.${detail}`)));
+  };
+
+  worker.onmessageerror = () => {
+    finish(() => fail(new Error('Worker Error: Message serialization failed between UI and optimizer worker.')));
+  };
+
+  send({ type: 'run', payload: request });
+
+  return {
+    result,
+    pause: () => send({ type: 'pause' }),
+    resume: () => send({ type: 'resume' }),
+    cancel: () => send({ type: 'cancel' }),
+    dispose: () => finish(() => {}),
+  };
+}
@@ -0,0 +1,370 @@
+import { buildPayoutCurve } from './payout';
+import {
+  ContestSimConfig,
+  ContestSimResult,
+  DK_ROSTER_SLOTS,
+  SimLineup,
+  SimLineupResult,
+  SimPlayer,
+  SimRosterSlot,
+} from './types';
+
+// Projection/floor/ceiling are treated as the 50th/10th/90th percentile outcomes.
+const Z_90 = 1.2816;
+const DEFAULT_UPSIDE_SD_PCT = 0.3;
+const DEFAULT_DOWNSIDE_SD_PCT = 0.25;
+const MIN_OWNERSHIP_WEIGHT = 0.1;
+const FIELD_ATTEMPTS_PER_LINEUP = 4;
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+function finiteOr(value: unknown, fallback: number): number {
+  const num = Number(value);
+  return Number.isFinite(num) ? num : fallback;
+}
+
+export function createRng(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** FNV-1a hash of `key`, so the same lineups and contest always simulate with the same seed. */
+export function seedFromKey(key: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < key.length; i += 1) {
+    hash = Math.imul(hash ^ key.charCodeAt(i), 0x01000193);
+  }
+  return (hash >>> 0) & 0x7fffffff;
+}
+
+function standardNormal(rng: () => number): number {
+  let u = 0;
+  while (u <= Number.EPSILON) u = rng();
+  const v = rng();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+export function normalizeSimConfig(input: Partial<ContestSimConfig>): ContestSimConfig {
+  const fieldSize = Math.max(1, Math.floor(finiteOr(input.fieldSize, 1000)));
+  const gameCorrelation = clamp(finiteOr(input.gameCorrelation, 0.3), 0, 0.9);
+  const maxTeamCorrelation = Math.sqrt(Math.max(0, 0.95 - gameCorrelation * gameCorrelation));
+  return {
+    iterations: clamp(Math.floor(finiteOr(input.iterations, 1000)), 1, 20000),
+    fieldSize,
+    fieldSampleSize: clamp(Math.floor(finiteOr(input.fieldSampleSize, 2000)), 1, 20000),
+    entryFee: Math.max(0, finiteOr(input.entryFee, 0)),
+    prizePool: Math.max(0, finiteOr(input.prizePool, 0)),
+    paidPlaces: clamp(Math.floor(finiteOr(input.paidPlaces, 0)), 0, fieldSize),
+    minCash: Math.max(0, finiteOr(input.minCash, 0)),
+    salaryCap: Math.max(0, finiteOr(input.salaryCap, 50000)),
+    slots: Array.isArray(input.slots) && input.slots.length > 0 ? input.slots : DK_ROSTER_SLOTS,
+    gameCorrelation,
+    teamCorrelation: clamp(finiteOr(input.teamCorrelation, 0.2), 0, maxTeamCorrelation),
+    ...(input.seed !== undefined && Number.isFinite(Number(input.seed)) ? { seed: Number(input.seed) } : {}),
+  };
+}
+
+/**
+ * Samples opponent lineups by filling the roster slots with ownership-weighted
+ * picks. Returns player indices into `players`; lineups that cannot be completed
+ * under the salary cap are retried a few times and then dropped. A captain row
+ * and the player it captains count as one player.
+ */
+export function sampleFieldLineups(
+  players: SimPlayer[],
+  count: number,
+  salaryCap: number,
+  rng: () => number,
+  slots: SimRosterSlot[] = DK_ROSTER_SLOTS,
+): number[][] {
+  const slotCount = slots.length;
+  const baseKeys = new Map<string, number>();
+  const baseIdx = new Int32Array(players.length);
+  for (let i = 0; i < players.length; i++) {
+    const key = players[i].captainOf ?? players[i].id;
+    if (!baseKeys.has(key)) baseKeys.set(key, baseKeys.size);
+    baseIdx[i] = baseKeys.get(key) as number;
+  }
+  const eligibleBySlot: number[][] = [];
+  for (let s = 0; s < slotCount; s++) {
+    const eligible = slots[s].eligible;
+    const bucket: number[] = [];
+    for (let i = 0; i < players.length; i++) {
+      const positions = players[i].positions;
+      for (let j = 0; j < positions.length; j++) {
+        if (eligible.includes(positions[j])) {
+          bucket.push(i);
+          break;
+        }
+      }
+    }
+    eligibleBySlot.push(bucket);
+  }
+
+  let minSalary = Number.POSITIVE_INFINITY;
+  for (let i = 0; i < players.length; i++) {
+    if (players[i].salary < minSalary) minSalary = players[i].salary;
+  }
+  if (!Number.isFinite(minSalary)) return [];
+
+  const field: number[][] = [];
+  const maxAttempts = count * FIELD_ATTEMPTS_PER_LINEUP;
+  const chosen = new Set<number>();
+  for (let attempt = 0; attempt < maxAttempts && field.length < count; attempt++) {
+    chosen.clear();
+    const lineup: number[] = [];
+    let salaryUsed = 0;
+    let failed = false;
+
+    for (let s = 0; s < slotCount; s++) {
+      const bucket = eligibleBySlot[s];
+      const budget = salaryCap - salaryUsed - minSalary * (slotCount - s - 1);
+      let weightSum = 0;
+      for (let k = 0; k < bucket.length; k++) {
+        const idx = bucket[k];
+        if (chosen.has(baseIdx[idx]) || players[idx].salary > budget) continue;
+        weightSum += Math.max(MIN_OWNERSHIP_WEIGHT, players[idx].ownership);
+      }
+      if (weightSum <= 0) {
+        failed = true;
+        break;
+      }
+
+      let target = rng() * weightSum;
+      let picked = -1;
+      for (let k = 0; k < bucket.length; k++) {
+        const idx = bucket[k];
+        if (chosen.has(baseIdx[idx]) || players[idx].salary > budget) continue;
+        target -= Math.max(MIN_OWNERSHIP_WEIGHT, players[idx].ownership);
+        picked = idx;
+        if (target <= 0) break;
+      }
+
+      chosen.add(baseIdx[picked]);
+      lineup.push(picked);
+      salaryUsed += players[picked].salary;
+    }
+
+    if (!failed) field.push(lineup);
+  }
+  return field;
+}
+
+function upperBound(sorted: Float64Array, value: number): number {
+  let lo = 0;
+  let hi = sorted.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    if (sorted[mid] <= value) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/**
+ * Monte Carlo contest simulation. Each iteration draws one correlated outcome
+ * per player (shared game and team factors on top of an individual shock),
+ * scores the sampled field and our lineups, and pays out by finishing place.
+ * Games with a blowout risk also draw whether this run is a blowout; players
+ * with a minutes split then score in proportion to the minutes they get, scaled
+ * so the projection stays the expected score. Floor and ceiling already span
+ * the minutes noise of a competitive game, so only the tail is added.
+ * A sampled field smaller than the real one is scaled up, so each sampled
+ * opponent stands in for `opponents / sampleSize` entries.
+ */
+export function simulateContest(
+  players: SimPlayer[],
+  lineups: SimLineup[],
+  input: Partial<ContestSimConfig>,
+  onProgress?: (current: number, total: number) => void,
+): ContestSimResult {
+  const config = normalizeSimConfig(input);
+  const warnings: string[] = [];
+  const rng = createRng(config.seed ?? (Date.now() & 0x7fffffff));
+
+  const indexById = new Map<string, number>();
+  for (let i = 0; i < players.length; i++) indexById.set(players[i].id, i);
+
+  const lineupIndices: number[][] = [];
+  const lineupIds: string[] = [];
+  for (let i = 0; i < lineups.length; i++) {
+    const ids = lineups[i].playerIds;
+    const indices: number[] = [];
+    for (let j = 0; j < ids.length; j++) {
+      const idx = indexById.get(ids[j]);
+      if (idx !== undefined) indices.push(idx);
+    }
+    if (indices.length < config.slots.length) {
+      warnings.push(`Lineup ${lineups[i].id} skipped: only ${indices.length}/${config.slots.length} players found in the pool.`);
+      continue;
+    }
+    lineupIndices.push(indices);
+    lineupIds.push(lineups[i].id);
+  }
+
+  const opponents = Math.max(0, config.fieldSize - lineupIndices.length);
+  const field = opponents > 0
+    ? sampleFieldLineups(players, Math.min(config.fieldSampleSize, opponents), config.salaryCap, rng, config.slots)
+    : [];
+  if (opponents > 0 && field.length === 0) {
+    warnings.push('Unable to sample a synthetic field under the salary cap; results assume no opponents.');
+  }
+  const fieldScale = field.length > 0 ? opponents / field.length : 0;
+
+  const upsideSd = new Float64Array(players.length);
+  const downsideSd = new Float64Array(players.length);
+  const normalFactor = new Float64Array(players.length);
+  const blowoutFactor = new Float64Array(players.length);
+  const gameIdx = new Int32Array(players.length);
+  const teamIdx = new Int32Array(players.length);
+  const gameKeys = new Map<string, number>();
+  const teamKeys = new Map<string, number>();
+  for (let i = 0; i < players.length; i++) {
+    const p = players[i];
+    const projection = Math.max(0, p.projection);
+    upsideSd[i] = p.ceiling > projection
+      ? (p.ceiling - projection) / Z_90
+      : projection * DEFAULT_UPSIDE_SD_PCT;
+    downsideSd[i] = p.floor > 0 && p.floor < projection
+      ? (projection - p.floor) / Z_90
+      : projection * DEFAULT_DOWNSIDE_SD_PCT;
+    if (!gameKeys.has(p.gameId)) gameKeys.set(p.gameId, gameKeys.size);
+    if (!teamKeys.has(p.teamId)) teamKeys.set(p.teamId, teamKeys.size);
+    gameIdx[i] = gameKeys.get(p.gameId) as number;
+    teamIdx[i] = teamKeys.get(p.teamId) as number;
+    normalFactor[i] = 1;
+    blowoutFactor[i] = 1;
+  }
+
+  // Captain rows score a fixed multiple of their player's draw rather than an independent one.
+  const captainBase = new Int32Array(players.length).fill(-1);
+  const captainMultiplier = new Float64Array(players.length);
+  for (let i = 0; i < players.length; i++) {
+    const baseId = players[i].captainOf;
+    const base = baseId !== undefined ? indexById.get(baseId) : undefined;
+    if (base === undefined) continue;
+    captainBase[i] = base;
+    captainMultiplier[i] = Math.max(0, finiteOr(players[i].captainMultiplier, 1.5));
+  }
+
+  const gameBlowoutRisk = new Float64Array(gameKeys.size);
+  for (let i = 0; i < players.length; i++) {
+    const p = players[i];
+    const risk = clamp(finiteOr(p.blowoutRisk, 0), 0, 1);
+    const minutes = finiteOr(p.minutes, 0);
+    const blowoutMinutes = Math.max(0, finiteOr(p.blowoutMinutes, minutes));
+    if (risk <= 0 || minutes <= 0) continue;
+    const expected = (1 - risk) * minutes + risk * blowoutMinutes;
+    if (expected <= 0) continue;
+    normalFactor[i] = minutes / expected;
+    blowoutFactor[i] = blowoutMinutes / expected;
+    gameBlowoutRisk[gameIdx[i]] = Math.max(gameBlowoutRisk[gameIdx[i]], risk);
+  }
+
+  const gameWeight = config.gameCorrelation;
+  const teamWeight = config.teamCorrelation;
+  const idioWeight = Math.sqrt(Math.max(0, 1 - gameWeight * gameWeight - teamWeight * teamWeight));
+  const gameShock = new Float64Array(gameKeys.size);
+  const gameBlowout = new Uint8Array(gameKeys.size);
+  const teamShock = new Float64Array(teamKeys.size);
+  const playerScores = new Float64Array(players.length);
+  const fieldScores = new Float64Array(field.length);
+
+  const payouts = buildPayoutCurve(config.prizePool, config.paidPlaces, config.minCash);
+  const top1Place = Math.max(1, Math.ceil(config.fieldSize * 0.01));
+  const top10Place = Math.max(1, Math.ceil(config.fieldSize * 0.1));
+  const lineupCount = lineupIndices.length;
+  const sumScore = new Float64Array(lineupCount);
+  const sumPayout = new Float64Array(lineupCount);
+  const sumPercentile = new Float64Array(lineupCount);
+  const wins = new Float64Array(lineupCount);
+  const top1 = new Float64Array(lineupCount);
+  const top10 = new Float64Array(lineupCount);
+  const cashes = new Float64Array(lineupCount);
+  const progressEvery = Math.max(1, Math.floor(config.iterations / 20));
+
+  for (let iter = 0; iter < config.iterations; iter++) {
+    for (let g = 0; g < gameShock.length; g++) gameShock[g] = standardNormal(rng);
+    for (let t = 0; t < teamShock.length; t++) teamShock[t] = standardNormal(rng);
+    for (let g = 0; g < gameBlowout.length; g++) {
+      gameBlowout[g] = gameBlowoutRisk[g] > 0 && rng() < gameBlowoutRisk[g] ? 1 : 0;
+    }
+    for (let i = 0; i < players.length; i++) {
+      const z = gameWeight * gameShock[gameIdx[i]] + teamWeight * teamShock[teamIdx[i]] + idioWeight * standardNormal(rng);
+      const projection = Math.max(0, players[i].projection);
+      const minutesFactor = gameBlowout[gameIdx[i]] ? blowoutFactor[i] : normalFactor[i];
+      const score = (projection + z * (z >= 0 ? upsideSd[i] : downsideSd[i])) * minutesFactor;
+      playerScores[i] = score > 0 ? score : 0;
+    }
+    for (let i = 0; i < players.length; i++) {
+      if (captainBase[i] >= 0) playerScores[i] = playerScores[captainBase[i]] * captainMultiplier[i];
+    }
+
+    for (let f = 0; f < field.length; f++) {
+      const entry = field[f];
+      let total = 0;
+      for (let k = 0; k < entry.length; k++) total += playerScores[entry[k]];
+      fieldScores[f] = total;
+    }
+    fieldScores.sort();
+
+    for (let l = 0; l < lineupCount; l++) {
+      const entry = lineupIndices[l];
+      let total = 0;
+      for (let k = 0; k < entry.length; k++) total += playerScores[entry[k]];
+
+      const beaten = field.length - upperBound(fieldScores, total);
+      // Within a scaled-up stratum our exact rank is unknown, so spread it uniformly.
+      const jitter = fieldScale > 1 ? rng() : 0;
+      const place = 1 + Math.floor((beaten + jitter) * fieldScale);
+
+      sumScore[l] += total;
+      sumPercentile[l] += field.length > 0 ? 100 * (1 - beaten / field.length) : 100;
+      if (place <= payouts.length) {
+        sumPayout[l] += payouts[place - 1];
+        cashes[l] += 1;
+      }
+      if (place === 1) wins[l] += 1;
+      if (place <= top1Place) top1[l] += 1;
+      if (place <= top10Place) top10[l] += 1;
+    }
+
+    if (onProgress && ((iter + 1) % progressEvery === 0 || iter + 1 === config.iterations)) {
+      onProgress(iter + 1, config.iterations);
+    }
+  }
+
+  const n = config.iterations;
+  const results: SimLineupResult[] = [];
+  for (let l = 0; l < lineupCount; l++) {
+    const expectedPayout = sumPayout[l] / n;
+    const ev = expectedPayout - config.entryFee;
+    results.push({
+      id: lineupIds[l],
+      meanScore: sumScore[l] / n,
+      expectedPayout,
+      ev,
+      roiPct: config.entryFee > 0 ? (ev / config.entryFee) * 100 : 0,
+      winProbPct: (wins[l] / n) * 100,
+      top1Pct: (top1[l] / n) * 100,
+      top10Pct: (top10[l] / n) * 100,
+      cashPct: (cashes[l] / n) * 100,
+      fieldPercentile: sumPercentile[l] / n,
+    });
+  }
+
+  return {
+    lineups: results,
+    iterations: n,
+    fieldSampleSize: field.length,
+    warnings,
+  };
+}
@@ -0,0 +1,30 @@
+const PAYOUT_DECAY = 1.15;
+
+/**
+ * DraftKings-style top-heavy payout table, indexed by finishing place - 1.
+ * Every paid place receives at least `minCash`; the remainder of the prize pool
+ * is spread with a power-law decay so first place takes the largest share.
+ */
+export function buildPayoutCurve(prizePool: number, paidPlaces: number, minCash: number): number[] {
+  const pool = Number.isFinite(prizePool) ? Math.max(0, prizePool) : 0;
+  const paid = Number.isFinite(paidPlaces) ? Math.max(0, Math.floor(paidPlaces)) : 0;
+  if (pool <= 0 || paid <= 0) return [];
+
+  const floorCash = Math.max(0, Math.min(Number.isFinite(minCash) ? minCash : 0, pool / paid));
+  const remainder = pool - floorCash * paid;
+  const lastWeight = 1 / Math.pow(paid, PAYOUT_DECAY);
+  const weights = new Array<number>(paid);
+  let weightSum = 0;
+  for (let i = 0; i < paid; i++) {
+    const weight = 1 / Math.pow(i + 1, PAYOUT_DECAY) - lastWeight;
+    weights[i] = weight;
+    weightSum += weight;
+  }
+
+  const payouts = new Array<number>(paid);
+  for (let i = 0; i < paid; i++) {
+    const share = weightSum > 0 ? weights[i] / weightSum : 1 / paid;
+    payouts[i] = floorCash + remainder * share;
+  }
+  return payouts;
+}
@@ -0,0 +1,95 @@
+export interface SimRosterSlot {
+  slot: string;
+  eligible: string[];
+}
+
+/** Default roster; callers pass their site's slots in the config. */
+export const DK_ROSTER_SLOTS: SimRosterSlot[] = [
+  { slot: 'PG', eligible: ['PG'] },
+  { slot: 'SG', eligible: ['SG'] },
+  { slot: 'SF', eligible: ['SF'] },
+  { slot: 'PF', eligible: ['PF'] },
+  { slot: 'C', eligible: ['C'] },
+  { slot: 'G', eligible: ['PG', 'SG'] },
+  { slot: 'F', eligible: ['SF', 'PF'] },
+  { slot: 'UTIL', eligible: ['PG', 'SG', 'SF', 'PF', 'C'] },
+];
+
+export interface SimPlayer {
+  id: string;
+  positions: string[];
+  salary: number;
+  projection: number;
+  floor: number;
+  ceiling: number;
+  ownership: number; // 0-100
+  teamId: string;
+  gameId: string;
+  /** Minutes in a competitive game and in a blowout, and the blowout chance (utils/minutesDistribution). */
+  minutes?: number;
+  blowoutMinutes?: number;
+  blowoutRisk?: number;
+  /** Showdown captain row: scores `captainMultiplier` times the player it captains, and never shares a lineup with it. */
+  captainOf?: string;
+  captainMultiplier?: number;
+}
+
+export interface SimLineup {
+  id: string;
+  playerIds: string[];
+}
+
+export interface ContestSimConfig {
+  iterations: number;
+  fieldSize: number;
+  fieldSampleSize: number;
+  entryFee: number;
+  prizePool: number;
+  paidPlaces: number;
+  minCash: number;
+  salaryCap: number;
+  slots: SimRosterSlot[];
+  gameCorrelation: number;
+  teamCorrelation: number;
+  seed?: number;
+}
+
+export interface SimLineupResult {
+  id: string;
+  meanScore: number;
+  expectedPayout: number;
+  ev: number;
+  roiPct: number;
+  winProbPct: number;
+  top1Pct: number;
+  top10Pct: number;
+  cashPct: number;
+  fieldPercentile: number;
+}
+
+export interface ContestSimResult {
+  lineups: SimLineupResult[];
+  iterations: number;
+  fieldSampleSize: number;
+  warnings: string[];
+}
+
+export interface WorkerInMessage {
+  players: SimPlayer[];
+  lineups: SimLineup[];
+  config: Partial<ContestSimConfig>;
+}
+
+export type WorkerOutMessage =
+  | {
+      type: 'progress';
+      payload: { current: number; total: number };
+    }
+  | {
+      type: 'result';
+      payload: ContestSimResult;
+    }
+  | {
+      type: 'error';
+      payload: { message: string };
+    };
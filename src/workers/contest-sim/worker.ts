@@ -0,0 +1,32 @@
+import { simulateContest } from './engine';
+import { WorkerInMessage, WorkerOutMessage } from './types';
+
+const workerScope = self as unknown as {
+  onmessage: ((event: MessageEvent<WorkerInMessage>) => void) | null;
+  postMessage: (message: WorkerOutMessage) => void;
+};
+
+workerScope.onmessage = (event: MessageEvent<WorkerInMessage>) => {
+  try {
+    const payload = event.data;
+    if (!payload || !Array.isArray(payload.players) || !Array.isArray(payload.lineups)) {
+      throw new Error('Invalid input: expected { players, lineups, config }.');
+    }
+
+    const result = simulateContest(payload.players, payload.lineups, payload.config || {}, (current, total) => {
+      workerScope.postMessage({ type: 'progress', payload: { current, total } });
+    });
+
+    workerScope.postMessage({ type: 'result', payload: result });
+  } catch (error) {
+    const message: WorkerOutMessage = {
+      type: 'error',
+      payload: {
+        message: error instanceof Error ? error.message : 'Unknown contest simulation error',
+      },
+    };
+    workerScope.postMessage(message);
+  }
+};
+
+export {};
@@ -0,0 +1,437 @@
+import { SiteSlotRule, canFillSiteSlot, getSiteRules } from '../../../utils/siteRules';
+import {
+  describeGameStackRule,
+  gameIdFor,
+  requiresQualifyingGames,
+  stackRuleGames,
+  teamsByGame,
+} from '../sa-optimizer/stacks';
+import { finiteOr, normalizeOptimizerRules, toSaPositions } from './rules';
+import { OptimizerDiagnostic, OptimizerPlayer, OptimizerRequest, OptimizerRules } from './types';
+
+/**
+ * Pre-solve feasibility checks. Each check is a necessary condition, so a
+ * diagnostic always means no engine can build even one valid lineup (or the
+ * requested portfolio); an empty list does not guarantee the solve succeeds.
+ */
+
+interface Candidate {
+  id: string;
+  name: string;
+  salary: number;
+  teamId: string;
+  gameId: string;
+  /** Indices into the site's slot list this player can fill. */
+  slots: number[];
+}
+
+const formatSalary = (value: number): string => `$${Math.round(value).toLocaleString('en-US')}`;
+
+const nameList = (names: string[], limit = 3): string =>
+  names.length > limit ? `${names.slice(0, limit).join(', ')} +${names.length - limit} more` : names.join(', ');
+
+const countFor = (pct: number, total: number, mode: 'min' | 'max'): number => {
+  const raw = (Math.max(0, Math.min(100, pct)) / 100) * total;
+  return mode === 'min' ? Math.ceil(raw) : Math.floor(raw);
+};
+
+function toCandidate(player: OptimizerPlayer, slots: SiteSlotRule[]): Candidate {
+  const teamId = String(player.team || 'UNK').toUpperCase();
+  const positions = toSaPositions(String(player.position || ''));
+  return {
+    id: String(player.id),
+    name: String(player.name || player.id),
+    salary: finiteOr(player.salary, 0),
+    teamId,
+    gameId: gameIdFor(teamId, String(player.opponent || 'UNK')),
+    slots: slots.map((slot, idx) => (canFillSiteSlot(positions, slot) ? idx : -1)).filter((idx) => idx >= 0),
+  };
+}
+
+/** Bipartite slot matching (augmenting paths); returns how many slots can be filled at once. */
+function maxSlotFill(candidates: Candidate[], slotCount: number): number {
+  const owner = new Array<number>(slotCount).fill(-1);
+  const tryPlace = (c: number, seen: boolean[]): boolean => {
+    const slots = candidates[c].slots;
+    for (let i = 0; i < slots.length; i++) {
+      const s = slots[i];
+      if (seen[s]) continue;
+      seen[s] = true;
+      if (owner[s] === -1 || tryPlace(owner[s], seen)) {
+        owner[s] = c;
+        return true;
+      }
+    }
+    return false;
+  };
+  let filled = 0;
+  for (let c = 0; c < candidates.length && filled < slotCount; c++) {
+    if (tryPlace(c, new Array<boolean>(slotCount).fill(false))) filled += 1;
+  }
+  return filled;
+}
+
+/** Every distinct set of slots the locked players can leave open, one callback per set. */
+function forEachLockPlacement(locked: Candidate[], slotCount: number, visit: (openSlots: number[]) => void) {
+  const used = new Array<boolean>(slotCount).fill(false);
+  const seen = new Set<string>();
+  const place = (k: number) => {
+    if (k === locked.length) {
+      const open = used.map((taken, s) => (taken ? -1 : s)).filter((s) => s >= 0);
+      const key = open.join(',');
+      if (seen.has(key)) return;
+      seen.add(key);
+      visit(open);
+      return;
+    }
+    const slots = locked[k].slots;
+    for (let i = 0; i < slots.length; i++) {
+      if (used[slots[i]]) continue;
+      used[slots[i]] = true;
+      place(k + 1);
+      used[slots[i]] = false;
+    }
+  };
+  place(0);
+}
+
+/**
+ * Cheapest ('min') or priciest ('max') salary that fills `openSlots` with
+ * distinct players, or null when they can't be filled. Each slot only needs its
+ * `openSlots.length` best candidates: any other pick can be swapped for one of
+ * them without making the total worse.
+ */
+function bestFillSalary(openSlots: number[], pool: Candidate[], mode: 'min' | 'max'): number | null {
+  if (openSlots.length === 0) return 0;
+  const cost = (c: Candidate) => (mode === 'min' ? c.salary : -c.salary);
+  const lists = openSlots
+    .map((slot) => pool
+      .filter((c) => c.slots.includes(slot))
+      .sort((a, b) => cost(a) - cost(b))
+      .slice(0, openSlots.length))
+    .sort((a, b) => a.length - b.length);
+  if (lists.some((list) => list.length === 0)) return null;
+
+  // Suffix sums of each slot's best cost bound the rest of the search.
+  const bound = new Array<number>(lists.length + 1).fill(0);
+  for (let i = lists.length - 1; i >= 0; i--) bound[i] = bound[i + 1] + cost(lists[i][0]);
+
+  let best = Infinity;
+  const used = new Set<string>();
+  const search = (depth: number, total: number) => {
+    if (total + bound[depth] >= best) return;
+    if (depth === lists.length) {
+      best = total;
+      return;
+    }
+    const list = lists[depth];
+    for (let i = 0; i < list.length; i++) {
+      if (used.has(list[i].id)) continue;
+      used.add(list[i].id);
+      search(depth + 1, total + cost(list[i]));
+      used.delete(list[i].id);
+    }
+  };
+  search(0, 0);
+  if (!Number.isFinite(best)) return null;
+  return mode === 'min' ? best : -best;
+}
+
+export function diagnoseOptimizerRules(players: OptimizerPlayer[], rules: OptimizerRules): OptimizerDiagnostic[] {
+  const siteRules = getSiteRules(rules.site);
+  const slots = siteRules.slots;
+  const rosterSize = slots.length;
+  const site = siteRules.label;
+  const diagnostics: OptimizerDiagnostic[] = [];
+
+  const excluded = new Set(rules.excludes);
+  const lockIds = new Set(rules.locks);
+  const inPool = new Set(players.map((player) => String(player.id)));
+  const available = players
+    .filter((player) => !excluded.has(String(player.id)) && finiteOr(player.salary, 0) > 0)
+    .map((player) => toCandidate(player, slots));
+  const locked = available.filter((c) => lockIds.has(c.id));
+  const unlocked = available.filter((c) => !lockIds.has(c.id));
+
+  // Locks
+  const missingLocks = rules.locks.filter((id) => !locked.some((c) => c.id === id));
+  if (missingLocks.length > 0) {
+    diagnostics.push({
+      code: 'locks',
+      message: `Locked ${missingLocks.length === 1 ? 'player' : 'players'} ${nameList(missingLocks)} ${missingLocks.length === 1 ? 'is' : 'are'} not in the active pool${missingLocks.some((id) => inPool.has(id)) ? ' (no salary)' : ''}.`,
+      fix: 'Unlock them, or clear the pool filters that removed them.',
+    });
+  }
+  if (locked.length > rosterSize) {
+    diagnostics.push({
+      code: 'locks',
+      message: `${locked.length} players are locked, but a ${site} lineup has ${rosterSize} slots.`,
+      fix: `Unlock at least ${locked.length - rosterSize} of them.`,
+    });
+    return diagnostics;
+  }
+  if (maxSlotFill(locked, rosterSize) < locked.length) {
+    diagnostics.push({
+      code: 'positions',
+      message: `Locked players ${nameList(locked.map((c) => c.name), rosterSize)} can't share one lineup: too few roster slots fit their positions.`,
+      fix: 'Unlock one of the players competing for the same position.',
+    });
+    return diagnostics;
+  }
+
+  // Showdown: one game, and a player's captain and FLEX rows can't both be locked.
+  if (siteRules.maxGames !== null) {
+    const gameCount = new Set(available.map((c) => c.gameId)).size;
+    if (gameCount > siteRules.maxGames) {
+      diagnostics.push({
+        code: 'games',
+        message: `${site} lineups come from ${siteRules.maxGames === 1 ? 'a single game' : `at most ${siteRules.maxGames} games`}, but the active pool spans ${gameCount} games.`,
+        fix: 'Filter the pool to one matchup.',
+      });
+      return diagnostics;
+    }
+  }
+  const doubleLocked = players.filter((player) => player.captainOf && lockIds.has(String(player.id)) && lockIds.has(player.captainOf));
+  if (doubleLocked.length > 0) {
+    diagnostics.push({
+      code: 'locks',
+      message: `${nameList(doubleLocked.map((player) => String(player.name || player.id)))} ${doubleLocked.length === 1 ? 'is' : 'are'} locked as both CPT and FLEX.`,
+      fix: 'Unlock one of the two rows for each of them.',
+    });
+    return diagnostics;
+  }
+
+  // Positions
+  const emptySlots = slots.filter((_, s) => !available.some((c) => c.slots.includes(s)));
+  if (emptySlots.length > 0) {
+    emptySlots.forEach((slot) => {
+      const excludedFits = players
+        .filter((player) => excluded.has(String(player.id)) && canFillSiteSlot(toSaPositions(String(player.position || '')), slot))
+        .map((player) => String(player.name || player.id));
+      diagnostics.push({
+        code: 'positions',
+        message: `No ${slot.label}-eligible player is left after excludes and pool filters.`,
+        fix: excludedFits.length > 0
+          ? `Unexclude ${nameList(excludedFits)}, or widen the pool filters.`
+          : `Widen the pool filters to bring back a ${slot.label}-eligible player.`,
+      });
+    });
+    return diagnostics;
+  }
+  if (maxSlotFill(available, rosterSize) < rosterSize) {
+    diagnostics.push({
+      code: 'positions',
+      message: `The active pool (${available.length} players) can't fill all ${rosterSize} ${site} slots at once.`,
+      fix: 'Unexclude players or widen the pool filters.',
+    });
+    return diagnostics;
+  }
+
+  // Salary: the locks are fixed, so compare their salary plus the cheapest/priciest completion to the cap/floor.
+  const lockedSalary = locked.reduce((sum, c) => sum + c.salary, 0);
+  const fills: number[][] = [];
+  forEachLockPlacement(locked, rosterSize, (openSlots) => {
+    const low = bestFillSalary(openSlots, unlocked, 'min');
+    const high = bestFillSalary(openSlots, unlocked, 'max');
+    if (low !== null && high !== null) fills.push([low, high]);
+  });
+  const openCount = rosterSize - locked.length;
+  if (fills.length === 0) {
+    diagnostics.push({
+      code: 'positions',
+      message: `With ${locked.length} locked, the rest of the pool can't fill the other ${openCount} slots.`,
+      fix: 'Unlock a player or unexclude players at the open positions.',
+    });
+    return diagnostics;
+  }
+  const cheapestFill = Math.min(...fills.map(([low]) => low));
+  const priciestFill = Math.max(...fills.map(([, high]) => high));
+  if (lockedSalary + cheapestFill > siteRules.salaryCap) {
+    const priciestLock = [...locked].sort((a, b) => b.salary - a.salary)[0];
+    diagnostics.push(locked.length > 0
+      ? {
+          code: 'salary_cap',
+          message: `Locked salary ${formatSalary(lockedSalary)} plus the cheapest way to fill the other ${openCount} slots (${formatSalary(cheapestFill)}) is ${formatSalary(lockedSalary + cheapestFill)}, over the ${formatSalary(siteRules.salaryCap)} cap.`,
+          fix: `Unlock ${priciestLock.name} (${formatSalary(priciestLock.salary)}), or unexclude cheaper players.`,
+        }
+      : {
+          code: 'salary_cap',
+          message: `The cheapest possible lineup costs ${formatSalary(cheapestFill)}, over the ${formatSalary(siteRules.salaryCap)} cap.`,
+          fix: 'Unexclude cheaper players or lower the min salary filter.',
+        });
+  }
+  if (lockedSalary + priciestFill < rules.salaryFloor) {
+    diagnostics.push({
+      code: 'salary_floor',
+      message: `The most expensive lineup the pool allows${locked.length > 0 ? ' with these locks' : ''} costs ${formatSalary(lockedSalary + priciestFill)}, under the ${formatSalary(rules.salaryFloor)} salary floor.`,
+      fix: `Lower the salary floor to ${formatSalary(lockedSalary + priciestFill)} or less${locked.length > 0 ? ', or unlock cheaper players' : ''}.`,
+    });
+  }
+
+  // Exposure, counted in roster spots across the whole portfolio.
+  const total = rules.numLineups;
+  const capacity = rosterSize * total;
+  let requiredSpots = 0;
+  let allowedSpots = 0;
+  const everyLineup: Candidate[] = [];
+  available.forEach((c) => {
+    const bound = rules.exposures[c.id];
+    const isLocked = lockIds.has(c.id);
+    const minPct = isLocked ? 100 : bound?.min ?? 0;
+    const maxPct = isLocked ? 100 : bound?.max ?? rules.maxExposurePct;
+    const minCount = countFor(minPct, total, 'min');
+    const maxCount = countFor(maxPct, total, 'max');
+    if (minCount > maxCount) {
+      diagnostics.push({
+        code: 'exposure',
+        message: `${c.name}: min exposure ${minPct}% needs ${minCount} of ${total} lineups, but max ${maxPct}% allows ${maxCount}.`,
+        fix: `Raise ${c.name}'s max exposure or lower the min.`,
+      });
+    }
+    requiredSpots += minCount;
+    allowedSpots += maxCount;
+    if (minCount >= total) everyLineup.push(c);
+  });
+  players
+    .filter((player) => excluded.has(String(player.id)) && (rules.exposures[String(player.id)]?.min ?? 0) > 0)
+    .forEach((player) => {
+      diagnostics.push({
+        code: 'exposure',
+        message: `${player.name || player.id} has a ${rules.exposures[String(player.id)].min}% min exposure but is excluded.`,
+        fix: 'Remove the min exposure or the exclude.',
+      });
+    });
+  if (everyLineup.length > rosterSize) {
+    diagnostics.push({
+      code: 'exposure',
+      message: `${everyLineup.length} players must be in every lineup (locks and 100% min exposures), but a lineup has ${rosterSize} slots.`,
+      fix: `Lower min exposure below 100% for at least ${everyLineup.length - rosterSize} of them.`,
+    });
+  } else if (requiredSpots > capacity) {
+    diagnostics.push({
+      code: 'exposure',
+      message: `Min exposures need ${requiredSpots} roster spots across ${total} lineups, but only ${capacity} exist.`,
+      fix: `Lower min exposures so they add up to at most ${rosterSize * 100}%.`,
+    });
+  }
+  if (allowedSpots < capacity) {
+    diagnostics.push({
+      code: 'exposure',
+      message: `Max exposures allow only ${allowedSpots} roster spots across ${total} lineups, but ${capacity} must be filled.`,
+      fix: `Raise the global max exposure (${rules.maxExposurePct}%) or the per-player caps, or build fewer lineups.`,
+    });
+  }
+
+  // Uniqueness: players in every lineup can't help two lineups differ.
+  const freeSlots = rosterSize - Math.min(rosterSize, everyLineup.length);
+  if (total > 1 && freeSlots < rules.minUniquePlayers) {
+    diagnostics.push({
+      code: 'uniqueness',
+      message: `${everyLineup.length} players are in every lineup, leaving ${freeSlots} free ${freeSlots === 1 ? 'slot' : 'slots'}, but lineups must differ by ${rules.minUniquePlayers} players.`,
+      fix: freeSlots > 0
+        ? `Lower min unique players to ${freeSlots}, or unlock players.`
+        : 'Unlock players or lower 100% min exposures.',
+    });
+  }
+
+  // Team limits
+  const userCap = rules.stack.maxPlayersPerTeam;
+  const teamCap = siteRules.maxPlayersPerTeam === null ? userCap : Math.min(siteRules.maxPlayersPerTeam, userCap ?? Infinity);
+  const teamCounts = new Map<string, number>();
+  available.forEach((c) => teamCounts.set(c.teamId, (teamCounts.get(c.teamId) ?? 0) + 1));
+  if (teamCap !== null) {
+    const lockedByTeam = new Map<string, number>();
+    locked.forEach((c) => lockedByTeam.set(c.teamId, (lockedByTeam.get(c.teamId) ?? 0) + 1));
+    lockedByTeam.forEach((count, teamId) => {
+      if (count <= teamCap) return;
+      diagnostics.push({
+        code: 'team_limit',
+        message: `${count} locked players are from ${teamId}, above the ${teamCap}-per-team limit.`,
+        fix: `Unlock ${count - teamCap} ${teamId} ${count - teamCap === 1 ? 'player' : 'players'}${userCap !== null ? ' or raise Max Per Team' : ''}.`,
+      });
+    });
+    let reachable = 0;
+    teamCounts.forEach((count) => {
+      reachable += Math.min(count, teamCap);
+    });
+    if (reachable < rosterSize) {
+      diagnostics.push({
+        code: 'team_limit',
+        message: `At most ${teamCap} per team across ${teamCounts.size} available teams fills only ${reachable} of ${rosterSize} slots.`,
+        fix: userCap !== null ? 'Raise Max Per Team or unexclude players from other teams.' : 'Unexclude players from other teams.',
+      });
+    }
+  }
+  if (teamCounts.size < siteRules.minTeams) {
+    diagnostics.push({
+      code: 'team_limit',
+      message: `A ${site} lineup needs players from ${siteRules.minTeams} teams, but the active pool has ${teamCounts.size}.`,
+      fix: 'Unexclude players from other teams or widen the pool filters.',
+    });
+  }
+
+  // Stacks
+  if (rules.stack.enforceTeamStack) {
+    const size = rules.stack.minTeamStackSize;
+    if (teamCap !== null && teamCap < size) {
+      diagnostics.push({
+        code: 'stacks',
+        message: `Team stack needs ${size} players from one team, but the per-team limit is ${teamCap}.`,
+        fix: `Lower the team stack size to ${teamCap} or raise Max Per Team.`,
+      });
+    } else if (!Array.from(teamCounts.values()).some((count) => count >= size)) {
+      diagnostics.push({
+        code: 'stacks',
+        message: `Team stack needs ${size} players from one team, but no team has that many in the active pool.`,
+        fix: 'Lower the team stack size or unexclude players.',
+      });
+    }
+  }
+  const games = teamsByGame(available);
+  rules.stack.games.forEach((rule) => {
+    const label = describeGameStackRule(rule);
+    if (rule.maxPlayers !== undefined && rule.maxPlayers < rule.minPlayers) {
+      diagnostics.push({
+        code: 'stacks',
+        message: `Game stack ${label} asks for at least ${rule.minPlayers} but at most ${rule.maxPlayers} players.`,
+        fix: 'Raise the max or lower the min on that rule.',
+      });
+      return;
+    }
+    if (!requiresQualifyingGames(rule)) return;
+    if (rule.gameId && !games.has(rule.gameId)) {
+      diagnostics.push({
+        code: 'stacks',
+        message: `Game stack ${label} targets a game with no players in the active pool.`,
+        fix: 'Pick a game on this slate or remove the rule.',
+      });
+      return;
+    }
+    const qualifying = stackRuleGames(rule, games).filter((gameId) => {
+      const teams = games.get(gameId) || [];
+      const gameCount = available.filter((c) => c.gameId === gameId).length;
+      if (gameCount < rule.minPlayers) return false;
+      if (rule.minBringBack === 0) return true;
+      return teams.length >= 2 && teams.every((teamId) =>
+        available.filter((c) => c.gameId === gameId && c.teamId === teamId).length >= rule.minBringBack);
+    });
+    if (qualifying.length < rule.minGames) {
+      diagnostics.push({
+        code: 'stacks',
+        message: `Game stack ${label} needs ${rule.minGames} qualifying ${rule.minGames === 1 ? 'game' : 'games'}, but only ${qualifying.length} ${qualifying.length === 1 ? 'has' : 'have'} enough available players.`,
+        fix: 'Lower the rule\'s min players, bring-back or game count, or unexclude players.',
+      });
+    }
+  });
+
+  return diagnostics;
+}
+
+/** Normalizes the request's rules the way the engines do, then diagnoses them. */
+export function diagnoseOptimizerRequest(request: OptimizerRequest): OptimizerDiagnostic[] {
+  return diagnoseOptimizerRules(Array.isArray(request.players) ? request.players : [], normalizeOptimizerRules(request.rules));
+}
+
+export function formatOptimizerDiagnostics(diagnostics: OptimizerDiagnostic[]): string {
+  return diagnostics.map((d) => `${d.message} ${d.fix}`).join(' ');
+}
@@ -0,0 +1,231 @@
+import type { Lineup } from '../../../types';
+import { partitionPlayerGroupRules } from '../../../utils/playerGroups';
+import { buildCaptainPairRules } from '../../../utils/showdown';
+import { getSiteRules } from '../../../utils/siteRules';
+import { generateLineups, resolveGeneratorConfig, toExposureMap } from '../qiea-optimizer/engine';
+import { normalizeConfig } from '../sa-optimizer/config';
+import { gameIdFor } from '../sa-optimizer/stacks';
+import { buildPlayerPool } from '../sa-optimizer/pool';
+import { generatePortfolio } from '../sa-optimizer/portfolio';
+import type { LineupSlot, Player as SaPlayer } from '../sa-optimizer/types';
+import { diagnoseOptimizerRules, formatOptimizerDiagnostics } from './diagnostics';
+import { finiteOr, normalizeOptimizerRules, toSaPositions } from './rules';
+import {
+  EngineRunControl,
+  OPTIMIZER_ENGINES,
+  OptimizerPlayer,
+  OptimizerProgress,
+  OptimizerRequest,
+  OptimizerResult,
+  OptimizerRules,
+  OptimizerRunStatus,
+} from './types';
+
+export { normalizeOptimizerRules } from './rules';
+
+type ProgressCallback = (progress: OptimizerProgress) => void;
+type StopReason = Exclude<OptimizerRunStatus, 'complete'>;
+
+export interface OptimizerRunOptions {
+  /** Lineups returned by the paused run being resumed. */
+  priorLineups?: Lineup[];
+  /** Polled between lineups; resolves with the reason to stop, or null to keep going. */
+  checkpoint?: () => Promise<StopReason | null>;
+}
+
+function toSaPlayer(player: OptimizerPlayer, rules: OptimizerRules, locks: Set<string>, excludes: Set<string>): SaPlayer {
+  const team = String(player.team || 'UNK').toUpperCase();
+  const opp = String(player.opponent || 'UNK').toUpperCase();
+  const projection = finiteOr(player.projection, 0);
+  const exposure = rules.exposures[player.id];
+  const maxExposure = exposure?.max ?? (rules.maxExposurePct < 100 ? rules.maxExposurePct : undefined);
+  return {
+    id: String(player.id),
+    name: String(player.name || player.id),
+    positions: toSaPositions(String(player.position || '')),
+    salary: finiteOr(player.salary, 0),
+    projection,
+    ev: finiteOr(player.ev, projection),
+    ceiling: finiteOr(player.ceiling, projection),
+    ownership: finiteOr(player.ownership, 0),
+    teamId: team,
+    gameId: gameIdFor(team, opp),
+    locked: locks.has(player.id),
+    excluded: excludes.has(player.id),
+    ...(exposure?.min !== undefined ? { minExposure: exposure.min } : {}),
+    ...(maxExposure !== undefined ? { maxExposure } : {}),
+  };
+}
+
+function toLineup(slotRows: LineupSlot[], index: number): Lineup {
+  let totalSalary = 0;
+  let totalProjection = 0;
+  let totalCeiling = 0;
+  let totalOwnership = 0;
+  for (let i = 0; i < slotRows.length; i++) {
+    const player = slotRows[i].player;
+    totalSalary += player.salary;
+    totalProjection += player.projection;
+    totalCeiling += player.ceiling || player.projection;
+    totalOwnership += player.ownership;
+  }
+  return {
+    id: `sa_${Date.now()}_${index}_${Math.random().toString(36).slice(2, 7)}`,
+    playerIds: slotRows.map((row) => row.player.id),
+    totalSalary,
+    totalProjection,
+    totalCeiling,
+    totalOwnership,
+    lineupSource: 'optimizer',
+  };
+}
+
+async function runSaPortfolio(
+  players: OptimizerPlayer[],
+  rules: OptimizerRules,
+  solver: 'highs' | 'greedy',
+  onProgress: ProgressCallback,
+  control: EngineRunControl,
+): Promise<Lineup[]> {
+  const siteRules = getSiteRules(rules.site);
+  const locks = new Set(rules.locks);
+  const excludes = new Set(rules.excludes);
+  const pool = buildPlayerPool(players.map((player) => toSaPlayer(player, rules, locks, excludes)));
+  const userCap = rules.stack.maxPlayersPerTeam;
+  const teamCap = siteRules.maxPlayersPerTeam === null ? userCap : Math.min(siteRules.maxPlayersPerTeam, userCap ?? Infinity);
+  const config = normalizeConfig({
+    targetLineups: rules.numLineups,
+    salaryCap: siteRules.salaryCap,
+    salaryFloor: rules.salaryFloor,
+    minSalary: rules.minSalary,
+    minUniquePlayers: rules.minUniquePlayers,
+    randomnessPct: rules.randomnessPct,
+    weightEv: rules.weights.ev,
+    weightProjection: rules.weights.projection,
+    weightCeiling: rules.weights.ceiling,
+    weightLeverage: rules.weights.leverage,
+    enforceTeamStack: rules.stack.enforceTeamStack,
+    minTeamStackSize: rules.stack.minTeamStackSize,
+    slots: siteRules.slots.map((slot) => ({ slot: slot.key, eligible: slot.eligible })),
+    ...(teamCap !== null ? { maxPlayersPerTeam: teamCap } : {}),
+    minTeams: siteRules.minTeams,
+    solver,
+    groupRules: rules.groups,
+    gameStacks: rules.stack.games,
+    ...(rules.maxDuplicates !== null && rules.fieldSize > 0
+      ? { fieldSize: rules.fieldSize, maxDuplicates: rules.maxDuplicates }
+      : {}),
+  });
+
+  const lineups = await generatePortfolio(pool, config, (current, lineup) => {
+    onProgress({ current, total: rules.numLineups, lineup: toLineup(lineup, current) });
+  }, control);
+  return lineups.map((lineup, idx) => toLineup(lineup, idx + 1));
+}
+
+async function runQiea(
+  players: OptimizerPlayer[],
+  rules: OptimizerRules,
+  onProgress: ProgressCallback,
+  control: EngineRunControl,
+): Promise<{ lineups: Lineup[]; warnings: string[] }> {
+  // QIEA reads exposure values in (0, 1] as fractions, so hand it fractions to keep percent semantics exact.
+  const config = resolveGeneratorConfig({
+    site: rules.site,
+    numLineups: rules.numLineups,
+    salaryFloor: rules.salaryFloor,
+    minHamming: rules.minUniquePlayers,
+    global_max_exposure_pct: rules.maxExposurePct / 100,
+    randomization_base_pct: rules.randomnessPct / 100,
+    enforce_team_stack: rules.stack.enforceTeamStack,
+    min_team_stack_size: rules.stack.minTeamStackSize,
+    group_rules: rules.groups,
+    game_stacks: rules.stack.games,
+    ...(rules.stack.maxPlayersPerTeam !== null ? { max_players_per_team: rules.stack.maxPlayersPerTeam } : {}),
+  });
+  const exposures = toExposureMap(
+    Object.fromEntries(
+      Object.entries(rules.exposures).map(([id, bound]) => [
+        id,
+        {
+          ...(bound.min !== undefined ? { min: bound.min / 100 } : {}),
+          ...(bound.max !== undefined ? { max: bound.max / 100 } : {}),
+        },
+      ]),
+    ),
+  );
+  const locks = new Set(rules.locks);
+  const excludes = new Set(rules.excludes);
+
+  const result = await generateLineups(players, config, exposures, locks, excludes, new Map(), (_progress, currentBest, count) => {
+    onProgress({ current: count, total: rules.numLineups, lineup: currentBest });
+  }, control);
+  return { lineups: result.lineups, warnings: result.warnings };
+}
+
+/**
+ * Runs one optimizer request on the chosen engine. Shared by the worker and tests.
+ * Fresh runs are diagnosed first and fail fast, naming the conflicting constraints.
+ * With `options.priorLineups` the run resumes a paused one: the result lists the
+ * prior lineups first, then the newly accepted ones.
+ */
+export async function runOptimizerRequest(
+  request: OptimizerRequest,
+  onProgress: ProgressCallback,
+  options: OptimizerRunOptions = {},
+): Promise<OptimizerResult> {
+  const engine = OPTIMIZER_ENGINES.includes(request.engine) ? request.engine : 'ilp';
+  const players = Array.isArray(request.players) ? request.players : [];
+  if (players.length === 0) {
+    throw new Error('No players provided. Load the slate before running the optimizer.');
+  }
+  const normalized = normalizeOptimizerRules(request.rules);
+  const siteRules = getSiteRules(normalized.site);
+  if (siteRules.unavailableReason) {
+    throw new Error(siteRules.unavailableReason);
+  }
+  const priorLineups = options.priorLineups ?? [];
+  // A resumed run already passed these checks when it started.
+  if (priorLineups.length === 0) {
+    const conflicts = diagnoseOptimizerRules(players, normalized);
+    if (conflicts.length > 0) {
+      throw new Error(`Constraints conflict: ${formatOptimizerDiagnostics(conflicts)}`);
+    }
+  }
+  const excluded = new Set(normalized.excludes);
+  // Showdown pools carry a captain row per player; a lineup may use only one of the two.
+  const captainPairs = siteRules.captain ? buildCaptainPairRules(players) : [];
+  const groupCheck = partitionPlayerGroupRules([...normalized.groups, ...captainPairs], {
+    rosterSize: siteRules.slots.length,
+    availableIds: new Set(players.map((player) => String(player.id)).filter((id) => !excluded.has(id))),
+    lockedIds: new Set(normalized.locks),
+  });
+  const rules: OptimizerRules = { ...normalized, groups: groupCheck.enforced };
+
+  let stopReason = null as StopReason | null;
+  const control: EngineRunControl = {
+    priorLineups: priorLineups.map((lineup) => lineup.playerIds),
+    checkpoint: async () => {
+      stopReason = options.checkpoint ? await options.checkpoint() : null;
+      return stopReason !== null;
+    },
+  };
+
+  let lineups: Lineup[];
+  const warnings = [...groupCheck.warnings];
+  if (engine === 'qiea') {
+    if (rules.maxDuplicates !== null && rules.fieldSize > 0) {
+      warnings.push('The duplication limit is not enforced by the QIEA engine; use ILP or Greedy to apply it.');
+    }
+    const result = await runQiea(players, rules, onProgress, control);
+    lineups = result.lineups;
+    warnings.push(...result.warnings);
+  } else {
+    lineups = await runSaPortfolio(players, rules, engine === 'greedy' ? 'greedy' : 'highs', onProgress, control);
+  }
+
+  const allLineups = [...priorLineups, ...lineups];
+  // A stop requested on the last lineup still counts as a finished run.
+  const status: OptimizerRunStatus = stopReason && allLineups.length < rules.numLineups ? stopReason : 'complete';
+  return { engine, status, lineups: allLineups, warnings };
+}
@@ -0,0 +1,74 @@
+import { sanitizePlayerGroupRules } from '../../../utils/playerGroups';
+import { BASE_POSITIONS, getSiteRules, parseSitePositions } from '../../../utils/siteRules';
+import { normalizeGameStackRules } from '../sa-optimizer/stacks';
+import { OptimizerRequestRules, OptimizerRules } from './types';
+
+export function finiteOr(value: unknown, fallback: number): number {
+  const num = Number(value);
+  return Number.isFinite(num) ? num : fallback;
+}
+
+function clampPct(value: unknown, fallback: number): number {
+  return Math.max(0, Math.min(100, finiteOr(value, fallback)));
+}
+
+function toIdList(input: unknown): string[] {
+  if (!Array.isArray(input)) return [];
+  return Array.from(new Set(input.map((id) => String(id)).filter(Boolean)));
+}
+
+export function normalizeOptimizerRules(input: OptimizerRequestRules = {}): OptimizerRules {
+  const siteRules = getSiteRules(input.site);
+  const rosterSize = siteRules.slots.length;
+  const locks = toIdList(input.locks);
+  const exposures: OptimizerRules['exposures'] = {};
+  Object.entries(input.exposures || {}).forEach(([id, bound]) => {
+    const min = Number.isFinite(Number(bound?.min)) ? clampPct(bound?.min, 0) : undefined;
+    const max = Number.isFinite(Number(bound?.max)) ? clampPct(bound?.max, 100) : undefined;
+    if (min === undefined && max === undefined) return;
+    exposures[String(id)] = {
+      ...(min !== undefined ? { min } : {}),
+      ...(max !== undefined ? { max } : {}),
+    };
+  });
+  return {
+    site: siteRules.site,
+    numLineups: Math.max(1, Math.floor(finiteOr(input.numLineups, 1))),
+    salaryFloor: Math.max(0, Math.min(siteRules.salaryCap, Math.floor(finiteOr(input.salaryFloor, 0)))),
+    minSalary: Math.max(0, Math.floor(finiteOr(input.minSalary, 3000))),
+    minUniquePlayers: Math.max(1, Math.min(rosterSize, Math.floor(finiteOr(input.minUniquePlayers, 1)))),
+    randomnessPct: clampPct(input.randomnessPct, 0),
+    locks,
+    // A lock wins over an exclude so callers can layer late-swap locks over saved optimizer excludes.
+    excludes: toIdList(input.excludes).filter((id) => !locks.includes(id)),
+    exposures,
+    maxExposurePct: clampPct(input.maxExposurePct, 100),
+    stack: {
+      enforceTeamStack: input.stack?.enforceTeamStack === true,
+      minTeamStackSize: Math.max(2, Math.min(rosterSize, Math.floor(finiteOr(input.stack?.minTeamStackSize, 2)))),
+      games: normalizeGameStackRules(input.stack?.games, rosterSize),
+      maxPlayersPerTeam: finiteOr(input.stack?.maxPlayersPerTeam, 0) > 0
+        ? Math.min(rosterSize, Math.floor(finiteOr(input.stack?.maxPlayersPerTeam, rosterSize)))
+        : null,
+    },
+    groups: sanitizePlayerGroupRules(input.groups),
+    weights: {
+      ev: finiteOr(input.weights?.ev, 1),
+      projection: finiteOr(input.weights?.projection, 0),
+      ceiling: finiteOr(input.weights?.ceiling, 0),
+      leverage: finiteOr(input.weights?.leverage, 0),
+    },
+    fieldSize: Math.max(0, Math.floor(finiteOr(input.fieldSize, 0))),
+    maxDuplicates: input.maxDuplicates != null && finiteOr(input.maxDuplicates, -1) >= 0 ? Number(input.maxDuplicates) : null,
+  };
+}
+
+/** Slot positions the engines read from a player's position string; unparseable ones fall back by family. */
+export function toSaPositions(rawPos: string): string[] {
+  const parsed = parseSitePositions(rawPos);
+  if (parsed.length > 0) return parsed;
+  const raw = String(rawPos || '').toUpperCase();
+  if (raw.includes('G')) return ['PG', 'SG'];
+  if (raw.includes('F')) return ['SF', 'PF'];
+  return BASE_POSITIONS;
+}
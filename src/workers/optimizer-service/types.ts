@@ -0,0 +1,145 @@
+import type { Lineup, Player } from '../../../types';
+import type { PlayerGroupRule } from '../../../utils/playerGroups';
+import type { GameStackRule } from '../sa-optimizer/types';
+import type { DfsSite } from '../../../utils/siteRules';
+
+/**
+ * ilp    — HiGHS portfolio solver (sa-optimizer), SA fallback on solver errors.
+ * qiea   — quantum-inspired evolutionary search (qiea-optimizer).
+ * greedy — sa-optimizer's greedy init + SA polish, no LP solve.
+ */
+export type OptimizerEngine = 'ilp' | 'qiea' | 'greedy';
+
+export const OPTIMIZER_ENGINES: OptimizerEngine[] = ['ilp', 'qiea', 'greedy'];
+
+/** App player plus the objective value the caller resolved; `ev` falls back to projection. */
+export type OptimizerPlayer = Player & { ev?: number };
+
+/** Percent (0-100) of the requested lineups a player may appear in. */
+export interface OptimizerExposure {
+  min?: number;
+  max?: number;
+}
+
+export interface OptimizerStackRules {
+  enforceTeamStack: boolean;
+  minTeamStackSize: number;
+  /** Game stacks and bring-backs, keyed on `${team}_vs_${opp}` (sorted) game ids. */
+  games: GameStackRule[];
+  /** User cap on players from one team; null leaves only the site's limit. */
+  maxPlayersPerTeam: number | null;
+}
+
+export interface OptimizerObjectiveWeights {
+  ev: number;
+  projection: number;
+  ceiling: number;
+  leverage: number;
+}
+
+/**
+ * Everything that constrains a run. Constraint fields (salary, uniqueness, locks,
+ * excludes, exposures, stacks) mean the same thing on every engine; `weights`
+ * only steer ilp/greedy, since QIEA scores players with its own GPP blend.
+ */
+export interface OptimizerRules {
+  site: DfsSite;
+  numLineups: number;
+  salaryFloor: number;
+  minSalary: number;
+  minUniquePlayers: number;
+  randomnessPct: number;
+  locks: string[];
+  excludes: string[];
+  exposures: Record<string, OptimizerExposure>;
+  maxExposurePct: number;
+  stack: OptimizerStackRules;
+  /** Groups that conflict with the pool or locks are skipped and reported in `warnings`. */
+  groups: PlayerGroupRule[];
+  weights: OptimizerObjectiveWeights;
+  /** Contest entries the duplication estimate is scaled to; 0 leaves `maxDuplicates` unenforced. */
+  fieldSize: number;
+  /** Lineups expected to be duplicated more than this many times in the field are rejected; ilp/greedy only. */
+  maxDuplicates: number | null;
+}
+
+/** What callers send: any rule may be omitted and falls back to its default. */
+export type OptimizerRequestRules = Omit<Partial<OptimizerRules>, 'stack'> & {
+  stack?: Partial<OptimizerStackRules>;
+};
+
+export interface OptimizerRequest {
+  engine: OptimizerEngine;
+  players: OptimizerPlayer[];
+  rules: OptimizerRequestRules;
+}
+
+export interface OptimizerProgress {
+  current: number;
+  total: number;
+  lineup: Lineup | null;
+}
+
+export type OptimizerDiagnosticCode =
+  | 'locks'
+  | 'positions'
+  | 'salary_cap'
+  | 'salary_floor'
+  | 'exposure'
+  | 'uniqueness'
+  | 'team_limit'
+  | 'games'
+  | 'stacks';
+
+/**
+ * A constraint conflict found before solving. `message` names the constraints
+ * involved; `fix` is the smallest change that would resolve it.
+ */
+export interface OptimizerDiagnostic {
+  code: OptimizerDiagnosticCode;
+  message: string;
+  fix: string;
+}
+
+/** How a run ended: finished, paused at a lineup boundary (resumable), or cancelled. */
+export type OptimizerRunStatus = 'complete' | 'paused' | 'cancelled';
+
+export interface OptimizerResult {
+  engine: OptimizerEngine;
+  status: OptimizerRunStatus;
+  /** Every lineup accepted so far, including those carried over from before a pause. */
+  lineups: Lineup[];
+  warnings: string[];
+}
+
+/** Lets an engine stop cleanly between lineups and pick up where a paused run left off. */
+export interface EngineRunControl {
+  /** Player ids of lineups accepted before the pause; they count toward exposure and uniqueness. */
+  priorLineups: string[][];
+  /** Awaited after each accepted lineup; resolves true to stop and return what was accepted. */
+  checkpoint: () => Promise<boolean>;
+}
+
+export type WorkerInMessage =
+  | { type: 'run'; payload: OptimizerRequest }
+  | { type: 'pause' }
+  | { type: 'resume' }
+  | { type: 'cancel' };
+
+export type WorkerOutMessage =
+  | {
+      type: 'progress';
+      payload: OptimizerProgress;
+    }
+  | {
+      type: 'paused';
+      payload: OptimizerResult;
+    }
+  | {
+      type: 'result';
+      payload: OptimizerResult;
+    }
+  | {
+      type: 'error';
+      payload: { message: string };
+    };
@@ -0,0 +1,109 @@
+import { runOptimizerRequest } from './engines';
+import { OptimizerRequest, OptimizerResult, WorkerInMessage, WorkerOutMessage } from './types';
+
+const workerScope = self as unknown as {
+  onmessage: ((event: MessageEvent<WorkerInMessage>) => void) | null;
+  postMessage: (message: WorkerOutMessage) => void;
+};
+
+// A run is a sequence of segments: the first 'run', then one per 'resume'.
+// Pause/cancel only take effect at the engine's next lineup boundary.
+let activeRequest: OptimizerRequest | null = null;
+let pausedResult: OptimizerResult | null = null;
+let isRunning = false;
+let pendingStop: 'paused' | 'cancelled' | null = null;
+
+// Yield a macrotask so pause/cancel messages queued during a lineup get delivered.
+const checkpoint = () =>
+  new Promise<'paused' | 'cancelled' | null>((resolve) => {
+    setTimeout(() => resolve(pendingStop), 0);
+  });
+
+const postError = (error: unknown) => {
+  workerScope.postMessage({
+    type: 'error',
+    payload: {
+      message: error instanceof Error ? error.message : 'Unknown optimizer worker error',
+    },
+  });
+};
+
+const runSegment = async (request: OptimizerRequest, prior: OptimizerResult | null) => {
+  isRunning = true;
+  pendingStop = null;
+  const timerLabel = `optimizer-${request.engine}-${Date.now()}`;
+  console.time(timerLabel);
+  try {
+    const result = await runOptimizerRequest(
+      request,
+      (progress) => {
+        workerScope.postMessage({ type: 'progress', payload: progress });
+      },
+      { priorLineups: prior?.lineups, checkpoint },
+    );
+    if (prior) result.warnings = Array.from(new Set([...prior.warnings, ...result.warnings]));
+
+    if (result.status === 'paused') {
+      pausedResult = result;
+      workerScope.postMessage({ type: 'paused', payload: result });
+    } else {
+      pausedResult = null;
+      workerScope.postMessage({ type: 'result', payload: result });
+    }
+  } catch (error) {
+    pausedResult = null;
+    postError(error);
+  } finally {
+    console.timeEnd(timerLabel);
+    isRunning = false;
+    pendingStop = null;
+  }
+};
+
+workerScope.onmessage = (event: MessageEvent<WorkerInMessage>) => {
+  const msg = event.data;
+  switch (msg?.type) {
+    case 'run': {
+      const request = msg.payload;
+      if (!request || !Array.isArray(request.players)) {
+        postError(new Error('Invalid input: expected { engine, players, rules }.'));
+        return;
+      }
+      if (isRunning) {
+        postError(new Error('Optimizer is already running.'));
+        return;
+      }
+      activeRequest = request;
+      pausedResult = null;
+      void runSegment(request, null);
+      break;
+    }
+    case 'pause':
+      if (isRunning && pendingStop === null) pendingStop = 'paused';
+      break;
+    case 'resume':
+      if (isRunning) return;
+      if (!activeRequest || !pausedResult) {
+        postError(new Error('Nothing to resume: no paused optimizer run.'));
+        return;
+      }
+      void runSegment(activeRequest, pausedResult);
+      break;
+    case 'cancel':
+      if (isRunning) {
+        pendingStop = 'cancelled';
+        return;
+      }
+      // Cancelling while paused finalizes the partial portfolio as-is.
+      if (pausedResult) {
+        const result: OptimizerResult = { ...pausedResult, status: 'cancelled' };
+        pausedResult = null;
+        workerScope.postMessage({ type: 'result', payload: result });
+      }
+      break;
+    default:
+      postError(new Error(`Unknown optimizer command: ${String((msg as { type?: unknown })?.type)}`));
+  }
+};
+
+export {};
@@ -1,9 +1,10 @@
-import { Lineup, Player } from '../../types';
-
-const DK_SLOTS = ['PG', 'SG', 'SF', 'PF', 'C', 'G', 'F', 'UTIL'] as const;
-type DkSlot = (typeof DK_SLOTS)[number];
-
-const workerScope = self as any;
+import { Lineup, Player } from '../../../types';
+import { PlayerGroupRule, meetsPlayerGroupRules, sanitizePlayerGroupRules } from '../../../utils/playerGroups';
+import { getSalaryTier } from '../../../utils/salaryTiers';
+import { BASE_POSITIONS, CAPTAIN_POSITION, DfsSite, SiteSlotRule, getSiteRules } from '../../../utils/siteRules';
+import type { EngineRunControl } from '../optimizer-service/types';
+import { meetsGameStackRules, normalizeGameStackRules } from '../sa-optimizer/stacks';
+import type { GameStackRule } from '../sa-optimizer/types';
 
 // ---- Type Definitions ----
 
@@ -20,7 +21,7 @@ interface PlayerWithMetrics extends Player {
   minutes_proj?: number;
 }
 
-interface GeneratorConfig {
+export interface GeneratorConfig {
   n_lineups: number;
   global_max_exposure_pct: number;
   min_hamming_distance: number;
@@ -34,9 +35,12 @@ interface GeneratorConfig {
   max_anchor_appearances: number;
   max_leverage_appearances: number;
   max_filler_appearances: number;
+  site: DfsSite;
+  roster_slots: SiteSlotRule[];
+  max_players_per_team: number | null;
+  min_teams: number;
   salary_cap: number;
   salary_floor: number;
-  required_positions: Record<DkSlot, number>;
   // ILP-specific
   contest_type: 'cash' | 'gpp';
   randomization_base_pct: number;
@@ -45,6 +49,10 @@ interface GeneratorConfig {
   ownership_penalty_weight: number;
   enforce_game_stack: boolean;
   min_game_stack_size: number;
+  enforce_team_stack: boolean;
+  min_team_stack_size: number;
+  group_rules: PlayerGroupRule[];
+  game_stacks: GameStackRule[];
 }
 
 interface ExposureBound {
@@ -52,27 +60,12 @@ interface ExposureBound {
   max: number;
 }
 
-interface ConfirmedLineupInfo {
+export interface ConfirmedLineupInfo {
   status?: string;
   minutes_projected?: number;
   depth_rank?: number;
 }
 
-interface RequestPayload {
-  players: Player[];
-  config?: Record<string, unknown>;
-  exposures?:
-    | Map<string, { min?: number; max?: number }>
-    | Array<[string, { min?: number; max?: number }]>
-    | Record<string, { min?: number; max?: number }>;
-  locks?: Set<string> | string[];
-  excludes?: Set<string> | string[];
-  confirmedLineups?:
-    | Map<string, ConfirmedLineupInfo>
-    | Array<[string, ConfirmedLineupInfo]>
-    | Record<string, ConfirmedLineupInfo>;
-}
-
 // ---- Default Config ----
 
 const DEFAULT_CONFIG: GeneratorConfig = {
@@ -89,9 +82,12 @@ const DEFAULT_CONFIG: GeneratorConfig = {
   max_anchor_appearances: 10,
   max_leverage_appearances: 5,
   max_filler_appearances: 3,
+  site: 'DraftKings',
+  roster_slots: getSiteRules('DraftKings').slots,
+  max_players_per_team: null,
+  min_teams: 1,
   salary_cap: 50000,
   salary_floor: 0,
-  required_positions: { PG: 1, SG: 1, SF: 1, PF: 1, C: 1, G: 1, F: 1, UTIL: 1 },
   // ILP defaults
   contest_type: 'gpp',
   randomization_base_pct: 0.08,
@@ -100,6 +96,10 @@ const DEFAULT_CONFIG: GeneratorConfig = {
   ownership_penalty_weight: 0.15,
   enforce_game_stack: false,
   min_game_stack_size: 2,
+  enforce_team_stack: false,
+  min_team_stack_size: 2,
+  group_rules: [],
+  game_stacks: [],
 };
 
 // ---- Utility Functions ----
@@ -143,6 +143,10 @@ const getMinutesProjection = (player: Player): number => {
   return getNumeric(player, ['minutesProjection', 'MINUTES_PROJ', 'minutes_proj', 'proj_minutes'], 0);
 };
 
+const getMinutesVariance = (player: Player): number => {
+  return getNumeric(player, ['minutesVariance'], 0);
+};
+
 const getCeiling = (player: Player): number => {
   const projected = safeNumber(player.projection, 0);
   return getNumeric(
@@ -161,7 +165,7 @@ const parsePositions = (position: string): string[] => {
   const normalized = new Set<string>();
 
   tokens.forEach((tok) => {
-    if (['PG', 'SG', 'SF', 'PF', 'C', 'G', 'F'].includes(tok)) {
+    if (['PG', 'SG', 'SF', 'PF', 'C', 'G', 'F', CAPTAIN_POSITION].includes(tok)) {
       normalized.add(tok);
     }
   });
@@ -180,51 +184,54 @@ const parsePositions = (position: string): string[] => {
   return Array.from(normalized);
 };
 
-const getEligibleSlots = (position: string): DkSlot[] => {
+/**
+ * Returns the keys of every roster slot the position string can fill.
+ * Generic "G"/"F" designations fill combo slots that accept both halves
+ * (DK G/F/UTIL); players with no parseable position fall back to UTIL-style slots.
+ */
+const getEligibleSlots = (position: string, rosterSlots: SiteSlotRule[]): string[] => {
   const pos = parsePositions(position);
-  const slots = new Set<DkSlot>();
-  if (pos.includes('PG')) {
-    slots.add('PG');
-    slots.add('G');
-    slots.add('UTIL');
-  }
-  if (pos.includes('SG')) {
-    slots.add('SG');
-    slots.add('G');
-    slots.add('UTIL');
-  }
-  if (pos.includes('SF')) {
-    slots.add('SF');
-    slots.add('F');
-    slots.add('UTIL');
-  }
-  if (pos.includes('PF')) {
-    slots.add('PF');
-    slots.add('F');
-    slots.add('UTIL');
-  }
-  if (pos.includes('C')) {
-    slots.add('C');
-    slots.add('UTIL');
-  }
-  if (pos.includes('G')) {
-    slots.add('G');
-    slots.add('UTIL');
-  }
-  if (pos.includes('F')) {
-    slots.add('F');
-    slots.add('UTIL');
-  }
-  if (slots.size === 0) slots.add('UTIL');
-  return Array.from(slots);
+  const slots = rosterSlots
+    .filter((slot) => {
+      if (pos.some((p) => slot.eligible.includes(p))) return true;
+      if (pos.includes('G') && slot.eligible.includes('PG') && slot.eligible.includes('SG')) return true;
+      if (pos.includes('F') && slot.eligible.includes('SF') && slot.eligible.includes('PF')) return true;
+      return false;
+    })
+    .map((slot) => slot.key);
+  if (slots.length > 0) return slots;
+  return rosterSlots
+    .filter((slot) => BASE_POSITIONS.every((p) => slot.eligible.includes(p)))
+    .map((slot) => slot.key);
 };
 
-const canAssignDraftKingsSlots = (lineup: PlayerWithMetrics[]): boolean => {
-  if (lineup.length !== DK_SLOTS.length) return false;
+const meetsTeamLimits = (lineup: PlayerWithMetrics[], config: GeneratorConfig): boolean => {
+  const counts = new Map<string, number>();
+  lineup.forEach((p) => {
+    const team = String(p.team || '').toUpperCase();
+    counts.set(team, (counts.get(team) || 0) + 1);
+  });
+  if (counts.size < config.min_teams) return false;
+  if (config.max_players_per_team === null) return true;
+  return Array.from(counts.values()).every((count) => count <= (config.max_players_per_team as number));
+};
 
-  const slotOrder = [...DK_SLOTS].sort((a, b) => {
-    const aCount = lineup.filter((p) => getEligibleSlots(p.position).includes(a)).length;
-    const bCount = lineup.filter((p) => getEligibleSlots(p.position).includes(b)).length;
+const meetsTeamStack = (lineup: PlayerWithMetrics[], config: GeneratorConfig): boolean => {
+  if (!config.enforce_team_stack) return true;
+  const counts = new Map<string, number>();
+  lineup.forEach((p) => {
+    const team = String(p.team || '').toUpperCase();
+    counts.set(team, (counts.get(team) || 0) + 1);
+  });
+  return Array.from(counts.values()).some((count) => count >= config.min_team_stack_size);
+};
+
+const canAssignRosterSlots = (lineup: PlayerWithMetrics[], rosterSlots: SiteSlotRule[]): boolean => {
+  if (lineup.length !== rosterSlots.length) return false;
+
+  const slotOrder = rosterSlots.map((slot) => slot.key).sort((a, b) => {
+    const aCount = lineup.filter((p) => getEligibleSlots(p.position, rosterSlots).includes(a)).length;
+    const bCount = lineup.filter((p) => getEligibleSlots(p.position, rosterSlots).includes(b)).length;
     return aCount - bCount;
   });
 
@@ -236,7 +243,7 @@ const canAssignDraftKingsSlots = (lineup: PlayerWithMetrics[]): boolean => {
 
     for (let i = 0; i < lineup.length; i++) {
       if (used.has(i)) continue;
-      if (!getEligibleSlots(lineup[i].position).includes(slot)) continue;
+      if (!getEligibleSlots(lineup[i].position, rosterSlots).includes(slot)) continue;
       used.add(i);
       if (dfs(slotIndex + 1)) return true;
       used.delete(i);
@@ -248,23 +255,25 @@ const canAssignDraftKingsSlots = (lineup: PlayerWithMetrics[]): boolean => {
   return dfs(0);
 };
 
-const getSalaryTier = (salary: number): PlayerWithMetrics['tier'] => {
-  if (salary >= 9000) return 'elite';
-  if (salary >= 5000) return 'mid_range';
-  if (salary >= 3500) return 'value';
-  return 'punt';
-};
-
 const normalizeDvpDiffToRank = (dvpDiff: number): number => {
   const clamped = clamp(dvpDiff, -5, 5);
   const rank = 15 - clamped * 3;
   return Math.round(clamp(rank, 1, 30));
 };
 
-const calculateMinuteMultiplier = (projMin: number, confirmedMin: number, isPromoted: boolean): number => {
+// A confirmed-minutes bump inside the player's usual game-to-game swing is
+// shrunk toward 1 by its signal-to-noise ratio (minutesVariance is minutes²).
+const calculateMinuteMultiplier = (
+  projMin: number,
+  confirmedMin: number,
+  isPromoted: boolean,
+  minutesVariance = 0,
+): number => {
   if (projMin <= 0 || confirmedMin <= 0) return 1;
 
-  const rawMultiplier = confirmedMin / projMin;
+  const bump = confirmedMin - projMin;
+  const signal = minutesVariance > 0 && bump > 0 ? (bump * bump) / (bump * bump + minutesVariance) : 1;
+  const rawMultiplier = 1 + (confirmedMin / projMin - 1) * signal;
 
   if (isPromoted && rawMultiplier >= 1.8) {
     return Math.min(1.8, rawMultiplier * 0.95);
@@ -278,6 +287,13 @@ const calculateMinuteMultiplier = (projMin: number, confirmedMin: number, isProm
   return 1;
 };
 
+// A caller-supplied team cap can only tighten the site's limit.
+const resolveTeamCap = (siteCap: number | null, raw: unknown): number | null => {
+  const requested = Number(raw);
+  if (!Number.isFinite(requested) || requested <= 0) return siteCap;
+  return siteCap === null ? Math.floor(requested) : Math.min(siteCap, Math.floor(requested));
+};
+
 const extractGameId = (player: Player): string => {
   const team = String(player.team || 'UNK').toUpperCase().trim();
   const opp = String(player.opponent || 'UNK').toUpperCase().trim();
@@ -321,47 +337,25 @@ const calculateValueScore = (player: PlayerWithMetrics, dvpRank: number): number
 
 // ---- Parsing Helpers ----
 
-const toStringSet = (input: unknown): Set<string> => {
-  if (!input) return new Set<string>();
-  if (input instanceof Set) return new Set(Array.from(input).map((x) => String(x)));
-  if (Array.isArray(input)) return new Set(input.map((x) => String(x)));
-  return new Set<string>();
-};
-
 const parseOptionalNumber = (val: unknown): number | undefined => {
   if (val === undefined || val === null || val === '') return undefined;
   const parsed = Number(val);
   return Number.isFinite(parsed) ? parsed : undefined;
 };
 
-const toExposureMap = (
-  input: RequestPayload['exposures'],
+export const toExposureMap = (
+  input?: Record<string, { min?: number; max?: number }>,
 ): Map<string, { min?: number; max?: number }> => {
-  if (!input) return new Map();
-  if (input instanceof Map) return new Map(input);
-  if (Array.isArray(input)) return new Map(input);
-  if (typeof input === 'object') {
-    return new Map(
-      Object.entries(input).map(([k, v]) => [
-        String(k),
-        {
-          min: parseOptionalNumber((v as any)?.min),
-          max: parseOptionalNumber((v as any)?.max),
-        },
-      ]),
-    );
-  }
-  return new Map();
-};
-
-const toConfirmedLineups = (input: RequestPayload['confirmedLineups']): Map<string, ConfirmedLineupInfo> => {
-  if (!input) return new Map();
-  if (input instanceof Map) return new Map(input);
-  if (Array.isArray(input)) return new Map(input);
-  if (typeof input === 'object') {
-    return new Map(Object.entries(input).map(([k, v]) => [String(k), (v || {}) as ConfirmedLineupInfo]));
-  }
-  return new Map();
+  if (!input || typeof input !== 'object') return new Map();
+  return new Map(
+    Object.entries(input).map(([k, v]) => [
+      String(k),
+      {
+        min: parseOptionalNumber((v as any)?.min),
+        max: parseOptionalNumber((v as any)?.max),
+      },
+    ]),
+  );
 };
 
 const percentageToCount = (value: number, total: number, roundMode: 'min' | 'max'): number => {
@@ -379,7 +373,7 @@ const percentageToCount = (value: number, total: number, roundMode: 'min' | 'max
 
 // ---- Config Resolution ----
 
-const resolveGeneratorConfig = (raw?: Record<string, unknown>): GeneratorConfig => {
+export const resolveGeneratorConfig = (raw?: Record<string, unknown>): GeneratorConfig => {
   const nLineups = Math.max(
     1,
     Math.floor(
@@ -418,9 +412,10 @@ const resolveGeneratorConfig = (raw?: Record<string, unknown>): GeneratorConfig
     ),
   );
 
+  const siteRules = getSiteRules(String(raw?.site ?? DEFAULT_CONFIG.site));
   const salaryCap = Math.max(
     1000,
-    Math.floor(safeNumber(raw?.salary_cap ?? raw?.salaryCap, DEFAULT_CONFIG.salary_cap)),
+    Math.floor(safeNumber(raw?.salary_cap ?? raw?.salaryCap, siteRules.salaryCap)),
   );
 
   const salaryFloorRaw = safeNumber(raw?.salary_floor ?? raw?.salaryFloor, DEFAULT_CONFIG.salary_floor);
@@ -459,6 +454,10 @@ const resolveGeneratorConfig = (raw?: Record<string, unknown>): GeneratorConfig
     min_hamming_distance: minHamming,
     qiea_generations: qieaGenerations,
     qiea_population: qieaPopulation,
+    site: siteRules.site,
+    roster_slots: siteRules.slots,
+    max_players_per_team: resolveTeamCap(siteRules.maxPlayersPerTeam, raw?.max_players_per_team ?? raw?.maxPlayersPerTeam),
+    min_teams: siteRules.minTeams,
     salary_cap: salaryCap,
     salary_floor: salaryFloor,
     chalk_threshold_own: safeNumber(raw?.chalk_threshold_own, DEFAULT_CONFIG.chalk_threshold_own),
@@ -487,6 +486,16 @@ const resolveGeneratorConfig = (raw?: Record<string, unknown>): GeneratorConfig
       2,
       Math.floor(safeNumber(raw?.min_game_stack_size, DEFAULT_CONFIG.min_game_stack_size)),
     ),
+    enforce_team_stack: Boolean(raw?.enforce_team_stack ?? raw?.enforceTeamStack),
+    min_team_stack_size: clamp(
+      Math.floor(
+        safeNumber(raw?.min_team_stack_size ?? raw?.minTeamStackSize, DEFAULT_CONFIG.min_team_stack_size),
+      ),
+      2,
+      siteRules.slots.length,
+    ),
+    group_rules: sanitizePlayerGroupRules(raw?.group_rules ?? raw?.groupRules),
+    game_stacks: normalizeGameStackRules(raw?.game_stacks ?? raw?.gameStacks, siteRules.slots.length),
   };
 };
 
@@ -563,7 +572,12 @@ const enrichPlayersWithMetrics = (
       const projectedMinutes = Math.max(1, minutesProjection || 20);
       const isPromoted = safeNumber(confirmed.depth_rank, 99) === 1 && ownMean > 5;
 
-      enriched.minutes_multiplier = calculateMinuteMultiplier(projectedMinutes, confirmedMinutes, isPromoted);
+      enriched.minutes_multiplier = calculateMinuteMultiplier(
+        projectedMinutes,
+        confirmedMinutes,
+        isPromoted,
+        getMinutesVariance(player),
+      );
       enriched.promoted_starter = isPromoted;
       enriched.ceiling_final = getCeiling(player) * enriched.minutes_multiplier;
     } else {
@@ -662,21 +676,26 @@ function computeEffectiveProjections(
 
 /**
  * Groups player indices by position eligibility for ILP constraints.
- * G = PG ∪ SG (guard-eligible), F = SF ∪ PF (forward-eligible).
+ * One group per distinct slot eligibility set; its minimum is the number of
+ * slots restricted to that set (DK: G = PG ∪ SG needs PG + SG + G = 3).
  */
-function computePositionGroups(players: PlayerWithMetrics[]): Record<string, number[]> {
-  const groups: Record<string, number[]> = { PG: [], SG: [], SF: [], PF: [], C: [], G: [], F: [] };
-  players.forEach((p, i) => {
-    const pos = parsePositions(p.position);
-    if (pos.includes('PG')) { groups.PG.push(i); groups.G.push(i); }
-    if (pos.includes('SG')) { groups.SG.push(i); groups.G.push(i); }
-    if (pos.includes('SF')) { groups.SF.push(i); groups.F.push(i); }
-    if (pos.includes('PF')) { groups.PF.push(i); groups.F.push(i); }
-    if (pos.includes('C')) { groups.C.push(i); }
-    groups.G = [...new Set(groups.G)];
-    groups.F = [...new Set(groups.F)];
+function computePositionGroups(
+  players: PlayerWithMetrics[],
+  rosterSlots: SiteSlotRule[],
+): Array<{ name: string; indices: number[]; minCount: number }> {
+  const groups = new Map<string, { name: string; indices: number[]; minCount: number }>();
+  rosterSlots.forEach((slot) => {
+    const name = [...slot.eligible].sort().join('_');
+    if (groups.has(name)) return;
+    const minCount = rosterSlots.filter((other) => other.eligible.every((p) => slot.eligible.includes(p))).length;
+    if (minCount >= rosterSlots.length) return;
+    const indices: number[] = [];
+    players.forEach((p, i) => {
+      if (parsePositions(p.position).some((pos) => slot.eligible.includes(pos))) indices.push(i);
+    });
+    groups.set(name, { name, indices, minCount });
   });
-  return groups;
+  return Array.from(groups.values());
 }
 
 /**
@@ -745,7 +764,7 @@ function buildExclusionConstraint(
   const terms = lineup
     .map((p) => `x${playerIndex.get(p.id)}`)
     .join(' + ');
-  return `${terms} <= ${DK_SLOTS.length - hammingDistance}`;
+  return `${terms} <= ${lineup.length - hammingDistance}`;
 }
 
 /**
@@ -775,8 +794,8 @@ function buildLPModel(
 
   lines.push('Subject To');
 
-  // Roster size = 8
-  appendConstraint(lines, 'roster', formatUnitTermTokens(varNames), '=', DK_SLOTS.length);
+  // Roster size (8 on DK, 9 on FD)
+  appendConstraint(lines, 'roster', formatUnitTermTokens(varNames), '=', config.roster_slots.length);
 
   // Salary cap
   const salaryCoeffs = players.map((p) => safeNumber(p.salary, 0));
@@ -786,17 +805,25 @@ function buildLPModel(
   }
 
   // Position group constraints
-  const posGroups = computePositionGroups(players);
-  const posGroupMinimums: Record<string, number> = {
-    PG: 1, SG: 1, SF: 1, PF: 1, C: 1,
-    G: 2,  // PG slot + G slot both need guard-eligible
-    F: 2,  // SF slot + F slot both need forward-eligible
-  };
-  for (const [groupName, minCount] of Object.entries(posGroupMinimums)) {
-    const indices = posGroups[groupName];
-    if (!indices || indices.length === 0) continue;
-    const terms = formatUnitTermTokens(indices.map((i) => varNames[i]));
-    appendConstraint(lines, `pos_${groupName}`, terms, '>=', minCount);
+  const posGroups = computePositionGroups(players, config.roster_slots);
+  for (const group of posGroups) {
+    if (group.indices.length === 0) continue;
+    const terms = formatUnitTermTokens(group.indices.map((i) => varNames[i]));
+    appendConstraint(lines, `pos_${group.name}`, terms, '>=', group.minCount);
+  }
+
+  // Per-team cap (FanDuel: at most 4 from one team)
+  if (config.max_players_per_team !== null) {
+    const teamMap = new Map<string, number[]>();
+    players.forEach((p, i) => {
+      const team = String(p.team || 'UNK').toUpperCase().replace(/[^A-Z0-9]/g, '_');
+      if (!teamMap.has(team)) teamMap.set(team, []);
+      teamMap.get(team)!.push(i);
+    });
+    teamMap.forEach((idxs, team) => {
+      if (idxs.length <= (config.max_players_per_team as number)) return;
+      appendConstraint(lines, `team_max_${team}`, formatUnitTermTokens(idxs.map((i) => varNames[i])), '<=', config.max_players_per_team as number);
+    });
   }
 
   // Game-stack constraints (optional)
@@ -894,11 +921,11 @@ const overlapCount = (a: PlayerWithMetrics[], b: PlayerWithMetrics[]): number =>
   return a.reduce((count, p) => count + (bIds.has(p.id) ? 1 : 0), 0);
 };
 
-const findSlotAssignment = (lineup: PlayerWithMetrics[]): DkSlot[] | null => {
-  const assignment: DkSlot[] = new Array(lineup.length);
-  const usedSlots = new Set<DkSlot>();
+const findSlotAssignment = (lineup: PlayerWithMetrics[], rosterSlots: SiteSlotRule[]): string[] | null => {
+  const assignment: string[] = new Array(lineup.length);
+  const usedSlots = new Set<string>();
   const order = lineup
-    .map((p, idx) => ({ idx, eligible: getEligibleSlots(p.position) }))
+    .map((p, idx) => ({ idx, eligible: getEligibleSlots(p.position, rosterSlots) }))
     .sort((a, b) => a.eligible.length - b.eligible.length);
 
   const dfs = (k: number): boolean => {
@@ -930,11 +957,13 @@ const buildHeuristicLineup = (
   preferenceWeights?: Map<string, number>,
   maxAttemptsOverride?: number,
 ): PlayerWithMetrics[] | null => {
+  const rosterSlots = config.roster_slots;
+  const rosterSize = rosterSlots.length;
   const lockedPlayers = activePool.filter((p) => lockIds.has(p.id));
-  if (lockedPlayers.length > DK_SLOTS.length) return null;
-  const lockAssignment = findSlotAssignment(lockedPlayers);
+  if (lockedPlayers.length > rosterSize) return null;
+  const lockAssignment = findSlotAssignment(lockedPlayers, rosterSlots);
   if (lockedPlayers.length > 0 && !lockAssignment) return null;
-  const occupiedSlots = new Set<DkSlot>((lockAssignment || []).filter(Boolean));
+  const occupiedSlots = new Set<string>((lockAssignment || []).filter(Boolean));
 
   let best: PlayerWithMetrics[] | null = null;
   let bestScore = -Infinity;
@@ -953,15 +982,15 @@ const buildHeuristicLineup = (
   for (let attempt = 0; attempt < attempts; attempt++) {
     const selected: PlayerWithMetrics[] = [...lockedPlayers];
     const selectedIds = new Set(selected.map((p) => p.id));
-    const remainingSlots = DK_SLOTS.filter((slot) => !occupiedSlots.has(slot));
+    const remainingSlots = rosterSlots.map((slot) => slot.key).filter((slot) => !occupiedSlots.has(slot));
 
-    while (selected.length < DK_SLOTS.length && remainingSlots.length > 0) {
+    while (selected.length < rosterSize && remainingSlots.length > 0) {
       const currentSalary = sumSalary(selected);
       const nextSlot = remainingSlots
         .map((slot) => {
           const count = activePool.reduce((acc, p) => {
             if (!isCandidateAvailable(p, selectedIds)) return acc;
-            return acc + (getEligibleSlots(p.position).includes(slot) ? 1 : 0);
+            return acc + (getEligibleSlots(p.position, rosterSlots).includes(slot) ? 1 : 0);
           }, 0);
           return { slot, count };
         })
@@ -971,7 +1000,13 @@ const buildHeuristicLineup = (
       const slotsLeftAfterPick = remainingSlots.length - 1;
       const candidates = activePool.filter((p) => {
         if (!isCandidateAvailable(p, selectedIds)) return false;
-        if (!getEligibleSlots(p.position).includes(nextSlot)) return false;
+        if (!getEligibleSlots(p.position, rosterSlots).includes(nextSlot)) return false;
+        if (
+          config.max_players_per_team !== null &&
+          selected.filter((q) => q.team === p.team).length >= config.max_players_per_team
+        ) {
+          return false;
+        }
 
         const nextSalary = currentSalary + safeNumber(p.salary, 0);
         if (nextSalary > config.salary_cap) return false;
@@ -1018,13 +1053,20 @@ const buildHeuristicLineup = (
       if (slotIndex >= 0) remainingSlots.splice(slotIndex, 1);
     }
 
-    if (selected.length !== DK_SLOTS.length) continue;
+    if (selected.length !== rosterSize) continue;
     const totalSalary = sumSalary(selected);
     if (totalSalary < config.salary_floor || totalSalary > config.salary_cap) continue;
-    if (!canAssignDraftKingsSlots(selected)) continue;
+    if (!canAssignRosterSlots(selected, rosterSlots)) continue;
+    if (!meetsTeamLimits(selected, config)) continue;
+    if (!meetsTeamStack(selected, config)) continue;
+    if (!meetsPlayerGroupRules(new Set(selected.map((p) => p.id)), config.group_rules)) continue;
+    if (!meetsGameStackRules(
+      selected.map((p) => ({ teamId: String(p.team || ''), gameId: p.game_id || extractGameId(p) })),
+      config.game_stacks,
+    )) continue;
 
     const tooSimilar = accepted.some((prev) =>
-      overlapCount(selected, prev) > DK_SLOTS.length - config.min_hamming_distance,
+      overlapCount(selected, prev) > rosterSize - config.min_hamming_distance,
     );
     if (tooSimilar) continue;
 
@@ -1055,7 +1097,8 @@ const qieaGenerateLineup = (
   accepted: PlayerWithMetrics[][],
   randPct: number,
 ): PlayerWithMetrics[] | null => {
-  if (activePool.length < DK_SLOTS.length) return null;
+  const rosterSize = config.roster_slots.length;
+  if (activePool.length < rosterSize) return null;
 
   const baseScores = computeEffectiveProjections(activePool, config, 0).map((score, i) => {
     return Math.max(0.001, score + (underExposureBonus.get(activePool[i].id) || 0));
@@ -1064,7 +1107,7 @@ const qieaGenerateLineup = (
   const probs = activePool.map((p, i) => {
     if (lockIds.has(p.id)) return 0.99;
     if (dynamicExcludes.has(p.id)) return 0.001;
-    return clamp((baseScores[i] / sumBase) * DK_SLOTS.length, 0.01, 0.95);
+    return clamp((baseScores[i] / sumBase) * rosterSize, 0.01, 0.95);
   });
 
   const scoreById = new Map(activePool.map((p, i) => [p.id, baseScores[i]]));
@@ -1153,7 +1196,7 @@ const qieaGenerateLineup = (
     if (unlockedIdx.length > 0) {
       const unlockedSum = unlockedIdx.reduce((sum, idx) => sum + probs[idx], 0) || 1;
       const lockedCount = activePool.reduce((sum, p) => sum + (lockIds.has(p.id) ? 1 : 0), 0);
-      const targetUnlockedMass = Math.max(0.2, DK_SLOTS.length - lockedCount);
+      const targetUnlockedMass = Math.max(0.2, rosterSize - lockedCount);
       const scale = targetUnlockedMass / unlockedSum;
       unlockedIdx.forEach((idx) => {
         probs[idx] = clamp(probs[idx] * scale, 0.01, 0.99);
@@ -1168,7 +1211,7 @@ const qieaGenerateLineup = (
 
 // ---- Core Lineup Generator (QIEA-based) ----
 
-const generateLineups = async (
+export const generateLineups = async (
   rawPlayers: Player[],
   config: GeneratorConfig,
   explicitExposures: Map<string, { min?: number; max?: number }>,
@@ -1176,11 +1219,13 @@ const generateLineups = async (
   excludeIds: Set<string>,
   confirmedLineups: Map<string, ConfirmedLineupInfo>,
   onProgress: (progress: number, currentBest: Lineup | null, count: number) => void,
+  control?: EngineRunControl,
 ): Promise<{ lineups: Lineup[]; warnings: string[]; exposureRelaxed: boolean }> => {
   const warnings: string[] = [];
 
-  if (lockIds.size > DK_SLOTS.length) {
-    throw new Error(`Too many locked players (${lockIds.size}). Max is ${DK_SLOTS.length}.`);
+  const rosterSlots = config.roster_slots;
+  if (lockIds.size > rosterSlots.length) {
+    throw new Error(`Too many locked players (${lockIds.size}). Max is ${rosterSlots.length}.`);
   }
 
   for (const id of lockIds) {
@@ -1216,19 +1261,33 @@ const generateLineups = async (
     return safeNumber(p.salary, 0) > 0 && safeNumber(p.projection, 0) > 0;
   });
 
-  if (activePool.length < DK_SLOTS.length) {
+  if (activePool.length < rosterSlots.length) {
     throw new Error(`Optimizer pool too small (${activePool.length}) after exclusions.`);
   }
 
   const accepted: PlayerWithMetrics[][] = [];
   const appearances = new Map<string, number>();
 
-  const missingSlot = DK_SLOTS.find((slot) => !activePool.some((p) => getEligibleSlots(p.position).includes(slot)));
+  const missingSlot = rosterSlots
+    .map((slot) => slot.key)
+    .find((slot) => !activePool.some((p) => getEligibleSlots(p.position, rosterSlots).includes(slot)));
   if (missingSlot) {
     throw new Error(`No eligible players for ${missingSlot} in active pool after parsing positions.`);
   }
 
-  for (let iter = 0; iter < config.n_lineups; iter++) {
+  // Lineups accepted before a pause seed appearances and the diversity pool but are not returned again.
+  for (const ids of control?.priorLineups ?? []) {
+    const prior = ids.map((id) => byId.get(id)).filter((p): p is PlayerWithMetrics => Boolean(p));
+    if (prior.length !== ids.length) continue;
+    accepted.push(prior);
+    for (const p of prior) {
+      appearances.set(p.id, (appearances.get(p.id) || 0) + 1);
+    }
+  }
+  const priorCount = accepted.length;
+  let stopped = false;
+
+  for (let iter = priorCount; iter < config.n_lineups; iter++) {
     const randPct = getRandomizationPct(iter, config);
 
     const dynamicExcludes = new Set<string>(excludeIds);
@@ -1296,6 +1355,10 @@ const generateLineups = async (
       ),
       accepted.length,
     );
+    if (control && await control.checkpoint()) {
+      stopped = true;
+      break;
+    }
   }
 
   // Warn on unmet minimum exposure targets
@@ -1304,7 +1367,7 @@ const generateLineups = async (
     .filter((row) => row.min > row.got)
     .sort((a, b) => b.min - b.got - (a.min - a.got));
 
-  if (unmetMin.length > 0) {
+  if (unmetMin.length > 0 && !stopped) {
     const sample = unmetMin
       .slice(0, 6)
       .map((row) => {
@@ -1315,14 +1378,13 @@ const generateLineups = async (
     warnings.push(`Minimum exposure targets not fully met for ${unmetMin.length} player(s): ${sample}.`);
   }
 
-  if (accepted.length < config.n_lineups) {
+  if (accepted.length < config.n_lineups && !stopped) {
     warnings.push(
       `Generated ${accepted.length}/${config.n_lineups} unique lineups before exhausting feasible combinations.`,
     );
   }
 
-  const lineupModels = finalizeLineups(accepted);
-  onProgress(100, lineupModels[0] || null, lineupModels.length);
+  const lineupModels = finalizeLineups(accepted.slice(priorCount));
 
   return {
     lineups: lineupModels,
@@ -1330,67 +1392,3 @@ const generateLineups = async (
     exposureRelaxed: false,
   };
 };
-
-// ---- Worker Message Handler ----
-
-workerScope.onmessage = async (event: MessageEvent<RequestPayload>) => {
-  try {
-    const payload = event.data || { players: [] };
-    const players = Array.isArray(payload.players) ? payload.players : [];
-
-    if (players.length === 0) {
-      throw new Error('No players provided. Load the slate before running the optimizer.');
-    }
-
-    const config = resolveGeneratorConfig(payload.config);
-
-    const requestLocks = toStringSet(payload.locks);
-    const requestExcludes = toStringSet(payload.excludes);
-
-    const playerLocks = new Set(
-      players
-        .filter((p) => Boolean((p as any)?.optimizerLocked))
-        .map((p) => String(p.id)),
-    );
-    const playerExcludes = new Set(
-      players
-        .filter((p) => Boolean((p as any)?.optimizerExcluded))
-        .map((p) => String(p.id)),
-    );
-
-    const locks = new Set<string>([...requestLocks, ...playerLocks]);
-    const excludes = new Set<string>([...requestExcludes, ...playerExcludes]);
-
-    const explicitExposureMap = toExposureMap(payload.exposures);
-    const confirmedLineups = toConfirmedLineups(payload.confirmedLineups);
-
-    const result = await generateLineups(
-      players,
-      config,
-      explicitExposureMap,
-      locks,
-      excludes,
-      confirmedLineups,
-      (progress, currentBest, count) => {
-        workerScope.postMessage({
-          type: 'progress',
-          progress,
-          currentBest,
-          lineupsFound: count,
-        });
-      },
-    );
-
-    workerScope.postMessage({
-      type: 'result',
-      lineups: result.lineups,
-      warnings: result.warnings,
-      exposureRelaxed: result.exposureRelaxed,
-    });
-  } catch (error) {
-    workerScope.postMessage({
-      type: 'error',
-      message: error instanceof Error ? error.message : 'Unknown optimization error',
-    });
-  }
-};
@@ -0,0 +1,43 @@
+import { sanitizePlayerGroupRules } from '../../../utils/playerGroups';
+import { normalizeGameStackRules } from './stacks';
+import { OptimizerConfig, SLOT_CONFIG, SlotConfig } from './types';
+
+function normalizeSlots(input: unknown): SlotConfig[] {
+  if (!Array.isArray(input) || input.length === 0) return SLOT_CONFIG;
+  const slots = input
+    .filter((row) => row && typeof row.slot === 'string' && Array.isArray(row.eligible) && row.eligible.length > 0)
+    .map((row) => ({ slot: String(row.slot), eligible: row.eligible.map((pos: unknown) => String(pos).toUpperCase()) }));
+  return slots.length === input.length ? slots : SLOT_CONFIG;
+}
+
+export function normalizeConfig(input: OptimizerConfig): OptimizerConfig {
+  const slots = normalizeSlots(input.slots);
+  const rosterSize = slots.length;
+  const salaryCap = Math.floor(Number.isFinite(Number(input.salaryCap)) ? Number(input.salaryCap) : 50000);
+  const salaryFloorRaw = Math.floor(Number.isFinite(Number(input.salaryFloor)) ? Number(input.salaryFloor) : 0);
+  const salaryFloor = Math.max(0, Math.min(salaryFloorRaw, salaryCap));
+
+  return {
+    targetLineups: Math.max(0, Math.floor(input.targetLineups ?? 1)),
+    salaryCap,
+    salaryFloor,
+    minSalary: Math.max(0, Math.floor(Number.isFinite(Number(input.minSalary)) ? Number(input.minSalary) : 3000)),
+    minUniquePlayers: Math.max(1, Math.min(rosterSize, Math.floor(Number.isFinite(Number(input.minUniquePlayers)) ? Number(input.minUniquePlayers) : 1))),
+    randomnessPct: Math.max(0, Math.min(100, Number.isFinite(Number(input.randomnessPct)) ? Number(input.randomnessPct) : 0)),
+    weightEv: Number.isFinite(Number(input.weightEv)) ? Number(input.weightEv) : 1,
+    weightProjection: Number.isFinite(Number(input.weightProjection)) ? Number(input.weightProjection) : 0,
+    weightCeiling: Number.isFinite(Number(input.weightCeiling)) ? Number(input.weightCeiling) : 0,
+    weightLeverage: Number.isFinite(Number(input.weightLeverage)) ? Number(input.weightLeverage) : 0,
+    enforceTeamStack: input.enforceTeamStack === true,
+    minTeamStackSize: Math.max(2, Math.min(rosterSize, Math.floor(Number.isFinite(Number(input.minTeamStackSize)) ? Number(input.minTeamStackSize) : 2))),
+    slots,
+    maxPlayersPerTeam: Number(input.maxPlayersPerTeam) > 0 ? Math.floor(Number(input.maxPlayersPerTeam)) : undefined,
+    minTeams: Number(input.minTeams) > 1 ? Math.min(rosterSize, Math.floor(Number(input.minTeams))) : undefined,
+    solver: input.solver === 'greedy' ? 'greedy' : 'highs',
+    groupRules: sanitizePlayerGroupRules(input.groupRules),
+    gameStacks: normalizeGameStackRules(input.gameStacks, rosterSize),
+    ...(Number(input.fieldSize) > 0 && input.maxDuplicates != null && Number(input.maxDuplicates) >= 0
+      ? { fieldSize: Math.floor(Number(input.fieldSize)), maxDuplicates: Number(input.maxDuplicates) }
+      : {}),
+  };
+}
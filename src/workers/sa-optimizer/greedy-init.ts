@@ -1,4 +1,4 @@
-import { LineupState, OptimizerConfig, Player, PlayerPool, SLOT_CONFIG } from './types';
+import { LineupState, OptimizerConfig, Player, PlayerPool, SLOT_CONFIG, SlotConfig } from './types';
 
 const SCARCITY_TIEBREAKER: Record<string, number> = {
   C: 0,
@@ -16,8 +16,16 @@ function effectiveValue(player: Player, effectiveProjections: Map<string, number
   return Number.isFinite(val) ? (val as number) : player.projection;
 }
 
-function canFitSlot(player: Player, slotIdx: number): boolean {
-  const eligible = SLOT_CONFIG[slotIdx].eligible;
+function scarcityTiebreaker(slotDef: SlotConfig): number {
+  const direct = SCARCITY_TIEBREAKER[slotDef.slot];
+  if (direct !== undefined) return direct;
+  // Numbered single-position slots (e.g. FanDuel's PG1/PG2) rank like their position.
+  if (slotDef.eligible.length === 1) return SCARCITY_TIEBREAKER[slotDef.eligible[0]] ?? SCARCITY_TIEBREAKER.UTIL;
+  return SCARCITY_TIEBREAKER.UTIL;
+}
+
+function canFitSlot(player: Player, slotDef: SlotConfig): boolean {
+  const eligible = slotDef.eligible;
   for (let i = 0; i < player.positions.length; i++) {
     const pos = player.positions[i];
     for (let j = 0; j < eligible.length; j++) {
@@ -27,8 +35,12 @@ function canFitSlot(player: Player, slotIdx: number): boolean {
   return false;
 }
 
-function buildForcedAssignment(pool: PlayerPool, forcedIds: Set<string>): (Player | undefined)[] {
-  const chosenBySlot: (Player | undefined)[] = new Array(SLOT_CONFIG.length);
+function buildForcedAssignment(
+  pool: PlayerPool,
+  forcedIds: Set<string>,
+  slots: SlotConfig[],
+): (Player | undefined)[] {
+  const chosenBySlot: (Player | undefined)[] = new Array(slots.length);
   if (forcedIds.size === 0) return chosenBySlot;
 
   const forcedPlayers: Array<{ player: Player; slots: number[] }> = [];
@@ -37,19 +49,19 @@ function buildForcedAssignment(pool: PlayerPool, forcedIds: Set<string>): (Playe
     if (!player) {
       throw new Error(`greedyInit failed: forced player ${id} not found in pool`);
     }
-    const slots: number[] = [];
-    for (let i = 0; i < SLOT_CONFIG.length; i++) {
-      if (canFitSlot(player, i)) slots.push(i);
+    const fits: number[] = [];
+    for (let i = 0; i < slots.length; i++) {
+      if (canFitSlot(player, slots[i])) fits.push(i);
     }
-    if (slots.length === 0) {
-      throw new Error(`greedyInit failed: forced player ${player.name} (${player.id}) cannot fit any DK slot`);
+    if (fits.length === 0) {
+      throw new Error(`greedyInit failed: forced player ${player.name} (${player.id}) cannot fit any roster slot`);
     }
-    forcedPlayers.push({ player, slots });
+    forcedPlayers.push({ player, slots: fits });
   });
 
   forcedPlayers.sort((a, b) => a.slots.length - b.slots.length);
 
-  const used = new Array<boolean>(SLOT_CONFIG.length).fill(false);
+  const used = new Array<boolean>(slots.length).fill(false);
   const dfs = (idx: number): boolean => {
     if (idx >= forcedPlayers.length) return true;
     const row = forcedPlayers[idx];
@@ -67,15 +79,14 @@ function buildForcedAssignment(pool: PlayerPool, forcedIds: Set<string>): (Playe
 
   if (!dfs(0)) {
     throw new Error(
-      `greedyInit failed: unable to assign ${forcedPlayers.length} forced players to unique DK slots`,
+      `greedyInit failed: unable to assign ${forcedPlayers.length} forced players to unique roster slots`,
     );
   }
 
   return chosenBySlot;
 }
 
-function countEligibleForSlot(pool: PlayerPool, slotIdx: number): number {
-  const slotDef = SLOT_CONFIG[slotIdx];
+function countEligibleForSlot(pool: PlayerPool, slotDef: SlotConfig): number {
   const seen = new Set<string>();
   for (let i = 0; i < slotDef.eligible.length; i++) {
     const pos = slotDef.eligible[i];
@@ -95,8 +106,9 @@ export function greedyInit(
   forcedIds: Set<string>,
   blockedIds: Set<string>,
 ): LineupState {
-  if (forcedIds.size > SLOT_CONFIG.length) {
-    throw new Error(`greedyInit failed: ${forcedIds.size} forced players exceed lineup size ${SLOT_CONFIG.length}`);
+  const slots = config.slots ?? SLOT_CONFIG;
+  if (forcedIds.size > slots.length) {
+    throw new Error(`greedyInit failed: ${forcedIds.size} forced players exceed lineup size ${slots.length}`);
   }
 
   forcedIds.forEach((id) => {
@@ -105,20 +117,20 @@ export function greedyInit(
     }
   });
 
-  const slotIndices = Array.from({ length: SLOT_CONFIG.length }, (_, i) => i);
-  const scarcityCount = new Array<number>(SLOT_CONFIG.length);
-  for (let i = 0; i < SLOT_CONFIG.length; i++) {
-    scarcityCount[i] = countEligibleForSlot(pool, i);
+  const slotIndices = Array.from({ length: slots.length }, (_, i) => i);
+  const scarcityCount = new Array<number>(slots.length);
+  for (let i = 0; i < slots.length; i++) {
+    scarcityCount[i] = countEligibleForSlot(pool, slots[i]);
   }
 
   slotIndices.sort((a, b) => {
     const scarcityA = scarcityCount[a];
     const scarcityB = scarcityCount[b];
     if (scarcityA !== scarcityB) return scarcityA - scarcityB;
-    return SCARCITY_TIEBREAKER[SLOT_CONFIG[a].slot] - SCARCITY_TIEBREAKER[SLOT_CONFIG[b].slot];
+    return scarcityTiebreaker(slots[a]) - scarcityTiebreaker(slots[b]);
   });
 
-  const chosenBySlot = buildForcedAssignment(pool, forcedIds);
+  const chosenBySlot = buildForcedAssignment(pool, forcedIds, slots);
   const chosenIds = new Set<string>();
   for (let i = 0; i < chosenBySlot.length; i++) {
     const p = chosenBySlot[i];
@@ -143,14 +155,19 @@ export function greedyInit(
     const slotIdx = slotIndices[slotOrderIdx];
     if (chosenBySlot[slotIdx]) return fillSlots(slotOrderIdx + 1);
 
-    const slotDef = SLOT_CONFIG[slotIdx];
+    const slotDef = slots[slotIdx];
     let unfilledSlots = 0;
-    for (let i = 0; i < SLOT_CONFIG.length; i++) {
+    for (let i = 0; i < slots.length; i++) {
       if (!chosenBySlot[i]) unfilledSlots++;
     }
     const remainingSlots = unfilledSlots - 1;
     const remainingSalary = config.salaryCap - salaryUsed;
     const maxCandidateSalary = remainingSalary - config.minSalary * remainingSlots;
+    const teamCounts = new Map<string, number>();
+    for (let i = 0; i < chosenBySlot.length; i++) {
+      const chosen = chosenBySlot[i];
+      if (chosen) teamCounts.set(chosen.teamId, (teamCounts.get(chosen.teamId) ?? 0) + 1);
+    }
 
     const dedup = new Map<string, Player>();
     for (let e = 0; e < slotDef.eligible.length; e++) {
@@ -162,6 +179,7 @@ export function greedyInit(
         if (blockedIds.has(p.id)) continue;
         if (chosenIds.has(p.id)) continue;
         if (p.salary > maxCandidateSalary) continue;
+        if (config.maxPlayersPerTeam && (teamCounts.get(p.teamId) ?? 0) >= config.maxPlayersPerTeam) continue;
         if (!dedup.has(p.id)) dedup.set(p.id, p);
       }
     }
@@ -242,11 +260,11 @@ export function greedyInit(
   }
 
   let score = 0;
-  const filledSlots: Player[] = new Array(SLOT_CONFIG.length);
+  const filledSlots: Player[] = new Array(slots.length);
   for (let i = 0; i < chosenBySlot.length; i++) {
     const p = chosenBySlot[i];
     if (!p) {
-      throw new Error(`greedyInit failed: slot ${SLOT_CONFIG[i].slot} remained unfilled`);
+      throw new Error(`greedyInit failed: slot ${slots[i].slot} remained unfilled`);
     }
     filledSlots[i] = p;
     score += effectiveValue(p, effectiveProjections);
@@ -2,7 +2,11 @@ import highsLoader from 'highs';
 import highsWasmUrl from 'highs/runtime?url';
 import { greedyInit } from './greedy-init';
 import { runSA } from './sa-core';
-import { LineupSlot, OptimizerConfig, Player, PlayerPool, SLOT_CONFIG } from './types';
+import { describeGameStackRule, meetsGameStackRules, requiresQualifyingGames } from './stacks';
+import { estimateLineupDuplication, ownershipLog } from '../../../utils/duplication';
+import { meetsPlayerGroupRules } from '../../../utils/playerGroups';
+import type { EngineRunControl } from '../optimizer-service/types';
+import { LineupSlot, OptimizerConfig, Player, PlayerPool, SLOT_CONFIG, SlotConfig } from './types';
 
 interface ExposureBound {
   min: number;
@@ -20,15 +24,33 @@ interface TeamStackVar {
   playerIndices: number[];
 }
 
+interface PositionGroup {
+  positions: string[];
+  minCount: number;
+}
+
+// Objective points per log-unit of ownership after the first duplication rejection; doubles per rejection.
+const DUPLICATION_PENALTY_START = 2;
+
 let highsModulePromise: Promise<any> | null = null;
 
+// Under Node (the headless CLI, tests) the bundled wasm URL is a dev-server path;
+// highs finds its wasm next to its own script there instead.
+const IS_NODE_RUNTIME = typeof window === 'undefined'
+  && typeof process !== 'undefined'
+  && Boolean(process.versions?.node);
+
+function loadHighs(): Promise<any> {
+  return Promise.resolve(
+    highsLoader(IS_NODE_RUNTIME ? {} : {
+      locateFile: (file: string) => (file.endsWith('.wasm') ? highsWasmUrl : file),
+    }),
+  );
+}
+
 function getHighsModule(): Promise<any> {
   if (!highsModulePromise) {
-    highsModulePromise = Promise.resolve(
-      highsLoader({
-        locateFile: (file: string) => (file.endsWith('.wasm') ? highsWasmUrl : file),
-      }),
-    );
+    highsModulePromise = loadHighs();
   }
   return highsModulePromise;
 }
@@ -45,9 +67,8 @@ function pctToCount(pct: number, total: number, mode: 'min' | 'max'): number {
 
 function normalizeExposurePct(value: number): number {
   if (!Number.isFinite(value)) return 0;
-  const numeric = Number(value);
-  // Support fractional exposure encoding (0.15 => 15%).
-  return numeric > 0 && numeric < 1 ? numeric * 100 : numeric;
+  // Bounds arrive as percents (0-100) via the optimizer service request.
+  return Number(value);
 }
 
 function overlapCount(a: string[], b: string[]): number {
@@ -64,9 +85,13 @@ function overlapCount(a: string[], b: string[]): number {
   return overlap;
 }
 
+function slotsOf(config: OptimizerConfig): SlotConfig[] {
+  return config.slots ?? SLOT_CONFIG;
+}
+
 function lineupIds(lineup: LineupSlot[]): string[] {
-  const ids: string[] = new Array(SLOT_CONFIG.length);
-  for (let i = 0; i < SLOT_CONFIG.length; i++) {
+  const ids: string[] = new Array(lineup.length);
+  for (let i = 0; i < lineup.length; i++) {
     ids[i] = lineup[i].player.id;
   }
   return ids;
@@ -86,8 +111,8 @@ function meetsMinUnique(
   priorLineupIds: string[][],
   minUniquePlayers: number,
 ): boolean {
-  const minUnique = clamp(Math.floor(minUniquePlayers), 1, SLOT_CONFIG.length);
-  const maxOverlap = SLOT_CONFIG.length - minUnique;
+  const minUnique = clamp(Math.floor(minUniquePlayers), 1, ids.length);
+  const maxOverlap = ids.length - minUnique;
   for (let i = 0; i < priorLineupIds.length; i++) {
     const ov = overlapCount(ids, priorLineupIds[i]);
     if (ov > maxOverlap) return false;
@@ -95,8 +120,8 @@ function meetsMinUnique(
   return true;
 }
 
-function canFitSlot(player: Player, slotIndex: number): boolean {
-  const eligible = SLOT_CONFIG[slotIndex].eligible;
+function canFitSlot(player: Player, slotDef: SlotConfig): boolean {
+  const eligible = slotDef.eligible;
   for (let i = 0; i < player.positions.length; i++) {
     const pos = player.positions[i];
     for (let j = 0; j < eligible.length; j++) {
@@ -106,15 +131,15 @@ function canFitSlot(player: Player, slotIndex: number): boolean {
   return false;
 }
 
-function findSlotAssignment(players: Player[]): number[] | null {
-  if (players.length !== SLOT_CONFIG.length) return null;
+function findSlotAssignment(players: Player[], slots: SlotConfig[]): number[] | null {
+  if (players.length !== slots.length) return null;
   const assignment = new Array<number>(players.length).fill(-1);
-  const usedSlots = new Array<boolean>(SLOT_CONFIG.length).fill(false);
+  const usedSlots = new Array<boolean>(slots.length).fill(false);
   const order = players
     .map((player, playerIndex) => {
       const eligibleSlots: number[] = [];
-      for (let slotIndex = 0; slotIndex < SLOT_CONFIG.length; slotIndex++) {
-        if (canFitSlot(player, slotIndex)) eligibleSlots.push(slotIndex);
+      for (let slotIndex = 0; slotIndex < slots.length; slotIndex++) {
+        if (canFitSlot(player, slots[slotIndex])) eligibleSlots.push(slotIndex);
       }
       return { playerIndex, eligibleSlots };
     })
@@ -138,6 +163,27 @@ function findSlotAssignment(players: Player[]): number[] | null {
   return dfs(0) ? assignment : null;
 }
 
+/**
+ * Derives LP coverage constraints from the slot definitions: for each distinct
+ * eligible-position set, a lineup needs at least as many players covering that
+ * set as there are slots restricted to it (DK: G needs PG+SG+G = 3 guards).
+ * Exact slot assignment is still verified afterwards by findSlotAssignment.
+ */
+function buildPositionGroups(slots: SlotConfig[]): PositionGroup[] {
+  const groups = new Map<string, PositionGroup>();
+  for (let i = 0; i < slots.length; i++) {
+    const positions = [...slots[i].eligible].sort();
+    const key = positions.join('/');
+    if (groups.has(key)) continue;
+    let minCount = 0;
+    for (let j = 0; j < slots.length; j++) {
+      if (slots[j].eligible.every((pos) => positions.includes(pos))) minCount++;
+    }
+    groups.set(key, { positions, minCount });
+  }
+  return Array.from(groups.values()).filter((group) => group.minCount < slots.length);
+}
+
 function formatCoeff(value: number): string {
   const rounded = Math.abs(value) < 1e-10 ? 0 : value;
   const txt = rounded.toFixed(8);
@@ -184,11 +230,7 @@ async function solveLpWithRecovery(lpText: string): Promise<any> {
       }
 
       // Last resort: bypass cache entirely and force a one-off fresh wasm instance.
-      const freshHighs = await Promise.resolve(
-        highsLoader({
-          locateFile: (file: string) => (file.endsWith('.wasm') ? highsWasmUrl : file),
-        }),
-      );
+      const freshHighs = await loadHighs();
       return await freshHighs.solve(lpText);
     }
   }
@@ -221,43 +263,26 @@ function buildLineupLp(
     idToPlayerIndices.get(player.id)!.push(playerIndex);
   }
 
-  const groupTerms: Record<'PG' | 'SG' | 'SF' | 'PF' | 'C' | 'G' | 'F', Array<{ varName: string; coeff: number }>> = {
-    PG: [],
-    SG: [],
-    SF: [],
-    PF: [],
-    C: [],
-    G: [],
-    F: [],
-  };
+  const slots = slotsOf(config);
+  const positionGroups = buildPositionGroups(slots);
+  const groupTerms: Array<Array<{ varName: string; coeff: number }>> = positionGroups.map(() => []);
 
   for (let playerIndex = 0; playerIndex < pool.all.length; playerIndex++) {
     const player = pool.all[playerIndex];
     const varName = varNameByPlayerIndex[playerIndex];
-    const hasPG = player.positions.includes('PG');
-    const hasSG = player.positions.includes('SG');
-    const hasSF = player.positions.includes('SF');
-    const hasPF = player.positions.includes('PF');
-    const hasC = player.positions.includes('C');
-    if (hasPG) groupTerms.PG.push({ varName, coeff: 1 });
-    if (hasSG) groupTerms.SG.push({ varName, coeff: 1 });
-    if (hasSF) groupTerms.SF.push({ varName, coeff: 1 });
-    if (hasPF) groupTerms.PF.push({ varName, coeff: 1 });
-    if (hasC) groupTerms.C.push({ varName, coeff: 1 });
-    if (hasPG || hasSG) groupTerms.G.push({ varName, coeff: 1 });
-    if (hasSF || hasPF) groupTerms.F.push({ varName, coeff: 1 });
-  }
-
-  if (
-    groupTerms.PG.length === 0 ||
-    groupTerms.SG.length === 0 ||
-    groupTerms.SF.length === 0 ||
-    groupTerms.PF.length === 0 ||
-    groupTerms.C.length === 0 ||
-    groupTerms.G.length < 2 ||
-    groupTerms.F.length < 2
-  ) {
-    throw new Error('No valid positional coverage for DraftKings roster requirements.');
+    for (let g = 0; g < positionGroups.length; g++) {
+      if (player.positions.some((pos) => positionGroups[g].positions.includes(pos))) {
+        groupTerms[g].push({ varName, coeff: 1 });
+      }
+    }
+  }
+
+  for (let g = 0; g < positionGroups.length; g++) {
+    if (groupTerms[g].length < positionGroups[g].minCount) {
+      throw new Error(
+        `No valid positional coverage for roster requirements: need ${positionGroups[g].minCount} ${positionGroups[g].positions.join('/')} player(s).`,
+      );
+    }
   }
 
   const lines: string[] = [];
@@ -279,20 +304,16 @@ function buildLineupLp(
   );
 
   lines.push('Subject To');
-  pushConstraint(`${formatExpression(assignmentVars.map((row) => ({ varName: row.name, coeff: 1 })))} = ${SLOT_CONFIG.length}`);
+  pushConstraint(`${formatExpression(assignmentVars.map((row) => ({ varName: row.name, coeff: 1 })))} = ${slots.length}`);
   const salaryTerms = assignmentVars.map((row) => ({
     varName: row.name,
     coeff: Number(pool.all[row.playerIndex].salary || 0),
   }));
   pushConstraint(`${formatExpression(salaryTerms)} <= ${formatCoeff(config.salaryCap)}`);
   pushConstraint(`${formatExpression(salaryTerms)} >= ${formatCoeff(config.salaryFloor)}`);
-  pushConstraint(`${formatExpression(groupTerms.PG)} >= 1`);
-  pushConstraint(`${formatExpression(groupTerms.SG)} >= 1`);
-  pushConstraint(`${formatExpression(groupTerms.SF)} >= 1`);
-  pushConstraint(`${formatExpression(groupTerms.PF)} >= 1`);
-  pushConstraint(`${formatExpression(groupTerms.C)} >= 1`);
-  pushConstraint(`${formatExpression(groupTerms.G)} >= 2`);
-  pushConstraint(`${formatExpression(groupTerms.F)} >= 2`);
+  for (let g = 0; g < positionGroups.length; g++) {
+    pushConstraint(`${formatExpression(groupTerms[g])} >= ${positionGroups[g].minCount}`);
+  }
 
   idToPlayerIndices.forEach((indices) => {
     if (indices.length <= 1) return;
@@ -312,8 +333,8 @@ function buildLineupLp(
   });
 
   // Enforce minimum uniqueness relative to each accepted lineup.
-  const minUnique = clamp(Math.floor(config.minUniquePlayers), 1, SLOT_CONFIG.length);
-  const maxOverlap = SLOT_CONFIG.length - minUnique;
+  const minUnique = clamp(Math.floor(config.minUniquePlayers), 1, slots.length);
+  const maxOverlap = slots.length - minUnique;
   for (let i = 0; i < priorLineupIds.length; i++) {
     const priorIds = priorLineupIds[i];
     const terms: Array<{ varName: string; coeff: number }> = [];
@@ -330,7 +351,7 @@ function buildLineupLp(
     }
   }
 
-  // Exclude known invalid selections (e.g., sets that fail DK slot assignment).
+  // Exclude known invalid selections (e.g., sets that fail slot assignment).
   for (let i = 0; i < invalidSelectionCuts.length; i++) {
     const playerIndices = invalidSelectionCuts[i];
     if (!Array.isArray(playerIndices) || playerIndices.length === 0) continue;
@@ -338,20 +359,79 @@ function buildLineupLp(
       varName: varNameByPlayerIndex[idx],
       coeff: 1,
     }));
-    pushConstraint(`${formatExpression(terms)} <= ${formatCoeff(SLOT_CONFIG.length - 1)}`);
+    pushConstraint(`${formatExpression(terms)} <= ${formatCoeff(slots.length - 1)}`);
+  }
+
+  const groupRules = config.groupRules || [];
+  const termsForIds = (ids: string[]): Array<{ varName: string; coeff: number }> => {
+    const terms: Array<{ varName: string; coeff: number }> = [];
+    for (let k = 0; k < ids.length; k++) {
+      const indices = idToPlayerIndices.get(ids[k]) || [];
+      for (let v = 0; v < indices.length; v++) {
+        terms.push({ varName: varNameByPlayerIndex[indices[v]], coeff: 1 });
+      }
+    }
+    return terms;
+  };
+  for (let i = 0; i < groupRules.length; i++) {
+    const rule = groupRules[i];
+    const terms = termsForIds(rule.playerIds);
+    if (rule.kind === 'if_then') {
+      if (rule.count <= 0) continue;
+      // Each rostered trigger x_t requires sum(then) - count * x_t >= 0.
+      const thenTerms = termsForIds(rule.thenIds);
+      for (let t = 0; t < terms.length; t++) {
+        const row = [...thenTerms, { varName: terms[t].varName, coeff: -rule.count }];
+        pushConstraint(`${formatExpression(row)} >= 0`);
+      }
+      continue;
+    }
+    if (terms.length === 0) continue;
+    const sense = rule.kind === 'at_most' ? '<=' : rule.kind === 'at_least' ? '>=' : '=';
+    pushConstraint(`${formatExpression(terms)} ${sense} ${formatCoeff(rule.count)}`);
+  }
+
+  const teamToPlayers = new Map<string, number[]>();
+  for (let playerIndex = 0; playerIndex < pool.all.length; playerIndex++) {
+    const player = pool.all[playerIndex];
+    if (blockedIds.has(player.id)) continue;
+    const teamId = String(player.teamId || '').trim().toUpperCase() || 'UNK';
+    if (!teamToPlayers.has(teamId)) teamToPlayers.set(teamId, []);
+    teamToPlayers.get(teamId)!.push(playerIndex);
+  }
+
+  if (config.maxPlayersPerTeam && config.maxPlayersPerTeam < slots.length) {
+    teamToPlayers.forEach((playerIndices) => {
+      if (playerIndices.length <= (config.maxPlayersPerTeam as number)) return;
+      const terms = playerIndices.map((idx) => ({ varName: varNameByPlayerIndex[idx], coeff: 1 }));
+      pushConstraint(`${formatExpression(terms)} <= ${formatCoeff(config.maxPlayersPerTeam as number)}`);
+    });
+  }
+
+  // Minimum distinct teams: z_team may only be 1 when the lineup rosters someone from that team.
+  const teamPresenceVars: TeamStackVar[] = [];
+  if (config.minTeams && config.minTeams > 1) {
+    const teams = Array.from(teamToPlayers.entries());
+    if (teams.length < config.minTeams) {
+      throw new Error(`Roster requires players from ${config.minTeams} teams, but only ${teams.length} teams are available.`);
+    }
+    for (let i = 0; i < teams.length; i++) {
+      const [teamId, playerIndices] = teams[i];
+      const safeTeam = teamId.replace(/[^A-Z0-9]/gi, '_') || 'TEAM';
+      const row: TeamStackVar = { name: `z_team_${safeTeam}_${i}`, teamId, playerIndices };
+      teamPresenceVars.push(row);
+      const terms = playerIndices.map((idx) => ({ varName: varNameByPlayerIndex[idx], coeff: 1 }));
+      terms.push({ varName: row.name, coeff: -1 });
+      pushConstraint(`${formatExpression(terms)} >= 0`);
+    }
+    pushConstraint(
+      `${formatExpression(teamPresenceVars.map((row) => ({ varName: row.name, coeff: 1 })))} >= ${formatCoeff(config.minTeams)}`,
+    );
   }
 
   const teamStackVars: TeamStackVar[] = [];
   if (config.enforceTeamStack) {
-    const minTeamStackSize = clamp(Math.floor(config.minTeamStackSize ?? 2), 2, SLOT_CONFIG.length);
-    const teamToPlayers = new Map<string, number[]>();
-    for (let playerIndex = 0; playerIndex < pool.all.length; playerIndex++) {
-      const player = pool.all[playerIndex];
-      if (blockedIds.has(player.id)) continue;
-      const teamId = String(player.teamId || '').trim().toUpperCase() || 'UNK';
-      if (!teamToPlayers.has(teamId)) teamToPlayers.set(teamId, []);
-      teamToPlayers.get(teamId)!.push(playerIndex);
-    }
+    const minTeamStackSize = clamp(Math.floor(config.minTeamStackSize ?? 2), 2, slots.length);
 
     const eligibleTeams = Array.from(teamToPlayers.entries()).filter(([, playerIndices]) => {
       const unique = new Set(playerIndices);
@@ -392,13 +472,88 @@ function buildLineupLp(
     }
   }
 
+  // Game stacks: g_stack_r_k may only be 1 when game k meets rule r's size and bring-back
+  // minimums; each rule then needs minGames of its qualifiers switched on.
+  const gameStackVarNames: string[] = [];
+  const gameStacks = config.gameStacks || [];
+  if (gameStacks.length > 0) {
+    const gameToTeams = new Map<string, Map<string, number[]>>();
+    for (let playerIndex = 0; playerIndex < pool.all.length; playerIndex++) {
+      const player = pool.all[playerIndex];
+      if (blockedIds.has(player.id) || !player.gameId) continue;
+      const teamId = String(player.teamId || '').trim().toUpperCase() || 'UNK';
+      if (!gameToTeams.has(player.gameId)) gameToTeams.set(player.gameId, new Map());
+      const teams = gameToTeams.get(player.gameId)!;
+      if (!teams.has(teamId)) teams.set(teamId, []);
+      teams.get(teamId)!.push(playerIndex);
+    }
+    const gameTerms = (gameId: string): Array<{ varName: string; coeff: number }> => {
+      const terms: Array<{ varName: string; coeff: number }> = [];
+      gameToTeams.get(gameId)!.forEach((playerIndices) => {
+        for (let k = 0; k < playerIndices.length; k++) {
+          terms.push({ varName: varNameByPlayerIndex[playerIndices[k]], coeff: 1 });
+        }
+      });
+      return terms;
+    };
+
+    for (let r = 0; r < gameStacks.length; r++) {
+      const rule = gameStacks[r];
+      const scope = rule.gameId
+        ? (gameToTeams.has(rule.gameId) ? [rule.gameId] : [])
+        : Array.from(gameToTeams.keys());
+
+      if (rule.maxPlayers !== undefined) {
+        for (let g = 0; g < scope.length; g++) {
+          pushConstraint(`${formatExpression(gameTerms(scope[g]))} <= ${formatCoeff(rule.maxPlayers)}`);
+        }
+      }
+      if (!requiresQualifyingGames(rule)) continue;
+
+      const candidates = scope.filter((gameId) => {
+        const teams = Array.from(gameToTeams.get(gameId)!.values());
+        const total = teams.reduce((sum, playerIndices) => sum + playerIndices.length, 0);
+        if (total < rule.minPlayers) return false;
+        if (rule.minBringBack <= 0) return true;
+        return teams.length >= 2 && teams.every((playerIndices) => playerIndices.length >= rule.minBringBack);
+      });
+      if (candidates.length < rule.minGames) {
+        throw new Error(
+          `Game stack rule (${describeGameStackRule(rule)}) needs ${rule.minGames} qualifying game(s), but only ${candidates.length} have enough available players.`,
+        );
+      }
+
+      const qualifierNames: string[] = [];
+      for (let g = 0; g < candidates.length; g++) {
+        const gameId = candidates[g];
+        const name = `g_stack_${r}_${g}`;
+        qualifierNames.push(name);
+        if (rule.minPlayers > 0) {
+          pushConstraint(`${formatExpression([...gameTerms(gameId), { varName: name, coeff: -rule.minPlayers }])} >= 0`);
+        }
+        if (rule.minBringBack > 0) {
+          gameToTeams.get(gameId)!.forEach((playerIndices) => {
+            const terms = playerIndices.map((idx) => ({ varName: varNameByPlayerIndex[idx], coeff: 1 }));
+            terms.push({ varName: name, coeff: -rule.minBringBack });
+            pushConstraint(`${formatExpression(terms)} >= 0`);
+          });
+        }
+      }
+      pushConstraint(
+        `${formatExpression(qualifierNames.map((name) => ({ varName: name, coeff: 1 })))} >= ${formatCoeff(rule.minGames)}`,
+      );
+      gameStackVarNames.push(...qualifierNames);
+    }
+  }
+
   lines.push('Binary');
   for (let i = 0; i < assignmentVars.length; i += 40) {
     lines.push(` ${assignmentVars.slice(i, i + 40).map((row) => row.name).join(' ')}`);
   }
-  if (teamStackVars.length > 0) {
-    for (let i = 0; i < teamStackVars.length; i += 40) {
-      lines.push(` ${teamStackVars.slice(i, i + 40).map((row) => row.name).join(' ')}`);
+  const auxiliaryVars = [...teamPresenceVars, ...teamStackVars].map((row) => row.name).concat(gameStackVarNames);
+  if (auxiliaryVars.length > 0) {
+    for (let i = 0; i < auxiliaryVars.length; i += 40) {
+      lines.push(` ${auxiliaryVars.slice(i, i + 40).join(' ')}`);
     }
   }
   lines.push('End');
@@ -417,6 +572,7 @@ async function solveLineup(
   blockedIds: Set<string>,
   priorLineupIds: string[][],
 ): Promise<LineupSlot[] | null> {
+  const slots = slotsOf(config);
   const invalidSelectionCuts: number[][] = [];
 
   for (let retry = 0; retry < 40; retry++) {
@@ -450,10 +606,10 @@ async function solveLineup(
       .filter((entry) => entry.value > 0.5)
       .map((entry) => entry.playerIndex);
 
-    if (selectedPlayerIndices.length !== SLOT_CONFIG.length) return null;
+    if (selectedPlayerIndices.length !== slots.length) return null;
 
     const selectedPlayers = selectedPlayerIndices.map((idx) => pool.all[idx]);
-    const slotAssignment = findSlotAssignment(selectedPlayers);
+    const slotAssignment = findSlotAssignment(selectedPlayers, slots);
     if (!slotAssignment) {
       invalidSelectionCuts.push([...selectedPlayerIndices].sort((a, b) => a - b));
       continue;
@@ -463,12 +619,12 @@ async function solveLineup(
     for (let i = 0; i < selectedPlayers.length; i++) {
       slotToPlayer.set(slotAssignment[i], selectedPlayers[i]);
     }
-    if (slotToPlayer.size !== SLOT_CONFIG.length) {
+    if (slotToPlayer.size !== slots.length) {
       invalidSelectionCuts.push([...selectedPlayerIndices].sort((a, b) => a - b));
       continue;
     }
 
-    const lineup: LineupSlot[] = SLOT_CONFIG.map((slotDef, slotIndex) => {
+    const lineup: LineupSlot[] = slots.map((slotDef, slotIndex) => {
       const player = slotToPlayer.get(slotIndex);
       if (!player) throw new Error('Internal lineup assignment failure.');
       return {
@@ -484,7 +640,7 @@ async function solveLineup(
 }
 
 function meetsTeamStack(lineup: LineupSlot[], minTeamStackSize: number): boolean {
-  const minSize = clamp(Math.floor(minTeamStackSize), 2, SLOT_CONFIG.length);
+  const minSize = clamp(Math.floor(minTeamStackSize), 2, lineup.length);
   const counts = new Map<string, number>();
   for (let i = 0; i < lineup.length; i++) {
     const team = String(lineup[i].player.teamId || 'UNK').toUpperCase();
@@ -497,6 +653,21 @@ function meetsTeamStack(lineup: LineupSlot[], minTeamStackSize: number): boolean
   return maxTeam >= minSize;
 }
 
+function meetsTeamLimits(lineup: LineupSlot[], config: OptimizerConfig): boolean {
+  const counts = new Map<string, number>();
+  for (let i = 0; i < lineup.length; i++) {
+    const team = String(lineup[i].player.teamId || 'UNK').toUpperCase();
+    counts.set(team, (counts.get(team) ?? 0) + 1);
+  }
+  if (config.minTeams && counts.size < config.minTeams) return false;
+  if (!config.maxPlayersPerTeam) return true;
+  let withinLimit = true;
+  counts.forEach((count) => {
+    if (count > (config.maxPlayersPerTeam as number)) withinLimit = false;
+  });
+  return withinLimit;
+}
+
 function solveLineupFallback(
   pool: PlayerPool,
   config: OptimizerConfig,
@@ -525,10 +696,11 @@ function solveLineupFallback(
       saIterations: 1600,
     };
     const optimized = runSA(initial, pool, fallbackConfig, noisyScores, forcedIds, blockedIds);
-    const lineup: LineupSlot[] = new Array(SLOT_CONFIG.length);
-    for (let i = 0; i < SLOT_CONFIG.length; i++) {
+    const slots = slotsOf(config);
+    const lineup: LineupSlot[] = new Array(slots.length);
+    for (let i = 0; i < slots.length; i++) {
       lineup[i] = {
-        slot: SLOT_CONFIG[i].slot,
+        slot: slots[i].slot,
         player: optimized.slots[i],
       };
     }
@@ -536,6 +708,9 @@ function solveLineupFallback(
     if (config.enforceTeamStack && !meetsTeamStack(lineup, config.minTeamStackSize ?? 2)) {
       return null;
     }
+    if (!meetsTeamLimits(lineup, config)) return null;
+    if (!meetsPlayerGroupRules(new Set(lineupIds(lineup)), config.groupRules)) return null;
+    if (!meetsGameStackRules(lineup.map((row) => row.player), config.gameStacks)) return null;
 
     return lineup;
   } catch {
@@ -551,6 +726,30 @@ function totalSalary(lineup: LineupSlot[]): number {
   return salary;
 }
 
+function exceedsDuplicationLimit(lineup: LineupSlot[], config: OptimizerConfig): boolean {
+  if (config.maxDuplicates === undefined || !config.fieldSize) return false;
+  const estimate = estimateLineupDuplication(
+    lineup.map((row) => row.player.ownership),
+    config.salaryCap - totalSalary(lineup),
+    config.fieldSize,
+  );
+  return estimate.expectedDuplicates > config.maxDuplicates;
+}
+
+/**
+ * The duplication estimate is a product of ownerships, so its log is a sum over
+ * players; subtracting `penalty * log(ownership)` from each score makes both
+ * solvers trade projection for a less duplicated roster.
+ */
+function applyDuplicationPenalty(scoreById: Map<string, number>, players: Player[], penalty: number): void {
+  for (let i = 0; i < players.length; i++) {
+    const player = players[i];
+    const score = scoreById.get(player.id);
+    if (score === undefined) continue;
+    scoreById.set(player.id, score - penalty * ownershipLog(player.ownership));
+  }
+}
+
 function lineupScore(lineup: LineupSlot[], effectiveScoreById: Map<string, number>): number {
   let sum = 0;
   for (let i = 0; i < lineup.length; i++) {
@@ -594,8 +793,8 @@ function diversityGreedyReorder(lineups: LineupSlot[][]): LineupSlot[][] {
 
   const idsByLineup: string[][] = new Array(n);
   for (let i = 0; i < n; i++) {
-    const ids: string[] = new Array(SLOT_CONFIG.length);
-    for (let j = 0; j < SLOT_CONFIG.length; j++) {
+    const ids: string[] = new Array(lineups[i].length);
+    for (let j = 0; j < lineups[i].length; j++) {
       ids[j] = lineups[i][j].player.id;
     }
     idsByLineup[i] = ids;
@@ -652,6 +851,7 @@ export async function generatePortfolio(
   pool: PlayerPool,
   config: OptimizerConfig,
   onProgress: (current: number, lineup: LineupSlot[]) => void,
+  control?: EngineRunControl,
 ): Promise<LineupSlot[][]> {
   // Start each run with a fresh module to prevent wasm state bleed across runs.
   highsModulePromise = null;
@@ -701,7 +901,18 @@ export async function generatePortfolio(
 
   const randomScale = clamp(config.randomnessPct, 0, 100) / 100;
 
-  for (let i = 0; i < target; i++) {
+  // Lineups from before a pause are not returned again, but they still count
+  // toward exposure and min-unique so the resumed portfolio stays consistent.
+  const priorLineups = control ? control.priorLineups : [];
+  for (let i = 0; i < priorLineups.length; i++) {
+    const ids = priorLineups[i];
+    for (let s = 0; s < ids.length; s++) {
+      exposureCounts.set(ids[s], (exposureCounts.get(ids[s]) ?? 0) + 1);
+    }
+    resultIds.push(ids);
+  }
+
+  for (let i = resultIds.length; i < target; i++) {
     const remainingIncludingCurrent = target - i;
     const maxAttempts = randomScale > 0
       ? Math.max(12, Math.min(60, 12 + Math.floor(pool.all.length / 15)))
@@ -710,6 +921,8 @@ export async function generatePortfolio(
     let acceptedLineup: LineupSlot[] | null = null;
     let acceptedIds: string[] | null = null;
     let acceptedScore = Number.NEGATIVE_INFINITY;
+    // Raised on every lineup rejected as too duplicated, steering later attempts toward lower ownership.
+    let duplicationPenalty = 0;
 
     for (let attempt = 0; attempt < maxAttempts; attempt++) {
       const forcedIds = new Set<string>();
@@ -749,7 +962,7 @@ export async function generatePortfolio(
         }
       }
 
-      if (forcedIds.size > SLOT_CONFIG.length) {
+      if (forcedIds.size > slotsOf(config).length) {
         throw new Error(
           `Exposure constraints infeasible at lineup ${i + 1}: ${forcedIds.size} players are forced for one lineup.`,
         );
@@ -759,23 +972,26 @@ export async function generatePortfolio(
         ? config.randomnessPct
         : (attempt === 0 ? 0 : 2);
       const effectiveScoreById = effectiveObjectiveMap(pool.all, config, attemptRandomnessPct);
+      if (duplicationPenalty > 0) applyDuplicationPenalty(effectiveScoreById, pool.all, duplicationPenalty);
       let lineup: LineupSlot[] | null = null;
-      try {
-        lineup = await solveLineup(
-          pool,
-          config,
-          effectiveScoreById,
-          forcedIds,
-          blockedIds,
-          resultIds,
-        );
-      } catch (solveErr) {
-        if (!isRecoverableHighsRuntimeError(solveErr)) {
-          throw solveErr;
+      if (config.solver !== 'greedy') {
+        try {
+          lineup = await solveLineup(
+            pool,
+            config,
+            effectiveScoreById,
+            forcedIds,
+            blockedIds,
+            resultIds,
+          );
+        } catch (solveErr) {
+          if (!isRecoverableHighsRuntimeError(solveErr)) {
+            throw solveErr;
+          }
+          highsModulePromise = null;
+          // eslint-disable-next-line no-console
+          console.warn('[optimizer] HiGHS runtime error encountered; retrying via SA fallback for this attempt.');
         }
-        highsModulePromise = null;
-        // eslint-disable-next-line no-console
-        console.warn('[optimizer] HiGHS runtime error encountered; retrying via SA fallback for this attempt.');
       }
       if (!lineup) {
         lineup = solveLineupFallback(
@@ -795,6 +1011,11 @@ export async function generatePortfolio(
       const salary = totalSalary(lineup);
       if (salary > config.salaryCap || salary < config.salaryFloor) continue;
 
+      if (exceedsDuplicationLimit(lineup, config)) {
+        duplicationPenalty = duplicationPenalty > 0 ? duplicationPenalty * 2 : DUPLICATION_PENALTY_START;
+        continue;
+      }
+
       let forcedMissing = false;
       forcedIds.forEach((id) => {
         let found = false;
@@ -868,6 +1089,7 @@ export async function generatePortfolio(
     results.push(acceptedLineup);
     resultIds.push(acceptedIds);
     onProgress(i + 1, acceptedLineup);
+    if (control && await control.checkpoint()) break;
   }
 
   return diversityGreedyReorder(results);
@@ -14,7 +14,8 @@ export function runSA(
   blockedIds: Set<string>,
 ): LineupState {
   const state = initial;
-  const slotCount = SLOT_CONFIG.length;
+  const slots = config.slots ?? SLOT_CONFIG;
+  const slotCount = slots.length;
   const totalIterations = Math.max(1, Math.floor(config.saIterations));
   const tempStart = Math.max(1e-9, config.saTempStart);
   const tempEnd = Math.max(1e-9, config.saTempEnd);
@@ -33,7 +34,7 @@ export function runSA(
       continue;
     }
 
-    const eligiblePositions = SLOT_CONFIG[slotIdx].eligible;
+    const eligiblePositions = slots[slotIdx].eligible;
     const posIdx = (Math.random() * eligiblePositions.length) | 0;
     const chosenPos = eligiblePositions[posIdx];
     const bucket = pool.byPosition.get(chosenPos);
@@ -61,6 +62,17 @@ export function runSA(
     }
 
     const current = state.slots[slotIdx];
+    if (config.maxPlayersPerTeam && candidate.teamId !== current.teamId) {
+      let teamCount = 0;
+      for (let i = 0; i < slotCount; i++) {
+        if (state.slots[i].teamId === candidate.teamId) teamCount++;
+      }
+      if (teamCount >= config.maxPlayersPerTeam) {
+        currentTemp *= tempDecay;
+        continue;
+      }
+    }
+
     const newSalary = state.salaryUsed - current.salary + candidate.salary;
     if (newSalary > config.salaryCap || newSalary < config.salaryFloor) {
       currentTemp *= tempDecay;
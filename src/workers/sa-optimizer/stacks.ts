@@ -0,0 +1,114 @@
+import { GameStackRule } from './types';
+
+interface StackPlayer {
+  teamId: string;
+  gameId: string;
+}
+
+/** Same key the optimizer pools use: both team abbreviations, sorted, joined by `_vs_`. */
+export function gameIdFor(teamA: string, teamB: string): string {
+  return [String(teamA || 'UNK').toUpperCase(), String(teamB || 'UNK').toUpperCase()].sort().join('_vs_');
+}
+
+function toCount(value: unknown, fallback: number, max: number): number {
+  const num = Number(value);
+  if (!Number.isFinite(num)) return fallback;
+  return Math.max(0, Math.min(max, Math.floor(num)));
+}
+
+export function normalizeGameStackRules(input: unknown, rosterSize: number): GameStackRule[] {
+  if (!Array.isArray(input)) return [];
+  const rules: GameStackRule[] = [];
+  for (let i = 0; i < input.length; i++) {
+    const raw = input[i];
+    if (!raw || typeof raw !== 'object') continue;
+    const gameId = String(raw.gameId || '').trim();
+    const minPlayers = toCount(raw.minPlayers, 0, rosterSize);
+    const maxPlayers = raw.maxPlayers === undefined || raw.maxPlayers === null || raw.maxPlayers === ''
+      ? undefined
+      : toCount(raw.maxPlayers, rosterSize, rosterSize);
+    const minBringBack = toCount(raw.minBringBack, 0, Math.floor(rosterSize / 2));
+    rules.push({
+      id: String(raw.id || `stack_${i + 1}`),
+      ...(gameId ? { gameId } : {}),
+      minPlayers,
+      ...(maxPlayers !== undefined ? { maxPlayers } : {}),
+      minBringBack,
+      minGames: gameId ? 1 : Math.max(1, toCount(raw.minGames, 1, rosterSize)),
+    });
+  }
+  return rules;
+}
+
+/** Games on the slate and the teams playing in each, from the pool's gameId/teamId. */
+export function teamsByGame(players: StackPlayer[]): Map<string, string[]> {
+  const out = new Map<string, Set<string>>();
+  for (let i = 0; i < players.length; i++) {
+    const gameId = players[i].gameId;
+    if (!gameId) continue;
+    if (!out.has(gameId)) out.set(gameId, new Set());
+    out.get(gameId)!.add(String(players[i].teamId || '').toUpperCase());
+  }
+  return new Map(Array.from(out.entries()).map(([gameId, teams]) => [gameId, Array.from(teams)]));
+}
+
+export function stackRuleGames(rule: GameStackRule, games: Map<string, string[]>): string[] {
+  if (rule.gameId) return games.has(rule.gameId) ? [rule.gameId] : [];
+  return Array.from(games.keys());
+}
+
+/** True when the rule asks for qualifying games, as opposed to only capping them. */
+export function requiresQualifyingGames(rule: GameStackRule): boolean {
+  return rule.minPlayers > 0 || rule.minBringBack > 0;
+}
+
+export function describeGameStackRule(rule: GameStackRule): string {
+  const scope = rule.gameId ? rule.gameId.replace('_vs_', ' vs ') : `${rule.minGames} game(s)`;
+  const parts: string[] = [];
+  if (rule.minPlayers > 0) parts.push(`${rule.minPlayers}+ players`);
+  if (rule.minBringBack > 0) parts.push(`${rule.minBringBack}+ from each side`);
+  if (rule.maxPlayers !== undefined) parts.push(`max ${rule.maxPlayers}`);
+  return `${scope}: ${parts.join(', ') || 'no limits'}`;
+}
+
+export function meetsGameStackRules(lineup: StackPlayer[], rules: GameStackRule[] | undefined): boolean {
+  if (!rules || rules.length === 0) return true;
+  const gameCounts = new Map<string, number>();
+  const teamCounts = new Map<string, number>();
+  for (let i = 0; i < lineup.length; i++) {
+    const gameId = lineup[i].gameId;
+    const teamKey = `${gameId}|${String(lineup[i].teamId || '').toUpperCase()}`;
+    gameCounts.set(gameId, (gameCounts.get(gameId) ?? 0) + 1);
+    teamCounts.set(teamKey, (teamCounts.get(teamKey) ?? 0) + 1);
+  }
+  const games = teamsByGame(lineup);
+
+  for (let r = 0; r < rules.length; r++) {
+    const rule = rules[r];
+    if (rule.maxPlayers !== undefined) {
+      let overCap = false;
+      gameCounts.forEach((count, gameId) => {
+        if ((!rule.gameId || rule.gameId === gameId) && count > (rule.maxPlayers as number)) overCap = true;
+      });
+      if (overCap) return false;
+    }
+    if (!requiresQualifyingGames(rule)) continue;
+
+    let qualifying = 0;
+    gameCounts.forEach((count, gameId) => {
+      if (rule.gameId && rule.gameId !== gameId) return;
+      if (count < rule.minPlayers) return;
+      if (rule.minBringBack > 0) {
+        // Both teams of the game must be rostered; a single rostered side can't be a bring-back.
+        const teams = games.get(gameId) || [];
+        if (teams.length < 2) return;
+        for (let t = 0; t < teams.length; t++) {
+          if ((teamCounts.get(`${gameId}|${teams[t]}`) ?? 0) < rule.minBringBack) return;
+        }
+      }
+      qualifying += 1;
+    });
+    if (qualifying < rule.minGames) return false;
+  }
+  return true;
+}
@@ -1,3 +1,5 @@
+import type { PlayerGroupRule } from '../../../utils/playerGroups';
+
 export interface SlotConfig {
   slot: string;
   eligible: string[];
@@ -31,6 +33,21 @@ export interface Player {
   maxExposure?: number;
 }
 
+/**
+ * Game-stack rule keyed on Player.gameId. A game "qualifies" when the lineup rosters at
+ * least `minPlayers` from it with `minBringBack` or more from each side; `minGames`
+ * games in scope must qualify. `maxPlayers` caps every game in scope unconditionally.
+ * Scope is the single `gameId` when set, otherwise every game on the slate.
+ */
+export interface GameStackRule {
+  id: string;
+  gameId?: string;
+  minPlayers: number;
+  maxPlayers?: number;
+  minBringBack: number;
+  minGames: number;
+}
+
 export interface LineupState {
   slots: Player[];
   salaryUsed: number;
@@ -56,6 +73,18 @@ export interface OptimizerConfig {
   weightLeverage?: number;
   enforceTeamStack?: boolean;
   minTeamStackSize?: number;
+  // Roster rules for the target site; normalizeConfig defaults these to DraftKings.
+  slots?: SlotConfig[];
+  maxPlayersPerTeam?: number;
+  minTeams?: number;
+  // 'greedy' skips HiGHS and builds every lineup with greedy init + SA polish.
+  solver?: 'highs' | 'greedy';
+  // At-most/at-least/exactly/if-then rules over player sets; compiled into LP rows.
+  groupRules?: PlayerGroupRule[];
+  gameStacks?: GameStackRule[];
+  // Reject lineups whose estimated duplicates in a field of `fieldSize` exceed `maxDuplicates`.
+  fieldSize?: number;
+  maxDuplicates?: number;
   // Legacy SA fields kept optional so older modules still type-check.
   exposurePenaltyLambda?: number;
   saTempStart?: number;
@@ -63,26 +92,7 @@ export interface OptimizerConfig {
   saIterations?: number;
 }
 
-export interface WorkerInMessage {
-  players: Player[];
-  config: OptimizerConfig;
-}
-
 export interface LineupSlot {
   slot: string;
   player: Player;
 }
-
-export type WorkerOutMessage =
-  | {
-      type: 'progress';
-      payload: { current: number; total: number; lineup: LineupSlot[] };
-    }
-  | {
-      type: 'result';
-      payload: { lineups: LineupSlot[][] };
-    }
-  | {
-      type: 'error';
-      payload: { message: string };
-    };
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import type { Player } from '../types';
+import { runOptimizerRequest } from '../src/workers/optimizer-service/engines';
+import { buildBacktestRequest, findRecentSlates, runBacktest, summarizeBacktest } from '../utils/backtest';
+import { createDefaultOptimizerConfig } from '../utils/optimizerConfig';
+import { makeSlatePool } from './fixtures';
+
+const makeSlate = (actualBoost: number): Player[] =>
+  makeSlatePool((idx) => ({ ownership: 5 + (idx % 6) * 5, minutesProjection: 20 + (idx % 5) * 4 }))
+    .map((player) => ({ ...player, actual: player.projection + actualBoost }));
+
+const greedyConfig = (overrides = {}) => ({
+  ...createDefaultOptimizerConfig(),
+  engine: 'greedy' as const,
+  numLineups: 3,
+  salaryFloor: 0,
+  minProjectedFpts: 0,
+  minSlateSimValue: 0,
+  ...overrides,
+});
+
+describe('optimizer backtest', () => {
+  it('walks back past dates without a slate to find the last N slates, oldest first', async () => {
+    const slateDates = new Set(['2026-02-24', '2026-02-26', '2026-03-01']);
+    const searched: string[] = [];
+    const slates = await findRecentSlates('2026-03-02', 3, {
+      loadSlate: async (date) => (slateDates.has(date) ? makeSlate(0) : null),
+      onSearch: (date) => searched.push(date),
+    });
+    expect(slates.map((slate) => slate.date)).toEqual(['2026-02-24', '2026-02-26', '2026-03-01']);
+    expect(searched).toEqual(['2026-03-01', '2026-02-28', '2026-02-27', '2026-02-26', '2026-02-25', '2026-02-24']);
+
+    // The search window is bounded when there are not enough slates.
+    const none = await findRecentSlates('2026-03-02', 2, { loadSlate: async () => null, onSearch: (date) => searched.push(date) });
+    expect(none).toEqual([]);
+    expect(searched).toHaveLength(6 + 2 * 2 + 14);
+  });
+
+  it('applies the config pool thresholds to the request', () => {
+    const request = buildBacktestRequest(makeSlate(0), greedyConfig({ minMinutes: 30, maxExposure: 60 }));
+    expect(request.players.every((player) => Number(player.minutesProjection) >= 30)).toBe(true);
+    expect(request.rules.maxExposurePct).toBe(60);
+    expect(request.players[0].ev).toBe(request.players[0].projection);
+  });
+
+  it('scores each config on actuals and skips dates without a slate', async () => {
+    const slates: Record<string, Player[] | null> = {
+      '2026-01-01': makeSlate(10),
+      '2026-01-02': null,
+      '2026-01-03': makeSlate(-5),
+    };
+    const results = await runBacktest({
+      dates: Object.keys(slates),
+      configs: [
+        { id: 'A', label: 'Default', config: greedyConfig() },
+        { id: 'B', label: 'Capped', config: greedyConfig({ maxExposure: 70 }) },
+      ],
+      cashLine: 300,
+      loadSlate: async (date) => slates[date],
+      optimize: (request) => runOptimizerRequest(request, () => {}),
+    });
+
+    expect(results).toHaveLength(6);
+    const skipped = results.filter((result) => result.status === 'skipped');
+    expect(skipped.map((result) => result.date)).toEqual(['2026-01-02', '2026-01-02']);
+
+    const first = results.find((result) => result.date === '2026-01-01' && result.configId === 'A')!;
+    expect(first.status).toBe('ok');
+    expect(first.scores).toHaveLength(3);
+    expect(first.best).toBe(Math.max(...first.scores));
+    // Every rostered player beat projection by 10, so each lineup is projection + 80.
+    expect(first.scores[0]).toBeGreaterThan(300);
+    expect(first.cashHits).toBe(first.scores.filter((score) => score >= 300).length);
+    const mix = first.ownershipMix;
+    expect(mix.chalk + mix.mid + mix.contrarian).toBeCloseTo(1, 1);
+
+    const summary = summarizeBacktest('A', results);
+    expect(summary.slates).toBe(2);
+    expect(summary.lineups).toBe(6);
+    expect(summary.best.max).toBe(first.best);
+    expect(summary.slateCashRate).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import type { Player } from '../types';
+import { buildCalibrationSamples, buildReliabilityCurve, summarizeSegmentErrors } from '../utils/calibration';
+
+const player = (id: string, fields: Partial<Player>): Player => ({
+  id,
+  name: id,
+  team: 'BOS',
+  opponent: 'NYK',
+  position: 'PG',
+  salary: 5000,
+  projection: 30,
+  ...fields,
+} as Player);
+
+describe('projection calibration', () => {
+  it('breaks projection error down by tier, minutes band and injury promotion', () => {
+    const samples = buildCalibrationSamples([
+      player('star', { salary: 10000, projection: 50, actual: 40, minutesProjection: 36 }),
+      player('mid', { salary: 6000, position: 'SF/PF', projection: 30, actual: 36, minutesProjection: 30 }),
+      player('bench', {
+        salary: 4000,
+        projection: 20,
+        actual: 28,
+        minutesProjection: 24,
+        injuryAdjustment: { sources: ['star'], minutesDelta: 8, usageDelta: 2, projectionDelta: 6, ceilingDelta: 8, baseProjection: 14 },
+      }),
+      player('unscored', { projection: 25 }),
+      player('inactive', { projection: 0, actual: 0 }),
+    ], '2026-01-10');
+
+    expect(samples.map((sample) => [sample.playerId, sample.tier, sample.position, sample.minutesBand, sample.injuryPromoted])).toEqual([
+      ['star', 'elite', 'PG', '34+ min', false],
+      ['mid', 'mid_range', 'SF', '28-34 min', false],
+      ['bench', 'value', 'PG', '20-28 min', true],
+    ]);
+
+    const byTier = summarizeSegmentErrors(samples, 'tier');
+    expect(byTier.map((row) => [row.segment, row.count, row.bias])).toEqual([
+      ['elite', 1, 10],
+      ['mid_range', 1, -6],
+      ['value', 1, -8],
+    ]);
+
+    const byInjury = summarizeSegmentErrors(samples, 'injury');
+    expect(byInjury[0]).toMatchObject({ segment: 'Promoted', count: 1, mae: 8 });
+    expect(byInjury[1]).toMatchObject({ segment: 'Not promoted', count: 2, mae: 8, bias: 2 });
+    expect(byInjury[1].rmse).toBeCloseTo(Math.sqrt((100 + 36) / 2), 6);
+  });
+
+  it('bins probability fields against the events they predict', () => {
+    const samples = buildCalibrationSamples([
+      // Overperform: beat the projection by more than 3; `overperformProba` is 0-1.
+      player('a', { projection: 30, actual: 40, overperformProba: 0.82 }),
+      player('b', { projection: 30, actual: 32, overperformProba: 0.86 }),
+      player('c', { projection: 30, actual: 20, overperformProba: 0.12 }),
+      player('g', { projection: 30, actual: 40, overperformProba: 45 }),
+      // Boom at $5K needs 35 points (7x); percent keys are percents.
+      player('d', { projection: 30, actual: 36, BOOM_PCT: 25 }),
+      player('h', { projection: 30, actual: 20, BUST_PCT: 1 }),
+      // Points hit needs the slate's actual points scored.
+      player('e', { projection: 30, actual: 30, projectedPoints: 18, projectedPointsHitProbability: 0.55, actualPoints: 21 }),
+      player('f', { projection: 30, actual: 30, projectedPoints: 18, projectedPointsHitProbability: 0.55 }),
+    ], '2026-01-10');
+
+    const overperform = buildReliabilityCurve(samples, 'overperform');
+    expect(overperform.count).toBe(3);
+    expect(overperform.bins.map((bin) => [bin.lower, bin.count, bin.observed])).toEqual([
+      [0.1, 1, 0],
+      [0.8, 2, 0.5],
+    ]);
+    expect(overperform.bins[1].predicted).toBeCloseTo(0.84, 6);
+    expect(overperform.brier).toBeCloseTo((0.18 ** 2 + 0.86 ** 2 + 0.12 ** 2) / 3, 6);
+    expect(overperform.calibrationError).toBeCloseTo((0.12 + 2 * 0.34) / 3, 6);
+
+    const boom = buildReliabilityCurve(samples, 'boom');
+    expect(boom.bins).toEqual([{ lower: 0.2, upper: 0.3, count: 1, predicted: 0.25, observed: 1 }]);
+
+    // 1 is 1%, not a certainty.
+    const bust = buildReliabilityCurve(samples, 'bust');
+    expect(bust.bins).toEqual([{ lower: 0, upper: 0.1, count: 1, predicted: 0.01, observed: 1 }]);
+
+    expect(buildReliabilityCurve(samples, 'pointsHit').count).toBe(1);
+  });
+});
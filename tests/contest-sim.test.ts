@@ -0,0 +1,140 @@
+import { describe, it, expect } from 'vitest';
+import { buildPayoutCurve } from '../src/workers/contest-sim/payout';
+import { createRng, sampleFieldLineups, seedFromKey, simulateContest } from '../src/workers/contest-sim/engine';
+import type { SimPlayer } from '../src/workers/contest-sim/types';
+import { getSiteRules } from '../utils/siteRules';
+
+const POSITIONS = ['PG', 'SG', 'SF', 'PF', 'C'];
+
+const makePlayers = (): SimPlayer[] => {
+  const players: SimPlayer[] = [];
+  for (let i = 0; i < 30; i++) {
+    const pos = POSITIONS[i % POSITIONS.length];
+    const team = `T${i % 6}`;
+    const opp = `T${(i % 6) ^ 1}`;
+    const projection = 20 + (i % 10) * 3;
+    players.push({
+      id: `p${i}`,
+      positions: [pos],
+      salary: 3500 + (i % 10) * 400,
+      projection,
+      floor: projection * 0.6,
+      ceiling: projection * 1.5,
+      ownership: 5 + (i % 7) * 4,
+      teamId: team,
+      gameId: [team, opp].sort().join('_vs_'),
+    });
+  }
+  return players;
+};
+
+describe('contest simulator', () => {
+  it('builds a top-heavy payout curve that distributes the full prize pool', () => {
+    const payouts = buildPayoutCurve(8410, 220, 20);
+    expect(payouts.length).toBe(220);
+    expect(payouts.reduce((a, b) => a + b, 0)).toBeCloseTo(8410, 6);
+    expect(payouts[0]).toBeGreaterThan(payouts[1]);
+    expect(payouts[219]).toBeCloseTo(20, 6);
+    for (let i = 1; i < payouts.length; i++) {
+      expect(payouts[i]).toBeLessThanOrEqual(payouts[i - 1]);
+    }
+  });
+
+  it('ranks a stronger lineup above a weaker one and reports probabilities', () => {
+    const players = makePlayers();
+    const byPos = (pos: string) => players.filter((p) => p.positions[0] === pos);
+    const pick = (pos: string, best: boolean, skip = 0) => {
+      const rows = [...byPos(pos)].sort((a, b) => (best ? b.projection - a.projection : a.projection - b.projection));
+      return rows[skip].id;
+    };
+    const strong = {
+      id: 'strong',
+      playerIds: [pick('PG', true), pick('SG', true), pick('SF', true), pick('PF', true), pick('C', true), pick('PG', true, 1), pick('SF', true, 1), pick('C', true, 1)],
+    };
+    const weak = {
+      id: 'weak',
+      playerIds: [pick('PG', false), pick('SG', false), pick('SF', false), pick('PF', false), pick('C', false), pick('PG', false, 1), pick('SF', false, 1), pick('C', false, 1)],
+    };
+
+    const result = simulateContest(players, [strong, weak, { id: 'partial', playerIds: ['p0', 'missing'] }], {
+      iterations: 300,
+      fieldSize: 1000,
+      fieldSampleSize: 500,
+      entryFee: 10,
+      prizePool: 8410,
+      paidPlaces: 220,
+      minCash: 20,
+      salaryCap: 1000000,
+      seed: 42,
+    });
+
+    expect(result.lineups.map((l) => l.id)).toEqual(['strong', 'weak']);
+    expect(result.warnings.length).toBe(1);
+    const [strongResult, weakResult] = result.lineups;
+    expect(strongResult.meanScore).toBeGreaterThan(weakResult.meanScore);
+    expect(strongResult.roiPct).toBeGreaterThan(weakResult.roiPct);
+    expect(strongResult.cashPct).toBeGreaterThan(weakResult.cashPct);
+    expect(strongResult.ev).toBeCloseTo(strongResult.expectedPayout - 10, 6);
+    expect(strongResult.winProbPct).toBeLessThanOrEqual(strongResult.top1Pct);
+    expect(strongResult.top1Pct).toBeLessThanOrEqual(strongResult.top10Pct);
+    expect(strongResult.fieldPercentile).toBeGreaterThan(weakResult.fieldPercentile);
+  });
+
+  it('derives the same seed from the same key', () => {
+    const key = JSON.stringify([[['L1', 'p0', 'p1']], 'DraftKings', 1000]);
+    expect(seedFromKey(key)).toBe(seedFromKey(key));
+    expect(seedFromKey(key)).not.toBe(seedFromKey(key.replace('1000', '1001')));
+    expect(Number.isInteger(seedFromKey(key)) && seedFromKey(key) >= 0).toBe(true);
+  });
+
+  it('fills the roster slots the config passes', () => {
+    const slots = [{ slot: 'G', eligible: ['PG', 'SG'] }, { slot: 'F', eligible: ['SF', 'PF'] }, { slot: 'C', eligible: ['C'] }];
+    const players = makePlayers();
+    const field = sampleFieldLineups(players, 50, 20000, createRng(5), slots);
+    expect(field.length).toBeGreaterThan(0);
+    field.forEach((lineup) => {
+      expect(lineup).toHaveLength(3);
+      lineup.forEach((idx, s) => expect(slots[s].eligible).toContain(players[idx].positions[0]));
+    });
+
+    const lineup = { id: 'trio', playerIds: ['p0', 'p2', 'p4'] };
+    const result = simulateContest(players, [lineup], { iterations: 200, fieldSize: 50, salaryCap: 20000, slots, seed: 4 });
+    expect(result.warnings).toEqual([]);
+    expect(result.lineups).toHaveLength(1);
+  });
+
+  it('simulates Showdown rosters with captain rows tied to their player', () => {
+    const slots = getSiteRules('DraftKingsShowdown').slots.map((slot) => ({ slot: slot.key, eligible: slot.eligible }));
+    const base = makePlayers().slice(0, 10).map((p) => ({ ...p, teamId: p.teamId === 'T0' ? 'T0' : 'T1', gameId: 'T0_vs_T1' }));
+    const captains = base.map((p) => ({
+      ...p,
+      id: `${p.id}-CPT`,
+      positions: ['CPT'],
+      salary: p.salary * 1.5,
+      projection: p.projection * 1.5,
+      floor: p.floor * 1.5,
+      ceiling: p.ceiling * 1.5,
+      captainOf: p.id,
+      captainMultiplier: 1.5,
+    }));
+    const players = [...base, ...captains];
+
+    const field = sampleFieldLineups(players, 200, 50000, createRng(3), slots);
+    expect(field.length).toBeGreaterThan(0);
+    field.forEach((lineup) => {
+      expect(lineup).toHaveLength(6);
+      expect(players[lineup[0]].captainOf).toBeDefined();
+      const baseIds = lineup.map((idx) => players[idx].captainOf ?? players[idx].id);
+      expect(new Set(baseIds).size).toBe(6);
+    });
+
+    const solo = { id: 'cpt', playerIds: ['p0-CPT', 'p1', 'p2', 'p3', 'p4', 'p5'] };
+    const flexOnly = { id: 'flex', playerIds: ['p0', 'p1', 'p2', 'p3', 'p4', 'p5'] };
+    const result = simulateContest(players, [solo, flexOnly], { iterations: 500, fieldSize: 100, salaryCap: 50000, slots, seed: 9 });
+    expect(result.warnings).toEqual([]);
+    const [withCaptain, withoutCaptain] = result.lineups;
+    // Both lineups see the same draws; the captain adds half of p0's score on top.
+    expect(withCaptain.meanScore - withoutCaptain.meanScore).toBeGreaterThan(0);
+    expect(withCaptain.fieldPercentile).toBeGreaterThanOrEqual(withoutCaptain.fieldPercentile);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import type { Player } from '../types';
+import { DEFAULT_CONTEST } from '../utils/contest';
+import {
+  buildContestResult,
+  compareFieldOwnership,
+  estimateStandingsPayouts,
+  parseContestStandingsText,
+  parseStandingsLineup,
+} from '../utils/contestStandings';
+
+const LINEUP = 'C Nikola Jokic F LeBron James G Trae Young PF Jaren Jackson Jr. PG C.J. McCollum SF Jayson Tatum SG Devin Booker UTIL Kevin Durant';
+
+const STANDINGS_CSV = [
+  'Rank,EntryId,EntryName,TimeRemaining,Points,Lineup,,Player,Roster Position,%Drafted,FPTS',
+  `1,9001,sharkbait (2/3),0,310.5,${LINEUP},,Nikola Jokic,C,45.10%,70.25`,
+  `2,9002,someone,0,300,${LINEUP},,LeBron James,F,20.00%,48`,
+  `2,9003,sharkbait (3/3),0,300,${LINEUP},,Trae Young,G,12.50%,39.5`,
+  `4,9004,other,0,250.25,${LINEUP},,Kevin Durant,UTIL,8.00%,41`,
+  ',,,,,,,Unknown Guy,SF,1.00%,0',
+].join('\n');
+
+const pool = (): Player[] => [
+  { id: 'p1', name: 'Nikola Jokic', position: 'C', team: 'DEN', opponent: 'LAL', salary: 11000, projection: 60, ownership: 35 },
+  { id: 'p2', name: 'LeBron James', position: 'SF/PF', team: 'LAL', opponent: 'DEN', salary: 9000, projection: 45, ownership: 22 },
+  { id: 'p3', name: 'Trae Young', position: 'PG', team: 'ATL', opponent: 'BOS', salary: 8800, projection: 44, ownership: 12.5 },
+];
+
+describe('contest standings import', () => {
+  it('splits the DK lineup string on slot labels', () => {
+    expect(parseStandingsLineup(LINEUP)).toEqual([
+      'Nikola Jokic', 'LeBron James', 'Trae Young', 'Jaren Jackson Jr.', 'C.J. McCollum', 'Jayson Tatum', 'Devin Booker', 'Kevin Durant',
+    ]);
+  });
+
+  it('parses entries and the %drafted table', () => {
+    const standings = parseContestStandingsText(STANDINGS_CSV);
+    expect(standings.fieldSize).toBe(4);
+    expect(standings.entries[0]).toMatchObject({ rank: 1, entryId: '9001', username: 'sharkbait', points: 310.5 });
+    expect(standings.fieldOwnership).toHaveLength(5);
+    expect(standings.fieldOwnership[0]).toEqual({ name: 'Nikola Jokic', drafted: 45.1, fpts: 70.25 });
+    expect(() => parseContestStandingsText('Player,FPTS\nA,1')).toThrow(/contest standings/);
+  });
+
+  it('splits payouts across tied entries', () => {
+    const standings = parseContestStandingsText(STANDINGS_CSV);
+    const payouts = estimateStandingsPayouts(standings.entries, [100, 50, 20]);
+    expect(payouts.get('9001')).toBe(100);
+    expect(payouts.get('9002')).toBe(35);
+    expect(payouts.get('9003')).toBe(35);
+    expect(payouts.get('9004')).toBe(0);
+  });
+
+  it('matches entries by id or username and compares field ownership', () => {
+    const standings = parseContestStandingsText(STANDINGS_CSV);
+    const result = buildContestResult({
+      standings,
+      ownEntries: [{ entryId: '9004', contestId: '123456789', contestName: 'NBA $5 Shot', entryFee: '$5.00' }],
+      username: 'SharkBait',
+      contest: DEFAULT_CONTEST,
+      players: pool(),
+      slateDate: '2026-01-10',
+      fileName: 'contest-standings-123456789.csv',
+    });
+    expect(result.contestId).toBe('123456789');
+    expect(result.entryFee).toBe(5);
+    expect(result.entries.map((entry) => entry.entryId)).toEqual(['9001', '9003', '9004']);
+    expect(result.entries[0].percentile).toBe(100);
+    expect(result.entries[2].percentile).toBe(0);
+    // deriveContest pays 22% of the field: nobody in a four-entry contest.
+    expect(result.paidPlaces).toBe(0);
+    expect(result.entries.every((entry) => entry.payout === 0)).toBe(true);
+
+    const comparison = compareFieldOwnership(pool(), result.fieldOwnership);
+    expect(comparison.map((row) => row.player.id)).toEqual(['p1', 'p2', 'p3']);
+    expect(comparison[0].delta).toBe(10.1);
+    expect(comparison[2].delta).toBe(0);
+  });
+});
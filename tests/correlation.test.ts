@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { computePairCorrelation, pearsonCorrelation } from '../utils/correlation';
+import type { Player } from '../types';
+
+const makePlayer = (id: string, team: string, opponent: string, history: Array<[string, string, number, number]>): Player => ({
+  id,
+  name: id,
+  team,
+  opponent,
+  position: 'PG',
+  salary: 5000,
+  projection: 30,
+  history: history.map(([date, opp, minutes, fpts]) => ({ date, opponent: opp, minutes, fpts })),
+} as Player);
+
+describe('pair correlation', () => {
+  it('computes Pearson r', () => {
+    expect(pearsonCorrelation([1, 2, 3, 4], [2, 4, 6, 8])).toBeCloseTo(1, 10);
+    expect(pearsonCorrelation([1, 2, 3, 4], [8, 6, 4, 2])).toBeCloseTo(-1, 10);
+    expect(pearsonCorrelation([1, 1, 1], [1, 2, 3])).toBeNull();
+  });
+
+  it('pairs teammate games by date and drops low-minute games', () => {
+    const a = makePlayer('a', 'BOS', 'NYK', [
+      ['2025-01-01', 'MIA', 34, 40],
+      ['2025-01-03', 'CHI', 33, 30],
+      ['2025-01-05', 'ATL', 35, 50],
+      ['2025-01-07', 'DET', 30, 20],
+      ['2025-01-09', 'ORL', 36, 45],
+      ['2025-01-11', 'PHI', 32, 35],
+    ]);
+    const b = makePlayer('b', 'BOS', 'NYK', [
+      ['2025-01-01', 'MIA', 28, 30],
+      ['2025-01-03', 'CHI', 29, 25],
+      ['2025-01-05', 'ATL', 30, 35],
+      ['2025-01-07', 'DET', 27, 20],
+      ['2025-01-09', 'ORL', 31, 32],
+      ['2025-01-11', 'PHI', 4, 2],
+    ]);
+    const result = computePairCorrelation(a, b, { minMinutes: 10, minSampleSize: 5 });
+    expect(result.relationship).toBe('teammates');
+    expect(result.sampleSize).toBe(5);
+    expect(result.excludedForMinutes).toBe(1);
+    expect(result.correlation).not.toBeNull();
+    expect(result.correlation as number).toBeGreaterThan(0.9);
+  });
+
+  it('only pairs head-to-head games for opponents and withholds r on small samples', () => {
+    const a = makePlayer('a', 'BOS', 'NYK', [
+      ['2025-01-01', 'NYK', 34, 40],
+      ['2025-01-03', 'CHI', 33, 30],
+    ]);
+    const b = makePlayer('b', 'NYK', 'BOS', [
+      ['2025-01-01', 'BOS', 30, 28],
+      ['2025-01-03', 'MIA', 30, 22],
+    ]);
+    const result = computePairCorrelation(a, b);
+    expect(result.relationship).toBe('opponents');
+    expect(result.sampleSize).toBe(1);
+    expect(result.correlation).toBeNull();
+  });
+});
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { runOptimizerRequest } from '../src/workers/optimizer-service/engines';
+import { estimateLineupDuplication, formatDuplicates, getDuplicationRisk } from '../utils/duplication';
+import { makeSlatePool } from './fixtures';
+
+// The best projections are also the most owned, so the unconstrained optimal lineup is chalk.
+const makePool = () => makeSlatePool((idx) => ({ ownership: 5 + (idx % 8) * 6 }));
+
+describe('lineup duplication estimate', () => {
+  it('scales the ownership product by field size', () => {
+    const estimate = estimateLineupDuplication([10, 10, 10, 10, 10, 10, 10, 10], 0, 200000);
+    expect(estimate.ownershipProduct).toBeCloseTo(1e-8, 12);
+    expect(estimate.chalkShare).toBe(0);
+    expect(estimate.expectedDuplicates).toBeCloseTo(0.002, 6);
+    expect(formatDuplicates(estimate.expectedDuplicates)).toBe('<0.1');
+  });
+
+  it('rates chalk higher and unspent salary lower', () => {
+    const chalk = [40, 40, 40, 40, 40, 40, 40, 40];
+    const full = estimateLineupDuplication(chalk, 0, 200000);
+    expect(full.chalkShare).toBe(1);
+    expect(full.expectedDuplicates).toBeGreaterThan(200000 * 0.4 ** 8);
+    expect(getDuplicationRisk(full.expectedDuplicates)).toBe('high');
+
+    const leftover = estimateLineupDuplication(chalk, 1500, 200000);
+    expect(leftover.expectedDuplicates).toBeLessThan(full.expectedDuplicates / 10);
+    expect(estimateLineupDuplication(chalk, 0, 0).expectedDuplicates).toBe(0);
+  });
+
+  it('rejects lineups over the optimizer duplication limit', async () => {
+    const pool = makePool();
+    const byId = new Map(pool.map((p) => [p.id, p]));
+    const dupesOf = (ids: string[], totalSalary: number, fieldSize: number) =>
+      estimateLineupDuplication(ids.map((id) => byId.get(id)!.ownership ?? 0), 50000 - totalSalary, fieldSize)
+        .expectedDuplicates;
+
+    const open = await runOptimizerRequest(
+      { engine: 'greedy', players: pool, rules: { site: 'DraftKings', numLineups: 1 } },
+      () => {},
+    );
+    const openDupes = dupesOf(open.lineups[0].playerIds, open.lineups[0].totalSalary, 200000);
+    expect(openDupes).toBeGreaterThan(0.5);
+
+    const limited = await runOptimizerRequest(
+      {
+        engine: 'greedy',
+        players: pool,
+        rules: { site: 'DraftKings', numLineups: 3, minUniquePlayers: 2, fieldSize: 200000, maxDuplicates: 0.5 },
+      },
+      () => {},
+    );
+    expect(limited.lineups.length).toBeGreaterThan(0);
+    limited.lineups.forEach((lineup) => {
+      expect(dupesOf(lineup.playerIds, lineup.totalSalary, 200000)).toBeLessThanOrEqual(0.5);
+    });
+  });
+});
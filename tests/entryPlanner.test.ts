@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest';
+import type { Lineup, Player } from '../types';
+import { groupEntriesByContest, inferContestObjective, planContestAssignments } from '../utils/entryPlanner';
+
+const player = (id: string, projection: number, ownership: number): Player => ({
+  id,
+  name: id,
+  team: 'BOS',
+  opponent: 'NYK',
+  position: 'PG',
+  salary: 5000,
+  projection,
+  ownership,
+} as Player);
+
+const PLAYERS = new Map([
+  ['chalk', player('chalk', 50, 60)],
+  ['mid', player('mid', 40, 20)],
+  ['fade', player('fade', 38, 2)],
+  ['low', player('low', 30, 5)],
+].map(([id, p]) => [id as string, p as Player]));
+
+const lineup = (id: string, playerIds: string[]): Lineup => ({ id, playerIds, totalSalary: 0, totalProjection: 0 });
+
+const LINEUPS = [
+  lineup('a', ['chalk', 'mid']), // projection 90, leverage 20 + 32 = 52
+  lineup('b', ['chalk', 'fade']), // projection 88, leverage 20 + 37.24 = 57.24
+  lineup('c', ['fade', 'low']), // projection 68, leverage 37.24 + 28.5 = 65.74
+  lineup('a2', ['mid', 'chalk']), // same roster as a
+];
+
+describe('contest entry planner', () => {
+  it('groups entries by contest and infers each objective', () => {
+    const groups = groupEntriesByContest([
+      { contestId: '1', contestName: 'NBA $20K Shot [150 Entry Max]', entryFee: '$5' },
+      { contestId: '2', contestName: 'NBA $5 Double Up', entryFee: '$5' },
+      { contestId: '1', contestName: 'NBA $20K Shot [150 Entry Max]', entryFee: '$5' },
+      { contestId: '3', contestName: 'NBA $50K Tipoff', entryFee: '$3' },
+    ]);
+    expect(groups.map((group) => [group.contestId, group.entryIndexes, group.objective])).toEqual([
+      ['1', [0, 2], 'leverage'],
+      ['2', [1], 'projection'],
+      ['3', [3], 'projection'],
+    ]);
+    expect(inferContestObjective('NBA $1K Single Entry', 3)).toBe('projection');
+  });
+
+  it('ranks lineups per contest objective and never repeats a roster within a contest', () => {
+    const groups = groupEntriesByContest([
+      { contestId: 'gpp', contestName: 'GPP', entryFee: '$5' },
+      { contestId: 'gpp', contestName: 'GPP', entryFee: '$5' },
+      { contestId: 'gpp', contestName: 'GPP', entryFee: '$5' },
+      { contestId: 'gpp', contestName: 'GPP', entryFee: '$5' },
+      { contestId: 'se', contestName: 'Single Entry', entryFee: '$5' },
+    ]);
+    const plan = planContestAssignments(groups, LINEUPS, PLAYERS);
+
+    // GPP takes leverage order c, b, a; a2 repeats a's roster and the fourth entry stays open.
+    expect([0, 1, 2, 3].map((idx) => plan.assignments.get(idx))).toEqual([2, 1, 0, undefined]);
+    // The single-entry contest reuses the top projection lineup.
+    expect(plan.assignments.get(4)).toBe(0);
+
+    const gpp = plan.contests[0];
+    expect(gpp).toMatchObject({ objective: 'leverage', entries: 4, assigned: 3, avgProjection: 82 });
+    expect(gpp.exposures.find((row) => row.playerId === 'chalk')?.exposure).toBeCloseTo(66.7, 1);
+  });
+});
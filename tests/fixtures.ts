@@ -0,0 +1,25 @@
+import type { OptimizerPlayer } from '../src/workers/optimizer-service/types';
+
+export const TEAMS = ['BOS', 'NYK', 'LAL', 'GSW'];
+export const OPPONENTS: Record<string, string> = { BOS: 'NYK', NYK: 'BOS', LAL: 'GSW', GSW: 'LAL' };
+export const POSITIONS = ['PG', 'SG', 'SF', 'PF', 'C', 'PG/SG', 'SF/PF', 'PF/C'];
+
+/**
+ * The two-game, 32-player slate the optimizer tests share: `p0`…`p31`, teams and
+ * positions cycling, salary and projection rising with `idx % 8`. `extra` adds
+ * per-player fields (ownership, actuals) on top.
+ */
+export const makeSlatePool = (extra: (idx: number) => Partial<OptimizerPlayer> = () => ({})): OptimizerPlayer[] =>
+  Array.from({ length: 32 }, (_, idx) => {
+    const team = TEAMS[idx % TEAMS.length];
+    return {
+      id: `p${idx}`,
+      name: `Player ${idx}`,
+      position: POSITIONS[idx % POSITIONS.length],
+      team,
+      opponent: OPPONENTS[team],
+      salary: 3500 + (idx % 8) * 700,
+      projection: 18 + (idx % 8) * 4 + (idx % 3),
+      ...extra(idx),
+    };
+  });
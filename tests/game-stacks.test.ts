@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { runOptimizerRequest } from '../src/workers/optimizer-service/engines';
+import { gameIdFor, meetsGameStackRules, normalizeGameStackRules } from '../src/workers/sa-optimizer/stacks';
+import { getSiteRules, validateSiteLineup } from '../utils/siteRules';
+import { makeSlatePool } from './fixtures';
+
+const BOS_NYK = gameIdFor('NYK', 'BOS');
+const LAL_GSW = gameIdFor('LAL', 'GSW');
+
+const lineupFrom = (teams: string[]) =>
+  teams.map((teamId) => ({ teamId, gameId: teamId === 'BOS' || teamId === 'NYK' ? BOS_NYK : LAL_GSW }));
+
+describe('game stack rules', () => {
+  it('keys games the same way regardless of team order', () => {
+    expect(BOS_NYK).toBe('BOS_vs_NYK');
+    expect(gameIdFor('bos', 'nyk')).toBe(BOS_NYK);
+  });
+
+  it('requires a bring-back from the opponent of the stacked team', () => {
+    const rules = normalizeGameStackRules([{ id: 'r', gameId: BOS_NYK, minPlayers: 3, minBringBack: 1 }], 8);
+    expect(meetsGameStackRules(lineupFrom(['BOS', 'BOS', 'NYK', 'LAL', 'LAL', 'GSW', 'GSW', 'LAL']), rules)).toBe(true);
+    expect(meetsGameStackRules(lineupFrom(['BOS', 'BOS', 'BOS', 'LAL', 'LAL', 'GSW', 'GSW', 'LAL']), rules)).toBe(false);
+  });
+
+  it('counts qualifying games for "any game" rules and applies per-game caps', () => {
+    const twoGames = normalizeGameStackRules([{ id: 'r', minPlayers: 2, minGames: 2 }], 8);
+    expect(meetsGameStackRules(lineupFrom(['BOS', 'NYK', 'LAL', 'GSW']), twoGames)).toBe(true);
+    expect(meetsGameStackRules(lineupFrom(['BOS', 'NYK', 'NYK', 'LAL']), twoGames)).toBe(false);
+
+    const capped = normalizeGameStackRules([{ id: 'cap', minPlayers: 0, maxPlayers: 4 }], 8);
+    expect(capped[0].maxPlayers).toBe(4);
+    expect(meetsGameStackRules(lineupFrom(['BOS', 'BOS', 'NYK', 'NYK', 'BOS', 'LAL', 'GSW', 'LAL']), capped)).toBe(false);
+    expect(meetsGameStackRules(lineupFrom(['BOS', 'BOS', 'NYK', 'NYK', 'GSW', 'LAL', 'GSW', 'LAL']), capped)).toBe(true);
+  });
+
+  it.each(['ilp', 'greedy'] as const)('builds %s lineups that honour a game stack, a bring-back and a team cap', async (engine) => {
+    const pool = makeSlatePool();
+    const byId = new Map(pool.map((p) => [p.id, p]));
+    const stack = { id: 'bos', gameId: BOS_NYK, minPlayers: 4, minBringBack: 1, minGames: 1 };
+    const result = await runOptimizerRequest(
+      {
+        engine,
+        players: pool,
+        rules: { site: 'DraftKings', numLineups: 3, minUniquePlayers: 2, stack: { games: [stack], maxPlayersPerTeam: 3 } },
+      },
+      () => {},
+    );
+
+    expect(result.lineups).toHaveLength(3);
+    const rules = normalizeGameStackRules([stack], 8);
+    result.lineups.forEach((lineup) => {
+      const players = lineup.playerIds.map((id) => byId.get(id)!);
+      expect(validateSiteLineup(players, getSiteRules('DraftKings'))).toEqual([]);
+      expect(meetsGameStackRules(lineupFrom(players.map((p) => p.team)), rules)).toBe(true);
+      const perTeam = new Map<string, number>();
+      players.forEach((p) => perTeam.set(p.team, (perTeam.get(p.team) ?? 0) + 1));
+      // Four from BOS/NYK under a three-per-team cap means both sides are in the stack.
+      expect(players.filter((p) => p.team === 'BOS' || p.team === 'NYK').length).toBeGreaterThanOrEqual(4);
+      expect(Math.max(...perTeam.values())).toBeLessThanOrEqual(3);
+    });
+  });
+});
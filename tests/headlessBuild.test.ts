@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildHeadlessRequest,
+  parseHeadlessSettings,
+  parseHeadlessSlate,
+  runHeadlessBuild,
+} from '../utils/headlessBuild';
+import { makeSlatePool } from './fixtures';
+
+const projectionsCsv = (): string => [
+  'Name,ID,Position,Team,Opponent,Salary,Projection',
+  ...makeSlatePool().map((p, idx) => `${p.name},${1000 + idx},${p.position},${p.team},${p.opponent},${p.salary},${p.projection}`),
+].join('\n');
+
+describe('headless lineup build', () => {
+  it('reads saved Optimizer settings into the page request', async () => {
+    const players = await parseHeadlessSlate('projections.csv', projectionsCsv());
+    expect(players).toHaveLength(32);
+
+    const settings = parseHeadlessSettings({
+      config: { engine: 'greedy', numLineups: 2, maxDuplicates: 1 },
+      lockedIds: ['1007'],
+      playerOverrides: { '1015': { exclude: true }, '1023': { maxExposure: 50, projection: 25 } },
+      fieldSize: 5000,
+    });
+    const request = buildHeadlessRequest(players, settings);
+    expect(request.engine).toBe('greedy');
+    expect(request.rules).toMatchObject({
+      numLineups: 2,
+      locks: ['1007'],
+      excludes: ['1015'],
+      exposures: { '1023': { max: 50 } },
+      fieldSize: 5000,
+      maxDuplicates: 1,
+    });
+    expect(request.players.find((player) => player.id === '1023')?.projection).toBe(25);
+    expect(() => parseHeadlessSettings([])).toThrow('Settings file must contain a JSON object');
+  });
+
+  it('writes the upload CSV and an exposure summary', async () => {
+    const players = await parseHeadlessSlate('projections.csv', projectionsCsv());
+    const settings = parseHeadlessSettings({ engine: 'greedy', numLineups: 3, minUniquePlayers: 2 });
+    const { csv, summary } = await runHeadlessBuild(players, settings);
+
+    const rows = csv.split('\n');
+    expect(rows[0]).toBe('PG,SG,SF,PF,C,G,F,UTIL');
+    expect(rows).toHaveLength(1 + summary.built);
+    rows.slice(1).forEach((row) => expect(row.split(',').every((id) => /^10\d\d$/.test(id))).toBe(true));
+
+    expect(summary).toMatchObject({ site: 'DraftKings', engine: 'greedy', status: 'complete', requested: 3, built: 3 });
+    const total = summary.exposures.reduce((sum, row) => sum + row.count, 0);
+    expect(total).toBe(3 * 8);
+    expect(summary.exposures[0].exposure).toBeLessThanOrEqual(100);
+  });
+});
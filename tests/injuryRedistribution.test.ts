@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import type { Player } from '../types';
+import { redistributeInjuredMinutes } from '../utils/injuryRedistribution';
+
+const player = (id: string, overrides: Partial<Player>): Player => ({
+  id,
+  name: `Player ${id}`,
+  position: 'SF',
+  team: 'BOS',
+  opponent: 'NYK',
+  salary: 5000,
+  projection: 25,
+  ...overrides,
+});
+
+const makeTeam = (): Player[] => [
+  player('pg1', { name: 'Lead Guard', position: 'PG', minutesProjection: 34, usageRate: 28, projection: 44, ceiling: 60 }),
+  player('pg2', { name: 'Backup Guard', position: 'PG', minutesProjection: 18, usageRate: 20, projection: 18, ceiling: 28 }),
+  player('c1', { name: 'Big Man', position: 'C', minutesProjection: 30, usageRate: 22, projection: 36 }),
+  player('sf1', { name: 'Wing', position: 'SF', minutesProjection: 32, usageRate: 18, projection: 28 }),
+  player('sg2', { name: 'Bench Guard', position: 'SG', minutesProjection: 12, usageRate: 17, projection: 10 }),
+  player('nyk', { team: 'NYK', opponent: 'BOS', minutesProjection: 30, usageRate: 25 }),
+];
+
+const depthCharts = { BOS: { PG: ['Lead Guard', 'Backup Guard'], SG: ['Bench Guard'], C: ['Big Man'], SF: ['Wing'] } };
+
+describe('injury redistribution', () => {
+  it('moves the absent player\'s minutes to teammates, mostly to the depth-chart backup', () => {
+    const [lead, ...rest] = makeTeam();
+    const adjusted = redistributeInjuredMinutes(rest, { unavailablePlayers: [lead], depthCharts });
+    const byId = new Map(adjusted.map((p) => [p.id, p]));
+
+    const gained = adjusted.reduce((sum, p) => sum + (p.injuryAdjustment?.minutesDelta ?? 0), 0);
+    expect(gained).toBeCloseTo(34, 0);
+    const backup = byId.get('pg2')!;
+    expect(backup.injuryAdjustment!.minutesDelta).toBeGreaterThan(byId.get('c1')!.injuryAdjustment!.minutesDelta);
+    expect(backup.minutesProjection).toBeLessThanOrEqual(40);
+    expect(backup.projection).toBeGreaterThan(18);
+    expect(backup.ceiling! - 28).toBeCloseTo(backup.injuryAdjustment!.ceilingDelta, 2);
+    expect(backup.injuryAdjustment!.sources).toEqual(['Lead Guard']);
+    expect(backup.usageRate).toBeGreaterThan(20);
+
+    // Other teams are untouched.
+    expect(byId.get('nyk')).toBe(rest[rest.length - 1]);
+  });
+
+  it('caps receivers at 40 minutes and hands the excess to the rest', () => {
+    const team = makeTeam();
+    const heavy = team.map((p) => (p.id === 'pg2' ? { ...p, minutesProjection: 36 } : p));
+    const [lead, ...rest] = heavy;
+    const adjusted = redistributeInjuredMinutes(rest, { unavailablePlayers: [lead], depthCharts });
+    const backup = adjusted.find((p) => p.id === 'pg2')!;
+    expect(backup.minutesProjection).toBeCloseTo(40, 5);
+    const gained = adjusted.reduce((sum, p) => sum + (p.injuryAdjustment?.minutesDelta ?? 0), 0);
+    expect(gained).toBeCloseTo(34, 0);
+  });
+
+  it('leaves the pool alone when no ruled-out player has known minutes', () => {
+    const [lead, ...rest] = makeTeam();
+    const unknown = { ...lead, minutesProjection: undefined };
+    expect(redistributeInjuredMinutes(rest, { unavailablePlayers: [unknown] })).toBe(rest);
+  });
+});
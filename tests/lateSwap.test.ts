@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { buildLateSwapExposureDiff, planPortfolioLateSwap } from '../utils/lateSwap';
+
+// Swappable players in projection order; the fake optimizer fills open slots best-first.
+const RANKED = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'];
+const ROSTER_SIZE = 3;
+
+const bestAvailable = (lockedIds: string[], excludeIds: Set<string>): string[] | null => {
+  const open = RANKED.filter((id) => !excludeIds.has(id) && !lockedIds.includes(id)).slice(0, ROSTER_SIZE - lockedIds.length);
+  return open.length === ROSTER_SIZE - lockedIds.length ? [...lockedIds, ...open] : null;
+};
+
+describe('portfolio late swap', () => {
+  it('caps exposure across entries and keeps locked players in place', async () => {
+    const entries = Array.from({ length: 4 }, () => ({ lockedIds: ['x'], currentIds: ['g', 'h'] }));
+    const plan = await planPortfolioLateSwap({
+      entries,
+      rosterSize: ROSTER_SIZE,
+      maxExposurePct: 50,
+      minUniquePlayers: 1,
+      optimize: async (idx, excludes) => bestAvailable(entries[idx].lockedIds, excludes),
+    });
+    expect(plan.status).toEqual(['swapped', 'swapped', 'swapped', 'swapped']);
+    expect(plan.lineups[0]).toEqual(['x', 'a', 'b']);
+    const counts = new Map<string, number>();
+    plan.lineups.forEach((ids) => {
+      expect(ids[0]).toBe('x');
+      ids.slice(1).forEach((id) => counts.set(id, (counts.get(id) ?? 0) + 1));
+    });
+    counts.forEach((count) => expect(count).toBeLessThanOrEqual(2));
+    expect(new Set(plan.lineups.map((ids) => [...ids].sort().join())).size).toBe(4);
+  });
+
+  it('rebuilds lineups that repeat an earlier entry and keeps entries it cannot fix', async () => {
+    const entries = [
+      { lockedIds: [], currentIds: ['a', 'b', 'c'] },
+      { lockedIds: [], currentIds: ['f', 'g', 'h'] },
+      { lockedIds: ['a', 'b', 'c'], currentIds: [] },
+    ];
+    const plan = await planPortfolioLateSwap({
+      entries,
+      rosterSize: ROSTER_SIZE,
+      maxExposurePct: 100,
+      minUniquePlayers: 2,
+      optimize: async (idx, excludes) => bestAvailable(entries[idx].lockedIds, excludes),
+    });
+    expect(plan.status).toEqual(['unchanged', 'swapped', 'locked']);
+    expect(plan.lineups[1].filter((id) => plan.lineups[0].includes(id)).length).toBeLessThanOrEqual(1);
+
+    const infeasible = await planPortfolioLateSwap({
+      entries: [{ lockedIds: [], currentIds: ['g', 'h', 'f'] }],
+      rosterSize: ROSTER_SIZE,
+      maxExposurePct: 100,
+      minUniquePlayers: 1,
+      optimize: async () => null,
+    });
+    expect(infeasible.status).toEqual(['kept']);
+    expect(infeasible.lineups).toEqual([['g', 'h', 'f']]);
+  });
+
+  it('reports exposure moves between the current and swapped portfolios', () => {
+    const diff = buildLateSwapExposureDiff(
+      [['x', 'a'], ['x', 'b']],
+      [['x', 'a'], ['x', 'a']],
+    );
+    expect(diff).toEqual([
+      { playerId: 'a', before: 50, after: 100, delta: 50 },
+      { playerId: 'b', before: 50, after: 0, delta: -50 },
+    ]);
+  });
+});
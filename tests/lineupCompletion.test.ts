@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import type { Player } from '../types';
+import { runOptimizerRequest } from '../src/workers/optimizer-service/engines';
+import { buildCompletionRequest, toLineupCompletions } from '../utils/lineupCompletion';
+import { getSiteRules, validateSiteLineup } from '../utils/siteRules';
+import { makeSlatePool } from './fixtures';
+
+const emptySlots = (): Record<string, Player | null> =>
+  Object.fromEntries(getSiteRules('DraftKings').slots.map((slot) => [slot.key, null]));
+
+describe('lineup completion', () => {
+  it('keeps placed players, re-slots them when needed and ranks distinct completions', async () => {
+    const pool = makeSlatePool();
+    const byId = new Map(pool.map((player) => [player.id, player]));
+    // A PG parked in UTIL and a C in C; the best completions want UTIL for someone else.
+    const slots = { ...emptySlots(), UTIL: byId.get('p0')!, C: byId.get('p4')! };
+
+    const request = buildCompletionRequest(pool, slots, 'DraftKings', 3);
+    expect(request.rules.locks).toEqual(['p4', 'p0']);
+    expect(request.players.slice(0, 2).map((player) => player.id)).toEqual(['p4', 'p0']);
+
+    const result = await runOptimizerRequest(request, () => {});
+    const completions = toLineupCompletions(result.lineups, pool, slots, 'DraftKings');
+    expect(completions).toHaveLength(3);
+    expect(completions[0].totalProjection).toBeGreaterThanOrEqual(completions[1].totalProjection);
+    expect(completions[1].totalProjection).toBeGreaterThanOrEqual(completions[2].totalProjection);
+    expect(new Set(completions.map((completion) => completion.added.map((player) => player.id).sort().join(','))).size).toBe(3);
+
+    completions.forEach((completion) => {
+      expect(completion.players.slice(0, 2).map((player) => player.id)).toEqual(['p4', 'p0']);
+      expect(completion.added).toHaveLength(6);
+      expect(completion.totalSalary).toBeLessThanOrEqual(50000);
+      expect(validateSiteLineup(Object.values(completion.slotMap), getSiteRules('DraftKings'))).toEqual([]);
+      expect(completion.slotMap.C.id).toBe('p4');
+      expect(completion.slotMap.UTIL.id).not.toBe('p0');
+      expect(completion.movedIds).toEqual(['p0']);
+    });
+  });
+
+  it('drops solved lineups that cannot be seated', () => {
+    const pool = makeSlatePool();
+    const completions = toLineupCompletions(
+      [{ id: 'short', playerIds: ['p0', 'p1'], totalSalary: 0, totalProjection: 0 }],
+      pool,
+      emptySlots(),
+      'DraftKings',
+    );
+    expect(completions).toEqual([]);
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import type { Player } from '../types';
+import { createDefaultOptimizerConfig } from '../utils/optimizerConfig';
+import { LINEUP_SET_VERSION, buildLineupSetFile, parseLineupSetFile, reconcileLineupSetFile } from '../utils/lineupSetExport';
+import type { SavedLineupSet } from '../utils/savedLineups';
+
+const player = (id: string, salary: number, projection: number): Player => ({
+  id,
+  name: `Player ${id}`,
+  position: 'SF',
+  team: 'BOS',
+  opponent: 'NYK',
+  salary,
+  projection,
+  ownership: 12,
+});
+
+const exportedPlayers = ['101', '102', '103', '104'].map((id, idx) => player(id, 5000 + idx * 500, 30 + idx));
+
+const savedSet: SavedLineupSet = {
+  id: 'saved_1',
+  name: 'Main GPP',
+  slateDate: '2026-01-10',
+  salaryCap: 50000,
+  createdAt: 1767225600000,
+  config: { ...createDefaultOptimizerConfig(), numLineups: 2, maxExposure: 60 },
+  lineups: [
+    { id: 'L1', playerIds: ['101', '102'], totalSalary: 10500, totalProjection: 61, simTop1Pct: 1.4, cashPct: 22, lineupSource: 'optimizer' },
+    { id: 'L2', playerIds: ['103', '104'], totalSalary: 11500, totalProjection: 65, simEV: -0.3, lineupSource: 'optimizer' },
+  ],
+};
+
+describe('lineup set export', () => {
+  it('round-trips the set, its settings, the player snapshot and lineup metrics', () => {
+    const file = buildLineupSetFile(savedSet, exportedPlayers);
+    expect(file.version).toBe(LINEUP_SET_VERSION);
+    expect(file.players).toHaveLength(4);
+    expect(file.players[0]).toEqual({ id: '101', name: 'Player 101', team: 'BOS', position: 'SF', salary: 5000, projection: 30, ownership: 12 });
+    expect(file.lineups[0].metrics).toEqual({ simTop1Pct: 1.4, cashPct: 22 });
+
+    const parsed = parseLineupSetFile(JSON.stringify(file));
+    expect(parsed.config).toMatchObject({ numLineups: 2, maxExposure: 60 });
+    expect(parsed.lineups).toEqual(file.lineups);
+    expect(parsed.set).toEqual(file.set);
+  });
+
+  it('rejects files that are not a valid export', () => {
+    const file = buildLineupSetFile(savedSet, exportedPlayers);
+    expect(() => parseLineupSetFile('{not json')).toThrow('not valid JSON');
+    expect(() => parseLineupSetFile({ ...file, format: 'other' })).toThrow('not a SlateSim lineup set');
+    expect(() => parseLineupSetFile({ ...file, version: LINEUP_SET_VERSION + 1 })).toThrow('newer version');
+    expect(() => parseLineupSetFile({ ...file, lineups: [] })).toThrow('no lineups');
+    expect(() => parseLineupSetFile({ ...file, lineups: [{ id: 'L9', playerIds: ['101', '999'] }] }))
+      .toThrow('lineups[0] uses player "999"');
+  });
+
+  it('maps IDs onto the current slate and reports players that are gone', () => {
+    const file = parseLineupSetFile(buildLineupSetFile(savedSet, exportedPlayers));
+    // The slate formats IDs differently, has new salaries, and lost player 104.
+    const slate = [player('101.0', 5200, 31), player('1,02', 5600, 33), player('103', 6000, 32)];
+
+    const imported = reconcileLineupSetFile(file, slate, '2026-01-11');
+    expect(imported.missingPlayers.map((p) => p.id)).toEqual(['104']);
+    expect(imported.droppedLineupIds).toEqual(['L2']);
+    expect(imported.set).toMatchObject({ name: 'Main GPP', slateDate: '2026-01-11', config: { maxExposure: 60 } });
+    expect(imported.set.lineups).toEqual([
+      { id: 'L1', playerIds: ['101.0', '1,02'], totalSalary: 10800, totalProjection: 64, simTop1Pct: 1.4, cashPct: 22, lineupSource: 'optimizer' },
+    ]);
+
+    expect(() => reconcileLineupSetFile(file, [player('555', 5000, 20)], '2026-01-11')).toThrow('None of the 2 lineups');
+  });
+});
@@ -0,0 +1,119 @@
+import { describe, it, expect } from 'vitest';
+import type { GameInfo, Last5PlayByPlayGame, Player } from '../types';
+import { applyMinutesDistributions, blowoutProbability, buildMinutesDistribution } from '../utils/minutesDistribution';
+import { simulateContest } from '../src/workers/contest-sim/engine';
+import type { SimPlayer } from '../src/workers/contest-sim/types';
+
+// One game of `total` minutes, `fourth` of them in the fourth quarter.
+const game = (idx: number, total: number, fourth: number): Last5PlayByPlayGame => {
+  const early = (total - fourth) / 3;
+  return {
+    gameId: `g${idx}`,
+    date: `2026-01-0${idx + 1}`,
+    opponentTeamId: 'NYK',
+    timelineMinutes: 48,
+    chunks: [1, 2, 3, 4].map((quarter) => ({
+      quarter,
+      startMinute: (quarter - 1) * 12,
+      endMinute: quarter * 12,
+      minutesPlayed: quarter === 4 ? fourth : early,
+      points: 0,
+      rebounds: 0,
+      assists: 0,
+    } as any)),
+  };
+};
+
+const player = (id: string, overrides: Partial<Player>): Player => ({
+  id,
+  name: `Player ${id}`,
+  position: 'SF',
+  team: 'BOS',
+  opponent: 'NYK',
+  salary: 5000,
+  projection: 30,
+  ...overrides,
+});
+
+const bosGame = (spread: number): GameInfo => ({
+  matchupKey: 'BOS_vs_NYK',
+  teamA: { teamId: 'BOS' } as any,
+  teamB: { teamId: 'NYK' } as any,
+  gameTime: '7:00 PM EST',
+  spread,
+  overUnder: 225,
+});
+
+describe('minutes distribution', () => {
+  const starter = player('s1', {
+    last5PlayByPlay: [game(0, 34, 9), game(1, 36, 10), game(2, 32, 8), game(3, 35, 9), game(4, 33, 9)],
+  });
+
+  it('reads mean and spread from the stints and adds a spread-driven blowout tail', () => {
+    const close = buildMinutesDistribution(starter, 0)!;
+    expect(close.sampleGames).toBe(5);
+    expect(close.baseMean).toBe(34);
+    // A sample spread of ~1.6 minutes is floored at 2.
+    expect(close.baseSd).toBe(2);
+    expect(blowoutProbability(0)).toBeCloseTo(0.0956, 3);
+
+    const lopsided = buildMinutesDistribution(starter, -14)!;
+    expect(lopsided.blowoutRisk).toBeGreaterThan(close.blowoutRisk);
+    expect(blowoutProbability(-14)).toBeCloseTo(blowoutProbability(14), 6);
+    // A regular gives back 60% of its ~9 fourth-quarter minutes.
+    expect(lopsided.blowoutMean).toBeCloseTo(34 - 9 * 0.6, 1);
+    expect(lopsided.mean).toBeLessThan(close.mean);
+    expect(lopsided.variance).toBeGreaterThan(close.variance);
+
+    const reserve = buildMinutesDistribution(player('r1', { last5PlayByPlay: [game(0, 10, 2), game(1, 12, 3)] }), -14)!;
+    expect(reserve.blowoutMean).toBe(16);
+    expect(reserve.mean).toBeGreaterThan(reserve.baseMean);
+  });
+
+  it('fills missing projections from the distribution and falls back to rotation stints', () => {
+    const rotationOnly = player('r2', {
+      team: 'NYK',
+      opponent: 'BOS',
+      minutesProjection: 28,
+      rotations: [
+        { period: 1, startSec: 0, endSec: 600 },
+        { period: 4, startSec: 2280, endSec: 2880 },
+      ],
+    });
+    const [withHistory, withRotation, bare] = applyMinutesDistributions(
+      [starter, rotationOnly, player('x', {})],
+      [bosGame(-9)],
+    );
+
+    expect(withHistory.minutesProjection).toBe(withHistory.minutesDistribution!.mean);
+    expect(withHistory.minutesVariance).toBe(withHistory.minutesDistribution!.variance);
+    // The slate projection wins; one game of history falls back to a 15% spread.
+    expect(withRotation.minutesProjection).toBe(28);
+    expect(withRotation.minutesDistribution).toMatchObject({ baseMean: 28, baseSd: 3, sampleGames: 1 });
+    expect(withRotation.minutesDistribution!.blowoutRisk).toBe(withHistory.minutesDistribution!.blowoutRisk);
+    expect(bare).not.toHaveProperty('minutesDistribution');
+  });
+
+  it('keeps simulated scores centred on projection when blowouts cut minutes', () => {
+    const positions = ['PG', 'SG', 'SF', 'PF', 'C', 'PG', 'SF', 'C'];
+    const players: SimPlayer[] = positions.map((pos, idx) => ({
+      id: `p${idx}`,
+      positions: [pos],
+      salary: 5000,
+      projection: 40,
+      floor: 30,
+      ceiling: 50,
+      ownership: 10,
+      teamId: 'BOS',
+      gameId: 'BOS_vs_NYK',
+      minutes: 34,
+      blowoutMinutes: 20,
+      blowoutRisk: 0.4,
+    }));
+    const lineups = [{ id: 'L1', playerIds: players.map((p) => p.id) }];
+    const config = { iterations: 4000, fieldSize: 1, seed: 7 };
+
+    const result = simulateContest(players, lineups, config).lineups[0];
+    expect(result.meanScore).toBeCloseTo(320, -1);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import type { Player } from '../types';
+import { buildInjuryLookup } from '../utils/injuries';
+import { buildStartingLineupLookup } from '../utils/startingLineups';
+import { diffSlateNews, findNewsImpact, isNewsImpactEmpty } from '../utils/newsChanges';
+
+const makePlayer = (id: string, name: string, team: string): Player => ({
+  id,
+  name,
+  team,
+  opponent: team === 'BOS' ? 'NYK' : 'BOS',
+  position: 'PG',
+  salary: 5000,
+  projection: 30,
+} as Player);
+
+const PLAYERS = [
+  makePlayer('101', 'Jayson Tatum', 'BOS'),
+  makePlayer('102', 'Jrue Holiday', 'BOS'),
+  makePlayer('201', 'Jalen Brunson', 'NYK'),
+  makePlayer('202', 'Josh Hart', 'NYK'),
+];
+
+const snapshot = (injuries: any, lineups: any) => ({
+  injuries: buildInjuryLookup(injuries),
+  startingLineups: buildStartingLineupLookup(lineups),
+});
+
+describe('slate news changes', () => {
+  it('reports new OUTs, upgrades and newly confirmed starters', () => {
+    const before = snapshot(
+      [
+        { name: 'Jrue Holiday', team: 'BOS', status: 'Questionable' },
+        { name: 'Josh Hart', team: 'NYK', status: 'Out' },
+      ],
+      { lineups: { 'NYK@BOS': { BOS: { starters: [{ name: 'Jayson Tatum' }] } } } },
+    );
+    const after = snapshot(
+      [
+        { name: 'Jrue Holiday', team: 'BOS', status: 'Probable' },
+        { name: 'Jalen Brunson', team: 'NYK', status: 'Out' },
+        { name: 'Josh Hart', team: 'NYK', status: 'Out' },
+      ],
+      { lineups: { 'NYK@BOS': { BOS: { starters: [{ name: 'Jayson Tatum', status: 'confirmed' }] } } } },
+    );
+
+    const changes = diffSlateNews(PLAYERS, before, after);
+    expect(changes.map((change) => change.id)).toEqual([
+      'new_confirmed_starter:101',
+      'upgraded:102',
+      'new_out:201',
+    ]);
+    expect(changes[1]).toMatchObject({ previousStatus: 'Questionable', status: 'Probable' });
+    expect(diffSlateNews(PLAYERS, after, after)).toEqual([]);
+  });
+
+  it('lists the entries, saved sets and optimizer locks holding a changed player', () => {
+    const holdings = {
+      entries: [
+        { entryId: 'e1', contestName: 'GPP', slots: { PG: 'Jalen Brunson (201)', SG: 'Josh Hart (202)' } },
+        { entryId: 'e2', contestName: 'GPP', slots: { PG: 'Jrue Holiday (102) (LOCKED)', SG: 'Josh Hart (202)' } },
+        { entryId: 'e3', contestName: 'FD', slots: { PG: '201:Jalen Brunson', SG: '' } },
+      ],
+      lineupSets: [
+        { id: 's1', name: 'Main', lineups: [{ playerIds: ['201', '101'] }, { playerIds: ['102'] }, { playerIds: ['201'] }] },
+        { id: 's2', name: 'Alt', lineups: [{ playerIds: ['102'] }] },
+      ],
+      lockedIds: ['201'],
+    };
+
+    const impact = findNewsImpact('201', holdings);
+    expect(impact.entries).toEqual([
+      { entryId: 'e1', contestName: 'GPP', slot: 'PG' },
+      { entryId: 'e3', contestName: 'FD', slot: 'PG' },
+    ]);
+    expect(impact.lineupSets).toEqual([{ id: 's1', name: 'Main', lineupCount: 2 }]);
+    expect(impact.optimizerLock).toBe(true);
+    expect(isNewsImpactEmpty(findNewsImpact('999', holdings))).toBe(true);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { diagnoseOptimizerRequest } from '../src/workers/optimizer-service/diagnostics';
+import { runOptimizerRequest } from '../src/workers/optimizer-service/engines';
+import type { OptimizerRequestRules } from '../src/workers/optimizer-service/types';
+import { makeSlatePool } from './fixtures';
+
+const diagnose = (rules: OptimizerRequestRules, players = makeSlatePool()) =>
+  diagnoseOptimizerRequest({ engine: 'greedy', players, rules: { site: 'DraftKings', ...rules } });
+
+describe('optimizer diagnostics', () => {
+  it('passes a feasible request', () => {
+    expect(diagnose({ numLineups: 5, minUniquePlayers: 2, locks: ['p0'], salaryFloor: 30000 })).toEqual([]);
+  });
+
+  it('flags locks whose salary plus the cheapest fill exceeds the cap', () => {
+    const players = makeSlatePool().map((p) => (['p7', 'p15', 'p23'].includes(p.id) ? { ...p, salary: 14000 } : p));
+    const [conflict] = diagnose({ locks: ['p7', 'p15', 'p23'] }, players);
+    expect(conflict.code).toBe('salary_cap');
+    expect(conflict.message).toContain('$42,000');
+    expect(conflict.fix).toContain('Unlock');
+  });
+
+  it('names the excluded players that could fill an empty position', () => {
+    const centers = makeSlatePool().filter((p) => p.position.includes('C')).map((p) => p.id);
+    const [conflict] = diagnose({ excludes: centers });
+    expect(conflict.code).toBe('positions');
+    expect(conflict.message).toContain('No C-eligible player');
+    expect(conflict.fix).toContain('Player 4');
+  });
+
+  it('flags min exposures that sum past roster capacity', () => {
+    const exposures = Object.fromEntries(makeSlatePool().slice(0, 10).map((p) => [p.id, { min: 90 }]));
+    const codes = diagnose({ numLineups: 10, exposures }).map((d) => d.code);
+    expect(codes).toContain('exposure');
+  });
+
+  it('flags a salary floor the pool cannot reach', () => {
+    const [conflict] = diagnose({ salaryFloor: 49900 }, makeSlatePool().map((p) => ({ ...p, salary: 4000 })));
+    expect(conflict.code).toBe('salary_floor');
+    expect(conflict.fix).toContain('$32,000');
+  });
+
+  it('flags locks that leave too few free slots for min unique players', () => {
+    const [conflict] = diagnose({ numLineups: 3, minUniquePlayers: 4, locks: ['p0', 'p1', 'p2', 'p3', 'p4'] });
+    expect(conflict.code).toBe('uniqueness');
+    expect(conflict.fix).toContain('3');
+  });
+
+  it('fails the run before solving with the conflict in the error', async () => {
+    const centers = makeSlatePool().filter((p) => p.position.includes('C')).map((p) => p.id);
+    await expect(
+      runOptimizerRequest({ engine: 'greedy', players: makeSlatePool(), rules: { site: 'DraftKings', excludes: centers } }, () => {}),
+    ).rejects.toThrow(/No C-eligible player/);
+  });
+});
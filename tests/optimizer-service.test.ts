@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeOptimizerRules, runOptimizerRequest } from '../src/workers/optimizer-service/engines';
+import { getSiteRules, validateSiteLineup } from '../utils/siteRules';
+import { makeSlatePool } from './fixtures';
+
+describe('optimizer service', () => {
+  it('normalizes rules and lets a lock win over an exclude', () => {
+    const rules = normalizeOptimizerRules({
+      site: 'DraftKings',
+      locks: ['p1'],
+      excludes: ['p1', 'p2'],
+      exposures: { p3: { max: 140 }, p4: {} },
+      minUniquePlayers: 20,
+    });
+    expect(rules.excludes).toEqual(['p2']);
+    expect(rules.exposures).toEqual({ p3: { max: 100 } });
+    expect(rules.minUniquePlayers).toBe(8);
+    expect(rules.stack).toEqual({ enforceTeamStack: false, minTeamStackSize: 2, games: [], maxPlayersPerTeam: null });
+  });
+
+  it('builds valid lineups that honour locks and excludes', async () => {
+    const siteRules = getSiteRules('DraftKings');
+    const pool = makeSlatePool();
+    const byId = new Map(pool.map((p) => [p.id, p]));
+    const result = await runOptimizerRequest(
+      {
+        engine: 'greedy',
+        players: pool,
+        rules: { site: 'DraftKings', numLineups: 3, minUniquePlayers: 2, locks: ['p0'], excludes: ['p5'] },
+      },
+      () => {},
+    );
+    expect(result.engine).toBe('greedy');
+    expect(result.lineups.length).toBeGreaterThan(0);
+    result.lineups.forEach((lineup) => {
+      expect(lineup.playerIds).toContain('p0');
+      expect(lineup.playerIds).not.toContain('p5');
+      const players = lineup.playerIds.map((id) => byId.get(id)!);
+      expect(validateSiteLineup(players, siteRules)).toEqual([]);
+    });
+  });
+
+  it('pauses at a lineup boundary and resumes with prior lineups counted', async () => {
+    const pool = makeSlatePool();
+    // The ILP solves min-unique exactly, so both runs are deterministic; greedy relies on random jitter.
+    const request = {
+      engine: 'ilp' as const,
+      players: pool,
+      rules: { site: 'DraftKings' as const, numLineups: 4, minUniquePlayers: 3, exposures: { p1: { max: 50 } } },
+    };
+    let accepted = 0;
+    const paused = await runOptimizerRequest(request, () => {}, {
+      checkpoint: async () => (++accepted >= 2 ? 'paused' : null),
+    });
+    expect(paused.status).toBe('paused');
+    expect(paused.lineups).toHaveLength(2);
+
+    const resumed = await runOptimizerRequest(request, () => {}, { priorLineups: paused.lineups });
+    expect(resumed.status).toBe('complete');
+    expect(resumed.lineups).toHaveLength(4);
+    expect(resumed.lineups.slice(0, 2)).toEqual(paused.lineups);
+
+    const ids = resumed.lineups.map((lineup) => lineup.playerIds);
+    expect(ids.filter((lineup) => lineup.includes('p1')).length).toBeLessThanOrEqual(2);
+    for (let i = 0; i < ids.length; i++) {
+      for (let j = 0; j < i; j++) {
+        const shared = ids[i].filter((id) => ids[j].includes(id)).length;
+        expect(ids[i].length - shared).toBeGreaterThanOrEqual(3);
+      }
+    }
+  });
+
+  it('enforces player groups and warns about infeasible ones', async () => {
+    const centers = ['p4', 'p12', 'p20', 'p28'];
+    const result = await runOptimizerRequest(
+      {
+        engine: 'greedy',
+        players: makeSlatePool(),
+        rules: {
+          site: 'DraftKings',
+          numLineups: 3,
+          groups: [
+            { id: 'c', label: 'Centers', kind: 'at_most', playerIds: centers, count: 1, thenIds: [] },
+            { id: 'x', label: 'Ghosts', kind: 'at_least', playerIds: ['nope1', 'nope2'], count: 1, thenIds: [] },
+          ],
+        },
+      },
+      () => {},
+    );
+    expect(result.warnings.some((w) => w.includes('Ghosts') && w.includes('infeasible'))).toBe(true);
+    result.lineups.forEach((lineup) => {
+      expect(lineup.playerIds.filter((id) => centers.includes(id)).length).toBeLessThanOrEqual(1);
+    });
+  });
+
+  it('rejects an empty player pool', async () => {
+    await expect(runOptimizerRequest({ engine: 'ilp', players: [], rules: {} }, () => {})).rejects.toThrow('No players provided');
+  });
+
+  it('refuses a site whose slate data is not loaded', async () => {
+    await expect(runOptimizerRequest({ engine: 'greedy', players: makeSlatePool(), rules: { site: 'FanDuel' } }, () => {}))
+      .rejects.toThrow('FanDuel slate data not loaded');
+  });
+});
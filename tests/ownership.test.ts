@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import type { Player } from '../types';
+import { normalizeName, parseProjections } from '../utils/csvParser';
+import { applyOwnershipEstimates, estimateOwnership } from '../utils/ownership';
+import type { StartingLineupLookup } from '../utils/startingLineups';
+
+const TEAMS = ['BOS', 'NYK', 'LAL', 'GSW'];
+
+const makePool = (): Player[] =>
+  Array.from({ length: 40 }, (_, idx) => ({
+    id: `p${idx}`,
+    name: `Player ${idx}`,
+    position: 'PG',
+    team: TEAMS[idx % TEAMS.length],
+    opponent: TEAMS[(idx + 1) % TEAMS.length],
+    salary: 3000 + (idx % 10) * 800,
+    projection: 12 + (idx % 10) * 4 + (idx % 3) * 2,
+  }));
+
+const total = (estimates: Map<string, { ownership: number }>) =>
+  Array.from(estimates.values()).reduce((sum, e) => sum + e.ownership, 0);
+
+describe('ownership estimator', () => {
+  it('scales the slate to roster size x 100% and stays within 0-100', () => {
+    const estimates = estimateOwnership(makePool(), { gameCount: 2 });
+    expect(total(estimates)).toBeCloseTo(800, 0);
+    estimates.forEach((e) => {
+      expect(e.ownership).toBeGreaterThanOrEqual(0);
+      expect(e.ownership).toBeLessThanOrEqual(100);
+    });
+    expect(total(estimateOwnership(makePool(), { gameCount: 2, rosterSize: 9 }))).toBeCloseTo(900, 0);
+  });
+
+  it('favours better value and concentrates on smaller slates', () => {
+    const pool = makePool();
+    const small = estimateOwnership(pool, { gameCount: 2 });
+    const large = estimateOwnership(pool, { gameCount: 12 });
+    // Same salary, more projection.
+    expect(small.get('p9')!.ownership).toBeGreaterThan(small.get('p0')!.ownership);
+    const top = (estimates: Map<string, { ownership: number }>) =>
+      Math.max(...Array.from(estimates.values()).map((e) => e.ownership));
+    expect(top(small)).toBeGreaterThan(top(large));
+  });
+
+  it('boosts starters promoted by a ruled-out teammate', () => {
+    const pool = makePool();
+    const starter = pool.find((p) => p.id === 'p4')!;
+    const lookup: StartingLineupLookup = new Map([[normalizeName(starter.name), { status: 'confirmed', isConfirmed: true, isExpected: false }]]);
+    const star: Player = { ...pool[0], id: 'star', name: 'Star', team: starter.team, salary: 11000, projection: 55 };
+
+    const before = estimateOwnership(pool, { gameCount: 4, startingLineups: lookup }).get('p4')!;
+    const after = estimateOwnership(pool, { gameCount: 4, startingLineups: lookup, unavailablePlayers: [star] }).get('p4')!;
+    expect(before.promoted).toBe(false);
+    expect(after.promoted).toBe(true);
+    expect(after.ownership).toBeGreaterThan(before.ownership);
+  });
+
+  it('only fills players without ownership and flags the estimates', () => {
+    const pool = makePool().map((p, idx) => (idx === 0 ? { ...p, ownership: 33 } : p));
+    const filled = applyOwnershipEstimates(pool, { gameCount: 4 });
+    expect(filled[0].ownership).toBe(33);
+    expect(filled[0].ownershipEstimated).toBeUndefined();
+    expect(filled[1].ownershipEstimated).toBe(true);
+    expect(Number.isFinite(filled[1].ownership)).toBe(true);
+
+    const complete = pool.map((p) => ({ ...p, ownership: 5 }));
+    expect(applyOwnershipEstimates(complete, { gameCount: 4 })).toBe(complete);
+  });
+
+  it('leaves ownership missing from a projections CSV for the estimator to fill', async () => {
+    const withoutColumn = await parseProjections('Name,ID,Position,Team,Salary,Fpts\nA,1,PG,BOS,6000,30\nB,2,C,NYK,5000,25');
+    expect(withoutColumn.map((p) => p.ownership)).toEqual([undefined, undefined]);
+    const filled = applyOwnershipEstimates(withoutColumn, { gameCount: 1 });
+    expect(filled.every((p) => p.ownershipEstimated && (p.ownership ?? 0) > 0)).toBe(true);
+
+    // A blank cell is missing too; a real 0 is kept.
+    const blankCell = await parseProjections('Name,ID,Position,Team,Salary,Fpts,Own%\nA,1,PG,BOS,6000,30,\nB,2,C,NYK,5000,25,0');
+    expect(blankCell.map((p) => p.ownership)).toEqual([undefined, 0]);
+  });
+});
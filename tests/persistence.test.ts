@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import { createMemoryBackend } from '../utils/indexedDb';
+import type { RecordStoreBackend } from '../utils/indexedDb';
+import {
+  LEGACY_STORAGE_KEYS,
+  SCHEMA_VERSIONS,
+  clearEntrySession,
+  flushPersistence,
+  getOptimizerSettingsKey,
+  getStorageUsage,
+  initPersistence,
+  loadSlateSnapshot,
+  pruneRecordsOlderThan,
+  readBeliefs,
+  readContestInput,
+  readEntrySession,
+  readLineupSets,
+  readOptimizerSettings,
+  saveSlateSnapshot,
+  upgradeRecord,
+  writeLineupSets,
+  writeOptimizerSettings,
+} from '../utils/persistence';
+import type { SlateEcosystemResult } from '../utils/assetLoader';
+
+const makeStorage = (entries: Record<string, string> = {}): Storage => {
+  const data = new Map(Object.entries(entries));
+  return {
+    get length() {
+      return data.size;
+    },
+    key: (index: number) => Array.from(data.keys())[index] ?? null,
+    getItem: (key: string) => data.get(key) ?? null,
+    setItem: (key: string, value: string) => {
+      data.set(key, value);
+    },
+    removeItem: (key: string) => {
+      data.delete(key);
+    },
+    clear: () => data.clear(),
+  };
+};
+
+/** Memory storage that reports itself as IndexedDB, so the one-time migration runs. */
+const createIndexedDbStandIn = (): RecordStoreBackend => ({ ...createMemoryBackend(), kind: 'indexeddb' });
+
+const slateResult = (): SlateEcosystemResult => ({
+  ok: true,
+  data: {
+    slate: { players: [{ id: 'p1' }] },
+    injuries: null,
+    history: { rotations: { games: 3 }, boxscores: null, stats: null, asOf: '2026-01-10' },
+  },
+  loadedFrom: { slate: 'api', injuries: '', depthCharts: '', startingLineups: '', rotations: 'api', boxscores: '', stats: '' },
+  errors: {},
+});
+
+describe('persistence', () => {
+  it('migrates legacy localStorage keys once and removes them', async () => {
+    const settingsKey = getOptimizerSettingsKey('2026-01-10');
+    const storage = makeStorage({
+      [settingsKey]: JSON.stringify({ lockedIds: ['p1'] }),
+      [LEGACY_STORAGE_KEYS.lineupSets]: JSON.stringify([{ id: 'set1', createdAt: 1, lineups: [] }]),
+      [LEGACY_STORAGE_KEYS.entrySession]: JSON.stringify({ fileName: 'entries.csv' }),
+      [LEGACY_STORAGE_KEYS.contestInput]: JSON.stringify({ contestName: 'Main', fieldSize: 1000 }),
+      [LEGACY_STORAGE_KEYS.beliefs]: JSON.stringify([{ id: 'p1', projection: 30 }]),
+      [LEGACY_STORAGE_KEYS.beliefName]: 'beliefs.csv',
+      'dfsapp.onboarding.v1': 'true',
+    });
+    const backend = createIndexedDbStandIn();
+    await initPersistence({ backend, legacyStorage: storage });
+
+    expect(readOptimizerSettings(settingsKey)).toEqual({ lockedIds: ['p1'] });
+    expect(readLineupSets().map((set) => set.id)).toEqual(['set1']);
+    expect(readEntrySession()).toEqual({ fileName: 'entries.csv' });
+    expect(storage.getItem(settingsKey)).toBeNull();
+    expect(storage.getItem(LEGACY_STORAGE_KEYS.lineupSets)).toBeNull();
+    expect(readContestInput()).toEqual({ contestName: 'Main', fieldSize: 1000 });
+    expect(readBeliefs()).toEqual({ players: [{ id: 'p1', projection: 30 }], name: 'beliefs.csv' });
+    expect(storage.getItem(LEGACY_STORAGE_KEYS.contestInput)).toBeNull();
+    expect(storage.getItem(LEGACY_STORAGE_KEYS.beliefName)).toBeNull();
+    expect(storage.getItem('dfsapp.onboarding.v1')).toBe('true');
+
+    // A stale tab writing the old key again must not clobber the migrated data.
+    storage.setItem(settingsKey, JSON.stringify({ lockedIds: ['stale'] }));
+    await initPersistence({ backend, legacyStorage: storage });
+    expect(readOptimizerSettings(settingsKey)).toEqual({ lockedIds: ['p1'] });
+  });
+
+  it('reads legacy keys without removing them when falling back to memory', async () => {
+    const settingsKey = getOptimizerSettingsKey('2026-01-10');
+    const storage = makeStorage({
+      [settingsKey]: JSON.stringify({ lockedIds: ['p1'] }),
+      [LEGACY_STORAGE_KEYS.contestInput]: JSON.stringify({ contestName: 'Main' }),
+    });
+    await initPersistence({ backend: createMemoryBackend(), legacyStorage: storage });
+    expect(readOptimizerSettings(settingsKey)).toEqual({ lockedIds: ['p1'] });
+    expect(readContestInput()).toEqual({ contestName: 'Main' });
+    expect(storage.getItem(settingsKey)).not.toBeNull();
+    expect(storage.getItem(LEGACY_STORAGE_KEYS.contestInput)).not.toBeNull();
+
+    // The next session reads them again.
+    await initPersistence({ backend: createMemoryBackend(), legacyStorage: storage });
+    expect(readContestInput()).toEqual({ contestName: 'Main' });
+  });
+
+  it('writes through the cache to the backend', async () => {
+    const backend = createMemoryBackend();
+    await initPersistence({ backend, legacyStorage: null });
+    writeOptimizerSettings('optimizerAdvancedSettings:2026-01-11', { config: { numLineups: 5 } });
+    writeLineupSets([{ id: 'a', createdAt: 1 } as any, { id: 'b', createdAt: 2 } as any]);
+    writeLineupSets([{ id: 'b', createdAt: 2 } as any]);
+    clearEntrySession();
+    await flushPersistence();
+
+    await initPersistence({ backend, legacyStorage: null });
+    expect(readOptimizerSettings('optimizerAdvancedSettings:2026-01-11')).toEqual({ config: { numLineups: 5 } });
+    expect(readLineupSets().map((set) => set.id)).toEqual(['b']);
+    expect(readEntrySession()).toBeNull();
+  });
+
+  it('round-trips slate snapshots with their history', async () => {
+    await initPersistence({ backend: createMemoryBackend(), legacyStorage: null });
+    await saveSlateSnapshot('2026-01-10', 'main', slateResult());
+
+    const restored = await loadSlateSnapshot('2026-01-10', 'main');
+    expect(restored?.data.slate).toEqual({ players: [{ id: 'p1' }] });
+    expect(restored?.data.history.rotations).toEqual({ games: 3 });
+    expect(await loadSlateSnapshot('2026-01-10', 'late')).toBeNull();
+
+    const usage = await getStorageUsage();
+    const slates = usage.stores.find((store) => store.store === 'slates')!;
+    expect(slates.count).toBe(1);
+    expect(slates.bytes).toBeGreaterThan(0);
+    expect(await pruneRecordsOlderThan(['slates', 'history'], -1)).toBe(2);
+    expect(await loadSlateSnapshot('2026-01-10', 'main')).toBeNull();
+  });
+
+  it('refuses records written by a newer schema', () => {
+    const record = { key: 'k', schemaVersion: SCHEMA_VERSIONS.slates + 1, updatedAt: 0, sizeBytes: 0, data: {} };
+    expect(upgradeRecord('slates', record)).toBeNull();
+    expect(upgradeRecord('slates', { ...record, schemaVersion: SCHEMA_VERSIONS.slates })).toEqual({});
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import {
+  PlayerGroupRule,
+  meetsPlayerGroupRule,
+  partitionPlayerGroupRules,
+  sanitizePlayerGroupRules,
+} from '../utils/playerGroups';
+
+const rule = (overrides: Partial<PlayerGroupRule>): PlayerGroupRule => ({
+  id: 'g1',
+  label: 'Centers',
+  kind: 'at_most',
+  playerIds: ['a', 'b', 'c'],
+  count: 1,
+  thenIds: [],
+  ...overrides,
+});
+
+describe('player group rules', () => {
+  it('counts group members in a lineup for each rule kind', () => {
+    const lineup = new Set(['a', 'b', 'x']);
+    expect(meetsPlayerGroupRule(lineup, rule({ kind: 'at_most', count: 1 }))).toBe(false);
+    expect(meetsPlayerGroupRule(lineup, rule({ kind: 'at_least', count: 2 }))).toBe(true);
+    expect(meetsPlayerGroupRule(lineup, rule({ kind: 'exactly', count: 2 }))).toBe(true);
+    expect(meetsPlayerGroupRule(lineup, rule({ kind: 'if_then', playerIds: ['a'], thenIds: ['y', 'z'], count: 1 }))).toBe(false);
+    expect(meetsPlayerGroupRule(lineup, rule({ kind: 'if_then', playerIds: ['q'], thenIds: ['y'], count: 1 }))).toBe(true);
+  });
+
+  it('drops malformed rules and strips triggers from the "then" set', () => {
+    const rules = sanitizePlayerGroupRules([
+      { id: 'ok', kind: 'if_then', playerIds: ['a', 'a'], thenIds: ['a', 'b'], count: '2' },
+      { id: 'bad', kind: 'sometimes', playerIds: ['a'] },
+      null,
+    ]);
+    expect(rules).toHaveLength(1);
+    expect(rules[0]).toMatchObject({ playerIds: ['a'], thenIds: ['b'], count: 2 });
+  });
+
+  it('reports single-rule conflicts with the pool and locks', () => {
+    const ctx = { rosterSize: 8, availableIds: new Set(['a', 'b']), lockedIds: new Set(['a', 'b']) };
+    const { enforced, warnings } = partitionPlayerGroupRules(
+      [
+        rule({ id: 'cap', kind: 'at_most', count: 1 }),
+        rule({ id: 'need', kind: 'at_least', count: 3 }),
+        rule({ id: 'fine', kind: 'at_least', count: 2 }),
+      ],
+      ctx,
+    );
+    expect(enforced.map((r) => r.id)).toEqual(['fine']);
+    expect(warnings).toHaveLength(2);
+    expect(warnings[0]).toContain('2 group players are locked');
+    expect(warnings[1]).toContain('only 2 are in the active pool');
+  });
+});
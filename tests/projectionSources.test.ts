@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import type { Player } from '../types';
+import { blendProjections, createProjectionSource, isFlaggedDisagreement } from '../utils/projectionSources';
+
+const base: Player[] = [
+  { id: '101', name: 'Jalen Brunson', position: 'PG', team: 'NYK', opponent: 'BOS', salary: 9000, projection: 44, ceiling: 58, minutesProjection: 35, ownership: 20 },
+  { id: '102', name: 'Jayson Tatum', position: 'SF', team: 'BOS', opponent: 'NYK', salary: 10000, projection: 50, ceiling: 66, ownership: 12, ownershipEstimated: true },
+  { id: '103', name: 'Bench Guy', position: 'SG', team: 'BOS', opponent: 'NYK', salary: 3000, projection: 12 },
+];
+
+const row = (overrides: Partial<Player>): Player => ({
+  id: '', name: '', position: '', team: '', opponent: '', salary: 0, projection: 0, ceiling: 0, floor: 0, ownership: 0, ...overrides,
+});
+
+describe('projection blending', () => {
+  it('aligns sources by id then name and takes the weighted mean per stat', () => {
+    const source = createProjectionSource('Source A', '2026-01-10', [
+      row({ id: '101', name: 'J. Brunson', projection: 40, ceiling: 54 }),
+      row({ id: 'x', name: 'Jayson Tatum', projection: 56, ownership: 30, Minutes: 37 } as Partial<Player>),
+      row({ id: 'y', name: 'Nobody', projection: 10 }),
+    ]);
+    source.weight = 3;
+    const { players, blends, unmatched } = blendProjections(base, [source]);
+
+    const brunson = players.find((p) => p.id === '101')!;
+    expect(brunson.projection).toBe(41); // (40×3 + 44) / 4
+    expect(brunson.ceiling).toBe(55);
+    expect(blends.get('101')!.stats.projection!.spread).toBe(4);
+
+    const tatum = players.find((p) => p.id === '102')!;
+    expect(tatum.projection).toBe(54.5);
+    // The slate's in-app ownership estimate yields to the uploaded number.
+    expect(tatum.ownership).toBe(30);
+    expect(tatum.ownershipEstimated).toBe(false);
+    expect(tatum.minutesProjection).toBe(37);
+
+    expect(players.find((p) => p.id === '103')).toBe(base[2]);
+    expect(unmatched[source.id]).toEqual(['Nobody']);
+  });
+
+  it('honours per-stat weights and disabled sources', () => {
+    const source = createProjectionSource('Minutes only', '2026-01-10', [row({ id: '101', projection: 20, minutesProjection: 30 })]);
+    source.statWeights = { projection: 0 };
+    const blended = blendProjections(base, [source]).players[0];
+    expect(blended.projection).toBe(44);
+    expect(blended.minutesProjection).toBe(32.5);
+
+    expect(blendProjections(base, [{ ...source, enabled: false }]).players).toBe(base);
+  });
+
+  it('flags large disagreements only', () => {
+    const source = createProjectionSource('Bearish', '2026-01-10', [
+      row({ id: '101', projection: 30 }),
+      row({ id: '102', projection: 49 }),
+    ]);
+    const { blends } = blendProjections(base, [source]);
+    expect(isFlaggedDisagreement(blends.get('101'))).toBe(true);
+    expect(isFlaggedDisagreement(blends.get('102'))).toBe(false);
+  });
+});
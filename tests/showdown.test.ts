@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import type { Player } from '../types';
+import { runOptimizerRequest } from '../src/workers/optimizer-service/engines';
+import { diagnoseOptimizerRequest } from '../src/workers/optimizer-service/diagnostics';
+import { assignSiteSlots, detectEntryCsvSite, getSiteRules, validateSiteLineup } from '../utils/siteRules';
+import { buildCaptainPairRules, buildShowdownSiteIds, buildSitePlayerPool, getBasePlayerId } from '../utils/showdown';
+import { POSITIONS } from './fixtures';
+
+const makeGame = (teamA: string, teamB: string, offset = 0): Player[] =>
+  Array.from({ length: 12 }, (_, idx) => {
+    const team = idx % 2 === 0 ? teamA : teamB;
+    return {
+      id: `${teamA}${idx}`,
+      name: `${teamA} Player ${String.fromCharCode(65 + idx)}`,
+      position: POSITIONS[idx % POSITIONS.length],
+      team,
+      opponent: team === teamA ? teamB : teamA,
+      salary: 4000 + ((idx + offset) % 6) * 1200,
+      projection: 16 + ((idx + offset) % 6) * 6 + (idx % 3),
+      ownership: 10 + idx,
+    } as Player;
+  });
+
+describe('DraftKings Showdown', () => {
+  const rules = getSiteRules('DraftKingsShowdown');
+
+  it('adds a scaled captain row per player with its own ownership', () => {
+    const pool = buildSitePlayerPool(
+      [
+        { id: '7', name: 'Star', position: 'PG', team: 'BOS', opponent: 'NYK', salary: 10000, projection: 50, ownership: 60, ceiling: 70 } as Player,
+        { id: '8', name: 'Wing', position: 'SF', team: 'NYK', opponent: 'BOS', salary: 5000, projection: 24, ownership: 30, cptOwnership: 12 } as Player,
+      ],
+      rules,
+    );
+    expect(pool.map((p) => [p.id, p.position, p.salary, p.projection, p.ownership])).toEqual([
+      ['7', 'PG', 10000, 50, 60],
+      ['8', 'SF', 5000, 24, 30],
+      ['7-CPT', 'CPT', 15000, 75, 12],
+      ['8-CPT', 'CPT', 7500, 36, 12],
+    ]);
+    expect(pool[2]).toMatchObject({ ceiling: 105, captainOf: '7', captainMultiplier: 1.5, ownershipEstimated: true });
+    expect(pool[3].ownershipEstimated).toBeFalsy();
+    expect(buildSitePlayerPool(pool.slice(0, 2), getSiteRules('DraftKings'))).toHaveLength(2);
+
+    expect(buildCaptainPairRules(pool)).toEqual([
+      { id: 'captain_7', label: 'Star CPT or FLEX', kind: 'at_most', playerIds: ['7', '7-CPT'], count: 1, thenIds: [] },
+      { id: 'captain_8', label: 'Wing CPT or FLEX', kind: 'at_most', playerIds: ['8', '8-CPT'], count: 1, thenIds: [] },
+    ]);
+  });
+
+  it('builds single-game lineups with one captain and never the same player twice', async () => {
+    const pool = buildSitePlayerPool(makeGame('BOS', 'NYK'), rules);
+    const byId = new Map(pool.map((p) => [p.id, p]));
+    const result = await runOptimizerRequest(
+      {
+        engine: 'ilp',
+        players: pool,
+        rules: { site: 'DraftKingsShowdown', numLineups: 3, minUniquePlayers: 1, salaryFloor: 0, exposures: { 'BOS0-CPT': { max: 0 } } },
+      },
+      () => {},
+    );
+    expect(result.lineups).toHaveLength(3);
+    result.lineups.forEach((lineup) => {
+      const players = lineup.playerIds.map((id) => byId.get(id)!);
+      expect(players).toHaveLength(6);
+      expect(validateSiteLineup(players, rules)).toEqual([]);
+      expect(players.filter((p) => p.captainOf)).toHaveLength(1);
+      expect(new Set(lineup.playerIds.map(getBasePlayerId)).size).toBe(6);
+      expect(lineup.playerIds).not.toContain('BOS0-CPT');
+      expect(lineup.totalSalary).toBeLessThanOrEqual(rules.salaryCap);
+      const { slotMap, unassigned } = assignSiteSlots(players, rules);
+      expect(unassigned).toEqual([]);
+      expect(slotMap.CPT?.captainOf).toBeTruthy();
+    });
+  });
+
+  it('flags multi-game pools and locking both rows of one player', () => {
+    const slate = buildSitePlayerPool([...makeGame('BOS', 'NYK'), ...makeGame('LAL', 'GSW', 2)], rules);
+    expect(diagnoseOptimizerRequest({ engine: 'ilp', players: slate, rules: { site: 'DraftKingsShowdown' } }).map((d) => d.code))
+      .toEqual(['games']);
+
+    const game = buildSitePlayerPool(makeGame('BOS', 'NYK'), rules);
+    const [locked] = diagnoseOptimizerRequest({
+      engine: 'ilp',
+      players: game,
+      rules: { site: 'DraftKingsShowdown', locks: ['BOS1', 'BOS1-CPT'] },
+    });
+    expect(locked).toMatchObject({ code: 'locks', message: 'BOS Player B is locked as both CPT and FLEX.' });
+  });
+
+  it('reads Showdown entries files and maps pool ids by role', () => {
+    expect(detectEntryCsvSite(['Entry ID', 'Contest Name', 'Contest ID', 'Entry Fee', 'CPT', 'UTIL', 'UTIL'])).toBe('DraftKingsShowdown');
+    const pool = buildSitePlayerPool(makeGame('BOS', 'NYK').slice(0, 2), rules);
+    expect(buildShowdownSiteIds(
+      [
+        { name: 'BOS Player A', id: '4001', rosterPosition: 'CPT' },
+        { name: 'BOS Player A', id: '4002', rosterPosition: 'UTIL' },
+        { name: 'Somebody Else', id: '4003', rosterPosition: 'UTIL' },
+      ],
+      pool,
+    )).toEqual({ 'BOS0-CPT': '4001', BOS0: '4002' });
+  });
+});
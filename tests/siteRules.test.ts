@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import {
+  assignSiteSlots,
+  buildEntryCsvRows,
+  detectEntryCsvSite,
+  getSiteRules,
+  scoreFantasyPoints,
+  validateSiteLineup,
+} from '../utils/siteRules';
+
+const makePlayer = (id: string, position: string, team: string, salary = 6000) => ({
+  id,
+  name: `Player ${id}`,
+  position,
+  team,
+  opponent: team === 'BOS' ? 'NYK' : 'BOS',
+  salary,
+});
+
+describe('site rules', () => {
+  it('seats multi-position players without stranding a DraftKings slot', () => {
+    const rules = getSiteRules('DraftKings');
+    const players = [
+      makePlayer('1', 'PG/SG', 'BOS'),
+      makePlayer('2', 'PG', 'BOS'),
+      makePlayer('3', 'SG', 'BOS'),
+      makePlayer('4', 'SF', 'NYK'),
+      makePlayer('5', 'PF/C', 'NYK'),
+      makePlayer('6', 'C', 'NYK'),
+      makePlayer('7', 'SF/PF', 'NYK'),
+      makePlayer('8', 'PF', 'BOS'),
+    ];
+    const { slotMap, unassigned } = assignSiteSlots(players, rules);
+    expect(unassigned).toEqual([]);
+    expect(Object.keys(slotMap).sort()).toEqual(['C', 'F', 'G', 'PF', 'PG', 'SF', 'SG', 'UTIL']);
+  });
+
+  it('fills both FanDuel slots for each position and reports leftovers', () => {
+    const rules = getSiteRules('FanDuel');
+    const players = [
+      makePlayer('1', 'PG', 'BOS'),
+      makePlayer('2', 'PG', 'BOS'),
+      makePlayer('3', 'PG', 'NYK'),
+      makePlayer('4', 'SG', 'NYK'),
+    ];
+    const { slotMap, unassigned } = assignSiteSlots(players, rules);
+    expect(slotMap.PG1).toBeDefined();
+    expect(slotMap.PG2).toBeDefined();
+    expect(slotMap.SG1?.id).toBe('4');
+    expect(unassigned).toHaveLength(1);
+  });
+
+  it('enforces the FanDuel per-team limit and minimum team count', () => {
+    const rules = getSiteRules('FanDuel');
+    const positions = ['PG', 'PG', 'SG', 'SG', 'SF', 'SF', 'PF', 'PF', 'C'];
+    const lineup = positions.map((pos, idx) => makePlayer(String(idx), pos, idx < 5 ? 'BOS' : 'NYK'));
+    const errors = validateSiteLineup(lineup, rules);
+    expect(errors.some((e) => e.includes('5 players from BOS'))).toBe(true);
+    expect(errors.some((e) => e.includes('at least 3 teams'))).toBe(true);
+  });
+
+  it('scores stat lines with each site\'s weights', () => {
+    const stats = { pts: 20, fg3m: 2, reb: 10, ast: 5, stl: 1, blk: 1, tov: 2 };
+    expect(scoreFantasyPoints(stats, getSiteRules('DraftKings'))).toBeCloseTo(20 + 1 + 12.5 + 7.5 + 2 + 2 - 1 + 1.5, 10);
+    expect(scoreFantasyPoints(stats, getSiteRules('FanDuel'))).toBeCloseTo(20 + 12 + 7.5 + 3 + 3 - 2, 10);
+  });
+
+  it('round-trips entry CSV player cells in each site format', () => {
+    const player = { id: '98765-4321', name: 'Jane Doe' };
+    const fd = getSiteRules('FanDuel');
+    const [header, row] = buildEntryCsvRows([{ metadata: ['1', '2', 'Main', '5'], players: [player] }], fd);
+    expect(header.slice(0, 5)).toEqual(['entry_id', 'contest_id', 'contest_name', 'entry_fee', 'PG']);
+    expect(row[4]).toBe('98765-4321:Jane Doe');
+    expect(fd.entryCsv.parsePlayerId(row[4])).toBe('98765-4321');
+
+    const dk = getSiteRules('DraftKings');
+    expect(dk.entryCsv.parsePlayerId(dk.entryCsv.formatPlayer({ id: '123', name: 'Jane Doe' }))).toBe('123');
+  });
+
+  it('detects the site from an entries CSV header', () => {
+    expect(detectEntryCsvSite(['Entry ID', 'Contest Name', 'Contest ID', 'Entry Fee', 'PG'])).toBe('DraftKings');
+    expect(detectEntryCsvSite(['entry_id', 'contest_id', 'contest_name', 'entry_fee', 'PG'])).toBe('FanDuel');
+    expect(detectEntryCsvSite(['Name', 'Salary'])).toBeNull();
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import type { Player } from '../types';
+import { RawPlayerRow, classifyAllPlayers } from '../utils/classifyPlayers';
+import { buildTierRuleSamples, classifyWithRuleTable, mineTierRules } from '../utils/tierRuleMining';
+
+let nextId = 0;
+// `hits` of `count` players beat a 30-point projection by 8+.
+const group = (count: number, hits: number, fields: Partial<Player>): Player[] =>
+  Array.from({ length: count }, (_, idx) => ({
+    id: `p${nextId++}`,
+    name: `Player ${nextId}`,
+    team: 'BOS',
+    opponent: 'NYK',
+    salary: 6000,
+    projection: 30,
+    actual: idx < hits ? 40 : 25,
+    ...fields,
+  } as Player));
+
+const row = (Pos: string, Own: number, Usage: number): RawPlayerRow => ({
+  Player: 'X', Team: 'BOS', OPP: 'NYK', Pos, Salary: 6000, Value: 0, Own, Usage, Min: 30,
+  Proj: 30, Ceiling: 40, Floor: 20, Lev_Score: 0, Boom: null, Bust: null,
+});
+
+describe('tier rule mining', () => {
+  const players = [
+    ...group(25, 15, { position: 'PG', ownership: 20, usageRate: 30 }),
+    ...group(100, 10, { position: 'PG', ownership: 1, usageRate: 15 }),
+    ...group(25, 10, { position: 'SG', ownership: 20, usageRate: 25 }),
+    ...group(75, 5, { position: 'SG', ownership: 1, usageRate: 15 }),
+    ...group(5, 0, { position: 'C', ownership: 5, usageRate: 30 }),
+    // Not sampled: no actual, or no usage.
+    ...group(3, 0, { position: 'PG', ownership: 20, usageRate: 30, actual: undefined }),
+    ...group(3, 0, { position: 'PG', ownership: 20, usageRate: undefined }),
+  ];
+  const samples = [
+    ...buildTierRuleSamples(players.slice(0, 120), '2026-01-01'),
+    ...buildTierRuleSamples(players.slice(120), '2026-01-02'),
+  ];
+  const table = mineTierRules(samples);
+
+  it('counts hit rates per position, ownership band and usage band', () => {
+    expect(samples).toHaveLength(230);
+    expect(table.slateCount).toBe(2);
+    expect(table.positionBaselines.PG).toBeCloseTo(0.2, 6);
+    expect(table.positionBaselines.SG).toBeCloseTo(0.15, 6);
+
+    const pgChalk = table.cells.find((cell) => cell.position === 'PG' && cell.ownershipBand === 'own_15' && cell.usageBand === 'usg_28_35');
+    expect(pgChalk).toMatchObject({ count: 25, hits: 15, tier: 'ELITE' });
+    expect(pgChalk!.lift).toBeCloseTo(3, 6);
+    // Under 3% owned is never tiered; five centers are too few to tier.
+    expect(table.cells.find((cell) => cell.position === 'PG' && cell.ownershipBand === 'own_0_3')?.tier).toBeNull();
+    expect(table.cells.find((cell) => cell.position === 'C')).toMatchObject({ count: 5, tier: null });
+  });
+
+  it('flags built-in rules whose quoted hit rate no longer holds', () => {
+    // PG elite quotes ~60% and hit 15/25; SG caution quotes ~20% and hit 10/25.
+    expect(table.drifted).toEqual([
+      { position: 'SG', tier: 'CAUTION', condition: 'Own 15%+ & Usage 22%+ (SG caution)', quotedRate: 0.2, observedRate: 0.4, count: 25 },
+    ]);
+  });
+
+  it('drives tiers from the mined table and falls back to built-in rules on thin bands', () => {
+    const sgChalk = classifyWithRuleTable(row('SG', 18, 24), 'SG', table);
+    expect(sgChalk).toMatchObject({ tier: 'ELITE', condition: 'Own 15%+ & Usage 22–28% (SG elite)', historicalRate: '~40%' });
+    expect(sgChalk!.posReasoning).toContain('10 of 25 times');
+
+    expect(classifyWithRuleTable(row('C', 5, 30), 'C', table)?.tier).toBe('OVERUSE_WARNING');
+    expect(classifyWithRuleTable(row('PG', 2, 30), 'PG', table)).toBeNull();
+
+    const classified = classifyAllPlayers([row('SG', 18, 24), row('PG', 1, 15)], (r, pos) => classifyWithRuleTable(r, pos, table));
+    expect(classified.map((player) => player.classification.tier)).toEqual(['ELITE']);
+    expect(classifyAllPlayers([row('SG', 18, 24)])[0].classification.tier).toBe('CAUTION');
+  });
+});
@@ -48,6 +48,12 @@ export interface Player {
   ceiling?: number;
   floor?: number;
   ownership?: number; // 0-100
+  ownershipEstimated?: boolean; // ownership came from utils/ownership, not the slate
+  injuryAdjustment?: InjuryAdjustment; // minutes/usage inherited from ruled-out teammates
+  minutesVariance?: number; // minutes², from utils/minutesDistribution
+  minutesDistribution?: MinutesDistribution;
+  captainOf?: string; // Showdown captain row: id of the player it captains (utils/showdown)
+  captainMultiplier?: number; // Showdown captain row: salary/points scale over the base player
   value?: number; // Proj / Salary * 1000
   
   // Detailed Player Analytics
@@ -81,6 +87,35 @@ export interface Player {
   [key: string]: any;
 }
 
+/** Set by utils/injuryRedistribution on players who inherit minutes or usage from ruled-out teammates. */
+export interface InjuryAdjustment {
+  /** Names of the ruled-out teammates the minutes and usage came from. */
+  sources: string[];
+  minutesDelta: number;
+  usageDelta: number; // usage-rate points
+  projectionDelta: number;
+  ceilingDelta: number;
+  baseProjection: number;
+  baseCeiling?: number;
+  baseMinutes?: number;
+}
+
+/** Set by utils/minutesDistribution from a player's recent stints and the game spread. */
+export interface MinutesDistribution {
+  /** Expected minutes, blowout tail included. */
+  mean: number;
+  /** Total variance (minutes²), blowout tail included. */
+  variance: number;
+  /** Minutes in a competitive game. */
+  baseMean: number;
+  baseSd: number;
+  /** Chance the game is decided early enough for rotations to change. */
+  blowoutRisk: number;
+  /** Minutes when it is. */
+  blowoutMean: number;
+  sampleGames: number;
+}
+
 export interface Team {
   teamId: string;
   abbreviation: string;
@@ -121,6 +156,7 @@ export interface Lineup {
   totalCeiling?: number;
   totalOwnership?: number;
   players?: Player[]; // Hydrated players
+  missingCount?: number; // players not found in the current pool
   
   // Optimizer & Simulation Metrics
   simMeanScore?: number;
@@ -131,6 +167,7 @@ export interface Lineup {
   winProbPct?: number;
   top10Pct?: number;
   cashPct?: number;
+  simFieldPercentile?: number;   // mean finishing percentile vs the simulated field
   
   // VLM lineup scores (populated by useLineupScoring hook)
   modelScore?: number;           // sum of modelProjection across 8 players
@@ -169,7 +206,7 @@ export interface Slate {
 
 export interface ContestInput {
   contestName: string;
-  site: "DraftKings" | "FanDuel";
+  site: "DraftKings" | "DraftKingsShowdown" | "FanDuel";
   fieldSize: number;
   entryFee: number;
   maxEntries: number;
@@ -279,4 +316,5 @@ export interface RotationStint {
   };
 }
 
-export type Slot = 'PG' | 'SG' | 'SF' | 'PF' | 'C' | 'G' | 'F' | 'UTIL';
+/** Roster slot key from utils/siteRules (DK: 'PG'…'UTIL', FD: 'PG1'…'C'). */
+export type Slot = string;
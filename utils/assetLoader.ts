@@ -72,7 +72,7 @@ const safeJsonParse = (text: string): any => {
   return JSON.parse(sanitized);
 };
 
-const INTERNAL_PROJECTIONS_URL = (import.meta as any)?.env?.VITE_PROJECTIONS_ENDPOINT || '/api/projections';
+const INTERNAL_PROJECTIONS_URL = import.meta.env.VITE_PROJECTIONS_ENDPOINT || '/api/projections';
 const INTERNAL_DECRYPT_URL = '/api/decrypt';
 
 const fetchOptionalJson = async (
@@ -426,6 +426,37 @@ export const loadSlateEcosystem = async (
   };
 };
 
+export interface SlateNewsResult {
+  injuries: any | null;
+  startingLineups: any | null;
+  injuriesAsOf?: string;
+  errors?: {
+    injuries?: string;
+    startingLineups?: string;
+  };
+}
+
+/** Re-fetches only the news feeds (injury report and starting lineups) for a background refresh. */
+export const loadSlateNews = async (
+  options: Omit<LoadSlateEcosystemOptions, 'includeHistory'>
+): Promise<SlateNewsResult> => {
+  const { targetDate, slateFolder } = options;
+  const fetcher = options.fetcher || fetch;
+  const [injuries, startingLineups] = await Promise.all([
+    fetchOptionalWithFallback(targetDate, 'injuries.json', 1, { slateFolder, fetcher }),
+    fetchOptionalByFilenameCandidates(targetDate, STARTING_LINEUP_FILENAMES, 1, { slateFolder, fetcher }),
+  ]);
+  const errors: SlateNewsResult['errors'] = {};
+  if (injuries.error) errors.injuries = injuries.error;
+  if (startingLineups.error) errors.startingLineups = startingLineups.error;
+  return {
+    injuries: injuries.data ?? null,
+    startingLineups: startingLineups.data ?? null,
+    injuriesAsOf: injuries.asOf,
+    errors: Object.keys(errors).length > 0 ? errors : undefined,
+  };
+};
+
 // Backward-compatible alias for existing callers.
 export const autoLoadReferencePack = async (
   options: LoadSlateEcosystemOptions
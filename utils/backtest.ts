@@ -0,0 +1,405 @@
+/**
+ * Historical backtests for optimizer settings.
+ *
+ * `findRecentSlates` walks back from the current date to the last N dates that
+ * had a slate. `runBacktest` then takes those dates, loads each slate once, and
+ * for every config builds the same request the Optimizer page would (pool
+ * thresholds, stacks, exposure cap, objective weights) and runs it. Lineups are
+ * scored on the players' `actual` fantasy points. Slate-specific state saved
+ * with a config (locks, excludes, per-player overrides, groups) does not carry
+ * across dates and is ignored.
+ *
+ * Slate loading and solving are injected so the runner works with the worker
+ * client in the app and with `runOptimizerRequest` in tests.
+ */
+
+import type { Lineup, Player } from '../types';
+import type { OptimizerRequest, OptimizerResult } from '../src/workers/optimizer-service/types';
+import { loadSlateEcosystem } from './assetLoader';
+import { parsePipelineJson } from './csvParser';
+import { getPreviousDateStr } from './dateMath';
+import { CHALK_OWNERSHIP } from './duplication';
+import { buildInjuryLookup, getPlayerInjuryInfo, shouldExcludePlayerForInjury } from './injuries';
+import { redistributeInjuredMinutes } from './injuryRedistribution';
+import { applyMinutesDistributions } from './minutesDistribution';
+import { OptimizerConfigState, getOptimizerEv } from './optimizerConfig';
+import { applyOwnershipEstimates } from './ownership';
+import { buildStartingLineupLookup } from './startingLineups';
+
+/** Same default as scripts/evaluate-lineups-actuals.mjs. */
+export const DEFAULT_CASH_LINE = 330;
+
+/** Ownership (%) below which a roster spot counts as contrarian in the exposure mix. */
+const CONTRARIAN_OWNERSHIP = 10;
+const TOP_EXPOSURES = 5;
+/** Extra calendar days `findRecentSlates` searches beyond two per slate (covers the All-Star break). */
+const SLATE_SEARCH_SLACK_DAYS = 14;
+
+export interface BacktestConfigEntry {
+  id: string;
+  label: string;
+  config: OptimizerConfigState;
+}
+
+export interface PlayerExposure {
+  id: string;
+  name: string;
+  /** Percent of the slate's lineups. */
+  exposure: number;
+  actual: number;
+}
+
+/** Share of roster spots (0-1) spent on each ownership bucket. */
+export interface OwnershipMix {
+  chalk: number;
+  mid: number;
+  contrarian: number;
+}
+
+export interface BacktestSlateResult {
+  date: string;
+  configId: string;
+  status: 'ok' | 'skipped' | 'failed';
+  /** Why the slate was skipped or failed. */
+  message?: string;
+  scores: number[];
+  best: number;
+  average: number;
+  cashHits: number;
+  uniquePlayers: number;
+  topExposures: PlayerExposure[];
+  ownershipMix: OwnershipMix;
+}
+
+export interface DistributionSummary {
+  min: number;
+  median: number;
+  mean: number;
+  max: number;
+}
+
+export interface BacktestSummary {
+  configId: string;
+  slates: number;
+  lineups: number;
+  best: DistributionSummary;
+  average: DistributionSummary;
+  /** Share of all lineups at or above the cash line. */
+  cashRate: number;
+  /** Share of slates with at least one lineup at or above the cash line. */
+  slateCashRate: number;
+  /** Mean exposure (percent) of each slate's most-used player. */
+  meanTopExposure: number;
+  meanUniquePlayers: number;
+  ownershipMix: OwnershipMix;
+}
+
+export interface BacktestSlate {
+  date: string;
+  players: Player[];
+}
+
+export interface RecentSlateOptions {
+  /** Resolves the slate's player pool, or null when the date has no slate. */
+  loadSlate: (date: string) => Promise<Player[] | null>;
+  /** Called before each date is tried, with the number of slates found so far. */
+  onSearch?: (date: string, found: number) => void;
+  onSlate?: (slate: BacktestSlate) => void;
+  /** Checked between dates; returning true stops with the slates found so far. */
+  shouldStop?: () => boolean;
+}
+
+export interface BacktestProgress {
+  date: string;
+  configId: string;
+  completed: number;
+  total: number;
+}
+
+export interface BacktestOptions {
+  dates: string[];
+  configs: BacktestConfigEntry[];
+  cashLine?: number;
+  /** Resolves the slate's player pool with actuals, or null when the date has no slate. */
+  loadSlate: (date: string) => Promise<Player[] | null>;
+  optimize: (request: OptimizerRequest) => Promise<OptimizerResult>;
+  onProgress?: (progress: BacktestProgress) => void;
+  onSlateResult?: (result: BacktestSlateResult) => void;
+  /** Checked between runs; returning true stops with the results so far. */
+  shouldStop?: () => boolean;
+}
+
+const EMPTY_MIX: OwnershipMix = { chalk: 0, mid: 0, contrarian: 0 };
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const toNum = (value: any): number | undefined => {
+  const n = Number(value);
+  return Number.isFinite(n) ? n : undefined;
+};
+
+/** Actual fantasy points under the names slates and uploads use; undefined when absent. */
+export const getPlayerActual = (player: Player): number | undefined =>
+  toNum(player.actual) ??
+  toNum(player.actualFpts) ??
+  toNum(player.actual_fpts) ??
+  toNum(player.fantasyPoints);
+
+/**
+ * The last `count` dates before `endDate` (exclusive) that have a slate, oldest
+ * first. Walks back one day at a time, loading each date, and gives up after
+ * `count * 2 + SLATE_SEARCH_SLACK_DAYS` days.
+ */
+export const findRecentSlates = async (
+  endDate: string,
+  count: number,
+  options: RecentSlateOptions,
+): Promise<BacktestSlate[]> => {
+  const { loadSlate, onSearch, onSlate, shouldStop } = options;
+  const target = Math.max(0, Math.floor(count));
+  const maxDays = target * 2 + SLATE_SEARCH_SLACK_DAYS;
+  const slates: BacktestSlate[] = [];
+
+  for (let daysBack = 1; slates.length < target && daysBack <= maxDays; daysBack += 1) {
+    if (shouldStop?.()) break;
+    const date = getPreviousDateStr(endDate, daysBack);
+    onSearch?.(date, slates.length);
+    const players = await loadSlate(date);
+    if (!players || players.length === 0) continue;
+    const slate = { date, players };
+    slates.push(slate);
+    onSlate?.(slate);
+  }
+  return slates.reverse();
+};
+
+/**
+ * Loads a past slate the way the app loads the live one: minutes
+ * distributions, ruled-out players dropped and their minutes redistributed
+ * (so `injuryAdjustment` marks the promotions the projections were made
+ * with), then ownership estimated where the slate has none. Null when the
+ * date has no slate.
+ */
+export const loadBacktestSlate = async (
+  date: string,
+  fetcher?: (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>,
+): Promise<Player[] | null> => {
+  const result = await loadSlateEcosystem({ targetDate: date, includeHistory: false, fetcher });
+  if (!result.ok || !result.data?.slate) return null;
+  const slate = parsePipelineJson(result.data.slate);
+  const games = slate.games || [];
+  const players = applyMinutesDistributions(slate.referencePlayers || [], games);
+  const injuries = buildInjuryLookup(result.data.injuries);
+  const startingLineups = buildStartingLineupLookup(result.data.startingLineups);
+  const ruledOut = players.filter((player) => shouldExcludePlayerForInjury(getPlayerInjuryInfo(player, injuries)));
+  const active = redistributeInjuredMinutes(
+    players.filter((player) => !ruledOut.includes(player)),
+    { unavailablePlayers: ruledOut, depthCharts: result.data.depthCharts, startingLineups },
+  );
+  return applyOwnershipEstimates(active, {
+    gameCount: games.length || Math.ceil(new Set(active.map((player) => player.team)).size / 2),
+    startingLineups,
+    injuries,
+    unavailablePlayers: ruledOut,
+  });
+};
+
+/** The request the Optimizer page would send for `config` with nothing locked or overridden. */
+export const buildBacktestRequest = (players: Player[], config: OptimizerConfigState): OptimizerRequest => {
+  const pool = players.filter((player) => {
+    const salary = Number(player.salary);
+    const projection = Number(player.projection);
+    if (!(salary > 0) || !(projection > 0)) return false;
+    if (config.minSalary > 0 && salary < config.minSalary) return false;
+    const minutes = Number(player.minutesProjection);
+    if (config.minMinutes > 0 && (!Number.isFinite(minutes) || minutes < config.minMinutes)) return false;
+    if (config.minProjectedFpts > 0 && projection < config.minProjectedFpts) return false;
+    return true;
+  });
+
+  return {
+    engine: config.engine,
+    players: pool.map((player) => ({ ...player, ev: getOptimizerEv(player) })),
+    rules: {
+      site: config.site,
+      numLineups: config.numLineups,
+      salaryFloor: config.salaryFloor,
+      minSalary: config.minSalary,
+      minUniquePlayers: config.minUniquePlayers,
+      randomnessPct: config.randomnessPct,
+      maxExposurePct: config.maxExposure,
+      stack: {
+        enforceTeamStack: config.enforceTeamStack,
+        minTeamStackSize: config.minTeamStackSize,
+        games: config.gameStacks,
+        maxPlayersPerTeam: config.maxPlayersPerTeam,
+      },
+      weights: config.objectiveWeights,
+    },
+  };
+};
+
+/** Scores one slate's lineups on actuals; players without an actual score 0. */
+export const scoreBacktestSlate = (
+  date: string,
+  configId: string,
+  lineups: Lineup[],
+  players: Player[],
+  cashLine: number = DEFAULT_CASH_LINE,
+): BacktestSlateResult => {
+  const byId = new Map(players.map((player) => [player.id, player]));
+  const counts = new Map<string, number>();
+  const mix = { ...EMPTY_MIX };
+  let spots = 0;
+
+  const scores = lineups.map((lineup) => {
+    let total = 0;
+    lineup.playerIds.forEach((id) => {
+      const player = byId.get(id);
+      counts.set(id, (counts.get(id) ?? 0) + 1);
+      spots += 1;
+      const ownership = Number(player?.ownership) || 0;
+      if (ownership >= CHALK_OWNERSHIP) mix.chalk += 1;
+      else if (ownership < CONTRARIAN_OWNERSHIP) mix.contrarian += 1;
+      else mix.mid += 1;
+      total += player ? getPlayerActual(player) ?? 0 : 0;
+    });
+    return round2(total);
+  });
+
+  const topExposures = Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, TOP_EXPOSURES)
+    .map(([id, count]) => {
+      const player = byId.get(id);
+      return {
+        id,
+        name: player?.name ?? id,
+        exposure: round2((count / lineups.length) * 100),
+        actual: player ? getPlayerActual(player) ?? 0 : 0,
+      };
+    });
+
+  return {
+    date,
+    configId,
+    status: 'ok',
+    scores,
+    best: scores.length > 0 ? Math.max(...scores) : 0,
+    average: scores.length > 0 ? round2(scores.reduce((sum, score) => sum + score, 0) / scores.length) : 0,
+    cashHits: scores.filter((score) => score >= cashLine).length,
+    uniquePlayers: counts.size,
+    topExposures,
+    ownershipMix: spots > 0
+      ? { chalk: round2(mix.chalk / spots), mid: round2(mix.mid / spots), contrarian: round2(mix.contrarian / spots) }
+      : EMPTY_MIX,
+  };
+};
+
+const emptySlateResult = (
+  date: string,
+  configId: string,
+  status: 'skipped' | 'failed',
+  message: string,
+): BacktestSlateResult => ({
+  date,
+  configId,
+  status,
+  message,
+  scores: [],
+  best: 0,
+  average: 0,
+  cashHits: 0,
+  uniquePlayers: 0,
+  topExposures: [],
+  ownershipMix: EMPTY_MIX,
+});
+
+const summarizeDistribution = (values: number[]): DistributionSummary => {
+  if (values.length === 0) return { min: 0, median: 0, mean: 0, max: 0 };
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  const median = sorted.length % 2 === 0 ? (sorted[mid - 1] + sorted[mid]) / 2 : sorted[mid];
+  return {
+    min: sorted[0],
+    median: round2(median),
+    mean: round2(sorted.reduce((sum, value) => sum + value, 0) / sorted.length),
+    max: sorted[sorted.length - 1],
+  };
+};
+
+/** Aggregates one config's scored slates; skipped and failed slates are left out. */
+export const summarizeBacktest = (configId: string, results: BacktestSlateResult[]): BacktestSummary => {
+  const scored = results.filter((result) => result.configId === configId && result.status === 'ok' && result.scores.length > 0);
+  const lineups = scored.reduce((sum, result) => sum + result.scores.length, 0);
+  const mean = (pick: (result: BacktestSlateResult) => number) =>
+    scored.length > 0 ? round2(scored.reduce((sum, result) => sum + pick(result), 0) / scored.length) : 0;
+
+  return {
+    configId,
+    slates: scored.length,
+    lineups,
+    best: summarizeDistribution(scored.map((result) => result.best)),
+    average: summarizeDistribution(scored.map((result) => result.average)),
+    cashRate: lineups > 0 ? round2(scored.reduce((sum, result) => sum + result.cashHits, 0) / lineups) : 0,
+    slateCashRate: scored.length > 0 ? round2(scored.filter((result) => result.cashHits > 0).length / scored.length) : 0,
+    meanTopExposure: mean((result) => result.topExposures[0]?.exposure ?? 0),
+    meanUniquePlayers: mean((result) => result.uniquePlayers),
+    ownershipMix: {
+      chalk: mean((result) => result.ownershipMix.chalk),
+      mid: mean((result) => result.ownershipMix.mid),
+      contrarian: mean((result) => result.ownershipMix.contrarian),
+    },
+  };
+};
+
+/**
+ * Runs every config over every date, one solve at a time. A slate that fails to
+ * load, has no actuals, or whose run throws is recorded and the backtest moves on.
+ */
+export const runBacktest = async (options: BacktestOptions): Promise<BacktestSlateResult[]> => {
+  const { dates, configs, loadSlate, optimize, onProgress, onSlateResult, shouldStop } = options;
+  const cashLine = options.cashLine ?? DEFAULT_CASH_LINE;
+  const total = dates.length * configs.length;
+  const results: BacktestSlateResult[] = [];
+  let completed = 0;
+
+  const record = (result: BacktestSlateResult) => {
+    results.push(result);
+    completed += 1;
+    onSlateResult?.(result);
+  };
+
+  for (const date of dates) {
+    if (shouldStop?.()) break;
+    let players: Player[] | null = null;
+    let skipReason: string | null = null;
+    try {
+      players = await loadSlate(date);
+      if (!players || players.length === 0) skipReason = 'No slate for this date.';
+      else if (!players.some((player) => getPlayerActual(player) !== undefined)) skipReason = 'Slate has no actuals yet.';
+    } catch (error) {
+      skipReason = error instanceof Error ? error.message : 'Failed to load slate.';
+    }
+
+    for (const entry of configs) {
+      if (shouldStop?.()) break;
+      onProgress?.({ date, configId: entry.id, completed, total });
+      if (skipReason || !players) {
+        record(emptySlateResult(date, entry.id, 'skipped', skipReason ?? 'No slate for this date.'));
+        continue;
+      }
+      try {
+        const result = await optimize(buildBacktestRequest(players, entry.config));
+        const lineups = result.lineups.filter((lineup) => lineup.totalSalary >= entry.config.salaryFloor);
+        record(lineups.length > 0
+          ? scoreBacktestSlate(date, entry.id, lineups, players, cashLine)
+          : emptySlateResult(date, entry.id, 'failed', 'No valid lineups with these settings.'));
+      } catch (error) {
+        record(emptySlateResult(date, entry.id, 'failed', error instanceof Error ? error.message : 'Optimizer run failed.'));
+      }
+    }
+  }
+
+  return results;
+};
@@ -0,0 +1,303 @@
+/**
+ * Projection calibration across past slates.
+ *
+ * The report's accuracy summary scores one slate as a whole. Here players with
+ * actual fantasy points are pooled over many slates and the projection error is
+ * broken down by salary tier, primary position, projected minutes band and
+ * whether the player's minutes were promoted by ruled-out teammates
+ * (`injuryAdjustment`). The probability fields get reliability curves: players
+ * are binned by predicted probability and each bin's mean prediction is
+ * compared with the share of players for whom the event actually happened.
+ *
+ * Events behind each probability field:
+ *   - pointsHit: actual points scored reached `projectedPoints`; only counted
+ *     when the slate carries actual points, which most do not
+ *   - overperform: actual fantasy points beat the projection by more than 3
+ *   - boom / bust: fantasy points per $1K of salary against the deep dive's
+ *     salary-scaled thresholds (`getBoomBustValueThresholds`)
+ *
+ * Each field is read on the scale its source uses: `...Probability` keys as
+ * 0-1, `%` / `pct` keys as percents.
+ */
+
+import type { Player } from '../types';
+import { getPlayerActual } from './backtest';
+import { SALARY_TIERS, SALARY_TIER_LABELS, SalaryTier, getBoomBustValueThresholds, getSalaryTier } from './salaryTiers';
+
+export type CalibrationSegmentKey = 'tier' | 'position' | 'minutes' | 'injury';
+
+export const CALIBRATION_SEGMENT_LABELS: Record<CalibrationSegmentKey, string> = {
+  tier: 'Salary Tier',
+  position: 'Position',
+  minutes: 'Minutes',
+  injury: 'Injury Promotion',
+};
+
+export type ProbabilityField = 'pointsHit' | 'overperform' | 'boom' | 'bust';
+
+export const PROBABILITY_FIELD_LABELS: Record<ProbabilityField, string> = {
+  pointsHit: 'Points Hit',
+  overperform: 'Overperform',
+  boom: 'Boom %',
+  bust: 'Bust %',
+};
+
+export const PROBABILITY_FIELDS: ProbabilityField[] = ['pointsHit', 'overperform', 'boom', 'bust'];
+
+/** `overperformProba` is P(actual > projection + this many DK points). */
+const OVERPERFORM_MARGIN = 3;
+
+/** Upper bounds (exclusive) of the projected-minutes bands; the last band is open-ended. */
+const MINUTES_BANDS: Array<{ label: string; max: number }> = [
+  { label: '<20 min', max: 20 },
+  { label: '20-28 min', max: 28 },
+  { label: '28-34 min', max: 34 },
+  { label: '34+ min', max: Infinity },
+];
+const UNKNOWN_MINUTES = 'No minutes';
+
+const INJURY_PROMOTED = 'Promoted';
+const INJURY_NOT_PROMOTED = 'Not promoted';
+
+export interface ProbabilityOutcome {
+  /** Predicted probability, 0-1. */
+  predicted: number;
+  hit: boolean;
+}
+
+export interface CalibrationSample {
+  date: string;
+  playerId: string;
+  name: string;
+  tier: SalaryTier;
+  position: string;
+  minutesBand: string;
+  injuryPromoted: boolean;
+  projected: number;
+  actual: number;
+  /** Only the fields the slate carried a prediction (and an outcome) for. */
+  outcomes: Partial<Record<ProbabilityField, ProbabilityOutcome>>;
+}
+
+export interface SegmentError {
+  segment: string;
+  label: string;
+  count: number;
+  mae: number;
+  rmse: number;
+  /** Mean of projected - actual; positive means the segment was over-projected. */
+  bias: number;
+}
+
+export interface ReliabilityBin {
+  lower: number;
+  upper: number;
+  count: number;
+  /** Mean predicted probability in the bin. */
+  predicted: number;
+  /** Share of the bin's players for whom the event happened. */
+  observed: number;
+}
+
+export interface ReliabilityCurve {
+  field: ProbabilityField;
+  count: number;
+  /** Non-empty bins only, lowest first. */
+  bins: ReliabilityBin[];
+  /** Mean squared error of the predicted probabilities. */
+  brier: number;
+  /** Count-weighted mean |predicted - observed| over the bins. */
+  calibrationError: number;
+}
+
+const toNum = (value: any): number | undefined => {
+  if (value === null || value === undefined || value === '') return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : undefined;
+};
+
+/** First numeric value under any of `keys` on the player or its slate / advanced-metrics blocks. */
+const readPlayerNumber = (player: Player, keys: string[]): number | undefined => {
+  const sources = [player, player.slateData, player.slateData?.advancedMetrics, player.advancedMetrics];
+  for (const source of sources) {
+    if (!source || typeof source !== 'object') continue;
+    for (const key of keys) {
+      const value = toNum(source[key]);
+      if (value !== undefined) return value;
+    }
+  }
+  return undefined;
+};
+
+/** Keys that hold a probability as 0-1 and keys that hold it as a percent. */
+interface ProbabilityKeys {
+  fraction: string[];
+  percent: string[];
+}
+
+/** `value` on a `scale` of 1 (0-1) or 100 (percent) as 0-1; undefined when out of range. */
+const toProbability = (value: number | undefined, scale: 1 | 100): number | undefined => {
+  if (value === undefined) return undefined;
+  const probability = value / scale;
+  return probability >= 0 && probability <= 1 ? probability : undefined;
+};
+
+const readProbability = (player: Player, keys: ProbabilityKeys): number | undefined => {
+  const fraction = readPlayerNumber(player, keys.fraction);
+  if (fraction !== undefined) return toProbability(fraction, 1);
+  return toProbability(readPlayerNumber(player, keys.percent), 100);
+};
+
+const BOOM_KEYS: ProbabilityKeys = {
+  fraction: ['boomProbability', 'boom_probability', 'boomRate', 'boom_rate'],
+  percent: ['boomPct', 'boom_pct', 'BOOM%', 'BOOM_PCT'],
+};
+const BUST_KEYS: ProbabilityKeys = {
+  fraction: ['bustProbability', 'bust_probability', 'bustRate', 'bust_rate'],
+  percent: ['bustPct', 'bust_pct', 'BUST%', 'BUST_PCT'],
+};
+const ACTUAL_POINTS_KEYS = ['actualPoints', 'actual_points', 'actualPts', 'actual_pts'];
+
+const getMinutesBand = (minutes: number | undefined): string => {
+  if (minutes === undefined || minutes <= 0) return UNKNOWN_MINUTES;
+  return MINUTES_BANDS.find((band) => minutes < band.max)!.label;
+};
+
+const getOutcomes = (player: Player, projected: number, actual: number): CalibrationSample['outcomes'] => {
+  const outcomes: CalibrationSample['outcomes'] = {};
+
+  const pointsHit = toProbability(
+    toNum(player.projectedPointsHitProbability) ?? toNum(player.projectedStatsProbabilities?.pointsHitProbability),
+    1,
+  );
+  const projectedPoints = toNum(player.projectedPoints);
+  const actualPoints = readPlayerNumber(player, ACTUAL_POINTS_KEYS);
+  if (pointsHit !== undefined && projectedPoints !== undefined && actualPoints !== undefined) {
+    outcomes.pointsHit = { predicted: pointsHit, hit: actualPoints >= projectedPoints };
+  }
+
+  const overperform = toProbability(toNum(player.overperformProba), 1);
+  if (overperform !== undefined) {
+    outcomes.overperform = { predicted: overperform, hit: actual > projected + OVERPERFORM_MARGIN };
+  }
+
+  const salary = Number(player.salary) || 0;
+  if (salary > 0) {
+    const thresholds = getBoomBustValueThresholds(salary);
+    const value = actual / (salary / 1000);
+    const boom = readProbability(player, BOOM_KEYS);
+    const bust = readProbability(player, BUST_KEYS);
+    if (boom !== undefined) outcomes.boom = { predicted: boom, hit: value >= thresholds.boom };
+    if (bust !== undefined) outcomes.bust = { predicted: bust, hit: value < thresholds.bust };
+  }
+
+  return outcomes;
+};
+
+/** One sample per player with a positive projection and an actual score. */
+export const buildCalibrationSamples = (players: Player[], date: string): CalibrationSample[] =>
+  players.flatMap((player) => {
+    const projected = toNum(player.projection) ?? 0;
+    const actual = getPlayerActual(player);
+    if (projected <= 0 || actual === undefined) return [];
+    return [{
+      date,
+      playerId: String(player.id),
+      name: String(player.name || ''),
+      tier: getSalaryTier(Number(player.salary) || 0),
+      position: String(player.position || '').split('/')[0].trim().toUpperCase() || '--',
+      minutesBand: getMinutesBand(toNum(player.minutesProjection)),
+      injuryPromoted: Boolean(player.injuryAdjustment),
+      projected,
+      actual,
+      outcomes: getOutcomes(player, projected, actual),
+    }];
+  });
+
+const getSegment = (sample: CalibrationSample, key: CalibrationSegmentKey): string => {
+  switch (key) {
+    case 'tier': return sample.tier;
+    case 'position': return sample.position;
+    case 'minutes': return sample.minutesBand;
+    case 'injury': return sample.injuryPromoted ? INJURY_PROMOTED : INJURY_NOT_PROMOTED;
+  }
+};
+
+const SEGMENT_ORDER: Record<CalibrationSegmentKey, string[]> = {
+  tier: SALARY_TIERS,
+  position: ['PG', 'SG', 'SF', 'PF', 'C', 'G', 'F'],
+  minutes: [...MINUTES_BANDS.map((band) => band.label), UNKNOWN_MINUTES],
+  injury: [INJURY_PROMOTED, INJURY_NOT_PROMOTED],
+};
+
+const orderOf = (key: CalibrationSegmentKey, segment: string): number => {
+  const idx = SEGMENT_ORDER[key].indexOf(segment);
+  return idx === -1 ? SEGMENT_ORDER[key].length : idx;
+};
+
+export const summarizeSegmentErrors = (samples: CalibrationSample[], key: CalibrationSegmentKey): SegmentError[] => {
+  const groups = new Map<string, CalibrationSample[]>();
+  samples.forEach((sample) => {
+    const segment = getSegment(sample, key);
+    const group = groups.get(segment) ?? [];
+    group.push(sample);
+    groups.set(segment, group);
+  });
+
+  return Array.from(groups.entries())
+    .map(([segment, group]) => {
+      const errors = group.map((sample) => sample.projected - sample.actual);
+      const n = errors.length;
+      return {
+        segment,
+        label: key === 'tier' ? SALARY_TIER_LABELS[segment as SalaryTier] : segment,
+        count: n,
+        mae: errors.reduce((sum, err) => sum + Math.abs(err), 0) / n,
+        rmse: Math.sqrt(errors.reduce((sum, err) => sum + err * err, 0) / n),
+        bias: errors.reduce((sum, err) => sum + err, 0) / n,
+      };
+    })
+    .sort((a, b) => orderOf(key, a.segment) - orderOf(key, b.segment) || a.segment.localeCompare(b.segment));
+};
+
+export const buildReliabilityCurve = (
+  samples: CalibrationSample[],
+  field: ProbabilityField,
+  binCount = 10,
+): ReliabilityCurve => {
+  const outcomes = samples
+    .map((sample) => sample.outcomes[field])
+    .filter((outcome): outcome is ProbabilityOutcome => outcome !== undefined);
+  const bins = Array.from({ length: binCount }, () => ({ count: 0, predicted: 0, hits: 0 }));
+  let squaredError = 0;
+
+  outcomes.forEach(({ predicted, hit }) => {
+    // A prediction of exactly 1 belongs in the top bin.
+    const bin = bins[Math.min(binCount - 1, Math.floor(predicted * binCount))];
+    bin.count += 1;
+    bin.predicted += predicted;
+    if (hit) bin.hits += 1;
+    squaredError += (predicted - (hit ? 1 : 0)) ** 2;
+  });
+
+  const reliability = bins
+    .map((bin, idx) => ({
+      lower: idx / binCount,
+      upper: (idx + 1) / binCount,
+      count: bin.count,
+      predicted: bin.count > 0 ? bin.predicted / bin.count : 0,
+      observed: bin.count > 0 ? bin.hits / bin.count : 0,
+    }))
+    .filter((bin) => bin.count > 0);
+  const count = outcomes.length;
+
+  return {
+    field,
+    count,
+    bins: reliability,
+    brier: count > 0 ? squaredError / count : Number.NaN,
+    calibrationError: count > 0
+      ? reliability.reduce((sum, bin) => sum + bin.count * Math.abs(bin.predicted - bin.observed), 0) / count
+      : Number.NaN,
+  };
+};
@@ -245,14 +245,18 @@ export function parseCSV(csvText: string): RawPlayerRow[] {
 
 // ─── Classify All ─────────────────────────────────────────────────────────────
 
-export function classifyAllPlayers(rows: RawPlayerRow[]): ClassifiedPlayer[] {
+// `classify` defaults to the built-in rules; pass a mined table's classifier (utils/tierRuleMining) to use refreshed tiers.
+export function classifyAllPlayers(
+  rows: RawPlayerRow[],
+  classify: (row: RawPlayerRow, pos_primary: PosType) => ClassificationResult | null = classifyPlayer,
+): ClassifiedPlayer[] {
   const results: ClassifiedPlayer[] = [];
 
   for (const row of rows) {
     const pos_primary = normalizePosition(row.Pos);
     if (!pos_primary) continue;
 
-    const classification = classifyPlayer(row, pos_primary);
+    const classification = classify(row, pos_primary);
     if (!classification) continue;
 
     results.push({
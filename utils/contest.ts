@@ -1,4 +1,5 @@
 
+import { assignSiteSlots, getSiteRules } from './siteRules';
 import { ContestInput, ContestDerived, Player, GameInfo, Lineup, ContestState } from '../types';
 
 export const DEFAULT_CONTEST: ContestInput = {
@@ -52,44 +53,23 @@ export const formatPct = (val: number, decimals = 1): string => {
   return `${(val * 100).toFixed(decimals)}%`;
 };
 
-export const assignDraftKingsSlots = (players: Player[]): { slotMap: Record<string, Player>, unassigned: Player[] } => {
-  const DK_SLOTS = ['C', 'PG', 'SG', 'SF', 'PF', 'G', 'F', 'UTIL'];
-  const slotMap: Record<string, Player> = {};
-  let remainingPlayers = [...players];
-
-  const isEligible = (p: Player, slot: string): boolean => {
-    const pos = p.position.toUpperCase();
-    if (slot === 'UTIL') return true;
-    if (slot === 'G') return pos.includes('PG') || pos.includes('SG');
-    if (slot === 'F') return pos.includes('SF') || pos.includes('PF');
-    return pos.includes(slot);
-  };
-
-  const getEligibleSlotCount = (p: Player) => {
-    return DK_SLOTS.filter(s => isEligible(p, s)).length;
-  };
-
-  remainingPlayers.sort((a, b) => {
-    const countA = getEligibleSlotCount(a);
-    const countB = getEligibleSlotCount(b);
-    if (countA !== countB) return countA - countB;
-    if (a.salary !== b.salary) return b.salary - a.salary;
-    return a.name.localeCompare(b.name);
-  });
-
-  for (const slot of DK_SLOTS) {
-    const idx = remainingPlayers.findIndex(p => isEligible(p, slot));
-    if (idx !== -1) {
-      slotMap[slot] = remainingPlayers[idx];
-      remainingPlayers.splice(idx, 1);
-    }
-  }
+/**
+ * Places players into the site's roster slots (DK: PG/SG/SF/PF/C/G/F/UTIL,
+ * FD: PG/PG/SG/SG/SF/SF/PF/PF/C). Slot keys come from utils/siteRules.
+ */
+export const assignLineupSlots = (
+  players: Player[],
+  site: ContestInput['site'] = 'DraftKings',
+): { slotMap: Record<string, Player>, unassigned: Player[] } => {
+  return assignSiteSlots(players, getSiteRules(site));
+};
 
-  return { slotMap, unassigned: remainingPlayers };
+export const assignDraftKingsSlots = (players: Player[]): { slotMap: Record<string, Player>, unassigned: Player[] } => {
+  return assignLineupSlots(players, 'DraftKings');
 };
 
 export const getLineupSignal = (lineup: Lineup, contest?: ContestState): { status: 'green' | 'yellow' | 'red', label: string } => {
-  if ((lineup.playerIds.length || 0) < 8) {
+  if ((lineup.playerIds.length || 0) < getSiteRules(contest?.input.site).slots.length) {
     return { status: 'red', label: 'Error' };
   }
   if (!contest) return { status: 'yellow', label: 'No Context' };
@@ -0,0 +1,275 @@
+/**
+ * DraftKings contest-standings import.
+ *
+ * The standings CSV DK offers after lock has two side-by-side tables:
+ *   Rank, EntryId, EntryName, TimeRemaining, Points, Lineup — one row per entry
+ *   Player, Roster Position, %Drafted, FPTS                 — one row per player
+ * `Lineup` is a single string of slot labels followed by player names
+ * ("C Nikola Jokic F LeBron James G ...").
+ *
+ * `buildContestResult` matches our entries (by entry id, or by DK username),
+ * reports rank and percentile, estimates each finish's payout from the contest
+ * settings via `deriveContest` and the contest-sim payout curve, and keeps the
+ * field's actual ownership for comparison with our projections.
+ */
+
+import Papa from 'papaparse';
+import type { ContestInput, Player } from '../types';
+import { buildPayoutCurve } from '../src/workers/contest-sim/payout';
+import { deriveContest } from './contest';
+import { buildPlayerIndex } from './csvParser';
+import { SITE_RULES } from './siteRules';
+
+export interface StandingsEntry {
+  rank: number;
+  entryId: string;
+  entryName: string;
+  /** EntryName without DK's "(3/20)" multi-entry suffix. */
+  username: string;
+  points: number;
+  playerNames: string[];
+}
+
+export interface FieldOwnershipRow {
+  name: string;
+  /** Slate player id when the name matched the pool. */
+  playerId?: string;
+  /** Percent of the field's lineups (0-100). */
+  drafted: number;
+  fpts: number;
+}
+
+export interface ContestStandings {
+  entries: StandingsEntry[];
+  fieldOwnership: FieldOwnershipRow[];
+  fieldSize: number;
+}
+
+export interface EntryFinish {
+  entryId: string;
+  entryName: string;
+  rank: number;
+  points: number;
+  /** Share of the field finishing behind this entry (100 = first place). */
+  percentile: number;
+  /** Estimated winnings; tied entries split the places they cover. */
+  payout: number;
+}
+
+export interface ContestResult {
+  slateDate: string;
+  contestId: string;
+  contestName: string;
+  fileName: string;
+  importedAt: number;
+  fieldSize: number;
+  entryFee: number;
+  prizePool: number;
+  paidPlaces: number;
+  entries: EntryFinish[];
+  fieldOwnership: FieldOwnershipRow[];
+}
+
+/** The slice of an Entry Manager entry the importer needs. */
+export interface OwnEntryRef {
+  entryId: string;
+  contestId?: string;
+  contestName?: string;
+  entryFee?: string;
+}
+
+export interface OwnershipComparisonRow {
+  player: Player;
+  projected: number;
+  actual: number;
+  /** actual − projected, in percentage points. */
+  delta: number;
+}
+
+const normalizeHeader = (value: unknown): string => String(value ?? '').toLowerCase().replace(/[^a-z0-9%]/g, '');
+
+const SLOT_LABELS = new Set(
+  Object.values(SITE_RULES).flatMap((rules) => rules.slots.map((slot) => slot.label.toUpperCase())).concat(['CPT']),
+);
+
+const toNum = (value: unknown): number => {
+  const num = Number(String(value ?? '').replace(/[^0-9.\-]/g, ''));
+  return Number.isFinite(num) ? num : 0;
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/** Splits DK's lineup string on slot labels: "PG Trae Young SG ..." → ["Trae Young", ...]. */
+export const parseStandingsLineup = (lineup: string): string[] => {
+  const names: string[] = [];
+  let current: string[] = [];
+  String(lineup || '').trim().split(/\s+/).forEach((token) => {
+    if (SLOT_LABELS.has(token.toUpperCase()) && token === token.toUpperCase()) {
+      if (current.length > 0) names.push(current.join(' '));
+      current = [];
+      return;
+    }
+    if (token) current.push(token);
+  });
+  if (current.length > 0) names.push(current.join(' '));
+  return names;
+};
+
+const stripEntrySuffix = (entryName: string): string => entryName.replace(/\s*\(\d+\/\d+\)\s*$/, '').trim();
+
+/** Ownership from the lineups themselves, for exports without the %Drafted table. */
+const countFieldOwnership = (entries: StandingsEntry[]): FieldOwnershipRow[] => {
+  const counts = new Map<string, number>();
+  entries.forEach((entry) => {
+    new Set(entry.playerNames).forEach((name) => counts.set(name, (counts.get(name) ?? 0) + 1));
+  });
+  return Array.from(counts.entries())
+    .map(([name, count]) => ({ name, drafted: round2((count / entries.length) * 100), fpts: 0 }))
+    .sort((a, b) => b.drafted - a.drafted);
+};
+
+export const parseContestStandingsText = (text: string): ContestStandings => {
+  const parsed = Papa.parse<string[]>(text, { header: false, skipEmptyLines: true });
+  const rows = parsed.data;
+  const header = (rows[0] || []).map(normalizeHeader);
+  const col = (...names: string[]) => header.findIndex((cell) => names.includes(cell));
+  const rankCol = col('rank');
+  const entryIdCol = col('entryid');
+  const entryNameCol = col('entryname');
+  const pointsCol = col('points');
+  const lineupCol = col('lineup');
+  if (rankCol < 0 || entryIdCol < 0 || pointsCol < 0 || lineupCol < 0) {
+    throw new Error('Not a contest standings CSV: expected Rank, EntryId, Points and Lineup columns.');
+  }
+  const playerCol = col('player');
+  const draftedCol = col('%drafted', 'drafted');
+  const fptsCol = col('fpts');
+
+  const entries: StandingsEntry[] = [];
+  const drafted: FieldOwnershipRow[] = [];
+  rows.slice(1).forEach((row) => {
+    const entryId = String(row[entryIdCol] ?? '').trim();
+    if (entryId) {
+      const entryName = String(row[entryNameCol] ?? '').trim();
+      entries.push({
+        rank: toNum(row[rankCol]),
+        entryId,
+        entryName,
+        username: stripEntrySuffix(entryName),
+        points: toNum(row[pointsCol]),
+        playerNames: parseStandingsLineup(String(row[lineupCol] ?? '')),
+      });
+    }
+    const playerName = playerCol >= 0 ? String(row[playerCol] ?? '').trim() : '';
+    if (playerName && draftedCol >= 0) {
+      drafted.push({ name: playerName, drafted: toNum(row[draftedCol]), fpts: fptsCol >= 0 ? toNum(row[fptsCol]) : 0 });
+    }
+  });
+
+  if (entries.length === 0) {
+    throw new Error('No entries found in the contest standings CSV.');
+  }
+
+  return {
+    entries,
+    fieldOwnership: drafted.length > 0 ? drafted : countFieldOwnership(entries),
+    fieldSize: entries.length,
+  };
+};
+
+/**
+ * Estimated payout per entry id. Entries tied on points split the payouts of
+ * the places they jointly occupy, as DK does.
+ */
+export const estimateStandingsPayouts = (
+  entries: StandingsEntry[],
+  payoutCurve: number[],
+): Map<string, number> => {
+  const sorted = [...entries].sort((a, b) => b.points - a.points);
+  const payouts = new Map<string, number>();
+  let start = 0;
+  while (start < sorted.length) {
+    let end = start;
+    while (end + 1 < sorted.length && sorted[end + 1].points === sorted[start].points) end += 1;
+    let total = 0;
+    for (let place = start; place <= end; place += 1) total += payoutCurve[place] ?? 0;
+    const share = round2(total / (end - start + 1));
+    for (let idx = start; idx <= end; idx += 1) payouts.set(sorted[idx].entryId, share);
+    start = end + 1;
+  }
+  return payouts;
+};
+
+export interface BuildContestResultOptions {
+  standings: ContestStandings;
+  ownEntries: OwnEntryRef[];
+  /** DK username; entries under it count as ours even when missing from the entries file. */
+  username?: string;
+  contest: ContestInput;
+  players: Player[];
+  slateDate: string;
+  fileName: string;
+}
+
+export const buildContestResult = (options: BuildContestResultOptions): ContestResult => {
+  const { standings, ownEntries, contest, players, slateDate, fileName } = options;
+  const ownById = new Map(ownEntries.map((entry) => [String(entry.entryId).trim(), entry]));
+  const username = String(options.username ?? '').trim().toLowerCase();
+  const matched = standings.entries.filter(
+    (entry) => ownById.has(entry.entryId) || (username !== '' && entry.username.toLowerCase() === username),
+  );
+
+  const ownRef = matched.map((entry) => ownById.get(entry.entryId)).find((entry): entry is OwnEntryRef => Boolean(entry));
+  const fileContestId = fileName.match(/(\d{6,})/)?.[1];
+  const contestId = String(ownRef?.contestId || fileContestId || 'contest');
+  const entryFee = toNum(ownRef?.entryFee) || contest.entryFee;
+
+  const derived = deriveContest({ ...contest, fieldSize: standings.fieldSize, entryFee });
+  const payouts = estimateStandingsPayouts(
+    standings.entries,
+    buildPayoutCurve(derived.prizePool, derived.estimatedPaidPlaces, derived.estimatedMinCash),
+  );
+  const fieldSize = standings.fieldSize;
+
+  const index = buildPlayerIndex(players);
+  return {
+    slateDate,
+    contestId,
+    contestName: ownRef?.contestName || contest.contestName,
+    fileName,
+    importedAt: Date.now(),
+    fieldSize,
+    entryFee,
+    prizePool: round2(derived.prizePool),
+    paidPlaces: derived.estimatedPaidPlaces,
+    entries: matched
+      .map((entry) => ({
+        entryId: entry.entryId,
+        entryName: entry.entryName,
+        rank: entry.rank,
+        points: entry.points,
+        percentile: fieldSize > 1 ? round2(((fieldSize - entry.rank) / (fieldSize - 1)) * 100) : 100,
+        payout: payouts.get(entry.entryId) ?? 0,
+      }))
+      .sort((a, b) => a.rank - b.rank),
+    fieldOwnership: standings.fieldOwnership.map((row) => {
+      const player = index.find(row.name);
+      return player ? { ...row, playerId: player.id } : row;
+    }),
+  };
+};
+
+/** Slate players with both a projected and a field ownership, biggest misses first. */
+export const compareFieldOwnership = (players: Player[], fieldOwnership: FieldOwnershipRow[]): OwnershipComparisonRow[] => {
+  const actualById = new Map(
+    fieldOwnership.filter((row) => row.playerId).map((row) => [row.playerId as string, row.drafted]),
+  );
+  return players
+    .filter((player) => actualById.has(player.id) && Number.isFinite(Number(player.ownership)))
+    .map((player) => {
+      const projected = Number(player.ownership);
+      const actual = actualById.get(player.id) ?? 0;
+      return { player, projected, actual, delta: round2(actual - projected) };
+    })
+    .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta));
+};
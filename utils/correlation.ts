@@ -0,0 +1,149 @@
+/**
+ * Pairwise DK fantasy-point correlation from historical game logs.
+ *
+ * Uses `player.history` (normalized from the historicalBoxscores payload in
+ * App's mergeHistoricalDataIntoPlayers). Two logs are paired when they share a
+ * game date and describe the relationship being measured:
+ *   teammates — same date, same opponent (both played in the same game)
+ *   opponents — same date, one player's opponent is the other's team
+ * Games where either player logged fewer than `minMinutes` are dropped so
+ * DNPs and garbage-time cameos don't drag the coefficient toward zero.
+ */
+
+import { HistoricalGame, Player } from '../types';
+
+export type PairRelationship = 'teammates' | 'opponents' | 'unrelated';
+
+export interface PairCorrelation {
+  relationship: PairRelationship;
+  correlation: number | null;
+  sampleSize: number;
+  excludedForMinutes: number;
+  meanA: number | null;
+  meanB: number | null;
+}
+
+export interface PairCorrelationOptions {
+  minMinutes?: number;
+  minSampleSize?: number;
+}
+
+export const DEFAULT_CORRELATION_MIN_MINUTES = 10;
+export const DEFAULT_CORRELATION_MIN_SAMPLE = 5;
+
+const normalizeDate = (raw: string): string => {
+  const text = String(raw || '').trim();
+  const iso = text.match(/^\d{4}-\d{2}-\d{2}/);
+  if (iso) return iso[0];
+  const parsed = Date.parse(text);
+  return Number.isFinite(parsed) ? new Date(parsed).toISOString().slice(0, 10) : text;
+};
+
+const normalizeTeam = (raw: unknown): string => String(raw || '').trim().toUpperCase();
+
+export const getPairRelationship = (a: Player, b: Player): PairRelationship => {
+  const teamA = normalizeTeam(a.team);
+  const teamB = normalizeTeam(b.team);
+  if (teamA && teamA === teamB) return 'teammates';
+  if ((teamB && normalizeTeam(a.opponent) === teamB) || (teamA && normalizeTeam(b.opponent) === teamA)) {
+    return 'opponents';
+  }
+  return 'unrelated';
+};
+
+export const pearsonCorrelation = (xs: number[], ys: number[]): number | null => {
+  const n = Math.min(xs.length, ys.length);
+  if (n < 2) return null;
+  let meanX = 0;
+  let meanY = 0;
+  for (let i = 0; i < n; i++) {
+    meanX += xs[i];
+    meanY += ys[i];
+  }
+  meanX /= n;
+  meanY /= n;
+
+  let cov = 0;
+  let varX = 0;
+  let varY = 0;
+  for (let i = 0; i < n; i++) {
+    const dx = xs[i] - meanX;
+    const dy = ys[i] - meanY;
+    cov += dx * dy;
+    varX += dx * dx;
+    varY += dy * dy;
+  }
+  if (varX <= 0 || varY <= 0) return null;
+  return cov / Math.sqrt(varX * varY);
+};
+
+const isPairedGame = (
+  relationship: PairRelationship,
+  gameA: HistoricalGame,
+  gameB: HistoricalGame,
+  teamA: string,
+  teamB: string,
+): boolean => {
+  const oppA = normalizeTeam(gameA.opponent);
+  const oppB = normalizeTeam(gameB.opponent);
+  if (relationship === 'teammates') return oppA !== '' && oppA === oppB;
+  if (relationship === 'opponents') return oppA === teamB || oppB === teamA;
+  return false;
+};
+
+export const computePairCorrelation = (
+  a: Player,
+  b: Player,
+  options: PairCorrelationOptions = {},
+): PairCorrelation => {
+  const minMinutes = Math.max(0, Number(options.minMinutes ?? DEFAULT_CORRELATION_MIN_MINUTES));
+  const minSampleSize = Math.max(2, Math.floor(Number(options.minSampleSize ?? DEFAULT_CORRELATION_MIN_SAMPLE)));
+  const relationship = getPairRelationship(a, b);
+  const empty: PairCorrelation = {
+    relationship,
+    correlation: null,
+    sampleSize: 0,
+    excludedForMinutes: 0,
+    meanA: null,
+    meanB: null,
+  };
+  if (relationship === 'unrelated') return empty;
+
+  const teamA = normalizeTeam(a.team);
+  const teamB = normalizeTeam(b.team);
+  const logsB = new Map<string, HistoricalGame>();
+  (b.history || []).forEach((game) => {
+    const date = normalizeDate(game.date);
+    if (date) logsB.set(date, game);
+  });
+
+  const xs: number[] = [];
+  const ys: number[] = [];
+  let excludedForMinutes = 0;
+  (a.history || []).forEach((gameA) => {
+    const gameB = logsB.get(normalizeDate(gameA.date));
+    if (!gameB || !isPairedGame(relationship, gameA, gameB, teamA, teamB)) return;
+    const fptsA = Number(gameA.fpts);
+    const fptsB = Number(gameB.fpts);
+    if (!Number.isFinite(fptsA) || !Number.isFinite(fptsB)) return;
+    if ((Number(gameA.minutes) || 0) < minMinutes || (Number(gameB.minutes) || 0) < minMinutes) {
+      excludedForMinutes += 1;
+      return;
+    }
+    xs.push(fptsA);
+    ys.push(fptsB);
+  });
+
+  const sampleSize = xs.length;
+  if (sampleSize === 0) return { ...empty, excludedForMinutes };
+  const meanA = xs.reduce((sum, v) => sum + v, 0) / sampleSize;
+  const meanB = ys.reduce((sum, v) => sum + v, 0) / sampleSize;
+  return {
+    relationship,
+    correlation: sampleSize >= minSampleSize ? pearsonCorrelation(xs, ys) : null,
+    sampleSize,
+    excludedForMinutes,
+    meanA,
+    meanB,
+  };
+};
@@ -62,6 +62,12 @@ const toOptionalNumber = (val: any): number | undefined => {
   return Number.isFinite(n) ? n : undefined;
 };
 
+/** Ownership cell as a number; blank or missing stays undefined rather than 0. */
+const toOptionalOwnership = (val: any): number | undefined => {
+  if (val === undefined || val === null || String(val).trim() === '') return undefined;
+  return toOptionalNumber(parseFloat(String(val)));
+};
+
 const normalizeTeamToken = (val: any): string =>
   String(val ?? '').toUpperCase().replace(/[^A-Z0-9]/g, '');
 
@@ -207,7 +213,8 @@ export const parseProjections = (file: File | string): Promise<Player[]> => {
             projection: parseFloat(row[map.projection || 'Fpts'] || '0') || 0,
             ceiling: parseFloat(row[map.ceiling || 'Ceiling'] || '0') || 0,
             floor: parseFloat(row[map.floor || 'Floor'] || '0') || 0,
-            ownership: parseFloat(row[map.ownership || 'Own%'] || '0') || 0,
+            // Left undefined without an ownership column so utils/ownership can estimate it.
+            ownership: toOptionalOwnership(row[map.ownership || 'Own%']),
             value: 0
           };
 
@@ -0,0 +1,72 @@
+/**
+ * Lineup duplication estimate for large-field GPPs.
+ *
+ * A field entry is modelled as one independent draw per roster spot at each
+ * player's projected ownership, so the chance it matches a lineup is the
+ * product of the roster's ownerships. Two corrections follow how the field
+ * really builds: most entries spend to the cap, so every dollar left unspent
+ * makes a match less likely, and chalk-heavy rosters are what optimizer-built
+ * entries converge on, so they duplicate more than independence suggests.
+ *
+ * Shared by the sa-optimizer duplication limit and the lineup tables.
+ */
+
+/** Ownership (%) at which a player counts as chalk; the backtest ownership mix uses the same cut. */
+export const CHALK_OWNERSHIP = 25;
+
+/** Dollars left unspent that divide the expected duplicates by e. */
+const SALARY_LEFT_SCALE = 500;
+/** Extra duplication for an all-chalk roster, scaled linearly by chalk share. */
+const CHALK_BOOST = 1;
+/** Floor for unknown or zero ownership so a single fade doesn't zero the estimate. */
+const MIN_OWNERSHIP_PCT = 0.1;
+
+export interface DuplicationEstimate {
+  /** Expected number of other field entries with this exact roster. */
+  expectedDuplicates: number;
+  /** Product of the roster's ownerships, as a probability. */
+  ownershipProduct: number;
+  salaryLeft: number;
+  /** Share of roster spots at or above CHALK_OWNERSHIP. */
+  chalkShare: number;
+}
+
+export type DuplicationRisk = 'low' | 'medium' | 'high';
+
+/** Log of a player's ownership share: the per-player term of the estimate's product. */
+export const ownershipLog = (ownershipPct: number): number =>
+  Math.log(Math.max(MIN_OWNERSHIP_PCT, Math.min(100, Number(ownershipPct) || 0)) / 100);
+
+export const estimateLineupDuplication = (
+  ownershipPcts: number[],
+  salaryLeft: number,
+  fieldSize: number,
+): DuplicationEstimate => {
+  const field = Math.max(0, Number(fieldSize) || 0);
+  const left = Math.max(0, Number(salaryLeft) || 0);
+  let logProduct = 0;
+  let chalk = 0;
+  ownershipPcts.forEach((value) => {
+    logProduct += ownershipLog(value);
+    if (Number(value) >= CHALK_OWNERSHIP) chalk += 1;
+  });
+  const ownershipProduct = ownershipPcts.length > 0 ? Math.exp(logProduct) : 0;
+  const chalkShare = ownershipPcts.length > 0 ? chalk / ownershipPcts.length : 0;
+  const expectedDuplicates = field * ownershipProduct
+    * Math.exp(-left / SALARY_LEFT_SCALE)
+    * (1 + CHALK_BOOST * chalkShare);
+  return { expectedDuplicates, ownershipProduct, salaryLeft: left, chalkShare };
+};
+
+export const getDuplicationRisk = (expectedDuplicates: number): DuplicationRisk => {
+  if (expectedDuplicates >= 3) return 'high';
+  if (expectedDuplicates >= 0.5) return 'medium';
+  return 'low';
+};
+
+export const formatDuplicates = (expectedDuplicates: number): string => {
+  if (!Number.isFinite(expectedDuplicates)) return '--';
+  if (expectedDuplicates < 0.1) return '<0.1';
+  if (expectedDuplicates < 10) return expectedDuplicates.toFixed(1);
+  return Math.round(expectedDuplicates).toLocaleString();
+};
@@ -0,0 +1,167 @@
+/**
+ * Contest-aware assignment of a saved lineup set to Entry Manager entries.
+ *
+ * A DKEntries file mixes contests, and what a lineup is worth depends on the
+ * contest: single-entry and cash games want the highest projection, large GPPs
+ * want the lineup the field is least likely to share. `planContestAssignments`
+ * groups entries by contest, ranks the set for each contest by that contest's
+ * objective, and hands out distinct lineups within each contest. The same
+ * lineup may still appear in different contests.
+ */
+
+import type { Lineup, Player } from '../types';
+
+export type ContestObjective = 'projection' | 'leverage';
+
+export const CONTEST_OBJECTIVE_LABELS: Record<ContestObjective, string> = {
+  projection: 'Top Projection',
+  leverage: 'Most Leveraged',
+};
+
+export interface PlannerEntry {
+  contestId: string;
+  contestName: string;
+  entryFee: string;
+}
+
+export interface ContestGroup {
+  contestId: string;
+  contestName: string;
+  entryFee: string;
+  /** Indexes into the entries list, in file order. */
+  entryIndexes: number[];
+  objective: ContestObjective;
+}
+
+export interface ContestExposure {
+  playerId: string;
+  count: number;
+  /** Percent of the contest's assigned entries. */
+  exposure: number;
+}
+
+export interface ContestPlanSummary {
+  contestId: string;
+  contestName: string;
+  objective: ContestObjective;
+  entries: number;
+  assigned: number;
+  avgProjection: number;
+  /** Mean summed ownership (%) of the assigned lineups. */
+  avgOwnership: number;
+  exposures: ContestExposure[];
+}
+
+export interface ContestAssignmentPlan {
+  /** Entry index -> index into the planned lineups; entries left out had no distinct lineup to spare. */
+  assignments: Map<number, number>;
+  contests: ContestPlanSummary[];
+}
+
+const CASH_CONTEST_PATTERN = /single entry|\bse\b|cash|double up|50\/50|head to head|\bh2h\b|triple up/i;
+
+/** Single-entry and cash contests play for projection; everything else plays for leverage. */
+export const inferContestObjective = (contestName: string, entryCount: number): ContestObjective =>
+  entryCount <= 1 || CASH_CONTEST_PATTERN.test(contestName) ? 'projection' : 'leverage';
+
+export const groupEntriesByContest = (entries: PlannerEntry[]): ContestGroup[] => {
+  const groups = new Map<string, ContestGroup>();
+  entries.forEach((entry, idx) => {
+    const key = entry.contestId || entry.contestName || 'unknown';
+    const group = groups.get(key);
+    if (group) {
+      group.entryIndexes.push(idx);
+      return;
+    }
+    groups.set(key, {
+      contestId: key,
+      contestName: entry.contestName || key,
+      entryFee: entry.entryFee,
+      entryIndexes: [idx],
+      objective: 'projection',
+    });
+  });
+  return Array.from(groups.values()).map((group) => ({
+    ...group,
+    objective: inferContestObjective(group.contestName, group.entryIndexes.length),
+  }));
+};
+
+interface ScoredLineup {
+  index: number;
+  playerIds: string[];
+  rosterKey: string;
+  projection: number;
+  ownership: number;
+  leverage: number;
+}
+
+/**
+ * Projection weighted by the share of the field not on each player, so a chalk
+ * player contributes little and a low-owned one nearly its full projection.
+ */
+export const scoreLineupLeverage = (players: Array<Pick<Player, 'projection' | 'ownership'>>): number =>
+  players.reduce((sum, player) => {
+    const own = Math.max(0, Math.min(100, Number(player.ownership) || 0));
+    return sum + (Number(player.projection) || 0) * (1 - own / 100);
+  }, 0);
+
+const scoreLineups = (lineups: Lineup[], playersById: Map<string, Player>): ScoredLineup[] =>
+  lineups.map((lineup, index) => {
+    const roster = lineup.playerIds.map((id) => playersById.get(id)).filter((player): player is Player => Boolean(player));
+    return {
+      index,
+      playerIds: lineup.playerIds,
+      rosterKey: [...lineup.playerIds].sort().join('|'),
+      projection: roster.reduce((sum, player) => sum + (Number(player.projection) || 0), 0),
+      ownership: roster.reduce((sum, player) => sum + (Number(player.ownership) || 0), 0),
+      leverage: scoreLineupLeverage(roster),
+    };
+  });
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+export const planContestAssignments = (
+  groups: ContestGroup[],
+  lineups: Lineup[],
+  playersById: Map<string, Player>,
+): ContestAssignmentPlan => {
+  const scored = scoreLineups(lineups, playersById);
+  const assignments = new Map<number, number>();
+
+  const contests = groups.map((group) => {
+    const ranked = [...scored].sort((a, b) => (
+      group.objective === 'projection'
+        ? b.projection - a.projection || b.leverage - a.leverage
+        : b.leverage - a.leverage || b.projection - a.projection
+    ));
+    // A roster already entered in this contest is skipped, even if it came from a different lineup id.
+    const seen = new Set<string>();
+    const picked: ScoredLineup[] = [];
+    for (const lineup of ranked) {
+      if (picked.length >= group.entryIndexes.length) break;
+      if (seen.has(lineup.rosterKey)) continue;
+      seen.add(lineup.rosterKey);
+      picked.push(lineup);
+    }
+    picked.forEach((lineup, idx) => assignments.set(group.entryIndexes[idx], lineup.index));
+
+    const counts = new Map<string, number>();
+    picked.forEach((lineup) => lineup.playerIds.forEach((id) => counts.set(id, (counts.get(id) ?? 0) + 1)));
+    const assigned = picked.length;
+    return {
+      contestId: group.contestId,
+      contestName: group.contestName,
+      objective: group.objective,
+      entries: group.entryIndexes.length,
+      assigned,
+      avgProjection: assigned > 0 ? round1(picked.reduce((sum, lineup) => sum + lineup.projection, 0) / assigned) : 0,
+      avgOwnership: assigned > 0 ? round1(picked.reduce((sum, lineup) => sum + lineup.ownership, 0) / assigned) : 0,
+      exposures: Array.from(counts.entries())
+        .map(([playerId, count]) => ({ playerId, count, exposure: round1((count / assigned) * 100) }))
+        .sort((a, b) => b.count - a.count || a.playerId.localeCompare(b.playerId)),
+    };
+  });
+
+  return { assignments, contests };
+};
@@ -0,0 +1,218 @@
+/**
+ * Headless lineup builds for `scripts/build-lineups.mjs`.
+ *
+ * Reads a slate (pipeline JSON or projections CSV) and an optimizer settings
+ * file, builds the request the Optimizer page would send, and runs it through
+ * `runOptimizerRequest` — the same engines and `generatePortfolio` path the
+ * worker uses, with HiGHS loaded from node_modules. The output is the site's
+ * upload CSV plus a JSON summary of exposures and warnings.
+ *
+ * The settings file is the Optimizer page's saved payload (`config`,
+ * `lockedIds`, `playerOverrides`, `playerGroups`) or a bare config object;
+ * missing fields fall back to the page defaults.
+ */
+
+import type { Lineup, Player } from '../types';
+import type { OptimizerExposure, OptimizerProgress, OptimizerRequest, OptimizerResult } from '../src/workers/optimizer-service/types';
+import { runOptimizerRequest } from '../src/workers/optimizer-service/engines';
+import { buildBacktestRequest } from './backtest';
+import { parsePipelineJson, parseProjections } from './csvParser';
+import { OptimizerConfigState, sanitizeOptimizerConfig } from './optimizerConfig';
+import { PlayerGroupRule, sanitizePlayerGroupRules } from './playerGroups';
+import { assignSiteSlots, getSiteRules } from './siteRules';
+
+export interface HeadlessPlayerOverride {
+  projection?: number;
+  minutes?: number;
+  minExposure?: number;
+  maxExposure?: number;
+  exclude?: boolean;
+}
+
+export interface HeadlessSettings {
+  config: OptimizerConfigState;
+  lockedIds: string[];
+  playerOverrides: Record<string, HeadlessPlayerOverride>;
+  playerGroups: PlayerGroupRule[];
+  /** Contest entries the duplication limit is scaled to; 0 leaves it off. */
+  fieldSize: number;
+}
+
+export interface HeadlessExposure {
+  id: string;
+  name: string;
+  team: string;
+  count: number;
+  /** Percent of the built lineups. */
+  exposure: number;
+}
+
+export interface HeadlessBuildSummary {
+  generatedAt: string;
+  site: OptimizerConfigState['site'];
+  engine: OptimizerResult['engine'];
+  status: OptimizerResult['status'];
+  requested: number;
+  built: number;
+  warnings: string[];
+  exposures: HeadlessExposure[];
+  lineups: Array<Pick<Lineup, 'id' | 'playerIds' | 'totalSalary' | 'totalProjection'>>;
+}
+
+export interface HeadlessBuildOutput {
+  csv: string;
+  summary: HeadlessBuildSummary;
+}
+
+const finiteOrUndefined = (value: unknown): number | undefined => {
+  if (value === null || value === undefined || value === '') return undefined;
+  const num = Number(value);
+  return Number.isFinite(num) ? num : undefined;
+};
+
+const sanitizeOverride = (raw: any): HeadlessPlayerOverride => {
+  const override: HeadlessPlayerOverride = {};
+  const projection = finiteOrUndefined(raw?.projection);
+  const minutes = finiteOrUndefined(raw?.minutes);
+  const minExposure = finiteOrUndefined(raw?.minExposure);
+  const maxExposure = finiteOrUndefined(raw?.maxExposure);
+  if (projection !== undefined) override.projection = projection;
+  if (minutes !== undefined) override.minutes = minutes;
+  if (minExposure !== undefined) override.minExposure = Math.max(0, Math.min(100, minExposure));
+  if (maxExposure !== undefined) override.maxExposure = Math.max(0, Math.min(100, maxExposure));
+  if (raw?.exclude === true) override.exclude = true;
+  return override;
+};
+
+export const parseHeadlessSettings = (raw: any): HeadlessSettings => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('Settings file must contain a JSON object');
+  }
+  const saved = raw.config && typeof raw.config === 'object';
+  const overrides = raw.playerOverrides && typeof raw.playerOverrides === 'object' ? raw.playerOverrides : {};
+  return {
+    config: sanitizeOptimizerConfig(saved ? raw.config : raw),
+    lockedIds: Array.isArray(raw.lockedIds) ? raw.lockedIds.map(String) : [],
+    playerOverrides: Object.fromEntries(
+      Object.entries(overrides).map(([id, override]) => [id, sanitizeOverride(override)]),
+    ),
+    playerGroups: sanitizePlayerGroupRules(raw.playerGroups),
+    fieldSize: Math.max(0, finiteOrUndefined(raw.fieldSize) ?? 0),
+  };
+};
+
+/** Players from a pipeline slate JSON (`.json`) or a projections CSV (anything else). */
+export const parseHeadlessSlate = async (fileName: string, text: string): Promise<Player[]> => {
+  if (/\.json$/i.test(fileName)) {
+    let content: any;
+    try {
+      content = JSON.parse(text);
+    } catch (error) {
+      throw new Error(`Invalid slate JSON in ${fileName}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return parsePipelineJson(content).referencePlayers || [];
+  }
+  return parseProjections(text);
+};
+
+/** The Optimizer page's request for these settings: overrides applied, then locks, excludes, exposures and groups. */
+export const buildHeadlessRequest = (players: Player[], settings: HeadlessSettings): OptimizerRequest => {
+  const { config, playerOverrides } = settings;
+  const adjusted = players.map((player) => {
+    const override = playerOverrides[player.id];
+    if (!override) return player;
+    return {
+      ...player,
+      projection: override.projection ?? player.projection,
+      minutesProjection: override.minutes ?? player.minutesProjection,
+    };
+  });
+  const base = buildBacktestRequest(adjusted, config);
+
+  const exposures: Record<string, OptimizerExposure> = {};
+  Object.entries(playerOverrides).forEach(([id, override]) => {
+    if (override.minExposure === undefined && override.maxExposure === undefined) return;
+    exposures[id] = {
+      ...(override.minExposure !== undefined ? { min: override.minExposure } : {}),
+      ...(override.maxExposure !== undefined ? { max: override.maxExposure } : {}),
+    };
+  });
+
+  return {
+    ...base,
+    rules: {
+      ...base.rules,
+      locks: settings.lockedIds,
+      excludes: Object.entries(playerOverrides).filter(([, override]) => override.exclude === true).map(([id]) => id),
+      exposures,
+      groups: settings.playerGroups,
+      fieldSize: settings.fieldSize,
+      maxDuplicates: config.maxDuplicates,
+    },
+  };
+};
+
+/** Upload CSV in the site's slot order, one player id per cell — the Optimizer page's export format. */
+export const buildHeadlessUploadCsv = (lineups: Lineup[], players: Player[], site: OptimizerConfigState['site']): string => {
+  const rules = getSiteRules(site);
+  const byId = new Map(players.map((player) => [player.id, player]));
+  const rows = lineups.map((lineup) => {
+    const lineupPlayers = lineup.playerIds.map((id) => byId.get(id)).filter((player): player is Player => Boolean(player));
+    const { slotMap } = assignSiteSlots(lineupPlayers, rules);
+    return rules.slots.map((slot) => slotMap[slot.key]?.id || '').join(',');
+  });
+  return [rules.entryCsv.slotHeaders.join(','), ...rows].join('\n');
+};
+
+export const summarizeHeadlessBuild = (
+  result: OptimizerResult,
+  players: Player[],
+  settings: HeadlessSettings,
+): HeadlessBuildSummary => {
+  const byId = new Map(players.map((player) => [player.id, player]));
+  const counts = new Map<string, number>();
+  result.lineups.forEach((lineup) => lineup.playerIds.forEach((id) => counts.set(id, (counts.get(id) ?? 0) + 1)));
+  const built = result.lineups.length;
+  const warnings = [...result.warnings];
+  if (built < settings.config.numLineups) {
+    warnings.push(`Built ${built} of ${settings.config.numLineups} requested lineups.`);
+  }
+  return {
+    generatedAt: new Date().toISOString(),
+    site: settings.config.site,
+    engine: result.engine,
+    status: result.status,
+    requested: settings.config.numLineups,
+    built,
+    warnings,
+    exposures: Array.from(counts.entries())
+      .map(([id, count]) => ({
+        id,
+        name: byId.get(id)?.name ?? 'Unknown',
+        team: byId.get(id)?.team ?? '',
+        count,
+        exposure: built > 0 ? Math.round((count / built) * 1000) / 10 : 0,
+      }))
+      .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name)),
+    lineups: result.lineups.map((lineup) => ({
+      id: lineup.id,
+      playerIds: lineup.playerIds,
+      totalSalary: lineup.totalSalary,
+      totalProjection: lineup.totalProjection,
+    })),
+  };
+};
+
+export const runHeadlessBuild = async (
+  players: Player[],
+  settings: HeadlessSettings,
+  onProgress: (progress: OptimizerProgress) => void = () => {},
+): Promise<HeadlessBuildOutput> => {
+  if (players.length === 0) throw new Error('The slate file has no players');
+  const request = buildHeadlessRequest(players, settings);
+  const result = await runOptimizerRequest(request, onProgress);
+  return {
+    csv: buildHeadlessUploadCsv(result.lineups, players, settings.config.site),
+    summary: summarizeHeadlessBuild(result, players, settings),
+  };
+};
@@ -0,0 +1,135 @@
+/**
+ * Minimal promise wrapper over IndexedDB object stores, plus an in-memory
+ * stand-in with the same interface for environments without IndexedDB
+ * (private browsing in some browsers, Node tests).
+ *
+ * Every store is keyed by `record.key`; schema handling lives in persistence.ts.
+ */
+
+export interface StoredRecord<T = unknown> {
+  key: string;
+  /** Schema version of `data` when it was written; upgraded on read. */
+  schemaVersion: number;
+  updatedAt: number;
+  /** Approximate serialized size, for the storage-usage screen. */
+  sizeBytes: number;
+  data: T;
+}
+
+export type StoredRecordMeta = Omit<StoredRecord, 'data'>;
+
+export interface RecordStoreBackend {
+  readonly kind: 'indexeddb' | 'memory';
+  get: <T>(store: string, key: string) => Promise<StoredRecord<T> | undefined>;
+  getAll: <T>(store: string) => Promise<StoredRecord<T>[]>;
+  /** Record metadata without the payloads; walks a cursor so large stores aren't loaded at once. */
+  list: (store: string) => Promise<StoredRecordMeta[]>;
+  put: <T>(store: string, record: StoredRecord<T>) => Promise<void>;
+  delete: (store: string, key: string) => Promise<void>;
+  clear: (store: string) => Promise<void>;
+}
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
+  });
+
+export const isIndexedDbAvailable = (): boolean => {
+  try {
+    return typeof indexedDB !== 'undefined' && indexedDB !== null;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Opens (creating or upgrading) the database. `upgrade` runs inside the
+ * versionchange transaction with the version the database is coming from.
+ */
+export const openIndexedDbBackend = (
+  name: string,
+  version: number,
+  upgrade: (db: IDBDatabase, oldVersion: number) => void,
+): Promise<RecordStoreBackend> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion);
+    request.onblocked = () => reject(new Error(`IndexedDB "${name}" upgrade is blocked by another open tab.`));
+    request.onerror = () => reject(request.error ?? new Error(`Failed to open IndexedDB "${name}".`));
+    request.onsuccess = () => {
+      const db = request.result;
+      // Another tab upgrading the schema: let it proceed; this tab falls back to reload.
+      db.onversionchange = () => db.close();
+
+      const run = <T>(store: string, mode: IDBTransactionMode, op: (s: IDBObjectStore) => IDBRequest<T>): Promise<T> =>
+        new Promise((res, rej) => {
+          const tx = db.transaction(store, mode);
+          const result = requestToPromise(op(tx.objectStore(store)));
+          tx.oncomplete = () => {
+            result.then(res, rej);
+          };
+          tx.onabort = () => rej(tx.error ?? new Error(`IndexedDB transaction on "${store}" aborted.`));
+          tx.onerror = () => rej(tx.error ?? new Error(`IndexedDB transaction on "${store}" failed.`));
+        });
+
+      resolve({
+        kind: 'indexeddb',
+        get: <T>(store: string, key: string) =>
+          run(store, 'readonly', (s) => s.get(key) as IDBRequest<StoredRecord<T> | undefined>),
+        getAll: <T>(store: string) =>
+          run(store, 'readonly', (s) => s.getAll() as IDBRequest<StoredRecord<T>[]>),
+        list: (store: string) =>
+          new Promise<StoredRecordMeta[]>((res, rej) => {
+            const rows: StoredRecordMeta[] = [];
+            const tx = db.transaction(store, 'readonly');
+            const cursorRequest = tx.objectStore(store).openCursor();
+            cursorRequest.onsuccess = () => {
+              const cursor = cursorRequest.result;
+              if (!cursor) return;
+              const { key, schemaVersion, updatedAt, sizeBytes } = cursor.value as StoredRecord;
+              rows.push({ key, schemaVersion, updatedAt, sizeBytes });
+              cursor.continue();
+            };
+            tx.oncomplete = () => res(rows);
+            tx.onabort = () => rej(tx.error ?? new Error(`IndexedDB transaction on "${store}" aborted.`));
+            tx.onerror = () => rej(tx.error ?? new Error(`IndexedDB transaction on "${store}" failed.`));
+          }),
+        put: async <T>(store: string, record: StoredRecord<T>) => {
+          await run(store, 'readwrite', (s) => s.put(record));
+        },
+        delete: async (store: string, key: string) => {
+          await run(store, 'readwrite', (s) => s.delete(key));
+        },
+        clear: async (store: string) => {
+          await run(store, 'readwrite', (s) => s.clear());
+        },
+      });
+    };
+  });
+
+export const createMemoryBackend = (): RecordStoreBackend => {
+  const stores = new Map<string, Map<string, StoredRecord<any>>>();
+  const storeFor = (store: string) => {
+    if (!stores.has(store)) stores.set(store, new Map());
+    return stores.get(store)!;
+  };
+  // Structured-clone semantics, like IndexedDB: callers never share references with the store.
+  const copy = <T>(value: T): T => (value === undefined ? value : JSON.parse(JSON.stringify(value)));
+  return {
+    kind: 'memory',
+    get: async (store, key) => copy(storeFor(store).get(key)),
+    getAll: async (store) => Array.from(storeFor(store).values()).map((record) => copy(record)),
+    list: async (store) =>
+      Array.from(storeFor(store).values()).map(({ key, schemaVersion, updatedAt, sizeBytes }) => ({ key, schemaVersion, updatedAt, sizeBytes })),
+    put: async (store, record) => {
+      storeFor(store).set(record.key, copy(record));
+    },
+    delete: async (store, key) => {
+      storeFor(store).delete(key);
+    },
+    clear: async (store) => {
+      storeFor(store).clear();
+    },
+  };
+};
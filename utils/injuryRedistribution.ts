@@ -0,0 +1,244 @@
+/**
+ * redistributeInjuredMinutes — move a ruled-out player's minutes and usage to teammates
+ *
+ * Ruling a player OUT only drops them from the pool; their ~30 minutes still get
+ * played by someone. For each ruled-out player with known minutes, teammates are
+ * weighted as replacements by:
+ *   - depth chart: listed directly behind the absent player at a shared position, or further back
+ *   - position overlap
+ *   - rotation history: how often they sit while the absent player is on court (the substitutes)
+ *   - starting-lineup status (a confirmed or expected start signals a promotion)
+ *   - headroom below MAX_MINUTES
+ * The minutes are split in proportion to those weights, capped per player. The
+ * usage is shared by everyone still on the floor in proportion to their own usage
+ * rate, for the share of the game they overlap.
+ *
+ * Each receiver's projection is re-derived from fantasy points per minute
+ * (scaled by the usage gain) over the new minutes; ceiling scales with it. The
+ * changes are recorded on `injuryAdjustment` so views can show them as deltas.
+ */
+
+import { InjuryAdjustment, Player, RotationStint } from '../types';
+import { normalizeName } from './csvParser';
+import { getTeamDepthChartRows } from './depthChart';
+import { parseSitePositions } from './siteRules';
+import { getPlayerStartingLineupInfo, StartingLineupLookup } from './startingLineups';
+
+export interface RedistributionContext {
+  /** Players ruled out for the slate; their minutes and usage are what teammates inherit. */
+  unavailablePlayers: Player[];
+  depthCharts?: any | null;
+  startingLineups?: StartingLineupLookup | null;
+}
+
+const GAME_MINUTES = 48;
+const MAX_MINUTES = 40;
+/** Fantasy points grow slower than usage: a 10% usage gain adds ~6% per-minute production. */
+const USAGE_ELASTICITY = 0.6;
+
+const WEIGHTS = {
+  base: 0.25,
+  positionMatch: 1.0,
+  depthNext: 2.0,
+  depthBehind: 1.0,
+  depthAhead: 0.4,
+  starter: 1.25,
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const positive = (value: unknown): number | null => {
+  const num = Number(value);
+  return Number.isFinite(num) && num > 0 ? num : null;
+};
+
+const rotationMinutes = (rotations: RotationStint[] | undefined): number | null => {
+  if (!Array.isArray(rotations) || rotations.length === 0) return null;
+  const total = rotations.reduce((sum, stint) => {
+    const minutes = Number(stint.stats?.minutes);
+    if (Number.isFinite(minutes) && minutes > 0) return sum + minutes;
+    return sum + Math.max(0, (Number(stint.endSec) - Number(stint.startSec)) / 60 || 0);
+  }, 0);
+  return total > 0 ? total : null;
+};
+
+/** Projected minutes, falling back to the last game's rotation, then to projection / FPPM. */
+const minutesOf = (player: Player): number | null => {
+  const projected = positive(player.minutesProjection);
+  if (projected !== null) return projected;
+  const played = rotationMinutes(player.rotations);
+  if (played !== null) return played;
+  const fppm = positive(player.averageFppm);
+  const projection = positive(player.projection);
+  return fppm !== null && projection !== null ? projection / fppm : null;
+};
+
+/** Share of `absent`'s on-court seconds that `teammate` was also on court (last game's rotations). */
+const rotationOverlap = (absent: Player, teammate: Player): number | null => {
+  const a = absent.rotations;
+  const b = teammate.rotations;
+  if (!Array.isArray(a) || a.length === 0 || !Array.isArray(b) || b.length === 0) return null;
+  let onCourt = 0;
+  let shared = 0;
+  a.forEach((stintA) => {
+    const startA = Number(stintA.startSec) || 0;
+    const endA = Number(stintA.endSec) || 0;
+    onCourt += Math.max(0, endA - startA);
+    b.forEach((stintB) => {
+      const start = Math.max(startA, Number(stintB.startSec) || 0);
+      const end = Math.min(endA, Number(stintB.endSec) || 0);
+      shared += Math.max(0, end - start);
+    });
+  });
+  return onCourt > 0 ? Math.min(1, shared / onCourt) : null;
+};
+
+/** Depth-chart weight for `teammate` covering `absent`: strongest when listed right behind them. */
+const depthWeight = (absent: Player, teammate: Player, depthCharts: any): number => {
+  const rows = depthCharts ? getTeamDepthChartRows(depthCharts, absent.team) : [];
+  const absentName = normalizeName(absent.name);
+  const teammateName = normalizeName(teammate.name);
+  let weight = 0;
+  rows.forEach((row) => {
+    const names = row.players.map(normalizeName);
+    const absentIdx = names.indexOf(absentName);
+    const teammateIdx = names.indexOf(teammateName);
+    if (absentIdx === -1 || teammateIdx === -1) return;
+    const rowWeight = teammateIdx === absentIdx + 1
+      ? WEIGHTS.depthNext
+      : teammateIdx > absentIdx ? WEIGHTS.depthBehind : WEIGHTS.depthAhead;
+    weight = Math.max(weight, rowWeight);
+  });
+  return weight;
+};
+
+/** Splits `total` by weight without pushing anyone past their capacity; the excess goes to the rest. */
+const allocateWithCapacity = (weights: number[], capacities: number[], total: number): number[] => {
+  const shares = new Array<number>(weights.length).fill(0);
+  const open = new Set(weights.map((_, idx) => idx).filter((idx) => weights[idx] > 0 && capacities[idx] > 0));
+  let remaining = total;
+  while (open.size > 0 && remaining > 1e-6) {
+    let weightSum = 0;
+    open.forEach((idx) => {
+      weightSum += weights[idx];
+    });
+    let handed = 0;
+    open.forEach((idx) => {
+      const room = capacities[idx] - shares[idx];
+      const give = Math.min(room, (weights[idx] / weightSum) * remaining);
+      shares[idx] += give;
+      handed += give;
+      if (capacities[idx] - shares[idx] <= 1e-6) open.delete(idx);
+    });
+    remaining -= handed;
+    if (handed <= 1e-6) break;
+  }
+  return shares;
+};
+
+interface Receiver {
+  player: Player;
+  minutes: number;
+  usage: number | null;
+  minutesGain: number;
+  usageGain: number;
+  sources: Set<string>;
+}
+
+/**
+ * Returns `players` with projection, ceiling, minutesProjection and usageRate
+ * adjusted for ruled-out teammates. Untouched players are returned as-is.
+ */
+export const redistributeInjuredMinutes = (players: Player[], context: RedistributionContext): Player[] => {
+  const absentByTeam = new Map<string, Player[]>();
+  context.unavailablePlayers.forEach((player) => {
+    if (!player.team || minutesOf(player) === null) return;
+    const list = absentByTeam.get(player.team) ?? [];
+    list.push(player);
+    absentByTeam.set(player.team, list);
+  });
+  if (absentByTeam.size === 0) return players;
+
+  const receivers = new Map<string, Receiver>();
+  absentByTeam.forEach((absentees, team) => {
+    const teammates: Receiver[] = players
+      .filter((player) => player.team === team)
+      .map((player) => ({ player, minutes: minutesOf(player) ?? 0, usage: positive(player.usageRate), minutesGain: 0, usageGain: 0, sources: new Set<string>() }))
+      .filter((receiver) => receiver.minutes > 0);
+    if (teammates.length === 0) return;
+
+    // Biggest minutes first, so later absentees see the capacity already used up.
+    [...absentees].sort((a, b) => (minutesOf(b) ?? 0) - (minutesOf(a) ?? 0)).forEach((absent) => {
+      const absentMinutes = minutesOf(absent) ?? 0;
+      const absentPositions = parseSitePositions(absent.position);
+
+      const weights = teammates.map((receiver) => {
+        const teammate = receiver.player;
+        const sharesPosition = parseSitePositions(teammate.position).some((pos) => absentPositions.includes(pos));
+        let weight = WEIGHTS.base + (sharesPosition ? WEIGHTS.positionMatch : 0) + depthWeight(absent, teammate, context.depthCharts);
+        const overlap = rotationOverlap(absent, teammate);
+        if (overlap !== null) weight *= 0.5 + (1 - overlap);
+        const starting = getPlayerStartingLineupInfo(teammate, context.startingLineups);
+        if (starting?.isConfirmed || starting?.isExpected) weight *= WEIGHTS.starter;
+        return weight;
+      });
+      const capacities = teammates.map((receiver) => Math.max(0, MAX_MINUTES - receiver.minutes - receiver.minutesGain));
+      const gains = allocateWithCapacity(weights, capacities, absentMinutes);
+
+      const absentUsage = positive(absent.usageRate);
+      teammates.forEach((receiver, idx) => {
+        const gotMinutes = gains[idx] > 0.05;
+        // Usage gain for the stretch both would have shared the floor, proportional to own usage.
+        const usageGain = absentUsage !== null && absentUsage < 100 && receiver.usage !== null
+          ? receiver.usage * (absentUsage / (100 - absentUsage)) * (Math.min(absentMinutes, receiver.minutes + receiver.minutesGain + gains[idx]) / GAME_MINUTES)
+          : 0;
+        if (!gotMinutes && usageGain <= 0.05) return;
+        receiver.minutesGain += gains[idx];
+        receiver.usageGain += usageGain;
+        receiver.sources.add(absent.name);
+        receivers.set(receiver.player.id, receiver);
+      });
+    });
+  });
+  if (receivers.size === 0) return players;
+
+  return players.map((player) => {
+    const receiver = receivers.get(player.id);
+    if (!receiver) return player;
+    const baseProjection = Number(player.projection) || 0;
+    const usageFactor = receiver.usage !== null ? 1 + USAGE_ELASTICITY * (receiver.usageGain / receiver.usage) : 1;
+    const fppm = baseProjection / receiver.minutes;
+    const minutes = receiver.minutes + receiver.minutesGain;
+    const projection = round2(fppm * usageFactor * minutes);
+    const baseCeiling = positive(player.ceiling) ?? undefined;
+    const ceiling = baseCeiling !== undefined && baseProjection > 0 ? round2(baseCeiling * (projection / baseProjection)) : undefined;
+
+    const injuryAdjustment: InjuryAdjustment = {
+      sources: Array.from(receiver.sources),
+      minutesDelta: round2(receiver.minutesGain),
+      usageDelta: round2(receiver.usageGain),
+      projectionDelta: round2(projection - baseProjection),
+      ceilingDelta: ceiling !== undefined && baseCeiling !== undefined ? round2(ceiling - baseCeiling) : 0,
+      baseProjection,
+      baseCeiling,
+      baseMinutes: positive(player.minutesProjection) ?? undefined,
+    };
+    return {
+      ...player,
+      projection,
+      ...(ceiling !== undefined ? { ceiling } : {}),
+      minutesProjection: round2(minutes),
+      ...(receiver.usage !== null ? { usageRate: round2(receiver.usage + receiver.usageGain) } : {}),
+      injuryAdjustment,
+    };
+  });
+};
+
+export const formatInjuryDelta = (value: number, digits = 1) => `${value >= 0 ? '+' : ''}${value.toFixed(digits)}`;
+
+/** One-line summary for tooltips, e.g. "+4.5 min, +1.8% usage from Jayson Tatum (OUT)". */
+export const describeInjuryAdjustment = (adjustment: InjuryAdjustment): string => {
+  const parts = [`${formatInjuryDelta(adjustment.minutesDelta)} min`];
+  if (adjustment.usageDelta > 0) parts.push(`${formatInjuryDelta(adjustment.usageDelta)}% usage`);
+  return `${parts.join(', ')} from ${adjustment.sources.join(', ')} (OUT)`;
+};
@@ -0,0 +1,144 @@
+/**
+ * Portfolio late swap for the Entry Manager.
+ *
+ * Swapping each entry on its own sends every entry to the same best remaining
+ * player. `planPortfolioLateSwap` instead walks the entries in order against a
+ * shared exposure count: locked players count from the start, players at the
+ * cap are excluded for later entries, and a lineup that repeats an earlier
+ * entry too closely is rebuilt without the overlapping swappable players.
+ * The caller supplies the single-lineup optimizer, so the plan stays engine-agnostic.
+ */
+
+export interface LateSwapEntryPlan {
+  /** Players that cannot move (game started or manually locked). */
+  lockedIds: string[];
+  /** Swappable players the entry holds now; kept when its re-optimization fails. */
+  currentIds: string[];
+}
+
+/**
+ * locked    — every slot is locked, nothing to swap.
+ * swapped   — re-optimized into a different roster.
+ * unchanged — re-optimized into the roster it already had.
+ * kept      — no feasible lineup under the portfolio limits; the current roster stays.
+ */
+export type LateSwapEntryStatus = 'locked' | 'swapped' | 'unchanged' | 'kept';
+
+export interface PortfolioLateSwapOptions {
+  entries: LateSwapEntryPlan[];
+  rosterSize: number;
+  /** Max share (0-100) of entries any swappable player may end up in. */
+  maxExposurePct: number;
+  /** Re-optimized entries must differ from each other by at least this many players. */
+  minUniquePlayers: number;
+  /** Builds one entry's lineup with `excludeIds` unavailable; resolves the roster's player ids, or null. */
+  optimize: (entryIndex: number, excludeIds: Set<string>) => Promise<string[] | null>;
+  onProgress?: (completed: number, total: number) => void;
+  shouldStop?: () => boolean;
+}
+
+export interface PortfolioLateSwapResult {
+  /** Player ids per entry after the swap, in entry order. */
+  lineups: string[][];
+  status: LateSwapEntryStatus[];
+}
+
+export interface LateSwapExposureChange {
+  playerId: string;
+  /** Percent of entries before and after the swap. */
+  before: number;
+  after: number;
+  delta: number;
+}
+
+/** Rebuild attempts per entry when its lineup is too close to an earlier one. */
+const MAX_UNIQUENESS_RETRIES = 3;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const overlapCount = (a: string[], b: Set<string>): number => a.filter((id) => b.has(id)).length;
+
+const sameRoster = (a: string[], b: string[]): boolean => {
+  if (a.length !== b.length) return false;
+  const set = new Set(a);
+  return b.every((id) => set.has(id));
+};
+
+export const planPortfolioLateSwap = async (options: PortfolioLateSwapOptions): Promise<PortfolioLateSwapResult> => {
+  const { entries, rosterSize, optimize } = options;
+  const cap = Math.floor((Math.max(0, Math.min(100, options.maxExposurePct)) / 100) * entries.length);
+  const maxOverlap = rosterSize - Math.max(1, Math.min(rosterSize, Math.floor(options.minUniquePlayers)));
+  const counts = new Map<string, number>();
+  const bump = (id: string) => counts.set(id, (counts.get(id) ?? 0) + 1);
+  entries.forEach((entry) => entry.lockedIds.forEach(bump));
+
+  const lineups: string[][] = [];
+  const status: LateSwapEntryStatus[] = [];
+  const accepted: Set<string>[] = [];
+
+  for (let i = 0; i < entries.length; i++) {
+    const entry = entries[i];
+    const locked = new Set(entry.lockedIds);
+    const current = [...entry.lockedIds, ...entry.currentIds];
+    if (options.shouldStop?.() || locked.size >= rosterSize) {
+      lineups.push(current);
+      status.push(locked.size >= rosterSize ? 'locked' : 'kept');
+      entry.currentIds.forEach(bump);
+      options.onProgress?.(i + 1, entries.length);
+      continue;
+    }
+
+    const excludes = new Set<string>();
+    counts.forEach((count, id) => {
+      if (count >= cap && !locked.has(id)) excludes.add(id);
+    });
+
+    let chosen: string[] | null = null;
+    for (let attempt = 0; attempt <= MAX_UNIQUENESS_RETRIES; attempt++) {
+      const ids = await optimize(i, excludes);
+      if (!ids) break;
+      // Overlap that comes from locked players alone can't be swapped away, so it is tolerated.
+      const conflict = accepted.find((prior) => (
+        overlapCount(ids, prior) > maxOverlap && overlapCount(entry.lockedIds, prior) <= maxOverlap
+      ));
+      const shared = conflict
+        ? ids.filter((id) => conflict.has(id) && !locked.has(id)).sort((a, b) => (counts.get(b) ?? 0) - (counts.get(a) ?? 0))
+        : [];
+      if (!conflict || shared.length === 0 || attempt === MAX_UNIQUENESS_RETRIES) {
+        chosen = conflict && shared.length > 0 ? null : ids;
+        break;
+      }
+      excludes.add(shared[0]);
+    }
+
+    const final = chosen ?? current;
+    lineups.push(final);
+    status.push(!chosen ? 'kept' : sameRoster(chosen, current) ? 'unchanged' : 'swapped');
+    final.filter((id) => !locked.has(id)).forEach(bump);
+    accepted.push(new Set(final));
+    options.onProgress?.(i + 1, entries.length);
+  }
+
+  return { lineups, status };
+};
+
+/** Per-player exposure before and after, for players whose exposure moved; biggest moves first. */
+export const buildLateSwapExposureDiff = (before: string[][], after: string[][]): LateSwapExposureChange[] => {
+  const total = Math.max(1, before.length);
+  const tally = (lineups: string[][]) => {
+    const counts = new Map<string, number>();
+    lineups.forEach((ids) => new Set(ids).forEach((id) => counts.set(id, (counts.get(id) ?? 0) + 1)));
+    return counts;
+  };
+  const beforeCounts = tally(before);
+  const afterCounts = tally(after);
+  const ids = new Set([...beforeCounts.keys(), ...afterCounts.keys()]);
+  return Array.from(ids)
+    .map((playerId) => {
+      const beforePct = round1(((beforeCounts.get(playerId) ?? 0) / total) * 100);
+      const afterPct = round1(((afterCounts.get(playerId) ?? 0) / total) * 100);
+      return { playerId, before: beforePct, after: afterPct, delta: round1(afterPct - beforePct) };
+    })
+    .filter((row) => row.delta !== 0)
+    .sort((a, b) => Math.abs(b.delta) - Math.abs(a.delta) || b.after - a.after);
+};
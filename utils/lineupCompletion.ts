@@ -0,0 +1,90 @@
+/**
+ * "Fill the rest" for the manual lineup builder. The players already placed
+ * become locks and the ILP solves the open slots under what is left of the
+ * cap, returning the best few distinct completions. Every completion is
+ * seated from scratch, so a placed player can change slot (a PG parked in
+ * UTIL moves to PG) when that frees the position a completion needs.
+ */
+
+import { ContestInput, Lineup, Player, Slot } from '../types';
+import type { OptimizerRequest } from '../src/workers/optimizer-service/types';
+import { assignSiteSlots, getSiteRules } from './siteRules';
+
+export const DEFAULT_COMPLETION_COUNT = 3;
+export const MAX_COMPLETION_COUNT = 10;
+
+export interface LineupCompletion {
+  id: string;
+  /** All players, placed first, in the order they should be seated. */
+  players: Player[];
+  added: Player[];
+  slotMap: Record<Slot, Player>;
+  totalSalary: number;
+  totalProjection: number;
+  /** Placed players this completion seats in a different slot. */
+  movedIds: string[];
+}
+
+const placedPlayers = (slots: Record<Slot, Player | null>): Player[] =>
+  (Object.values(slots) as (Player | null)[]).filter((player): player is Player => Boolean(player));
+
+/** An ILP request that keeps the placed players and ranks completions by projection alone. */
+export const buildCompletionRequest = (
+  players: Player[],
+  slots: Record<Slot, Player | null>,
+  site: ContestInput['site'],
+  count: number = DEFAULT_COMPLETION_COUNT,
+): OptimizerRequest => {
+  const placed = placedPlayers(slots);
+  const placedIds = new Set(placed.map((player) => player.id));
+  const pool = players.filter((player) => !placedIds.has(player.id) && Number(player.salary) > 0 && Number(player.projection) > 0);
+  return {
+    engine: 'ilp',
+    players: [...placed, ...pool],
+    rules: {
+      site,
+      numLineups: Math.max(1, Math.min(MAX_COMPLETION_COUNT, Math.floor(count))),
+      salaryFloor: 0,
+      minSalary: 0,
+      minUniquePlayers: 1,
+      locks: placed.map((player) => player.id),
+      weights: { ev: 0, projection: 1, ceiling: 0, leverage: 0 },
+    },
+  };
+};
+
+/** Seats each solved lineup, best projection first; lineups that do not fit the roster are dropped. */
+export const toLineupCompletions = (
+  lineups: Lineup[],
+  players: Player[],
+  slots: Record<Slot, Player | null>,
+  site: ContestInput['site'],
+): LineupCompletion[] => {
+  const rules = getSiteRules(site);
+  const placed = placedPlayers(slots);
+  const placedIds = new Set(placed.map((player) => player.id));
+  const currentSlotById = new Map(
+    Object.entries(slots).flatMap(([slot, player]) => (player ? [[player.id, slot] as const] : [])),
+  );
+  const byId = new Map([...players, ...placed].map((player) => [player.id, player]));
+
+  return lineups.flatMap((lineup) => {
+    const lineupPlayers = lineup.playerIds.map((id) => byId.get(id)).filter((player): player is Player => Boolean(player));
+    const added = lineupPlayers.filter((player) => !placedIds.has(player.id));
+    const ordered = [...placed, ...added];
+    const { slotMap, unassigned } = assignSiteSlots(ordered, rules);
+    if (unassigned.length > 0 || ordered.length !== rules.slots.length) return [];
+    const movedIds = Object.entries(slotMap)
+      .filter(([slot, player]) => placedIds.has(player.id) && currentSlotById.get(player.id) !== slot)
+      .map(([, player]) => player.id);
+    return [{
+      id: lineup.id,
+      players: ordered,
+      added,
+      slotMap,
+      totalSalary: ordered.reduce((sum, player) => sum + (Number(player.salary) || 0), 0),
+      totalProjection: ordered.reduce((sum, player) => sum + (Number(player.projection) || 0), 0),
+      movedIds,
+    }];
+  }).sort((a, b) => b.totalProjection - a.totalProjection);
+};
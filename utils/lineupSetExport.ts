@@ -0,0 +1,238 @@
+/**
+ * Portable lineup-set files. A saved set is written out as versioned JSON with
+ * the optimizer settings that produced it, a snapshot of every player it uses
+ * (salary, projection, ownership) and each lineup's metrics, so it can be
+ * shared or moved between browsers. Importing validates the file, matches its
+ * player IDs to the current slate with `canonicalizeId`, and reports the
+ * players (and lineups) that no longer fit.
+ */
+
+import { Lineup, Player } from '../types';
+import { canonicalizeId } from './csvParser';
+import { OptimizerConfigState, sanitizeOptimizerConfig } from './optimizerConfig';
+import { LineupMetricKey, SavedLineupSet, pickLineupMetrics } from './savedLineups';
+
+export const LINEUP_SET_FORMAT = 'slatesim.lineup-set';
+export const LINEUP_SET_VERSION = 1;
+
+export interface LineupSetPlayerSnapshot {
+  id: string;
+  name: string;
+  team: string;
+  position: string;
+  salary: number;
+  projection: number;
+  ownership?: number;
+}
+
+export interface LineupSetFileLineup {
+  id: string;
+  playerIds: string[];
+  totalSalary: number;
+  totalProjection: number;
+  metrics: Partial<Record<LineupMetricKey, number>>;
+}
+
+export interface LineupSetFile {
+  format: typeof LINEUP_SET_FORMAT;
+  version: number;
+  exportedAt: string;
+  set: {
+    name: string;
+    slateDate: string;
+    salaryCap: number;
+    createdAt: number;
+  };
+  config: OptimizerConfigState | null;
+  players: LineupSetPlayerSnapshot[];
+  lineups: LineupSetFileLineup[];
+}
+
+export interface LineupSetImport {
+  set: SavedLineupSet;
+  /** Players in the file that the current slate does not have. */
+  missingPlayers: LineupSetPlayerSnapshot[];
+  /** Lineups left out because they use a missing player. */
+  droppedLineupIds: string[];
+}
+
+const toNum = (value: unknown, fallback = 0): number => {
+  const n = Number(value);
+  return value !== null && value !== '' && Number.isFinite(n) ? n : fallback;
+};
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+/** Builds the export for a saved set; `players` supplies the snapshot for every player the set uses. */
+export const buildLineupSetFile = (
+  savedSet: SavedLineupSet,
+  players: Player[],
+  config: OptimizerConfigState | null = savedSet.config ?? null,
+): LineupSetFile => {
+  const byId = new Map(players.map((player) => [player.id, player]));
+  const usedIds = Array.from(new Set(savedSet.lineups.flatMap((lineup) => lineup.playerIds)));
+  const snapshot = usedIds.map((id): LineupSetPlayerSnapshot => {
+    const player = byId.get(id);
+    const ownership = Number(player?.ownership);
+    return {
+      id,
+      name: String(player?.name || ''),
+      team: String(player?.team || ''),
+      position: String(player?.position || ''),
+      salary: toNum(player?.salary),
+      projection: toNum(player?.projection),
+      ...(Number.isFinite(ownership) && player?.ownership !== undefined ? { ownership } : {}),
+    };
+  });
+
+  return {
+    format: LINEUP_SET_FORMAT,
+    version: LINEUP_SET_VERSION,
+    exportedAt: new Date().toISOString(),
+    set: {
+      name: savedSet.name,
+      slateDate: savedSet.slateDate,
+      salaryCap: savedSet.salaryCap,
+      createdAt: savedSet.createdAt,
+    },
+    config,
+    players: snapshot,
+    lineups: savedSet.lineups.map((lineup) => ({
+      id: lineup.id,
+      playerIds: [...lineup.playerIds],
+      totalSalary: toNum(lineup.totalSalary),
+      totalProjection: toNum(lineup.totalProjection),
+      metrics: pickLineupMetrics(lineup),
+    })),
+  };
+};
+
+/**
+ * Validates an exported file (JSON text or an already-parsed object) and
+ * returns it normalized. Throws with the first problem found.
+ */
+export const parseLineupSetFile = (input: unknown): LineupSetFile => {
+  let raw = input;
+  if (typeof input === 'string') {
+    try {
+      raw = JSON.parse(input);
+    } catch {
+      throw new Error('This file is not valid JSON.');
+    }
+  }
+  if (!isObject(raw) || raw.format !== LINEUP_SET_FORMAT) {
+    throw new Error('This file is not a SlateSim lineup set export.');
+  }
+  const version = Number(raw.version);
+  if (!Number.isInteger(version) || version < 1) throw new Error('The lineup set file has no valid version.');
+  if (version > LINEUP_SET_VERSION) {
+    throw new Error(`This lineup set was exported by a newer version (v${version}); this app reads up to v${LINEUP_SET_VERSION}.`);
+  }
+  if (!isObject(raw.set) || !String(raw.set.name || '').trim()) throw new Error('The lineup set file has no set name.');
+  if (!Array.isArray(raw.players)) throw new Error('The lineup set file has no player snapshot.');
+  if (!Array.isArray(raw.lineups) || raw.lineups.length === 0) throw new Error('The lineup set file has no lineups.');
+
+  const players = raw.players.map((player: unknown, idx: number): LineupSetPlayerSnapshot => {
+    if (!isObject(player) || !canonicalizeId(player.id)) throw new Error(`players[${idx}] has no ID.`);
+    const ownership = Number(player.ownership);
+    return {
+      id: String(player.id),
+      name: String(player.name || ''),
+      team: String(player.team || ''),
+      position: String(player.position || ''),
+      salary: toNum(player.salary),
+      projection: toNum(player.projection),
+      ...(player.ownership !== undefined && player.ownership !== null && Number.isFinite(ownership) ? { ownership } : {}),
+    };
+  });
+  const snapshotIds = new Set(players.map((player) => player.id));
+
+  const lineups = raw.lineups.map((lineup: unknown, idx: number): LineupSetFileLineup => {
+    if (!isObject(lineup) || !Array.isArray(lineup.playerIds) || lineup.playerIds.length === 0) {
+      throw new Error(`lineups[${idx}] has no player IDs.`);
+    }
+    const playerIds = lineup.playerIds.map((id: unknown) => String(id ?? ''));
+    const unknownId = playerIds.find((id) => !snapshotIds.has(id));
+    if (unknownId !== undefined) throw new Error(`lineups[${idx}] uses player "${unknownId}", which is not in the player snapshot.`);
+    return {
+      id: String(lineup.id || `lineup_${idx + 1}`),
+      playerIds,
+      totalSalary: toNum(lineup.totalSalary),
+      totalProjection: toNum(lineup.totalProjection),
+      metrics: pickLineupMetrics(isObject(lineup.metrics) ? lineup.metrics : {}),
+    };
+  });
+
+  return {
+    format: LINEUP_SET_FORMAT,
+    version,
+    exportedAt: String(raw.exportedAt || ''),
+    set: {
+      name: String(raw.set.name).trim(),
+      slateDate: String(raw.set.slateDate || ''),
+      salaryCap: toNum(raw.set.salaryCap, 50000),
+      createdAt: toNum(raw.set.createdAt, Date.now()),
+    },
+    config: isObject(raw.config) ? sanitizeOptimizerConfig(raw.config) : null,
+    players,
+    lineups,
+  };
+};
+
+/**
+ * Matches a parsed file against the current slate. Lineups whose players are
+ * all still on the slate become a saved set for `slateDate`, with salary and
+ * projection totals re-read from the slate; the rest are reported. Throws when
+ * no lineup survives.
+ */
+export const reconcileLineupSetFile = (
+  file: LineupSetFile,
+  slatePlayers: Player[],
+  slateDate: string,
+): LineupSetImport => {
+  const slateByKey = new Map(slatePlayers.map((player) => [canonicalizeId(player.id), player]));
+  const resolved = new Map<string, Player>();
+  const missingPlayers: LineupSetPlayerSnapshot[] = [];
+  file.players.forEach((snapshot) => {
+    const player = slateByKey.get(canonicalizeId(snapshot.id));
+    if (player) resolved.set(snapshot.id, player);
+    else missingPlayers.push(snapshot);
+  });
+
+  const droppedLineupIds: string[] = [];
+  const lineups: Lineup[] = file.lineups.flatMap((lineup) => {
+    const lineupPlayers = lineup.playerIds.map((id) => resolved.get(id));
+    if (lineupPlayers.some((player) => !player)) {
+      droppedLineupIds.push(lineup.id);
+      return [];
+    }
+    const seated = lineupPlayers as Player[];
+    return [{
+      id: lineup.id,
+      playerIds: seated.map((player) => player.id),
+      totalSalary: seated.reduce((sum, player) => sum + toNum(player.salary), 0),
+      totalProjection: seated.reduce((sum, player) => sum + toNum(player.projection), 0),
+      ...lineup.metrics,
+      lineupSource: 'optimizer',
+    }];
+  });
+
+  if (lineups.length === 0) {
+    throw new Error(`None of the ${file.lineups.length} lineups fit this slate; ${missingPlayers.length} players are no longer on it.`);
+  }
+
+  return {
+    set: {
+      id: `saved_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+      name: file.set.name,
+      slateDate,
+      salaryCap: file.set.salaryCap,
+      createdAt: file.set.createdAt,
+      lineups,
+      ...(file.config ? { config: file.config } : {}),
+    },
+    missingPlayers,
+    droppedLineupIds,
+  };
+};
@@ -0,0 +1,154 @@
+/**
+ * buildMinutesDistribution — turn a player's recent stints into a minutes distribution
+ *
+ * Each of the last five games (from `last5PlayByPlay` chunks, or the last game's
+ * rotation stints when that is all there is) gives one minutes total and one
+ * fourth-quarter total. Their mean and spread describe a competitive game.
+ *
+ * The spread then adds a blowout tail. The final margin is modelled as normal
+ * around the spread, and a game decided by BLOWOUT_MARGIN or more changes the
+ * rotation: regulars sit most of the fourth quarter and deep reserves pick up
+ * garbage time. The result is a two-point mixture whose mean and variance feed
+ * `minutesProjection` (when the slate has none), `minutesVariance`, the contest
+ * simulator and the QIEA minutes multiplier.
+ */
+
+import { GameInfo, MinutesDistribution, Player, RotationStint } from '../types';
+
+/** Standard deviation of an NBA final margin around the closing spread. */
+const MARGIN_SD = 12;
+const BLOWOUT_MARGIN = 20;
+/** Share of their usual fourth-quarter minutes regulars lose in a blowout. */
+const BLOWOUT_Q4_CUT = 0.6;
+const GARBAGE_MINUTES = 5;
+const REGULAR_MINUTES = 24;
+const RESERVE_MINUTES = 15;
+/** Spread used when a player's history is a single game. */
+const DEFAULT_CV = 0.15;
+const MIN_SD = 2;
+const MAX_MINUTES = 48;
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+const positive = (value: unknown): number | null => {
+  const num = Number(value);
+  return Number.isFinite(num) && num > 0 ? num : null;
+};
+
+// Abramowitz & Stegun 7.1.26; plenty for a blowout probability.
+const normalCdf = (z: number): number => {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+};
+
+/** Chance the final margin is BLOWOUT_MARGIN or more either way, given one side's spread. */
+export const blowoutProbability = (spread: number): number => {
+  const expectedMargin = -(Number(spread) || 0);
+  return 1 - normalCdf((BLOWOUT_MARGIN - expectedMargin) / MARGIN_SD) + normalCdf((-BLOWOUT_MARGIN - expectedMargin) / MARGIN_SD);
+};
+
+interface GameMinutes {
+  total: number;
+  fourth: number;
+}
+
+const stintMinutes = (stint: RotationStint): number => {
+  const minutes = Number(stint.stats?.minutes);
+  if (Number.isFinite(minutes) && minutes > 0) return minutes;
+  return Math.max(0, (Number(stint.endSec) - Number(stint.startSec)) / 60 || 0);
+};
+
+/** Minutes per game, most recent five from play-by-play, else the last game's rotation. */
+const gameMinutesOf = (player: Player): GameMinutes[] => {
+  const fromPlayByPlay = (player.last5PlayByPlay ?? []).flatMap((game) => {
+    const chunks = Array.isArray(game?.chunks) ? game.chunks : [];
+    const total = chunks.reduce((sum, chunk) => sum + (Number(chunk?.minutesPlayed) || 0), 0);
+    const fourth = chunks
+      .filter((chunk) => Number(chunk?.quarter) === 4)
+      .reduce((sum, chunk) => sum + (Number(chunk?.minutesPlayed) || 0), 0);
+    return total > 0 ? [{ total, fourth }] : [];
+  });
+  if (fromPlayByPlay.length > 0) return fromPlayByPlay;
+
+  const stints = Array.isArray(player.rotations) ? player.rotations : [];
+  const total = stints.reduce((sum, stint) => sum + stintMinutes(stint), 0);
+  const fourth = stints
+    .filter((stint) => Number(stint.period) === 4)
+    .reduce((sum, stint) => sum + stintMinutes(stint), 0);
+  return total > 0 ? [{ total, fourth }] : [];
+};
+
+/** Minutes in a blowout: regulars give back fourth-quarter minutes, reserves gain some. */
+const blowoutMinutes = (baseMean: number, fourthMean: number): number => {
+  if (baseMean >= REGULAR_MINUTES) return baseMean - fourthMean * BLOWOUT_Q4_CUT;
+  if (baseMean < RESERVE_MINUTES) return Math.min(MAX_MINUTES, baseMean + GARBAGE_MINUTES);
+  return baseMean;
+};
+
+/**
+ * The player's minutes distribution, or null without stint history. A slate
+ * `minutesProjection` re-centres the competitive-game mean; history still sets
+ * the spread and the fourth-quarter share.
+ */
+export const buildMinutesDistribution = (player: Player, spread?: number | null): MinutesDistribution | null => {
+  const games = gameMinutesOf(player);
+  if (games.length === 0) return null;
+
+  const historicalMean = games.reduce((sum, game) => sum + game.total, 0) / games.length;
+  const fourthShare = games.reduce((sum, game) => sum + game.fourth, 0) / games.reduce((sum, game) => sum + game.total, 0);
+  const baseMean = positive(player.minutesProjection) ?? historicalMean;
+  const sampleVariance = games.length > 1
+    ? games.reduce((sum, game) => sum + (game.total - historicalMean) ** 2, 0) / (games.length - 1)
+    : (historicalMean * DEFAULT_CV) ** 2;
+  const baseSd = Math.max(MIN_SD, Math.sqrt(sampleVariance));
+
+  const blowoutRisk = spread === null || spread === undefined || !Number.isFinite(Number(spread))
+    ? 0
+    : blowoutProbability(Number(spread));
+  const blowoutMean = Math.max(0, blowoutMinutes(baseMean, baseMean * fourthShare));
+  const mean = (1 - blowoutRisk) * baseMean + blowoutRisk * blowoutMean;
+  // Law of total variance over the two outcomes; the spread within each is the same.
+  const variance = baseSd ** 2 + blowoutRisk * (1 - blowoutRisk) * (baseMean - blowoutMean) ** 2;
+
+  return {
+    mean: round2(mean),
+    variance: round2(variance),
+    baseMean: round2(baseMean),
+    baseSd: round2(baseSd),
+    blowoutRisk: round2(blowoutRisk),
+    blowoutMean: round2(blowoutMean),
+    sampleGames: games.length,
+  };
+};
+
+/** Spread from the player's team's side, or null when its game is not on the slate. */
+const spreadFor = (player: Player, games: GameInfo[]): number | null => {
+  const team = String(player.team || '').toUpperCase();
+  for (const game of games) {
+    const spread = Number(game.spread);
+    if (!Number.isFinite(spread)) continue;
+    if (String(game.teamA?.teamId || '').toUpperCase() === team) return spread;
+    if (String(game.teamB?.teamId || '').toUpperCase() === team) return -spread;
+  }
+  return null;
+};
+
+/**
+ * Sets `minutesDistribution` and `minutesVariance` on every player with stint
+ * history, and fills `minutesProjection` from the distribution's mean where
+ * the slate left it empty. Players without history pass through unchanged.
+ */
+export const applyMinutesDistributions = (players: Player[], games: GameInfo[]): Player[] =>
+  players.map((player) => {
+    const distribution = buildMinutesDistribution(player, spreadFor(player, games));
+    if (!distribution) return player;
+    return {
+      ...player,
+      minutesProjection: positive(player.minutesProjection) ?? distribution.mean,
+      minutesVariance: distribution.variance,
+      minutesDistribution: distribution,
+    };
+  });
@@ -0,0 +1,133 @@
+/**
+ * News-change detection between two snapshots of the injury report and
+ * starting lineups, and the user's rosters each change touches.
+ *
+ * `diffSlateNews` compares the lookups slate player by slate player, so a
+ * change only surfaces when it resolves to someone on the slate. Three moves
+ * are reported: newly ruled OUT (or doubtful), upgraded off the injury report
+ * (questionable or worse to probable/available), and newly confirmed starter.
+ * `findNewsImpact` then lists the DK entries, saved lineup sets and optimizer
+ * locks holding each changed player.
+ */
+
+import { Player } from '../types';
+import { InjuryInfo, InjuryLookup, getPlayerInjuryInfo, isDoubtfulInjuryStatus, isOutInjuryStatus, isQuestionableInjuryStatus } from './injuries';
+import { StartingLineupLookup, getPlayerStartingLineupInfo } from './startingLineups';
+import { SITE_RULES } from './siteRules';
+
+export type NewsChangeKind = 'new_out' | 'upgraded' | 'new_confirmed_starter';
+
+export interface NewsSnapshot {
+  injuries: InjuryLookup;
+  startingLineups: StartingLineupLookup;
+}
+
+export interface NewsChange {
+  /** `${kind}:${playerId}`; stable across refreshes so repeats replace rather than stack. */
+  id: string;
+  kind: NewsChangeKind;
+  playerId: string;
+  playerName: string;
+  team: string;
+  /** Injury status before and after ('' when the player was not on the report). */
+  previousStatus: string;
+  status: string;
+}
+
+export interface NewsEntryRef {
+  entryId: string;
+  contestName: string;
+  /** Raw slot cells, as the Entry Manager stores them ("Name (id)" on DK, "id:Name" on FD). */
+  slots: Record<string, string>;
+}
+
+export interface NewsLineupSetRef {
+  id: string;
+  name: string;
+  lineups: Array<{ playerIds: string[] }>;
+}
+
+export interface NewsHoldings {
+  entries: NewsEntryRef[];
+  lineupSets: NewsLineupSetRef[];
+  lockedIds: string[];
+}
+
+export interface NewsImpact {
+  entries: Array<{ entryId: string; contestName: string; slot: string }>;
+  lineupSets: Array<{ id: string; name: string; lineupCount: number }>;
+  optimizerLock: boolean;
+}
+
+export interface NewsAlert extends NewsChange {
+  impact: NewsImpact;
+  detectedAt: number;
+}
+
+export const NEWS_CHANGE_LABELS: Record<NewsChangeKind, string> = {
+  new_out: 'Ruled Out',
+  upgraded: 'Upgraded',
+  new_confirmed_starter: 'Confirmed Starter',
+};
+
+// Same ordering buildInjuryLookup uses when one player appears twice in a report.
+const injuryRank = (info: InjuryInfo | undefined): number => {
+  if (!info) return 0;
+  if (isOutInjuryStatus(info.status)) return 4;
+  if (isDoubtfulInjuryStatus(info.status)) return 3;
+  if (info.isQuestionable || isQuestionableInjuryStatus(info.status)) return 2;
+  return String(info.status || '').trim() ? 1 : 0;
+};
+
+export const diffSlateNews = (players: Player[], previous: NewsSnapshot, next: NewsSnapshot): NewsChange[] => {
+  const changes: NewsChange[] = [];
+  players.forEach((player) => {
+    const before = getPlayerInjuryInfo(player, previous.injuries);
+    const after = getPlayerInjuryInfo(player, next.injuries);
+    const beforeRank = injuryRank(before);
+    const afterRank = injuryRank(after);
+    const push = (kind: NewsChangeKind) => changes.push({
+      id: `${kind}:${player.id}`,
+      kind,
+      playerId: player.id,
+      playerName: player.name,
+      team: player.team,
+      previousStatus: before?.status ?? '',
+      status: after?.status ?? '',
+    });
+
+    if (afterRank >= 3 && beforeRank < 3) push('new_out');
+    else if (beforeRank >= 2 && afterRank <= 1) push('upgraded');
+
+    const wasConfirmed = getPlayerStartingLineupInfo(player, previous.startingLineups)?.isConfirmed === true;
+    const isConfirmed = getPlayerStartingLineupInfo(player, next.startingLineups)?.isConfirmed === true;
+    if (isConfirmed && !wasConfirmed && afterRank < 3) push('new_confirmed_starter');
+  });
+  return changes;
+};
+
+const slotPlayerId = (cell: string): string => {
+  for (const rules of Object.values(SITE_RULES)) {
+    const id = rules.entryCsv.parsePlayerId(cell);
+    if (id) return id;
+  }
+  return '';
+};
+
+export const findNewsImpact = (playerId: string, holdings: NewsHoldings): NewsImpact => ({
+  entries: holdings.entries.flatMap((entry) => {
+    const slot = Object.keys(entry.slots).find((key) => slotPlayerId(entry.slots[key]) === playerId);
+    return slot ? [{ entryId: entry.entryId, contestName: entry.contestName, slot }] : [];
+  }),
+  lineupSets: holdings.lineupSets
+    .map((set) => ({
+      id: set.id,
+      name: set.name,
+      lineupCount: set.lineups.filter((lineup) => lineup.playerIds.includes(playerId)).length,
+    }))
+    .filter((set) => set.lineupCount > 0),
+  optimizerLock: holdings.lockedIds.includes(playerId),
+});
+
+export const isNewsImpactEmpty = (impact: NewsImpact): boolean =>
+  impact.entries.length === 0 && impact.lineupSets.length === 0 && !impact.optimizerLock;
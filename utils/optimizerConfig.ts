@@ -0,0 +1,223 @@
+/**
+ * Optimizer page settings: the saved `OptimizerConfigState`, its defaults and
+ * the sanitizer applied to anything read back from storage. Shared by the
+ * Optimizer page and the backtest runner so both build runs from the same config.
+ */
+
+import type { ContestInput, Player } from '../types';
+import { OPTIMIZER_ENGINES, OptimizerEngine } from '../src/workers/optimizer-service/types';
+import { normalizeGameStackRules } from '../src/workers/sa-optimizer/stacks';
+import type { GameStackRule } from '../src/workers/sa-optimizer/types';
+import { getSiteRules } from './siteRules';
+
+export type OptimizerMode = 'max_projection' | 'upside_max';
+
+export interface OptimizerConfigState {
+  engine: OptimizerEngine;
+  numLineups: number;
+  salaryCap: number;
+  salaryFloor: number;
+  minUniquePlayers: number;
+  minSalary: number;
+  minMinutes: number;
+  minProjectedFpts: number;
+  minSlateSimValue: number;
+  randomnessPct: number;
+  enforceTeamStack: boolean;
+  minTeamStackSize: number;
+  gameStacks: GameStackRule[];
+  maxPlayersPerTeam: number | null;
+  /** Reject lineups expected to be duplicated more often than this in the contest field; null disables. */
+  maxDuplicates: number | null;
+  objectiveWeights: {
+    ev: number;
+    projection: number;
+    ceiling: number;
+    leverage: number;
+  };
+  minExposure: number;
+  maxExposure: number;
+  site: ContestInput['site'];
+  optimizerMode: OptimizerMode;
+  upsideDelta: number;
+  enableStatConstraints: boolean;
+  statConstraintMode: 'cash' | 'gpp';
+  deltaFromBestProjection: number;
+  upsideWeights: {
+    wLev: number;
+    wOwn: number;
+    wMin: number;
+    wUsage: number;
+    wMatch: number;
+    wForm: number;
+  };
+  enforceUpsideStructureConstraints: boolean;
+}
+
+export const createDefaultOptimizerConfig = (): OptimizerConfigState => ({
+  engine: 'ilp',
+  numLineups: 20,
+  salaryCap: 50000,
+  salaryFloor: 49500,
+  minUniquePlayers: 2,
+  minSalary: 3000,
+  minMinutes: 0,
+  minProjectedFpts: 15,
+  minSlateSimValue: 30,
+  randomnessPct: 0,
+  enforceTeamStack: false,
+  minTeamStackSize: 3,
+  gameStacks: [],
+  maxPlayersPerTeam: null,
+  maxDuplicates: null,
+  objectiveWeights: {
+    ev: 1,
+    projection: 0,
+    ceiling: 0,
+    leverage: 0,
+  },
+  minExposure: 0,
+  maxExposure: 100,
+  site: 'DraftKings',
+  optimizerMode: 'max_projection',
+  upsideDelta: 8,
+  enableStatConstraints: false,
+  statConstraintMode: 'gpp',
+  deltaFromBestProjection: 0,
+  upsideWeights: {
+    wLev: 1.0,
+    wOwn: 0.6,
+    wMin: 0.05,
+    wUsage: 0.08,
+    wMatch: 0.4,
+    wForm: 0.3,
+  },
+  enforceUpsideStructureConstraints: true,
+});
+
+export const sanitizeOptimizerConfig = (raw: any): OptimizerConfigState => {
+  const defaults = createDefaultOptimizerConfig();
+  const objectiveWeights = raw?.objectiveWeights && typeof raw.objectiveWeights === 'object' && !Array.isArray(raw.objectiveWeights)
+    ? raw.objectiveWeights
+    : {};
+  const upsideWeights = raw?.upsideWeights && typeof raw.upsideWeights === 'object' && !Array.isArray(raw.upsideWeights)
+    ? raw.upsideWeights
+    : {};
+  const numLineups = Number(raw?.numLineups);
+  const salaryFloor = Number(raw?.salaryFloor);
+  const minUniquePlayers = Number(raw?.minUniquePlayers);
+  const minSalary = Number(raw?.minSalary);
+  const minMinutes = Number(raw?.minMinutes);
+  const minProjectedFpts = Number(raw?.minProjectedFpts);
+  const minSlateSimValue = Number(raw?.minSlateSimValue);
+  const randomnessPct = Number(raw?.randomnessPct);
+  const minTeamStackSize = Number(raw?.minTeamStackSize);
+  const maxPlayersPerTeam = Number(raw?.maxPlayersPerTeam);
+  const maxDuplicates = raw?.maxDuplicates == null ? NaN : Number(raw.maxDuplicates);
+  const minExposure = Number(raw?.minExposure);
+  const maxExposure = Number(raw?.maxExposure);
+  const upsideDelta = Number(raw?.upsideDelta);
+  const deltaFromBestProjection = Number(raw?.deltaFromBestProjection);
+
+  const siteRules = getSiteRules(raw?.site);
+  const rosterSize = siteRules.slots.length;
+  const nextSalaryCap = siteRules.salaryCap;
+  const nextSalaryFloor = Number.isFinite(salaryFloor)
+    ? Math.max(0, Math.min(Math.floor(salaryFloor), nextSalaryCap))
+    : siteRules.defaultSalaryFloor;
+
+  return {
+    engine: OPTIMIZER_ENGINES.includes(raw?.engine) ? raw.engine : defaults.engine,
+    numLineups: Number.isFinite(numLineups) ? Math.min(150, Math.max(1, Math.floor(numLineups))) : defaults.numLineups,
+    salaryCap: nextSalaryCap,
+    salaryFloor: nextSalaryFloor,
+    minUniquePlayers: Number.isFinite(minUniquePlayers) ? Math.max(1, Math.min(rosterSize, Math.floor(minUniquePlayers))) : defaults.minUniquePlayers,
+    minSalary: Number.isFinite(minSalary) ? Math.max(0, Math.min(nextSalaryCap, Math.floor(minSalary / 100) * 100)) : defaults.minSalary,
+    minMinutes: Number.isFinite(minMinutes) ? Math.max(0, Math.min(48, Math.round(minMinutes))) : defaults.minMinutes,
+    minProjectedFpts: Number.isFinite(minProjectedFpts) ? Math.max(0, Math.min(100, Math.round(minProjectedFpts * 2) / 2)) : defaults.minProjectedFpts,
+    minSlateSimValue: Number.isFinite(minSlateSimValue) ? Math.max(0, Math.min(100, Math.round(minSlateSimValue))) : defaults.minSlateSimValue,
+    randomnessPct: Number.isFinite(randomnessPct) ? Math.max(0, Math.min(100, Math.round(randomnessPct / 5) * 5)) : defaults.randomnessPct,
+    enforceTeamStack: raw?.enforceTeamStack === true,
+    minTeamStackSize: Number.isFinite(minTeamStackSize) ? Math.max(2, Math.min(rosterSize, Math.round(minTeamStackSize))) : defaults.minTeamStackSize,
+    gameStacks: normalizeGameStackRules(raw?.gameStacks, rosterSize),
+    maxPlayersPerTeam: Number.isFinite(maxPlayersPerTeam) && maxPlayersPerTeam > 0
+      ? Math.min(siteRules.maxPlayersPerTeam ?? rosterSize, Math.floor(maxPlayersPerTeam))
+      : defaults.maxPlayersPerTeam,
+    maxDuplicates: Number.isFinite(maxDuplicates) && maxDuplicates >= 0 ? maxDuplicates : defaults.maxDuplicates,
+    objectiveWeights: {
+      ev: Number.isFinite(Number(objectiveWeights.ev)) ? Number(objectiveWeights.ev) : defaults.objectiveWeights.ev,
+      projection: Number.isFinite(Number(objectiveWeights.projection)) ? Number(objectiveWeights.projection) : defaults.objectiveWeights.projection,
+      ceiling: Number.isFinite(Number(objectiveWeights.ceiling)) ? Number(objectiveWeights.ceiling) : defaults.objectiveWeights.ceiling,
+      leverage: Number.isFinite(Number(objectiveWeights.leverage)) ? Number(objectiveWeights.leverage) : defaults.objectiveWeights.leverage,
+    },
+    minExposure: Number.isFinite(minExposure) ? Math.max(0, Math.min(100, minExposure)) : defaults.minExposure,
+    maxExposure: Number.isFinite(maxExposure) ? Math.max(0, Math.min(100, maxExposure)) : defaults.maxExposure,
+    site: siteRules.site,
+    optimizerMode: raw?.optimizerMode === 'upside_max' ? 'upside_max' : 'max_projection',
+    upsideDelta: Number.isFinite(upsideDelta) ? Math.max(0, upsideDelta) : defaults.upsideDelta,
+    enableStatConstraints: Boolean(raw?.enableStatConstraints),
+    statConstraintMode: raw?.statConstraintMode === 'cash' ? 'cash' : 'gpp',
+    deltaFromBestProjection: Number.isFinite(deltaFromBestProjection) ? Math.max(0, deltaFromBestProjection) : defaults.deltaFromBestProjection,
+    upsideWeights: {
+      wLev: Number.isFinite(Number(upsideWeights.wLev)) ? Number(upsideWeights.wLev) : defaults.upsideWeights.wLev,
+      wOwn: Number.isFinite(Number(upsideWeights.wOwn)) ? Number(upsideWeights.wOwn) : defaults.upsideWeights.wOwn,
+      wMin: Number.isFinite(Number(upsideWeights.wMin)) ? Number(upsideWeights.wMin) : defaults.upsideWeights.wMin,
+      wUsage: Number.isFinite(Number(upsideWeights.wUsage)) ? Number(upsideWeights.wUsage) : defaults.upsideWeights.wUsage,
+      wMatch: Number.isFinite(Number(upsideWeights.wMatch)) ? Number(upsideWeights.wMatch) : defaults.upsideWeights.wMatch,
+      wForm: Number.isFinite(Number(upsideWeights.wForm)) ? Number(upsideWeights.wForm) : defaults.upsideWeights.wForm,
+    },
+    enforceUpsideStructureConstraints: raw?.enforceUpsideStructureConstraints !== undefined
+      ? Boolean(raw.enforceUpsideStructureConstraints)
+      : defaults.enforceUpsideStructureConstraints,
+  };
+};
+
+const normalizeKeyToken = (key: string): string => String(key || '').toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const readByKeys = (obj: any, keys: string[]): any => {
+  if (!obj || typeof obj !== 'object') return undefined;
+  const normalizedMap = new Map<string, string>();
+  Object.keys(obj).forEach((k) => normalizedMap.set(normalizeKeyToken(k), k));
+  for (const key of keys) {
+    const match = normalizedMap.get(normalizeKeyToken(key));
+    if (match) return obj[match];
+  }
+  return undefined;
+};
+
+/** First match across advancedMetrics, slateData, statsProfile, then the player itself. */
+const readStatNumber = (player: Player, keys: string[]): number | undefined => {
+  const sources = [(player as any).advancedMetrics, (player as any).slateData, (player as any).statsProfile, player];
+  for (const source of sources) {
+    const raw = readByKeys(source, keys);
+    if (raw === undefined) continue;
+    const num = Number(raw);
+    return Number.isFinite(num) ? num : undefined;
+  }
+  return undefined;
+};
+
+/**
+ * Objective value the optimizer maximizes: sim EV when the slate carries one, else projection.
+ * Showdown captain rows share their player's stat blocks, so a stat EV is scaled for them.
+ */
+export const getOptimizerEv = (player: Player): number => {
+  const ev = readStatNumber(player, [
+    'simEV',
+    'sim_ev',
+    'simEv',
+    'ev',
+    'EV',
+    'expectedValue',
+    'expected_value',
+    'simExpectedValue',
+    'sim_expected_value',
+    'medianEV',
+    'median_ev',
+  ]);
+
+  if (Number.isFinite(Number(ev))) return Number(ev) * (Number(player.captainMultiplier) || 1);
+
+  const projection = Number(player.projection);
+  return Number.isFinite(projection) ? projection : 0;
+};
\ No newline at end of file
@@ -0,0 +1,160 @@
+/**
+ * estimateOwnership — projected ownership when the slate has no OWN_MEAN column
+ *
+ * Scores each active player on salary efficiency (projection per $1K) and raw
+ * projection, nudged by starting-lineup status and by injury-driven promotions
+ * (projection vacated by ruled-out teammates). Scores are turned into shares with
+ * a softmax whose sharpness grows as the slate shrinks — on a 2-game slate the
+ * field piles into the same few values, on 12 games it spreads out — and the
+ * shares are scaled so the slate sums to rosterSize × 100%, like real ownership.
+ *
+ * Estimates only fill players that have no ownership of their own; they are
+ * flagged with `ownershipEstimated` so views can mark them.
+ */
+
+import { Player } from '../types';
+import { getPlayerInjuryInfo, InjuryLookup, isQuestionableInjuryStatus, shouldExcludePlayerForInjury } from './injuries';
+import { getPlayerStartingLineupInfo, StartingLineupLookup } from './startingLineups';
+
+export interface OwnershipContext {
+  /** Games on the slate; smaller slates concentrate ownership. */
+  gameCount: number;
+  /** Roster slots per lineup (DraftKings 8, FanDuel 9). */
+  rosterSize?: number;
+  startingLineups?: StartingLineupLookup | null;
+  injuries?: InjuryLookup | null;
+  /** Players already dropped from the pool (e.g. ruled out); their projection is what teammates inherit. */
+  unavailablePlayers?: Player[];
+}
+
+export interface OwnershipEstimate {
+  ownership: number; // 0-100
+  /** Starting on a team that lost a meaningful share of its projection to injuries. */
+  promoted: boolean;
+}
+
+const DEFAULT_ROSTER_SIZE = 8;
+const MAX_OWNERSHIP = 85;
+/** Share of a team's projection that must be vacated before a starter counts as promoted. */
+const PROMOTION_SHARE = 0.1;
+
+const WEIGHTS = {
+  value: 1.0,
+  projection: 0.55,
+  confirmedStarter: 0.35,
+  expectedStarter: 0.2,
+  promotedStarter: 2.5,
+  vacatedBench: 1.0,
+  questionable: -0.5,
+};
+
+export const hasOwnership = (player: Player): boolean =>
+  player.ownership !== undefined && player.ownership !== null && Number.isFinite(Number(player.ownership));
+
+const zScorer = (values: number[]): ((value: number) => number) => {
+  const mean = values.reduce((sum, v) => sum + v, 0) / Math.max(1, values.length);
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / Math.max(1, values.length);
+  const sd = Math.sqrt(variance);
+  return (value: number) => (sd > 0 ? (value - mean) / sd : 0);
+};
+
+/** Softmax sharpness: 1.7 on tiny slates, easing to 0.9 by ~13 games. */
+const slateSharpness = (gameCount: number): number =>
+  Math.max(0.9, Math.min(1.7, 1.9 - 0.08 * Math.max(1, gameCount)));
+
+/** Splits `total` in proportion to `weights`, capping each share at `cap` and handing the excess to the rest. */
+const allocateCapped = (weights: number[], total: number, cap: number): number[] => {
+  const shares = new Array<number>(weights.length).fill(0);
+  const open = new Set(weights.map((_, idx) => idx));
+  let remaining = total;
+  while (open.size > 0 && remaining > 1e-9) {
+    let weightSum = 0;
+    open.forEach((idx) => {
+      weightSum += weights[idx];
+    });
+    if (weightSum <= 0) break;
+    const overCap: number[] = [];
+    open.forEach((idx) => {
+      if ((weights[idx] / weightSum) * remaining > cap) overCap.push(idx);
+    });
+    if (overCap.length === 0) {
+      open.forEach((idx) => {
+        shares[idx] = (weights[idx] / weightSum) * remaining;
+      });
+      break;
+    }
+    overCap.forEach((idx) => {
+      shares[idx] = cap;
+      remaining -= cap;
+      open.delete(idx);
+    });
+  }
+  return shares;
+};
+
+export const estimateOwnership = (players: Player[], context: OwnershipContext): Map<string, OwnershipEstimate> => {
+  const estimates = new Map<string, OwnershipEstimate>();
+  const rosterSize = context.rosterSize ?? DEFAULT_ROSTER_SIZE;
+
+  const ruledOut: Player[] = [...(context.unavailablePlayers || [])];
+  const active: Player[] = [];
+  players.forEach((player) => {
+    const injury = getPlayerInjuryInfo(player, context.injuries);
+    if (shouldExcludePlayerForInjury(injury)) {
+      ruledOut.push(player);
+      return;
+    }
+    if (player.salary > 0 && player.projection > 0) active.push(player);
+  });
+  players.forEach((player) => estimates.set(player.id, { ownership: 0, promoted: false }));
+  if (active.length === 0) return estimates;
+
+  const teamProjection = new Map<string, number>();
+  active.forEach((player) => {
+    teamProjection.set(player.team, (teamProjection.get(player.team) ?? 0) + player.projection);
+  });
+  const vacated = new Map<string, number>();
+  ruledOut.forEach((player) => {
+    const projection = Number(player.projection);
+    if (!player.team || !Number.isFinite(projection) || projection <= 0) return;
+    vacated.set(player.team, (vacated.get(player.team) ?? 0) + projection);
+  });
+
+  const valueOf = (player: Player) => player.projection / (player.salary / 1000);
+  const zValue = zScorer(active.map(valueOf));
+  const zProjection = zScorer(active.map((player) => player.projection));
+  const sharpness = slateSharpness(context.gameCount);
+
+  const promoted: boolean[] = [];
+  const weights = active.map((player, idx) => {
+    let score = WEIGHTS.value * zValue(valueOf(player)) + WEIGHTS.projection * zProjection(player.projection);
+
+    const starting = getPlayerStartingLineupInfo(player, context.startingLineups);
+    if (starting?.isConfirmed) score += WEIGHTS.confirmedStarter;
+    else if (starting?.isExpected) score += WEIGHTS.expectedStarter;
+
+    const lost = vacated.get(player.team) ?? 0;
+    const vacatedShare = lost / (lost + (teamProjection.get(player.team) ?? 0));
+    promoted[idx] = Boolean(starting) && vacatedShare >= PROMOTION_SHARE;
+    if (lost > 0) score += (promoted[idx] ? WEIGHTS.promotedStarter : WEIGHTS.vacatedBench) * vacatedShare;
+
+    if (isQuestionableInjuryStatus(getPlayerInjuryInfo(player, context.injuries)?.status)) score += WEIGHTS.questionable;
+    return Math.exp(sharpness * score);
+  });
+
+  const shares = allocateCapped(weights, rosterSize * 100, MAX_OWNERSHIP);
+  active.forEach((player, idx) => {
+    estimates.set(player.id, { ownership: Math.round(shares[idx] * 10) / 10, promoted: promoted[idx] });
+  });
+  return estimates;
+};
+
+/** Fills ownership for players that have none, flagging them `ownershipEstimated`. */
+export const applyOwnershipEstimates = (players: Player[], context: OwnershipContext): Player[] => {
+  if (players.every(hasOwnership)) return players;
+  const estimates = estimateOwnership(players, context);
+  return players.map((player) => {
+    if (hasOwnership(player)) return player;
+    return { ...player, ownership: estimates.get(player.id)?.ownership ?? 0, ownershipEstimated: true };
+  });
+};
@@ -0,0 +1,534 @@
+/**
+ * App persistence on IndexedDB.
+ *
+ * Stores (one record per key, each stamped with the schema version of its data):
+ *   slates            — slate ecosystem snapshots (minus history), keyed `date|slate`
+ *   history           — rotations/boxscores/stats payloads, keyed by slate date
+ *   lineupSets        — saved optimizer lineup sets, keyed by set id
+ *   optimizerSettings — advanced optimizer settings, keyed `optimizerAdvancedSettings:<date>`
+ *   entrySessions     — the DK entry manager session, keyed `current`
+ *   projectionSources — uploaded projection files for blending, keyed by source id
+ *   contestResults    — imported contest standings (our finishes, field ownership), keyed `date|contestId`
+ *   contestInputs     — the contest settings form, keyed `current`
+ *   beliefs           — the last uploaded projections CSV and its file name, keyed `current`
+ *   meta              — bookkeeping and small preferences (migration marker, blend weights)
+ *
+ * The small stores are hydrated into memory by `initPersistence()` so existing
+ * synchronous callers keep working; writes go to the cache immediately and to
+ * IndexedDB in the background. Slate and history snapshots are read on demand.
+ *
+ * When IndexedDB is unavailable (or fails to open) everything falls back to an
+ * in-memory backend for the session.
+ */
+
+import { ContestInput, Player } from '../types';
+import { SlateEcosystemResult } from './assetLoader';
+import {
+  createMemoryBackend,
+  isIndexedDbAvailable,
+  openIndexedDbBackend,
+  RecordStoreBackend,
+  StoredRecord,
+  StoredRecordMeta,
+} from './indexedDb';
+
+export type PersistedStore =
+  | 'slates'
+  | 'history'
+  | 'lineupSets'
+  | 'optimizerSettings'
+  | 'entrySessions'
+  | 'projectionSources'
+  | 'contestResults'
+  | 'contestInputs'
+  | 'beliefs'
+  | 'meta';
+
+export const PERSISTED_STORES: PersistedStore[] = [
+  'slates',
+  'history',
+  'lineupSets',
+  'optimizerSettings',
+  'entrySessions',
+  'projectionSources',
+  'contestResults',
+  'contestInputs',
+  'beliefs',
+  'meta',
+];
+
+const DB_NAME = 'slatesim';
+const DB_VERSION = 1;
+
+/** IndexedDB structural upgrades, indexed by the version being upgraded from. */
+const DB_UPGRADES: Array<(db: IDBDatabase) => void> = [
+  (db) => {
+    PERSISTED_STORES.forEach((store) => {
+      if (!db.objectStoreNames.contains(store)) db.createObjectStore(store, { keyPath: 'key' });
+    });
+  },
+];
+
+/** Current schema version of each store's record data. */
+export const SCHEMA_VERSIONS: Record<PersistedStore, number> = {
+  slates: 1,
+  history: 1,
+  lineupSets: 1,
+  optimizerSettings: 1,
+  entrySessions: 1,
+  projectionSources: 1,
+  contestResults: 1,
+  contestInputs: 1,
+  beliefs: 1,
+  meta: 1,
+};
+
+/**
+ * Record data upgrades per store: entry N-1 turns schema version N into N+1.
+ * Bump SCHEMA_VERSIONS and append a step when a store's data shape changes;
+ * older records are upgraded as they are read.
+ */
+const RECORD_UPGRADES: Record<PersistedStore, Array<(data: any) => any>> = {
+  slates: [],
+  history: [],
+  lineupSets: [],
+  optimizerSettings: [],
+  entrySessions: [],
+  projectionSources: [],
+  contestResults: [],
+  contestInputs: [],
+  beliefs: [],
+  meta: [],
+};
+
+const CACHED_STORES: PersistedStore[] = [
+  'lineupSets',
+  'optimizerSettings',
+  'entrySessions',
+  'projectionSources',
+  'contestResults',
+  'contestInputs',
+  'beliefs',
+  'meta',
+];
+
+export const LEGACY_STORAGE_KEYS = {
+  lineupSets: 'slatesim.savedLineupSets.v1',
+  entrySession: 'slatesim.entryManager.session.v1',
+  optimizerSettings: 'optimizerAdvancedSettings',
+  contestInput: 'dfsapp.contestInput.v1',
+  beliefs: 'dfsapp.beliefs.v1',
+  beliefName: 'dfsapp.beliefName.v1',
+};
+
+const MIGRATION_META_KEY = 'localStorageMigration';
+const ENTRY_SESSION_KEY = 'current';
+const CURRENT_KEY = 'current';
+
+let backend: RecordStoreBackend = createMemoryBackend();
+const cache = new Map<PersistedStore, Map<string, unknown>>(CACHED_STORES.map((store) => [store, new Map()]));
+const pendingWrites = new Set<Promise<void>>();
+
+const cacheFor = (store: PersistedStore) => cache.get(store)!;
+
+const toRecord = <T>(store: PersistedStore, key: string, data: T): StoredRecord<T> => ({
+  key,
+  schemaVersion: SCHEMA_VERSIONS[store],
+  updatedAt: Date.now(),
+  // UTF-16 code units of the JSON form; close enough for a usage readout.
+  sizeBytes: JSON.stringify(data ?? null).length * 2,
+  data,
+});
+
+/** Brings a stored record's data up to the current schema, or null when it can't be read. */
+export const upgradeRecord = <T = unknown>(store: PersistedStore, record: StoredRecord | undefined): T | null => {
+  if (!record) return null;
+  const target = SCHEMA_VERSIONS[store];
+  // Written by a newer build; leave it alone rather than misreading it.
+  if (record.schemaVersion > target) return null;
+  let data: any = record.data;
+  for (let version = record.schemaVersion; version < target; version += 1) {
+    const step = RECORD_UPGRADES[store][version - 1];
+    if (!step) return null;
+    data = step(data);
+  }
+  return data as T;
+};
+
+const track = (write: Promise<void>) => {
+  const tracked = write
+    .catch((error) => console.warn('Failed to persist to IndexedDB', error))
+    .finally(() => pendingWrites.delete(tracked));
+  pendingWrites.add(tracked);
+};
+
+const putCached = (store: PersistedStore, key: string, data: unknown) => {
+  cacheFor(store).set(key, data);
+  track(backend.put(store, toRecord(store, key, data)));
+};
+
+const deleteCached = (store: PersistedStore, key: string) => {
+  cacheFor(store).delete(key);
+  track(backend.delete(store, key));
+};
+
+/** Resolves once every background write issued so far has settled. */
+export const flushPersistence = async (): Promise<void> => {
+  while (pendingWrites.size > 0) {
+    await Promise.all(Array.from(pendingWrites));
+  }
+};
+
+export const getPersistenceBackendKind = () => backend.kind;
+
+const getBrowserStorage = (): Storage | null => {
+  try {
+    return typeof localStorage === 'undefined' ? null : localStorage;
+  } catch {
+    return null;
+  }
+};
+
+const parseJson = (raw: string | null): unknown => {
+  if (!raw) return null;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return null;
+  }
+};
+
+/** Optimizer settings, saved lineup sets and the entry manager session. */
+const migrateOptimizerData = async (storage: Storage): Promise<string[]> => {
+  const migrated: string[] = [];
+  const keys = Array.from({ length: storage.length }, (_, idx) => storage.key(idx)).filter((key): key is string => Boolean(key));
+
+  for (const key of keys) {
+    const isSettingsKey = key === LEGACY_STORAGE_KEYS.optimizerSettings || key.startsWith(`${LEGACY_STORAGE_KEYS.optimizerSettings}:`);
+    if (!isSettingsKey) continue;
+    const settings = parseJson(storage.getItem(key));
+    if (!settings || typeof settings !== 'object') continue;
+    await backend.put('optimizerSettings', toRecord('optimizerSettings', key, settings));
+    migrated.push(key);
+  }
+
+  const lineupSets = parseJson(storage.getItem(LEGACY_STORAGE_KEYS.lineupSets));
+  if (Array.isArray(lineupSets)) {
+    for (const set of lineupSets) {
+      if (!set || typeof set !== 'object' || !set.id) continue;
+      await backend.put('lineupSets', toRecord('lineupSets', String(set.id), set));
+    }
+    migrated.push(LEGACY_STORAGE_KEYS.lineupSets);
+  }
+
+  const session = parseJson(storage.getItem(LEGACY_STORAGE_KEYS.entrySession));
+  if (session && typeof session === 'object') {
+    await backend.put('entrySessions', toRecord('entrySessions', ENTRY_SESSION_KEY, session));
+    migrated.push(LEGACY_STORAGE_KEYS.entrySession);
+  }
+  return migrated;
+};
+
+/** The contest settings form and the last uploaded projections, which utils/storage used to keep. */
+const migrateAppInputs = async (storage: Storage): Promise<string[]> => {
+  const migrated: string[] = [];
+
+  const contestInput = parseJson(storage.getItem(LEGACY_STORAGE_KEYS.contestInput));
+  if (contestInput && typeof contestInput === 'object') {
+    await backend.put('contestInputs', toRecord('contestInputs', CURRENT_KEY, contestInput));
+    migrated.push(LEGACY_STORAGE_KEYS.contestInput);
+  }
+
+  const players = parseJson(storage.getItem(LEGACY_STORAGE_KEYS.beliefs));
+  const name = storage.getItem(LEGACY_STORAGE_KEYS.beliefName);
+  if (Array.isArray(players) && name) {
+    await backend.put('beliefs', toRecord('beliefs', CURRENT_KEY, { players, name }));
+    migrated.push(LEGACY_STORAGE_KEYS.beliefs, LEGACY_STORAGE_KEYS.beliefName);
+  }
+  return migrated;
+};
+
+/** localStorage imports in the order they were added; the migration marker records how many have run. */
+const LOCAL_STORAGE_MIGRATIONS: Array<(storage: Storage) => Promise<string[]>> = [
+  migrateOptimizerData,
+  migrateAppInputs,
+];
+
+/**
+ * Copies the pre-IndexedDB localStorage keys into their stores, then removes
+ * them. Each step runs once per browser; keys that fail to parse are left in place.
+ * On the memory backend nothing outlives the session, so the keys are read on
+ * every start and kept.
+ */
+const migrateLocalStorage = async (storage: Storage): Promise<void> => {
+  if (backend.kind !== 'indexeddb') {
+    for (const step of LOCAL_STORAGE_MIGRATIONS) await step(storage);
+    return;
+  }
+
+  const marker = upgradeRecord<{ version?: number; keys?: string[] }>('meta', await backend.get('meta', MIGRATION_META_KEY));
+  const completed = Number(marker?.version) || 0;
+  if (completed >= LOCAL_STORAGE_MIGRATIONS.length) return;
+
+  const migrated: string[] = [];
+  for (const step of LOCAL_STORAGE_MIGRATIONS.slice(completed)) {
+    migrated.push(...await step(storage));
+  }
+
+  await backend.put('meta', toRecord('meta', MIGRATION_META_KEY, {
+    migratedAt: Date.now(),
+    version: LOCAL_STORAGE_MIGRATIONS.length,
+    keys: [...(marker?.keys ?? []), ...migrated],
+  }));
+  migrated.forEach((key) => storage.removeItem(key));
+};
+
+const hydrateCache = async (): Promise<void> => {
+  for (const store of CACHED_STORES) {
+    const entries = cacheFor(store);
+    entries.clear();
+    const records = await backend.getAll(store);
+    records.forEach((record) => {
+      const data = upgradeRecord(store, record);
+      if (data !== null) entries.set(record.key, data);
+    });
+  }
+};
+
+export interface PersistenceOptions {
+  /** Overrides the backend (tests); defaults to IndexedDB, or memory when unavailable. */
+  backend?: RecordStoreBackend;
+  /** Legacy storage to migrate from; defaults to window.localStorage. */
+  legacyStorage?: Storage | null;
+}
+
+/** Opens the database, migrates legacy localStorage data and hydrates the in-memory cache. Never rejects. */
+export const initPersistence = async (options: PersistenceOptions = {}): Promise<void> => {
+  if (options.backend) {
+    backend = options.backend;
+  } else if (isIndexedDbAvailable()) {
+    try {
+      backend = await openIndexedDbBackend(DB_NAME, DB_VERSION, (db, oldVersion) => {
+        for (let version = oldVersion; version < DB_VERSION; version += 1) DB_UPGRADES[version](db);
+      });
+    } catch (error) {
+      console.warn('IndexedDB unavailable, keeping data in memory for this session', error);
+      backend = createMemoryBackend();
+    }
+  } else {
+    backend = createMemoryBackend();
+  }
+
+  const storage = options.legacyStorage === undefined ? getBrowserStorage() : options.legacyStorage;
+  if (storage) {
+    try {
+      await migrateLocalStorage(storage);
+    } catch (error) {
+      console.warn('Failed to migrate localStorage data to IndexedDB', error);
+    }
+  }
+
+  try {
+    await hydrateCache();
+  } catch (error) {
+    console.warn('Failed to load persisted data', error);
+  }
+};
+
+// --- Optimizer settings -------------------------------------------------------
+
+export const getOptimizerSettingsKey = (slateDate?: string | null) =>
+  `${LEGACY_STORAGE_KEYS.optimizerSettings}:${slateDate || 'unspecified'}`;
+
+export const readOptimizerSettings = <T = any>(key: string): T | null =>
+  (cacheFor('optimizerSettings').get(key) as T | undefined) ?? null;
+
+export const writeOptimizerSettings = (key: string, settings: unknown) => putCached('optimizerSettings', key, settings);
+
+export const deleteOptimizerSettings = (key: string) => deleteCached('optimizerSettings', key);
+
+/** Every saved settings record with the slate date it was saved under, newest date first. */
+export const listOptimizerSettings = <T = any>(): Array<{ slateDate: string; settings: T }> => {
+  const prefix = `${LEGACY_STORAGE_KEYS.optimizerSettings}:`;
+  return Array.from(cacheFor('optimizerSettings').entries())
+    .filter(([key]) => key.startsWith(prefix))
+    .map(([key, settings]) => ({ slateDate: key.slice(prefix.length), settings: settings as T }))
+    .sort((a, b) => b.slateDate.localeCompare(a.slateDate));
+};
+
+// --- Saved lineup sets --------------------------------------------------------
+
+/** Raw saved sets, newest first. */
+export const readLineupSets = (): any[] =>
+  Array.from(cacheFor('lineupSets').values()).sort(
+    (a: any, b: any) => (Number(b?.createdAt) || 0) - (Number(a?.createdAt) || 0),
+  );
+
+/** Replaces the saved sets: unchanged sets are not rewritten, missing ones are deleted. */
+export const writeLineupSets = (sets: Array<{ id: string }>) => {
+  const entries = cacheFor('lineupSets');
+  const nextIds = new Set(sets.map((set) => set.id));
+  Array.from(entries.keys()).forEach((id) => {
+    if (!nextIds.has(id)) deleteCached('lineupSets', id);
+  });
+  sets.forEach((set) => {
+    const existing = entries.get(set.id);
+    if (existing !== undefined && JSON.stringify(existing) === JSON.stringify(set)) return;
+    putCached('lineupSets', set.id, set);
+  });
+};
+
+// --- Entry manager session ----------------------------------------------------
+
+export const readEntrySession = <T = any>(): T | null =>
+  (cacheFor('entrySessions').get(ENTRY_SESSION_KEY) as T | undefined) ?? null;
+
+export const writeEntrySession = (session: unknown) => putCached('entrySessions', ENTRY_SESSION_KEY, session);
+
+export const clearEntrySession = () => deleteCached('entrySessions', ENTRY_SESSION_KEY);
+
+// --- Projection sources ------------------------------------------------------
+
+export const readProjectionSources = <T = any>(): T[] => Array.from(cacheFor('projectionSources').values()) as T[];
+
+export const writeProjectionSource = (source: { id: string }) => putCached('projectionSources', source.id, source);
+
+export const deleteProjectionSource = (id: string) => deleteCached('projectionSources', id);
+
+// --- Contest results ------------------------------------------------------------
+
+export const getContestResultKey = (slateDate: string, contestId: string) => `${slateDate}|${contestId}`;
+
+/** Imported contest results for one slate date, in import order. */
+export const readContestResults = <T = any>(slateDate: string): T[] => {
+  const prefix = `${slateDate}|`;
+  return Array.from(cacheFor('contestResults').entries())
+    .filter(([key]) => key.startsWith(prefix))
+    .map(([, value]) => value as T);
+};
+
+export const writeContestResult = (slateDate: string, contestId: string, result: unknown) =>
+  putCached('contestResults', getContestResultKey(slateDate, contestId), result);
+
+// --- Contest input and beliefs ---------------------------------------------------
+
+export const readContestInput = (): ContestInput | null =>
+  (cacheFor('contestInputs').get(CURRENT_KEY) as ContestInput | undefined) ?? null;
+
+export const writeContestInput = (input: ContestInput) => putCached('contestInputs', CURRENT_KEY, input);
+
+/** The last uploaded projections CSV, parsed, with its file name. */
+export const readBeliefs = (): { players: Player[]; name: string } | null =>
+  (cacheFor('beliefs').get(CURRENT_KEY) as { players: Player[]; name: string } | undefined) ?? null;
+
+export const writeBeliefs = (players: Player[], name: string) => putCached('beliefs', CURRENT_KEY, { players, name });
+
+// --- Preferences ----------------------------------------------------------------
+
+export const readPreference = <T = any>(key: string): T | null => (cacheFor('meta').get(key) as T | undefined) ?? null;
+
+export const writePreference = (key: string, value: unknown) => putCached('meta', key, value);
+
+// --- Slate and history snapshots ----------------------------------------------
+
+export const getSlateSnapshotKey = (slateDate: string, slate?: string | null) => `${slateDate}|${slate || 'default'}`;
+
+/** Stores a successful slate load: the slate payload under `date|slate`, its history under the date. */
+export const saveSlateSnapshot = async (
+  slateDate: string,
+  slate: string | null | undefined,
+  result: SlateEcosystemResult,
+): Promise<void> => {
+  const { history, ...slateData } = result.data;
+  try {
+    await backend.put('slates', toRecord('slates', getSlateSnapshotKey(slateDate, slate), { ...result, data: slateData }));
+    if (history && (history.rotations || history.boxscores || history.stats)) {
+      await backend.put('history', toRecord('history', slateDate, history));
+    }
+  } catch (error) {
+    console.warn('Failed to cache slate snapshot', error);
+  }
+};
+
+/** Rebuilds a slate load result from the last stored snapshot, or null when there is none. */
+export const loadSlateSnapshot = async (
+  slateDate: string,
+  slate?: string | null,
+): Promise<SlateEcosystemResult | null> => {
+  try {
+    const stored = upgradeRecord<Omit<SlateEcosystemResult, 'data'> & { data: Omit<SlateEcosystemResult['data'], 'history'> }>(
+      'slates',
+      await backend.get('slates', getSlateSnapshotKey(slateDate, slate)),
+    );
+    if (!stored?.data?.slate) return null;
+    const history = upgradeRecord<SlateEcosystemResult['data']['history']>('history', await backend.get('history', slateDate));
+    return {
+      ...stored,
+      data: { ...stored.data, history: history ?? { rotations: null, boxscores: null, stats: null, asOf: '' } },
+    };
+  } catch (error) {
+    console.warn('Failed to read slate snapshot', error);
+    return null;
+  }
+};
+
+// --- Usage and cleanup --------------------------------------------------------
+
+export interface StoreUsage {
+  store: PersistedStore;
+  count: number;
+  bytes: number;
+  records: StoredRecordMeta[];
+}
+
+export interface StorageUsage {
+  backend: RecordStoreBackend['kind'];
+  stores: StoreUsage[];
+  totalBytes: number;
+  /** Browser-reported origin usage and quota, when available. */
+  originUsage?: number;
+  originQuota?: number;
+}
+
+export const getStorageUsage = async (): Promise<StorageUsage> => {
+  const stores: StoreUsage[] = [];
+  for (const store of PERSISTED_STORES) {
+    const records = (await backend.list(store)).sort((a, b) => b.updatedAt - a.updatedAt);
+    stores.push({ store, count: records.length, bytes: records.reduce((sum, r) => sum + (r.sizeBytes || 0), 0), records });
+  }
+  const usage: StorageUsage = { backend: backend.kind, stores, totalBytes: stores.reduce((sum, s) => sum + s.bytes, 0) };
+  try {
+    if (typeof navigator !== 'undefined' && navigator.storage?.estimate) {
+      const estimate = await navigator.storage.estimate();
+      usage.originUsage = estimate.usage;
+      usage.originQuota = estimate.quota;
+    }
+  } catch {
+    // Estimates are informational only.
+  }
+  return usage;
+};
+
+export const deletePersistedRecord = async (store: PersistedStore, key: string): Promise<void> => {
+  cache.get(store)?.delete(key);
+  await backend.delete(store, key);
+};
+
+export const clearPersistedStore = async (store: PersistedStore): Promise<void> => {
+  cache.get(store)?.clear();
+  await backend.clear(store);
+};
+
+/** Deletes records in `stores` not updated within `maxAgeMs`; returns how many were removed. */
+export const pruneRecordsOlderThan = async (stores: PersistedStore[], maxAgeMs: number): Promise<number> => {
+  const cutoff = Date.now() - maxAgeMs;
+  let removed = 0;
+  for (const store of stores) {
+    const stale = (await backend.list(store)).filter((record) => record.updatedAt < cutoff);
+    for (const record of stale) {
+      await deletePersistedRecord(store, record.key);
+      removed += 1;
+    }
+  }
+  return removed;
+};
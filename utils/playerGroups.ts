@@ -0,0 +1,143 @@
+/**
+ * Player-group rules shared by every optimizer engine.
+ *
+ * at_most / at_least / exactly bound how many of `playerIds` one lineup may roster.
+ * if_then requires at least `count` of `thenIds` whenever any of `playerIds` is rostered.
+ */
+export type PlayerGroupKind = 'at_most' | 'at_least' | 'exactly' | 'if_then';
+
+export const PLAYER_GROUP_KINDS: PlayerGroupKind[] = ['at_most', 'at_least', 'exactly', 'if_then'];
+
+export interface PlayerGroupRule {
+  id: string;
+  label: string;
+  kind: PlayerGroupKind;
+  playerIds: string[];
+  count: number;
+  thenIds: string[];
+}
+
+export interface PlayerGroupContext {
+  rosterSize: number;
+  availableIds: Set<string>;
+  lockedIds: Set<string>;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  Boolean(value) && typeof value === 'object' && !Array.isArray(value);
+
+const isPlayerGroupKind = (value: unknown): value is PlayerGroupKind =>
+  PLAYER_GROUP_KINDS.includes(value as PlayerGroupKind);
+
+const toIdList = (input: unknown): string[] => {
+  if (!Array.isArray(input)) return [];
+  return Array.from(new Set(input.map((id) => String(id || '').trim()).filter(Boolean)));
+};
+
+export const createPlayerGroupRule = (kind: PlayerGroupKind = 'at_most'): PlayerGroupRule => ({
+  id: `group_${Date.now()}_${Math.random().toString(36).slice(2, 7)}`,
+  label: '',
+  kind,
+  playerIds: [],
+  count: 1,
+  thenIds: [],
+});
+
+/** Drops malformed rules; keeps empty ones so a rule being edited survives a save/load. */
+export const sanitizePlayerGroupRules = (raw: unknown): PlayerGroupRule[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((rule): rule is Record<string, unknown> & { kind: PlayerGroupKind } => isRecord(rule) && isPlayerGroupKind(rule.kind))
+    .map((rule, idx) => {
+      const playerIds = toIdList(rule.playerIds);
+      const count = Number(rule.count);
+      return {
+        id: String(rule.id || `group_${idx + 1}`),
+        label: String(rule.label || ''),
+        kind: rule.kind,
+        playerIds,
+        count: Number.isFinite(count) ? Math.max(0, Math.floor(count)) : 1,
+        // A trigger player can't satisfy its own "then" requirement.
+        thenIds: rule.kind === 'if_then' ? toIdList(rule.thenIds).filter((id) => !playerIds.includes(id)) : [],
+      };
+    });
+};
+
+export const describePlayerGroupRule = (rule: PlayerGroupRule): string => {
+  const name = rule.label.trim() || `${rule.playerIds.length}-player group`;
+  switch (rule.kind) {
+    case 'at_most':
+      return `${name} (at most ${rule.count} of ${rule.playerIds.length})`;
+    case 'at_least':
+      return `${name} (at least ${rule.count} of ${rule.playerIds.length})`;
+    case 'exactly':
+      return `${name} (exactly ${rule.count} of ${rule.playerIds.length})`;
+    case 'if_then':
+      return `${name} (if any of ${rule.playerIds.length} then ${rule.count} of ${rule.thenIds.length})`;
+  }
+};
+
+const countIn = (ids: string[], lineupIds: Set<string>): number =>
+  ids.reduce((sum, id) => sum + (lineupIds.has(id) ? 1 : 0), 0);
+
+export const meetsPlayerGroupRule = (lineupIds: Set<string>, rule: PlayerGroupRule): boolean => {
+  const hits = countIn(rule.playerIds, lineupIds);
+  switch (rule.kind) {
+    case 'at_most':
+      return hits <= rule.count;
+    case 'at_least':
+      return hits >= rule.count;
+    case 'exactly':
+      return hits === rule.count;
+    case 'if_then':
+      return hits === 0 || countIn(rule.thenIds, lineupIds) >= rule.count;
+  }
+};
+
+export const meetsPlayerGroupRules = (lineupIds: Set<string>, rules: PlayerGroupRule[] | undefined): boolean =>
+  !rules || rules.every((rule) => meetsPlayerGroupRule(lineupIds, rule));
+
+/**
+ * Returns why a rule can never be satisfied by any lineup from this pool, or null.
+ * Only catches single-rule conflicts with the pool, locks and roster size; combinations
+ * of rules can still be infeasible and surface as generation failures.
+ */
+export const findPlayerGroupConflict = (rule: PlayerGroupRule, ctx: PlayerGroupContext): string | null => {
+  if (rule.playerIds.length === 0) return 'no players selected';
+  const available = rule.playerIds.filter((id) => ctx.availableIds.has(id)).length;
+  const locked = rule.playerIds.filter((id) => ctx.lockedIds.has(id)).length;
+
+  if (rule.kind === 'at_least' || rule.kind === 'exactly') {
+    if (rule.count > ctx.rosterSize) return `needs ${rule.count} players but a lineup has ${ctx.rosterSize} slots`;
+    if (available < rule.count) return `needs ${rule.count} but only ${available} are in the active pool`;
+  }
+  if ((rule.kind === 'at_most' || rule.kind === 'exactly') && locked > rule.count) {
+    return `${locked} group players are locked, above the limit of ${rule.count}`;
+  }
+  if (rule.kind === 'if_then') {
+    if (rule.thenIds.length === 0) return 'no "then" players selected';
+    const thenAvailable = rule.thenIds.filter((id) => ctx.availableIds.has(id)).length;
+    if (locked > 0 && thenAvailable < rule.count) {
+      return `a locked trigger player needs ${rule.count} "then" players but only ${thenAvailable} are in the active pool`;
+    }
+  }
+  return null;
+};
+
+/** Splits rules into those safe to enforce and warnings for the ones being skipped. */
+export const partitionPlayerGroupRules = (
+  rules: PlayerGroupRule[],
+  ctx: PlayerGroupContext,
+): { enforced: PlayerGroupRule[]; warnings: string[] } => {
+  const enforced: PlayerGroupRule[] = [];
+  const warnings: string[] = [];
+  rules.forEach((rule) => {
+    const conflict = findPlayerGroupConflict(rule, ctx);
+    if (conflict) {
+      warnings.push(`Player group ${describePlayerGroupRule(rule)} is infeasible: ${conflict}. Rule ignored.`);
+      return;
+    }
+    enforced.push(rule);
+  });
+  return { enforced, warnings };
+};
@@ -0,0 +1,216 @@
+/**
+ * Projection-source registry and weighted blending.
+ *
+ * Each uploaded projection file becomes a `ProjectionSource` (parsed with
+ * `parseProjections`). `blendProjections` aligns every source to the slate pool
+ * by id, then by name (`buildPlayerIndex`), and replaces projection, ceiling,
+ * floor, ownership and minutes with the weighted mean of the sources that have
+ * the stat. The slate's own numbers take part as the "base" source.
+ *
+ * Weights: a source's effective weight for a stat is `weight × statWeights[stat]`
+ * (stat weights default to 1), so a source can be trusted for minutes but
+ * ignored for ownership. Spread across sources is kept per player so views can
+ * flag disagreements.
+ */
+
+import { Player } from '../types';
+import { buildPlayerIndex, parseProjections } from './csvParser';
+
+export type BlendStat = 'projection' | 'ceiling' | 'floor' | 'ownership' | 'minutes';
+
+export const BLEND_STATS: BlendStat[] = ['projection', 'ceiling', 'floor', 'ownership', 'minutes'];
+
+export type StatWeights = Partial<Record<BlendStat, number>>;
+
+export interface ProjectionSource {
+  id: string;
+  name: string;
+  slateDate: string;
+  createdAt: number;
+  enabled: boolean;
+  weight: number;
+  statWeights: StatWeights;
+  /** Stats this file actually carries; parseProjections fills most missing columns with 0. */
+  stats: BlendStat[];
+  players: Player[];
+}
+
+export interface BaseSourceWeights {
+  weight: number;
+  statWeights: StatWeights;
+}
+
+export const DEFAULT_BASE_WEIGHTS: BaseSourceWeights = { weight: 1, statWeights: {} };
+
+export const BASE_SOURCE_ID = 'slate';
+
+export interface SourceValue {
+  sourceId: string;
+  sourceName: string;
+  value: number;
+}
+
+export interface BlendedStat {
+  value: number;
+  values: SourceValue[];
+  /** max − min across contributing sources. */
+  spread: number;
+}
+
+export interface PlayerProjectionBlend {
+  stats: Partial<Record<BlendStat, BlendedStat>>;
+  /** Projection spread relative to the blended projection (0.2 = sources 20% apart). */
+  disagreement: number;
+}
+
+export interface ProjectionBlendResult {
+  players: Player[];
+  blends: Map<string, PlayerProjectionBlend>;
+  /** Rows in each source that matched no slate player, by source id. */
+  unmatched: Record<string, string[]>;
+}
+
+/** Projection spread of at least this share of the blend (and 3 pts) is flagged. */
+export const HIGH_DISAGREEMENT = 0.15;
+const MIN_FLAGGED_SPREAD = 3;
+
+const MINUTES_KEYS = ['minutes', 'mins', 'minutesprojection', 'projmin', 'projminutes', 'projectedminutes'];
+
+const normalizeKey = (key: string) => key.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const readMinutes = (player: Player): number | undefined => {
+  const direct = Number(player.minutesProjection);
+  if (Number.isFinite(direct) && direct > 0) return direct;
+  for (const key of Object.keys(player)) {
+    if (!MINUTES_KEYS.includes(normalizeKey(key))) continue;
+    const num = Number(player[key]);
+    if (Number.isFinite(num) && num > 0) return num;
+  }
+  return undefined;
+};
+
+export const readStat = (player: Player, stat: BlendStat): number | undefined => {
+  if (stat === 'minutes') return readMinutes(player);
+  const num = Number(player[stat]);
+  return Number.isFinite(num) && num > 0 ? num : undefined;
+};
+
+export const isFlaggedDisagreement = (blend: PlayerProjectionBlend | undefined): boolean => {
+  const spread = blend?.stats.projection?.spread ?? 0;
+  return (blend?.disagreement ?? 0) >= HIGH_DISAGREEMENT && spread >= MIN_FLAGGED_SPREAD;
+};
+
+export const createProjectionSource = (name: string, slateDate: string, players: Player[]): ProjectionSource => ({
+  id: `source_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`,
+  name,
+  slateDate,
+  createdAt: Date.now(),
+  enabled: true,
+  weight: 1,
+  statWeights: {},
+  stats: BLEND_STATS.filter((stat) => players.some((player) => readStat(player, stat) !== undefined)),
+  players,
+});
+
+export const parseProjectionSourceFile = async (file: File, slateDate: string): Promise<ProjectionSource> => {
+  const players = await parseProjections(file);
+  if (players.length === 0) {
+    throw new Error(`No players found in ${file.name}.`);
+  }
+  return createProjectionSource(file.name.replace(/\.csv$/i, ''), slateDate, players);
+};
+
+const effectiveWeight = (weight: number, statWeights: StatWeights, stat: BlendStat): number => {
+  const statWeight = statWeights[stat];
+  const total = weight * (statWeight === undefined ? 1 : statWeight);
+  return Number.isFinite(total) && total > 0 ? total : 0;
+};
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Blends enabled sources into `basePlayers`. Players no source matched keep
+ * their slate values; the result is `basePlayers` itself when nothing applies.
+ */
+export const blendProjections = (
+  basePlayers: Player[],
+  sources: ProjectionSource[],
+  baseWeights: BaseSourceWeights = DEFAULT_BASE_WEIGHTS,
+): ProjectionBlendResult => {
+  const active = sources.filter((source) => source.enabled && source.weight > 0 && source.players.length > 0);
+  const blends = new Map<string, PlayerProjectionBlend>();
+  const unmatched: Record<string, string[]> = {};
+  if (active.length === 0) return { players: basePlayers, blends, unmatched };
+
+  // Resolve each source row to a slate player once; the first row wins when a file repeats a player.
+  const index = buildPlayerIndex(basePlayers);
+  const rowsBySource = active.map((source) => {
+    const rows = new Map<string, Player>();
+    source.players.forEach((row) => {
+      const match = index.find(String(row.id)) ?? index.find(String(row.name));
+      if (!match) {
+        (unmatched[source.id] ??= []).push(String(row.name));
+        return;
+      }
+      if (!rows.has(match.id)) rows.set(match.id, row);
+    });
+    return { source, rows };
+  });
+
+  const players = basePlayers.map((player) => {
+    const stats: Partial<Record<BlendStat, BlendedStat>> = {};
+    let matchedAnySource = false;
+
+    BLEND_STATS.forEach((stat) => {
+      const values: SourceValue[] = [];
+      let weighted = 0;
+      let weightSum = 0;
+      const add = (sourceId: string, sourceName: string, value: number | undefined, weight: number) => {
+        if (value === undefined || weight <= 0) return;
+        values.push({ sourceId, sourceName, value });
+        weighted += value * weight;
+        weightSum += weight;
+      };
+
+      rowsBySource.forEach(({ source, rows }) => {
+        const row = rows.get(player.id);
+        if (!row) return;
+        matchedAnySource = true;
+        if (!source.stats.includes(stat)) return;
+        add(source.id, source.name, readStat(row, stat), effectiveWeight(source.weight, source.statWeights, stat));
+      });
+      // In-app ownership estimates yield to any source that has real ownership.
+      const baseIsEstimate = stat === 'ownership' && player.ownershipEstimated === true && values.length > 0;
+      if (values.length > 0 && !baseIsEstimate) {
+        add(BASE_SOURCE_ID, 'Slate', readStat(player, stat), effectiveWeight(baseWeights.weight, baseWeights.statWeights, stat));
+      }
+      if (weightSum <= 0) return;
+
+      const nums = values.map((entry) => entry.value);
+      stats[stat] = {
+        value: round2(weighted / weightSum),
+        values,
+        spread: round2(Math.max(...nums) - Math.min(...nums)),
+      };
+    });
+
+    if (!matchedAnySource || Object.keys(stats).length === 0) return player;
+    const projection = stats.projection;
+    blends.set(player.id, {
+      stats,
+      disagreement: projection && projection.value > 0 ? projection.spread / projection.value : 0,
+    });
+
+    return {
+      ...player,
+      ...(stats.projection ? { projection: stats.projection.value } : {}),
+      ...(stats.ceiling ? { ceiling: stats.ceiling.value } : {}),
+      ...(stats.floor ? { floor: stats.floor.value } : {}),
+      // Blended ownership always has at least one uploaded source behind it.
+      ...(stats.ownership ? { ownership: stats.ownership.value, ownershipEstimated: false } : {}),
+      ...(stats.minutes ? { minutesProjection: stats.minutes.value } : {}),
+    };
+  });
+
+  return { players, blends, unmatched };
+};
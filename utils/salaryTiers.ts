@@ -0,0 +1,33 @@
+/**
+ * Salary buckets shared by the QIEA optimizer's tier weights, the player deep
+ * dive's boom/bust rates and the projection calibration report.
+ */
+
+export type SalaryTier = 'elite' | 'mid_range' | 'value' | 'punt';
+
+export const SALARY_TIERS: SalaryTier[] = ['elite', 'mid_range', 'value', 'punt'];
+
+export const SALARY_TIER_LABELS: Record<SalaryTier, string> = {
+  elite: 'Elite ($9K+)',
+  mid_range: 'Mid ($5K-9K)',
+  value: 'Value ($3.5K-5K)',
+  punt: 'Punt (<$3.5K)',
+};
+
+export const getSalaryTier = (salary: number): SalaryTier => {
+  if (salary >= 9000) return 'elite';
+  if (salary >= 5000) return 'mid_range';
+  if (salary >= 3500) return 'value';
+  return 'punt';
+};
+
+/**
+ * Fantasy points per $1K of salary at or above which a game is a boom, and
+ * below which it is a bust. Cheaper players need a higher multiple to boom.
+ */
+export const getBoomBustValueThresholds = (salary: number): { boom: number; bust: number } => {
+  if (salary >= 9000) return { boom: 6, bust: 4.5 };
+  if (salary >= 6500) return { boom: 6.5, bust: 4.5 };
+  if (salary >= 4500) return { boom: 7, bust: 5 };
+  return { boom: 8, bust: 5 };
+};
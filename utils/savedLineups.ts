@@ -1,4 +1,6 @@
 import { Lineup } from '../types';
+import { OptimizerConfigState, sanitizeOptimizerConfig } from './optimizerConfig';
+import { readLineupSets, writeLineupSets } from './persistence';
 
 export interface SavedLineupSet {
   id: string;
@@ -7,9 +9,37 @@ export interface SavedLineupSet {
   salaryCap: number;
   createdAt: number;
   lineups: Lineup[];
+  /** Optimizer settings the set was generated with, when known. */
+  config?: OptimizerConfigState;
 }
 
-const SAVED_LINEUPS_STORAGE_KEY = 'slatesim.savedLineupSets.v1';
+/** Numeric lineup metrics kept with a saved set (and in exported files). */
+export const LINEUP_METRIC_KEYS = [
+  'totalCeiling',
+  'totalOwnership',
+  'simMeanScore',
+  'simTop1Pct',
+  'simExpectedRoiPct',
+  'simEV',
+  'simROI',
+  'winProbPct',
+  'top10Pct',
+  'cashPct',
+  'simFieldPercentile',
+  'modelScore',
+  'overperformProba',
+] as const;
+
+export type LineupMetricKey = typeof LINEUP_METRIC_KEYS[number];
+
+export const pickLineupMetrics = (lineup: Partial<Record<LineupMetricKey, unknown>>): Partial<Record<LineupMetricKey, number>> => {
+  const metrics: Partial<Record<LineupMetricKey, number>> = {};
+  LINEUP_METRIC_KEYS.forEach((key) => {
+    const value = lineup[key];
+    if (value !== null && value !== undefined && value !== '' && Number.isFinite(Number(value))) metrics[key] = Number(value);
+  });
+  return metrics;
+};
 
 const sanitizeLineup = (lineup: Lineup, index: number): Lineup => {
   return {
@@ -17,6 +47,7 @@ const sanitizeLineup = (lineup: Lineup, index: number): Lineup => {
     playerIds: Array.isArray(lineup.playerIds) ? [...lineup.playerIds] : [],
     totalSalary: Number.isFinite(Number(lineup.totalSalary)) ? Number(lineup.totalSalary) : 0,
     totalProjection: Number.isFinite(Number(lineup.totalProjection)) ? Number(lineup.totalProjection) : 0,
+    ...pickLineupMetrics(lineup),
     lineupSource: 'optimizer',
   };
 };
@@ -32,31 +63,22 @@ const sanitizeSavedSet = (raw: any): SavedLineupSet | null => {
     salaryCap: Number.isFinite(Number(raw.salaryCap)) ? Number(raw.salaryCap) : 50000,
     createdAt: Number.isFinite(Number(raw.createdAt)) ? Number(raw.createdAt) : Date.now(),
     lineups,
+    ...(raw.config && typeof raw.config === 'object' ? { config: sanitizeOptimizerConfig(raw.config) } : {}),
   };
 };
 
 export const loadSavedLineupSets = (): SavedLineupSet[] => {
-  if (typeof window === 'undefined') return [];
-  try {
-    const raw = localStorage.getItem(SAVED_LINEUPS_STORAGE_KEY);
-    if (!raw) return [];
-    const parsed = JSON.parse(raw);
-    if (!Array.isArray(parsed)) return [];
-    return parsed
-      .map((set) => sanitizeSavedSet(set))
-      .filter((set): set is SavedLineupSet => Boolean(set));
-  } catch {
-    return [];
-  }
+  return readLineupSets()
+    .map((set) => sanitizeSavedSet(set))
+    .filter((set): set is SavedLineupSet => Boolean(set));
 };
 
 export const saveSavedLineupSets = (sets: SavedLineupSet[]) => {
-  if (typeof window === 'undefined') return;
   try {
     const sanitized = sets
       .map((set) => sanitizeSavedSet(set))
       .filter((set): set is SavedLineupSet => Boolean(set));
-    localStorage.setItem(SAVED_LINEUPS_STORAGE_KEY, JSON.stringify(sanitized));
+    writeLineupSets(sanitized);
   } catch (error) {
     console.warn('Failed to persist saved lineups', error);
   }
@@ -0,0 +1,124 @@
+/**
+ * DraftKings Showdown captain rows.
+ *
+ * A Showdown lineup is one captain plus five FLEX players from a single game;
+ * the captain costs and scores 1.5x. Like DK's own salary file, the captain is
+ * a second pool row per player: same name and team, position CPT, salary and
+ * points scaled, its own id and its own ownership. Locks, excludes and exposure
+ * caps on that row are the captain controls, and lineup totals, exposure counts
+ * and slot assignment work without special cases. The optimizer service adds
+ * an "at most one of" group per player so a lineup never holds both rows.
+ */
+
+import type { Player } from '../types';
+import { normalizeName } from './csvParser';
+import type { PlayerGroupRule } from './playerGroups';
+import { CAPTAIN_POSITION, SiteRules } from './siteRules';
+
+export const CAPTAIN_ID_SUFFIX = '-CPT';
+
+const CAPTAIN_OWNERSHIP_KEYS = ['captainOwnership', 'captain_ownership', 'cptOwnership', 'cpt_ownership', 'CPT_OWN', 'cptOwn'];
+
+/**
+ * Captain ownership sums to 100% across a Showdown field and FLEX ownership
+ * to 500%, so without a captain projection a player's captain share is taken
+ * as a fifth of its FLEX ownership.
+ */
+const ESTIMATED_CAPTAIN_SHARE = 1 / 5;
+
+export const toCaptainId = (id: string): string => `${id}${CAPTAIN_ID_SUFFIX}`;
+
+/** The FLEX row id for a captain row id; other ids pass through. */
+export const getBasePlayerId = (id: string): string =>
+  id.endsWith(CAPTAIN_ID_SUFFIX) ? id.slice(0, -CAPTAIN_ID_SUFFIX.length) : id;
+
+export const isCaptainPlayer = (player: Pick<Player, 'captainOf'>): boolean => Boolean(player.captainOf);
+
+const toNum = (value: unknown): number | undefined => {
+  if (value === null || value === undefined || value === '') return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : undefined;
+};
+
+const scaled = (value: unknown, multiplier: number): number | undefined => {
+  const n = toNum(value);
+  return n === undefined ? undefined : n * multiplier;
+};
+
+/** Captain ownership (0-100) from the slate when it has one, else estimated from FLEX ownership. */
+export const getCaptainOwnership = (player: Player): { ownership: number; estimated: boolean } => {
+  const sources = [player, player.slateData];
+  for (const source of sources) {
+    if (!source || typeof source !== 'object') continue;
+    for (const key of CAPTAIN_OWNERSHIP_KEYS) {
+      const value = toNum(source[key]);
+      if (value !== undefined) return { ownership: value, estimated: false };
+    }
+  }
+  return { ownership: (toNum(player.ownership) ?? 0) * ESTIMATED_CAPTAIN_SHARE, estimated: true };
+};
+
+export const buildCaptainRow = (player: Player, multiplier: number): Player => {
+  const { ownership, estimated } = getCaptainOwnership(player);
+  return {
+    ...player,
+    id: toCaptainId(player.id),
+    position: CAPTAIN_POSITION,
+    salary: Math.round((toNum(player.salary) ?? 0) * multiplier),
+    projection: (toNum(player.projection) ?? 0) * multiplier,
+    ceiling: scaled(player.ceiling, multiplier),
+    floor: scaled(player.floor, multiplier),
+    actual: scaled(player.actual, multiplier),
+    ownership,
+    ownershipEstimated: estimated || player.ownershipEstimated,
+    captainOf: player.id,
+    captainMultiplier: multiplier,
+  };
+};
+
+/** The site's player pool: FLEX rows first, then a captain row per player on captain sites. */
+export const buildSitePlayerPool = (players: Player[], rules: SiteRules): Player[] => {
+  if (!rules.captain) return players;
+  const { multiplier } = rules.captain;
+  return [...players, ...players.map((player) => buildCaptainRow(player, multiplier))];
+};
+
+/** One "at most one" group per player whose FLEX and captain rows are both in `players`. */
+export const buildCaptainPairRules = (players: Array<Pick<Player, 'id' | 'name' | 'captainOf'>>): PlayerGroupRule[] => {
+  const ids = new Set(players.map((player) => String(player.id)));
+  return players
+    .filter((player) => player.captainOf && ids.has(player.captainOf))
+    .map((player) => ({
+      id: `captain_${player.captainOf}`,
+      label: `${player.name} CPT or FLEX`,
+      kind: 'at_most' as const,
+      playerIds: [player.captainOf as string, String(player.id)],
+      count: 1,
+      thenIds: [],
+    }));
+};
+
+export interface SitePoolRow {
+  name: string;
+  id: string;
+  rosterPosition: string;
+}
+
+/**
+ * App player id -> entries-file id. DK numbers each Showdown draft group on
+ * its own and gives captains separate ids, so the file's pool rows are matched
+ * by name: CPT rows to captain rows, everything else to FLEX rows.
+ */
+export const buildShowdownSiteIds = (rows: SitePoolRow[], players: Player[]): Record<string, string> => {
+  const byKey = new Map<string, Player>();
+  players.forEach((player) => {
+    byKey.set(`${isCaptainPlayer(player) ? 'cpt' : 'flex'}:${normalizeName(player.name)}`, player);
+  });
+  const ids: Record<string, string> = {};
+  rows.forEach((row) => {
+    const role = String(row.rosterPosition || '').trim().toUpperCase() === CAPTAIN_POSITION ? 'cpt' : 'flex';
+    const player = byKey.get(`${role}:${normalizeName(row.name)}`);
+    if (player && row.id) ids[player.id] = String(row.id);
+  });
+  return ids;
+};
@@ -0,0 +1,361 @@
+/**
+ * Site rules — roster slots, salary cap, team limits, scoring weights and the
+ * entry-upload CSV layout for each DFS site we support.
+ *
+ * Slots carry a unique `key` (FanDuel has two PG slots, so "PG1"/"PG2") and a
+ * display/CSV `label`. Everything that builds, validates or exports lineups
+ * should go through these rules instead of hard-coding DraftKings' 8 slots.
+ *
+ * DraftKings Showdown is modelled as its own site: one game, a CPT slot and
+ * five FLEX slots. The captain is a separate pool row per player with position
+ * `CAPTAIN_POSITION` (see utils/showdown), so only that row fits the CPT slot.
+ *
+ * FanDuel's rules are complete, but slates only carry DraftKings salaries, ids
+ * and projections, so the site sets `unavailableReason` and the optimizer,
+ * contest sim and entry export refuse it until FanDuel slate data is loaded.
+ */
+
+import { ContestInput, Player } from '../types';
+
+export type DfsSite = ContestInput['site'];
+
+export interface SiteSlotRule {
+  key: string;
+  label: string;
+  eligible: string[];
+}
+
+export interface SiteScoringWeights {
+  points: number;
+  threePointersMade: number;
+  rebounds: number;
+  assists: number;
+  steals: number;
+  blocks: number;
+  turnovers: number;
+  doubleDouble: number;
+  tripleDouble: number;
+}
+
+export interface SiteEntryCsvFormat {
+  metadataColumns: string[];
+  /** Column header written for each slot, in slot order. */
+  slotHeaders: string[];
+  formatPlayer: (player: Pick<Player, 'id' | 'name'>) => string;
+  parsePlayerId: (cell: string) => string;
+}
+
+/** A slot whose player costs and scores `multiplier` times their base salary and points. */
+export interface SiteCaptainRule {
+  slotKey: string;
+  multiplier: number;
+}
+
+export interface SiteRules {
+  site: DfsSite;
+  label: string;
+  salaryCap: number;
+  defaultSalaryFloor: number;
+  slots: SiteSlotRule[];
+  maxPlayersPerTeam: number | null;
+  minTeams: number;
+  minGames: number;
+  /** Single-game contests roster every player from one game. */
+  maxGames: number | null;
+  captain: SiteCaptainRule | null;
+  scoring: SiteScoringWeights;
+  entryCsv: SiteEntryCsvFormat;
+  /** Why lineups can't be built for this site yet; null when its slate data is available. */
+  unavailableReason: string | null;
+}
+
+export const BASE_POSITIONS = ['PG', 'SG', 'SF', 'PF', 'C'];
+
+/** Position carried by Showdown captain rows; only the CPT slot accepts it. */
+export const CAPTAIN_POSITION = 'CPT';
+
+const DRAFTKINGS_SCORING: SiteScoringWeights = {
+  points: 1,
+  threePointersMade: 0.5,
+  rebounds: 1.25,
+  assists: 1.5,
+  steals: 2,
+  blocks: 2,
+  turnovers: -0.5,
+  doubleDouble: 1.5,
+  tripleDouble: 3,
+};
+
+const DRAFTKINGS_RULES: SiteRules = {
+  site: 'DraftKings',
+  label: 'DraftKings',
+  salaryCap: 50000,
+  defaultSalaryFloor: 49500,
+  slots: [
+    { key: 'PG', label: 'PG', eligible: ['PG'] },
+    { key: 'SG', label: 'SG', eligible: ['SG'] },
+    { key: 'SF', label: 'SF', eligible: ['SF'] },
+    { key: 'PF', label: 'PF', eligible: ['PF'] },
+    { key: 'C', label: 'C', eligible: ['C'] },
+    { key: 'G', label: 'G', eligible: ['PG', 'SG'] },
+    { key: 'F', label: 'F', eligible: ['SF', 'PF'] },
+    { key: 'UTIL', label: 'UTIL', eligible: BASE_POSITIONS },
+  ],
+  maxPlayersPerTeam: null,
+  minTeams: 1,
+  minGames: 2,
+  maxGames: null,
+  captain: null,
+  scoring: DRAFTKINGS_SCORING,
+  entryCsv: {
+    metadataColumns: ['Entry ID', 'Contest Name', 'Contest ID', 'Entry Fee'],
+    slotHeaders: ['PG', 'SG', 'SF', 'PF', 'C', 'G', 'F', 'UTIL'],
+    formatPlayer: (player) => `${player.name} (${player.id})`,
+    parsePlayerId: (cell) => String(cell || '').match(/\((\d+)\)/)?.[1] || '',
+  },  unavailableReason: null,
+};
+
+const DRAFTKINGS_SHOWDOWN_RULES: SiteRules = {
+  site: 'DraftKingsShowdown',
+  label: 'DK Showdown',
+  salaryCap: 50000,
+  defaultSalaryFloor: 47000,
+  slots: [
+    { key: 'CPT', label: 'CPT', eligible: [CAPTAIN_POSITION] },
+    { key: 'FLEX1', label: 'FLEX', eligible: BASE_POSITIONS },
+    { key: 'FLEX2', label: 'FLEX', eligible: BASE_POSITIONS },
+    { key: 'FLEX3', label: 'FLEX', eligible: BASE_POSITIONS },
+    { key: 'FLEX4', label: 'FLEX', eligible: BASE_POSITIONS },
+    { key: 'FLEX5', label: 'FLEX', eligible: BASE_POSITIONS },
+  ],
+  maxPlayersPerTeam: 5,
+  minTeams: 2,
+  minGames: 1,
+  maxGames: 1,
+  captain: { slotKey: 'CPT', multiplier: 1.5 },
+  scoring: DRAFTKINGS_SCORING,
+  entryCsv: {
+    metadataColumns: ['Entry ID', 'Contest Name', 'Contest ID', 'Entry Fee'],
+    // DK's NBA Showdown files head the FLEX columns "UTIL".
+    slotHeaders: ['CPT', 'UTIL', 'UTIL', 'UTIL', 'UTIL', 'UTIL'],
+    formatPlayer: (player) => `${player.name} (${player.id})`,
+    // Captain rows without a DK id keep the app's own id (e.g. "123-CPT").
+    parsePlayerId: (cell) => String(cell || '').match(/\(([\w-]+)\)\s*$/)?.[1] || '',
+  },
+  unavailableReason: null,
+};
+
+const FANDUEL_RULES: SiteRules = {
+  site: 'FanDuel',
+  label: 'FanDuel',
+  salaryCap: 60000,
+  defaultSalaryFloor: 59000,
+  slots: [
+    { key: 'PG1', label: 'PG', eligible: ['PG'] },
+    { key: 'PG2', label: 'PG', eligible: ['PG'] },
+    { key: 'SG1', label: 'SG', eligible: ['SG'] },
+    { key: 'SG2', label: 'SG', eligible: ['SG'] },
+    { key: 'SF1', label: 'SF', eligible: ['SF'] },
+    { key: 'SF2', label: 'SF', eligible: ['SF'] },
+    { key: 'PF1', label: 'PF', eligible: ['PF'] },
+    { key: 'PF2', label: 'PF', eligible: ['PF'] },
+    { key: 'C', label: 'C', eligible: ['C'] },
+  ],
+  maxPlayersPerTeam: 4,
+  minTeams: 3,
+  minGames: 1,
+  maxGames: null,
+  captain: null,
+  scoring: {
+    points: 1,
+    threePointersMade: 0,
+    rebounds: 1.2,
+    assists: 1.5,
+    steals: 3,
+    blocks: 3,
+    turnovers: -1,
+    doubleDouble: 0,
+    tripleDouble: 0,
+  },
+  entryCsv: {
+    metadataColumns: ['entry_id', 'contest_id', 'contest_name', 'entry_fee'],
+    slotHeaders: ['PG', 'PG', 'SG', 'SG', 'SF', 'SF', 'PF', 'PF', 'C'],
+    formatPlayer: (player) => `${player.id}:${player.name}`,
+    parsePlayerId: (cell) => String(cell || '').trim().match(/^([\w-]+):/)?.[1] || '',
+  },
+  unavailableReason: 'FanDuel slate data not loaded: slates carry DraftKings salaries, ids and projections only.',
+};
+
+export const SITE_RULES: Record<DfsSite, SiteRules> = {
+  DraftKings: DRAFTKINGS_RULES,
+  DraftKingsShowdown: DRAFTKINGS_SHOWDOWN_RULES,
+  FanDuel: FANDUEL_RULES,
+};
+
+export const getSiteRules = (site?: DfsSite | string | null): SiteRules => {
+  if (site === 'FanDuel') return FANDUEL_RULES;
+  if (site === 'DraftKingsShowdown') return DRAFTKINGS_SHOWDOWN_RULES;
+  return DRAFTKINGS_RULES;
+};
+
+export const parseSitePositions = (position: unknown): string[] => {
+  return String(position || '')
+    .split(/[\/,\s]+/)
+    .map((pos) => pos.trim().toUpperCase())
+    .filter((pos) => BASE_POSITIONS.includes(pos) || pos === CAPTAIN_POSITION);
+};
+
+export const canFillSiteSlot = (positions: string[], slot: SiteSlotRule): boolean => {
+  return positions.some((pos) => slot.eligible.includes(pos));
+};
+
+/**
+ * Assigns players to the site's slots with a most-constrained-first backtracking
+ * search, so multi-position players are never stranded in the wrong slot.
+ * Players that cannot be placed are returned in `unassigned`.
+ */
+export const assignSiteSlots = <T extends { position: string }>(
+  players: T[],
+  rules: SiteRules,
+): { slotMap: Record<string, T>; unassigned: T[] } => {
+  const slots = rules.slots;
+  const eligibleByPlayer = players.map((player) => {
+    const positions = parseSitePositions(player.position);
+    return slots.map((slot, idx) => (canFillSiteSlot(positions, slot) ? idx : -1)).filter((idx) => idx >= 0);
+  });
+  const order = players
+    .map((_, idx) => idx)
+    .sort((a, b) => eligibleByPlayer[a].length - eligibleByPlayer[b].length);
+
+  const slotOwner = new Array<number>(slots.length).fill(-1);
+  let best = [...slotOwner];
+  let bestPlaced = 0;
+
+  const search = (k: number, placed: number): boolean => {
+    if (placed > bestPlaced) {
+      bestPlaced = placed;
+      best = [...slotOwner];
+    }
+    if (k >= order.length) return placed === order.length;
+    const playerIdx = order[k];
+    const eligible = eligibleByPlayer[playerIdx];
+    for (let i = 0; i < eligible.length; i++) {
+      const slotIdx = eligible[i];
+      if (slotOwner[slotIdx] !== -1) continue;
+      slotOwner[slotIdx] = playerIdx;
+      if (search(k + 1, placed + 1)) return true;
+      slotOwner[slotIdx] = -1;
+    }
+    // Leave this player unplaced and keep looking for the largest partial fit.
+    return search(k + 1, placed);
+  };
+
+  const complete = search(0, 0);
+  const finalOwners = complete ? slotOwner : best;
+  const slotMap: Record<string, T> = {};
+  const assigned = new Set<number>();
+  finalOwners.forEach((playerIdx, slotIdx) => {
+    if (playerIdx < 0) return;
+    slotMap[slots[slotIdx].key] = players[playerIdx];
+    assigned.add(playerIdx);
+  });
+  return { slotMap, unassigned: players.filter((_, idx) => !assigned.has(idx)) };
+};
+
+/**
+ * Returns a list of human-readable rule violations for a full lineup
+ * (roster size, cap, per-team limits, team/game diversity). Empty means valid.
+ */
+export const validateSiteLineup = (
+  players: Array<Pick<Player, 'id' | 'position' | 'salary' | 'team' | 'opponent'>>,
+  rules: SiteRules,
+): string[] => {
+  const errors: string[] = [];
+  if (players.length !== rules.slots.length) {
+    errors.push(`${rules.label} lineups need ${rules.slots.length} players (got ${players.length}).`);
+  }
+  const salary = players.reduce((sum, p) => sum + (Number(p.salary) || 0), 0);
+  if (salary > rules.salaryCap) {
+    errors.push(`Salary $${salary.toLocaleString()} exceeds the ${rules.label} cap of $${rules.salaryCap.toLocaleString()}.`);
+  }
+  const { unassigned } = assignSiteSlots(players, rules);
+  if (unassigned.length > 0) {
+    errors.push(`Players cannot fill the ${rules.label} roster slots: ${unassigned.map((p) => p.id).join(', ')}.`);
+  }
+
+  const teamCounts = new Map<string, number>();
+  const games = new Set<string>();
+  players.forEach((p) => {
+    const team = String(p.team || '').toUpperCase();
+    teamCounts.set(team, (teamCounts.get(team) || 0) + 1);
+    games.add([team, String(p.opponent || '').toUpperCase()].sort().join('_vs_'));
+  });
+  if (rules.maxPlayersPerTeam !== null) {
+    teamCounts.forEach((count, team) => {
+      if (count > (rules.maxPlayersPerTeam as number)) {
+        errors.push(`${count} players from ${team}; ${rules.label} allows at most ${rules.maxPlayersPerTeam}.`);
+      }
+    });
+  }
+  if (teamCounts.size < rules.minTeams) {
+    errors.push(`${rules.label} lineups need players from at least ${rules.minTeams} teams.`);
+  }
+  if (games.size < rules.minGames) {
+    errors.push(`${rules.label} lineups need players from at least ${rules.minGames} games.`);
+  }
+  if (rules.maxGames !== null && games.size > rules.maxGames) {
+    errors.push(`${rules.label} lineups must come from ${rules.maxGames === 1 ? 'a single game' : `at most ${rules.maxGames} games`}.`);
+  }
+  return errors;
+};
+
+export const scoreFantasyPoints = (
+  stats: { pts?: number; fg3m?: number; reb?: number; ast?: number; stl?: number; blk?: number; tov?: number },
+  rules: SiteRules,
+): number => {
+  const w = rules.scoring;
+  const pts = Number(stats.pts) || 0;
+  const reb = Number(stats.reb) || 0;
+  const ast = Number(stats.ast) || 0;
+  const stl = Number(stats.stl) || 0;
+  const blk = Number(stats.blk) || 0;
+  const doubleDigitCats = [pts, reb, ast, stl, blk].filter((v) => v >= 10).length;
+  let total =
+    pts * w.points +
+    (Number(stats.fg3m) || 0) * w.threePointersMade +
+    reb * w.rebounds +
+    ast * w.assists +
+    stl * w.steals +
+    blk * w.blocks +
+    (Number(stats.tov) || 0) * w.turnovers;
+  if (doubleDigitCats >= 2) total += w.doubleDouble;
+  if (doubleDigitCats >= 3) total += w.tripleDouble;
+  return total;
+};
+
+/**
+ * Builds entry-upload CSV rows (header first) in the site's format.
+ * `entries` rows carry metadata values in `metadataColumns` order plus the
+ * players in slot order; empty slots become empty cells.
+ */
+export const buildEntryCsvRows = (
+  entries: Array<{ metadata: string[]; players: Array<Pick<Player, 'id' | 'name'> | null> }>,
+  rules: SiteRules,
+): string[][] => {
+  const header = [...rules.entryCsv.metadataColumns, ...rules.entryCsv.slotHeaders];
+  const rows = entries.map((entry) => [
+    ...rules.entryCsv.metadataColumns.map((_, idx) => entry.metadata[idx] ?? ''),
+    ...rules.slots.map((_, idx) => {
+      const player = entry.players[idx];
+      return player ? rules.entryCsv.formatPlayer(player) : '';
+    }),
+  ]);
+  return [header, ...rows];
+};
+
+export const detectEntryCsvSite = (headerRow: string[]): DfsSite | null => {
+  const normalized = headerRow.map((cell) => String(cell || '').trim().toLowerCase());
+  if (normalized.includes('entry_id') || normalized.includes('contest_id')) return 'FanDuel';
+  if (normalized.includes('entry id')) return normalized.includes('cpt') ? 'DraftKingsShowdown' : 'DraftKings';
+  return null;
+};
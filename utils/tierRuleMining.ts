@@ -0,0 +1,251 @@
+// utils/tierRuleMining.ts
+// Re-derives the Slate Recommendations tiers from past slates with actuals.
+//
+// A "hit" is the same event the built-in rules in classifyPlayers.ts quote:
+// an actual score at least HIT_MARGIN points over projection. Hit rates are
+// counted per position × ownership band × usage band, each cell is tiered by
+// its lift over the position's baseline, and the built-in rules are re-scored
+// on the same players so the ones whose quoted rates no longer hold are flagged.
+
+import type { Player } from '../types';
+import { getPlayerActual } from './backtest';
+import {
+  ClassificationResult,
+  PosType,
+  RawPlayerRow,
+  TierType,
+  classifyPlayer,
+  normalizePosition,
+} from './classifyPlayers';
+
+export const HIT_MARGIN = 8;
+/** Cells (and built-in rules) with fewer players than this are not tiered or checked for drift. */
+export const MIN_RULE_SAMPLES = 20;
+/** A built-in rule has drifted when its observed hit rate is this far from the quoted one. */
+export const DRIFT_THRESHOLD = 0.1;
+
+const POSITIONS: PosType[] = ['PG', 'SG', 'SF', 'PF', 'C'];
+
+export interface RuleBand {
+  key: string;
+  label: string;
+  min: number;
+  /** Exclusive; null is open-ended. */
+  max: number | null;
+}
+
+export const OWNERSHIP_BANDS: RuleBand[] = [
+  { key: 'own_0_3', label: 'Own <3%', min: 0, max: 3 },
+  { key: 'own_3_7', label: 'Own 3–7%', min: 3, max: 7 },
+  { key: 'own_7_15', label: 'Own 7–15%', min: 7, max: 15 },
+  { key: 'own_15', label: 'Own 15%+', min: 15, max: null },
+];
+
+export const USAGE_BANDS: RuleBand[] = [
+  { key: 'usg_0_22', label: 'Usage <22%', min: 0, max: 22 },
+  { key: 'usg_22_28', label: 'Usage 22–28%', min: 22, max: 28 },
+  { key: 'usg_28_35', label: 'Usage 28–35%', min: 28, max: 35 },
+  { key: 'usg_35', label: 'Usage 35%+', min: 35, max: null },
+];
+
+const TIER_NAMES: Record<TierType, string> = {
+  ELITE: 'elite',
+  SWEET_SPOT: 'sweet spot',
+  BROAD: 'broad',
+  CAUTION: 'caution',
+  OVERUSE_WARNING: 'overuse',
+};
+
+export interface TierRuleSample {
+  date: string;
+  position: PosType;
+  ownership: number;
+  usage: number;
+  hit: boolean;
+}
+
+export interface TierRuleCell {
+  position: PosType;
+  ownershipBand: string;
+  usageBand: string;
+  count: number;
+  hits: number;
+  hitRate: number;
+  /** Hit rate over the position's baseline. */
+  lift: number;
+  tier: TierType | null;
+}
+
+export interface TierRuleTable {
+  generatedAt: string;
+  slateCount: number;
+  sampleCount: number;
+  baseline: number;
+  positionBaselines: Partial<Record<PosType, number>>;
+  cells: TierRuleCell[];
+  /** Built-in rules whose quoted hit rates these slates no longer support. */
+  drifted: TierRuleDrift[];
+}
+
+export interface TierRuleDrift {
+  position: PosType;
+  tier: TierType;
+  condition: string;
+  quotedRate: number;
+  observedRate: number;
+  count: number;
+}
+
+const toNum = (value: unknown): number | undefined => {
+  if (value === null || value === undefined || value === '') return undefined;
+  const n = Number(value);
+  return Number.isFinite(n) ? n : undefined;
+};
+
+const findBand = (bands: RuleBand[], value: number): RuleBand =>
+  bands.find((band) => value >= band.min && (band.max === null || value < band.max)) ?? bands[0];
+
+const pct = (rate: number) => `${Math.round(rate * 100)}%`;
+
+/** One sample per player with a projection, an actual score, ownership and usage. */
+export const buildTierRuleSamples = (players: Player[], date: string): TierRuleSample[] =>
+  players.flatMap((player) => {
+    const position = normalizePosition(String(player.position || ''));
+    const projection = toNum(player.projection) ?? 0;
+    const actual = getPlayerActual(player);
+    const ownership = toNum(player.ownership);
+    const usage = toNum(player.usageRate);
+    if (!position || projection <= 0 || actual === undefined || ownership === undefined || usage === undefined) return [];
+    return [{ date, position, ownership, usage, hit: actual >= projection + HIT_MARGIN }];
+  });
+
+const rateOf = (samples: TierRuleSample[]) =>
+  samples.length > 0 ? samples.filter((sample) => sample.hit).length / samples.length : 0;
+
+/**
+ * Tiers a cell by lift over its position's baseline. Players under 3% owned
+ * are never tiered, matching the built-in rules' ownership qualifier; high
+ * usage that still misses is overuse, and chalk that misses is caution.
+ */
+const tierForCell = (ownershipBand: RuleBand, usageBand: RuleBand, lift: number): TierType | null => {
+  if (ownershipBand.min < 3) return null;
+  if (usageBand.min >= 28 && lift <= 0.5) return 'OVERUSE_WARNING';
+  if (lift >= 2) return 'ELITE';
+  if (lift >= 1.5) return 'SWEET_SPOT';
+  if (lift >= 1.2) return 'BROAD';
+  if (ownershipBand.min >= 15 && lift <= 1) return 'CAUTION';
+  return null;
+};
+
+export const mineTierRules = (samples: TierRuleSample[]): TierRuleTable => {
+  const positionBaselines: Partial<Record<PosType, number>> = {};
+  POSITIONS.forEach((position) => {
+    const atPosition = samples.filter((sample) => sample.position === position);
+    if (atPosition.length > 0) positionBaselines[position] = rateOf(atPosition);
+  });
+  const baseline = rateOf(samples);
+
+  const cells: TierRuleCell[] = [];
+  POSITIONS.forEach((position) => {
+    OWNERSHIP_BANDS.forEach((ownershipBand) => {
+      USAGE_BANDS.forEach((usageBand) => {
+        const inCell = samples.filter((sample) => (
+          sample.position === position
+          && findBand(OWNERSHIP_BANDS, sample.ownership) === ownershipBand
+          && findBand(USAGE_BANDS, sample.usage) === usageBand
+        ));
+        if (inCell.length === 0) return;
+        const hits = inCell.filter((sample) => sample.hit).length;
+        const hitRate = hits / inCell.length;
+        const positionBaseline = positionBaselines[position] || baseline;
+        const lift = positionBaseline > 0 ? hitRate / positionBaseline : 0;
+        cells.push({
+          position,
+          ownershipBand: ownershipBand.key,
+          usageBand: usageBand.key,
+          count: inCell.length,
+          hits,
+          hitRate,
+          lift,
+          tier: inCell.length >= MIN_RULE_SAMPLES ? tierForCell(ownershipBand, usageBand, lift) : null,
+        });
+      });
+    });
+  });
+
+  return {
+    generatedAt: new Date().toISOString(),
+    slateCount: new Set(samples.map((sample) => sample.date)).size,
+    sampleCount: samples.length,
+    baseline,
+    positionBaselines,
+    cells,
+    drifted: findDriftedRules(samples),
+  };
+};
+
+const toRawRow = (sample: TierRuleSample): RawPlayerRow => ({
+  Player: '', Team: '', OPP: '', Pos: sample.position,
+  Salary: 0, Value: 0, Own: sample.ownership, Usage: sample.usage, Min: 0,
+  Proj: 0, Ceiling: 0, Floor: 0, Lev_Score: 0, Boom: null, Bust: null,
+});
+
+const parseQuotedRate = (historicalRate: string): number | undefined => {
+  const n = toNum(String(historicalRate).replace(/[~%\s]/g, ''));
+  return n === undefined ? undefined : n / 100;
+};
+
+/** Built-in rules whose hit rate on these players is DRIFT_THRESHOLD or more off the rate they quote. */
+export const findDriftedRules = (samples: TierRuleSample[]): TierRuleDrift[] => {
+  const byCondition = new Map<string, { position: PosType; rule: ClassificationResult; samples: TierRuleSample[] }>();
+  samples.forEach((sample) => {
+    const rule = classifyPlayer(toRawRow(sample), sample.position);
+    if (!rule) return;
+    const entry = byCondition.get(rule.condition) ?? { position: sample.position, rule, samples: [] };
+    entry.samples.push(sample);
+    byCondition.set(rule.condition, entry);
+  });
+
+  return Array.from(byCondition.values())
+    .flatMap(({ position, rule, samples: matched }) => {
+      const quotedRate = parseQuotedRate(rule.historicalRate);
+      if (quotedRate === undefined || matched.length < MIN_RULE_SAMPLES) return [];
+      const observedRate = rateOf(matched);
+      if (Math.abs(observedRate - quotedRate) < DRIFT_THRESHOLD) return [];
+      return [{ position, tier: rule.tier, condition: rule.condition, quotedRate, observedRate, count: matched.length }];
+    })
+    .sort((a, b) => Math.abs(b.observedRate - b.quotedRate) - Math.abs(a.observedRate - a.quotedRate));
+};
+
+const bandLabel = (bands: RuleBand[], key: string) => bands.find((band) => band.key === key)?.label ?? key;
+
+/**
+ * Classifies from a mined table. Cells with enough players decide the tier
+ * (including "no tier"); thinner cells fall back to the built-in rules.
+ */
+export function classifyWithRuleTable(
+  row: RawPlayerRow,
+  pos_primary: PosType,
+  table: TierRuleTable,
+): ClassificationResult | null {
+  const ownershipBand = findBand(OWNERSHIP_BANDS, row.Own);
+  const usageBand = findBand(USAGE_BANDS, row.Usage);
+  const cell = table.cells.find((item) => (
+    item.position === pos_primary && item.ownershipBand === ownershipBand.key && item.usageBand === usageBand.key
+  ));
+  if (!cell || cell.count < MIN_RULE_SAMPLES) return classifyPlayer(row, pos_primary);
+  if (!cell.tier) return null;
+
+  const positionBaseline = table.positionBaselines[pos_primary] ?? table.baseline;
+  return {
+    tier: cell.tier,
+    condition: `${ownershipBand.label} & ${usageBand.label} (${pos_primary} ${TIER_NAMES[cell.tier]})`,
+    historicalRate: `~${pct(cell.hitRate)}`,
+    posReasoning:
+      `${pos_primary}s in this band beat projection by ${HIT_MARGIN}+ pts ${cell.hits} of ${cell.count} times (${pct(cell.hitRate)}) ` +
+      `across ${table.slateCount} slates, against a ${pct(positionBaseline)} ${pos_primary} baseline.`,
+  };
+}
+
+export const describeRuleCell = (cell: TierRuleCell): string =>
+  `${bandLabel(OWNERSHIP_BANDS, cell.ownershipBand)} & ${bandLabel(USAGE_BANDS, cell.usageBand)}`;